@@ -0,0 +1,156 @@
+/**
+ * Authentication
+ * auth_request -> auth_challenge -> auth_verify, checked the way ClearNode does it: the wallet
+ * signs an EIP-712 Policy over the challenge and the auth_request fields, and gets a JWT back
+ * it can use to reconnect without signing again.
+ */
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { type Address, type Hex, isAddress, keccak256, recoverAddress, recoverTypedDataAddress, toHex } from "viem";
+import { RPCError } from "./rpc";
+
+// Same types as EIP712AuthTypes in @erc7824/nitrolite
+const POLICY_TYPES = {
+  Policy: [
+    { name: "challenge", type: "string" },
+    { name: "scope", type: "string" },
+    { name: "wallet", type: "address" },
+    { name: "application", type: "address" },
+    { name: "participant", type: "address" },
+    { name: "expire", type: "uint256" },
+    { name: "allowances", type: "Allowance[]" },
+  ],
+  Allowance: [
+    { name: "asset", type: "string" },
+    { name: "amount", type: "uint256" },
+  ],
+} as const;
+
+export interface AuthRequest {
+  address: Address;
+  sessionKey: Address;
+  appName: string;
+  expire: string; // Unix seconds
+  scope: string;
+  application: Address;
+  allowances: { asset: string; amount: string }[];
+}
+
+export interface JwtClaims {
+  address: Address;
+  sessionKey: Address;
+  scope: string;
+  application: Address;
+  exp: number; // Unix seconds
+}
+
+/**
+ * Check the auth_request params and keep what the Policy signature covers
+ */
+export function readAuthRequest(params: Record<string, any>): AuthRequest {
+  if (!isAddress(params.address ?? "") || !isAddress(params.session_key ?? "")) {
+    throw new RPCError("auth_request needs an address and a session_key");
+  }
+
+  return {
+    address: params.address,
+    sessionKey: params.session_key,
+    appName: String(params.app_name ?? ""),
+    expire: String(params.expire ?? "0"),
+    scope: String(params.scope ?? ""),
+    application: isAddress(params.application ?? "")
+      ? params.application
+      : "0x0000000000000000000000000000000000000000",
+    allowances: Array.isArray(params.allowances) ? params.allowances : [],
+  };
+}
+
+export function createChallenge(): string {
+  return randomUUID();
+}
+
+/**
+ * Whether the auth_verify signature is the requesting wallet's Policy signature over the challenge
+ */
+export async function verifyChallengeSignature(
+  request: AuthRequest,
+  challenge: string,
+  signature: string | undefined,
+): Promise<boolean> {
+  if (!signature) return false;
+
+  try {
+    const signer = await recoverTypedDataAddress({
+      domain: { name: request.appName },
+      types: POLICY_TYPES,
+      primaryType: "Policy",
+      message: {
+        challenge,
+        scope: request.scope,
+        wallet: request.address,
+        application: request.application,
+        participant: request.sessionKey,
+        expire: BigInt(request.expire),
+        allowances: request.allowances.map(allowance => ({
+          asset: allowance.asset,
+          amount: BigInt(allowance.amount),
+        })),
+      },
+      signature: signature as Hex,
+    });
+    return signer.toLowerCase() === request.address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a request is signed by the session key: raw ECDSA over the keccak256 of its payload,
+ * the way the SDK's createECDSAMessageSigner signs
+ */
+export async function verifyRequestSignature(
+  payload: string,
+  signature: string | undefined,
+  sessionKey: Address,
+): Promise<boolean> {
+  if (!signature) return false;
+
+  try {
+    const signer = await recoverAddress({ hash: keccak256(toHex(payload)), signature: signature as Hex });
+    return signer.toLowerCase() === sessionKey.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+
+/**
+ * HS256 JWT for the authenticated session
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+/**
+ * Claims of a JWT this server issued, or null if it is forged, malformed or expired
+ */
+export function verifyJwt(token: string, secret: string): JwtClaims | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  const expected = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+  const received = Buffer.from(signature, "base64url");
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as JwtClaims;
+    return claims.exp > Math.floor(Date.now() / 1000) ? claims : null;
+  } catch {
+    return null;
+  }
+}
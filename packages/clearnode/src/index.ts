@@ -0,0 +1,33 @@
+/**
+ * Starts the local ClearNode
+ *
+ * CLEARNODE_PORT        Port to listen on (default 8000)
+ * CLEARNODE_HOST        Interface to bind (default 127.0.0.1)
+ * CLEARNODE_JWT_SECRET  Secret JWTs are signed with; random per run if unset, so tokens do not
+ *                       survive a restart and clients fall back to signing a new challenge
+ */
+import { randomBytes } from "node:crypto";
+import { ClearNodeServer } from "./server";
+
+async function main() {
+  const server = new ClearNodeServer({
+    port: Number(process.env.CLEARNODE_PORT || 8000),
+    host: process.env.CLEARNODE_HOST || "127.0.0.1",
+    jwtSecret: process.env.CLEARNODE_JWT_SECRET || randomBytes(32).toString("hex"),
+  });
+
+  const url = await server.start();
+  console.log(`🟡 Local ClearNode listening on ${url}`);
+  console.log(`   Point the app at it with NEXT_PUBLIC_CLEARNODE_URL=${url}`);
+
+  const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+/**
+ * RPC framing
+ * Nitrolite messages wrap one array: requests as { req: [id, method, params, timestamp], sig }
+ * and responses or notifications as { res: [id, method, params, timestamp], sig }.
+ */
+
+export interface RPCRequest {
+  id: number;
+  method: string;
+  params: Record<string, any>;
+  timestamp: number;
+  payload: string; // The req array as JSON, which the signatures sign
+  signatures: string[];
+}
+
+// A failed request, answered with an "error" response
+export class RPCError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RPCError";
+  }
+}
+
+/**
+ * Read a request from a raw WebSocket message
+ * Returns null for messages that are not Nitrolite requests, like the app's heartbeat.
+ */
+export function parseRequest(raw: string): RPCRequest | null {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new RPCError("Invalid JSON");
+  }
+
+  if (!Array.isArray(message?.req)) {
+    return null;
+  }
+  if (message.req.length !== 4 || typeof message.req[1] !== "string") {
+    throw new RPCError("Invalid request format");
+  }
+
+  const [id, method, params, timestamp] = message.req;
+  return {
+    id: typeof id === "number" ? id : 0,
+    method,
+    params: params && typeof params === "object" ? params : {},
+    timestamp: typeof timestamp === "number" ? timestamp : Date.now(),
+    payload: JSON.stringify(message.req),
+    signatures: Array.isArray(message.sig) ? message.sig : [],
+  };
+}
+
+export function createResponse(id: number, method: string, params: Record<string, unknown>): string {
+  return JSON.stringify({ res: [id, method, params, Date.now()], sig: [] });
+}
+
+export function createErrorResponse(id: number, error: string): string {
+  return createResponse(id, "error", { error });
+}
@@ -0,0 +1,313 @@
+/**
+ * Local ClearNode
+ * A WebSocket server speaking the subset of the Nitrolite RPC the BatchPay app uses, for
+ * development and integration tests without access to Yellow Network.
+ *
+ * Supported: auth_request / auth_challenge / auth_verify (with JWT reconnects), create_app_session,
+ * submit_app_state, close_app_session, get_app_sessions, get_channels, get_ledger_balances, ping,
+ * and relaying of state updates and peer messages between the participants of an app session.
+ * Every request after authentication must be signed by the session key the wallet authorized.
+ */
+import { type AddressInfo } from "node:net";
+import { type Address } from "viem";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  type AuthRequest,
+  createChallenge,
+  readAuthRequest,
+  signJwt,
+  verifyChallengeSignature,
+  verifyJwt,
+  verifyRequestSignature,
+} from "./auth";
+import { RPCError, type RPCRequest, createErrorResponse, createResponse, parseRequest } from "./rpc";
+import { type AppSession, SessionStore } from "./sessions";
+
+// Messages the app sends between channel participants, relayed as they are
+const PEER_METHODS = [
+  "receipt_request",
+  "receipt_share",
+  "state_proposal",
+  "state_signature",
+  "state_rejection",
+  "state_signed",
+];
+
+export interface ClearNodeServerOptions {
+  port: number;
+  host?: string;
+  path?: string;
+  jwtSecret: string;
+  jwtTtl?: number; // Seconds
+  log?: (message: string) => void;
+}
+
+interface Connection {
+  address?: Address; // Lowercase wallet address once authenticated
+  sessionKey?: Address; // Signs the requests of this connection once authenticated
+  pendingAuth?: { request: AuthRequest; challenge: string };
+}
+
+export class ClearNodeServer {
+  private wss: WebSocketServer | null = null;
+  private connections = new Map<WebSocket, Connection>();
+  private sessions = new SessionStore();
+  private options: Required<ClearNodeServerOptions>;
+
+  constructor(options: ClearNodeServerOptions) {
+    this.options = {
+      host: "127.0.0.1",
+      path: "/ws",
+      jwtTtl: 24 * 60 * 60,
+      log: message => console.log(message),
+      ...options,
+    };
+  }
+
+  /**
+   * Start listening; resolves with the WebSocket URL clients should connect to
+   */
+  async start(): Promise<string> {
+    if (this.wss) {
+      throw new Error("ClearNode server already started");
+    }
+
+    const { host, port, path } = this.options;
+    const wss = new WebSocketServer({ host, port, path });
+    this.wss = wss;
+
+    await new Promise<void>((resolve, reject) => {
+      wss.once("listening", resolve);
+      wss.once("error", reject);
+    });
+
+    wss.on("connection", ws => {
+      this.connections.set(ws, {});
+      ws.on("message", data => {
+        this.handleMessage(ws, data.toString()).catch(error => {
+          this.options.log(`Unhandled error: ${error}`);
+        });
+      });
+      ws.on("close", () => this.connections.delete(ws));
+    });
+
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const wss = this.wss;
+    if (!wss) return;
+
+    this.wss = null;
+    this.connections.forEach((_, ws) => ws.terminate());
+    this.connections.clear();
+    await new Promise<void>((resolve, reject) => wss.close(error => (error ? reject(error) : resolve())));
+  }
+
+  get url(): string {
+    if (!this.wss) {
+      throw new Error("ClearNode server not started");
+    }
+    const { port } = this.wss.address() as AddressInfo;
+    return `ws://${this.options.host}:${port}${this.options.path}`;
+  }
+
+  private async handleMessage(ws: WebSocket, raw: string): Promise<void> {
+    let request: RPCRequest | null = null;
+    try {
+      request = parseRequest(raw);
+      if (!request) return; // Heartbeats and other non-RPC messages
+
+      this.options.log(`→ ${request.method}`);
+      await this.dispatch(ws, request);
+    } catch (error) {
+      const message = error instanceof RPCError ? error.message : "Internal error";
+      if (!(error instanceof RPCError)) {
+        this.options.log(`Error handling ${request?.method ?? "message"}: ${error}`);
+      }
+      ws.send(createErrorResponse(request?.id ?? 0, message));
+    }
+  }
+
+  private async dispatch(ws: WebSocket, request: RPCRequest): Promise<void> {
+    const { id, method, params } = request;
+
+    switch (method) {
+      case "auth_request":
+        return this.handleAuthRequest(ws, request);
+      case "auth_verify":
+        return this.handleAuthVerify(ws, request);
+      case "ping":
+        ws.send(createResponse(id, "pong", {}));
+        return;
+    }
+
+    const sender = this.requireAuthenticated(ws);
+    await this.requireSessionKeySignature(ws, request);
+
+    switch (method) {
+      case "create_app_session": {
+        const session = this.sessions.create(sender, params);
+        this.options.log(`Created app session ${session.id}`);
+        ws.send(createResponse(id, method, { app_session_id: session.id, version: session.version, status: "open" }));
+        return;
+      }
+      case "submit_app_state": {
+        const session = this.sessions.submit(sender, params);
+        ws.send(
+          createResponse(id, method, { app_session_id: session.id, version: session.version, status: session.status }),
+        );
+        // Without version and status, so the SDK parser leaves session_data for the app to read
+        this.relay(session, sender, method, {
+          app_session_id: params.app_session_id,
+          allocations: session.allocations,
+          session_data: session.sessionData,
+        });
+        return;
+      }
+      case "close_app_session": {
+        const session = this.sessions.close(sender, params);
+        ws.send(createResponse(id, method, { app_session_id: session.id, version: session.version, status: "closed" }));
+        return;
+      }
+      case "get_app_sessions": {
+        const participant = typeof params.participant === "string" ? params.participant : sender;
+        const sessions = this.sessions.listFor(participant.toLowerCase() as Address);
+        ws.send(createResponse(id, method, { app_sessions: sessions.map(formatSession) }));
+        return;
+      }
+      case "get_channels":
+        // No custody contract behind the stand-in, so there are never on-chain ledger channels
+        ws.send(createResponse(id, method, { channels: [] }));
+        return;
+      case "get_ledger_balances": {
+        const participant = typeof params.participant === "string" ? params.participant : sender;
+        const balances = this.sessions.balancesOf(participant.toLowerCase() as Address);
+        ws.send(createResponse(id, method, { ledger_balances: balances }));
+        return;
+      }
+    }
+
+    if (PEER_METHODS.includes(method)) {
+      const session = typeof params.app_session_id === "string" ? this.sessions.get(params.app_session_id) : undefined;
+      if (!session) {
+        throw new RPCError("App session not found");
+      }
+      if (typeof params.sender === "string" && params.sender.toLowerCase() !== sender) {
+        throw new RPCError("Sender does not match the authenticated address");
+      }
+      // No response to the sender: the app treats any message with these methods as incoming
+      this.relay(session, sender, method, { sender, ...params });
+      return;
+    }
+
+    throw new RPCError(`Unsupported method: ${method}`);
+  }
+
+  private handleAuthRequest(ws: WebSocket, { id, params }: RPCRequest): void {
+    const connection = this.connections.get(ws)!;
+    const request = readAuthRequest(params);
+    const challenge = createChallenge();
+
+    connection.pendingAuth = { request, challenge };
+    ws.send(createResponse(id, "auth_challenge", { challenge_message: challenge }));
+  }
+
+  private async handleAuthVerify(ws: WebSocket, { id, params, signatures }: RPCRequest): Promise<void> {
+    const connection = this.connections.get(ws)!;
+
+    // Reconnect with a JWT from an earlier auth_verify
+    if (typeof params.jwt === "string") {
+      const claims = verifyJwt(params.jwt, this.options.jwtSecret);
+      if (!claims) {
+        throw new RPCError("Invalid or expired JWT");
+      }
+      connection.address = claims.address.toLowerCase() as Address;
+      connection.sessionKey = claims.sessionKey;
+      ws.send(
+        createResponse(id, "auth_verify", { address: claims.address, session_key: claims.sessionKey, success: true }),
+      );
+      this.options.log(`Authenticated ${claims.address} with JWT`);
+      return;
+    }
+
+    const pending = connection.pendingAuth;
+    if (!pending || params.challenge !== pending.challenge) {
+      throw new RPCError("Unknown challenge");
+    }
+    connection.pendingAuth = undefined;
+
+    const { request } = pending;
+    if (!(await verifyChallengeSignature(request, pending.challenge, signatures[0]))) {
+      throw new RPCError("Invalid challenge signature");
+    }
+
+    const expire = Math.min(Number(request.expire) || Infinity, Math.floor(Date.now() / 1000) + this.options.jwtTtl);
+    const jwtToken = signJwt(
+      {
+        address: request.address,
+        sessionKey: request.sessionKey,
+        scope: request.scope,
+        application: request.application,
+        exp: expire,
+      },
+      this.options.jwtSecret,
+    );
+
+    connection.address = request.address.toLowerCase() as Address;
+    connection.sessionKey = request.sessionKey;
+    ws.send(
+      createResponse(id, "auth_verify", {
+        address: request.address,
+        session_key: request.sessionKey,
+        success: true,
+        jwt_token: jwtToken,
+      }),
+    );
+    this.options.log(`Authenticated ${request.address}`);
+  }
+
+  private requireAuthenticated(ws: WebSocket): Address {
+    const address = this.connections.get(ws)?.address;
+    if (!address) {
+      throw new RPCError("Not authenticated");
+    }
+    return address;
+  }
+
+  private async requireSessionKeySignature(ws: WebSocket, { payload, signatures }: RPCRequest): Promise<void> {
+    const sessionKey = this.connections.get(ws)?.sessionKey;
+    if (!sessionKey || !(await verifyRequestSignature(payload, signatures[0], sessionKey))) {
+      throw new RPCError("Invalid request signature");
+    }
+  }
+
+  /**
+   * Send a notification to every connection of the session's other participants
+   */
+  private relay(session: AppSession, sender: Address, method: string, params: Record<string, unknown>): void {
+    const recipients = new Set(this.sessions.recipients(session, sender));
+    const message = createResponse(0, method, params);
+
+    this.connections.forEach((connection, ws) => {
+      if (connection.address && recipients.has(connection.address) && ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    });
+  }
+}
+
+const formatSession = (session: AppSession) => ({
+  app_session_id: session.id,
+  status: session.status,
+  participants: session.participants,
+  protocol: session.protocol,
+  challenge: session.challenge,
+  weights: session.weights,
+  quorum: session.quorum,
+  version: session.version,
+  nonce: session.nonce,
+  created_at: new Date(session.createdAt).toISOString(),
+  updated_at: new Date(session.updatedAt).toISOString(),
+  session_data: session.sessionData,
+});
@@ -0,0 +1,227 @@
+/**
+ * App sessions and ledger
+ * In-memory bookkeeping for the stand-in: who is in which app session, its latest allocations
+ * and session data, and the unified ledger balances that closed sessions pay out to.
+ */
+import { type Address, formatUnits, keccak256, parseUnits, toHex } from "viem";
+import { RPCError } from "./rpc";
+
+// Decimals ledger amounts are kept in, enough for any asset the app uses
+const LEDGER_DECIMALS = 18;
+
+export interface Allocation {
+  participant: Address;
+  asset: string;
+  amount: string;
+}
+
+export interface AppSession {
+  id: string;
+  participants: Address[]; // Lowercase
+  protocol: string;
+  weights: number[];
+  quorum: number;
+  challenge: number;
+  nonce: number;
+  allocations: Allocation[];
+  sessionData?: string;
+  stateNonce: number; // Channel state nonce of the latest submit, from its session data
+  version: number;
+  status: "open" | "closed";
+  createdAt: number;
+  updatedAt: number;
+}
+
+const readAllocations = (value: unknown): Allocation[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map(allocation => {
+    if (typeof allocation?.participant !== "string" || typeof allocation?.asset !== "string") {
+      throw new RPCError("Invalid allocation");
+    }
+    const amount = String(allocation.amount ?? "0");
+    if (!/^-?\d+(\.\d+)?$/.test(amount)) {
+      throw new RPCError(`Invalid allocation amount: ${amount}`);
+    }
+    return { participant: allocation.participant as Address, asset: allocation.asset, amount };
+  });
+};
+
+// The app puts the nonce of the channel state it submits in the session data
+const readStateNonce = (sessionData: unknown): number => {
+  let nonce: unknown;
+  try {
+    nonce = typeof sessionData === "string" ? JSON.parse(sessionData)?.nonce : undefined;
+  } catch {
+    throw new RPCError("Invalid session_data");
+  }
+  if (typeof nonce !== "number" || !Number.isSafeInteger(nonce) || nonce < 1) {
+    throw new RPCError("session_data needs a positive integer state nonce");
+  }
+  return nonce;
+};
+
+export class SessionStore {
+  private sessions = new Map<string, AppSession>();
+  private ledger = new Map<Address, Map<string, bigint>>();
+
+  get(sessionId: string): AppSession | undefined {
+    return this.sessions.get(sessionId.toLowerCase());
+  }
+
+  /**
+   * Open a session from a create_app_session definition; its ID is derived from the definition
+   */
+  create(creator: Address, params: Record<string, any>): AppSession {
+    const definition = params.definition ?? {};
+    const participants: Address[] = Array.isArray(definition.participants)
+      ? definition.participants.map((participant: string) => participant.toLowerCase())
+      : [];
+    if (participants.length === 0) {
+      throw new RPCError("App definition has no participants");
+    }
+    if (!participants.includes(creator)) {
+      throw new RPCError("Only a participant can create the app session");
+    }
+
+    const id = keccak256(toHex(JSON.stringify(definition)));
+    if (this.sessions.has(id)) {
+      throw new RPCError("App session already exists");
+    }
+
+    const now = Date.now();
+    const session: AppSession = {
+      id,
+      participants,
+      protocol: String(definition.protocol ?? ""),
+      weights: Array.isArray(definition.weights) ? definition.weights : [],
+      quorum: Number(definition.quorum ?? 0),
+      challenge: Number(definition.challenge ?? 0),
+      nonce: Number(definition.nonce ?? now),
+      allocations: readAllocations(params.allocations),
+      stateNonce: 0,
+      version: 1,
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Record a submit_app_state
+   * Each submit must carry a state nonce greater than the last one, so a stale or replayed
+   * state never replaces a newer one. The app keys its sessions by on-chain channel ID, which
+   * it never registers with create_app_session, so an unknown session is adopted with the
+   * allocation participants, under the same checks. Only the channel creator, whom the app
+   * lists first, may open it that way; the others wait until it exists.
+   */
+  submit(sender: Address, params: Record<string, any>): AppSession {
+    if (typeof params.app_session_id !== "string") {
+      throw new RPCError("Missing app_session_id");
+    }
+    const allocations = readAllocations(params.allocations);
+    const stateNonce = readStateNonce(params.session_data);
+    let session = this.get(params.app_session_id);
+    const adopted = !session;
+
+    if (!session) {
+      const now = Date.now();
+      session = {
+        id: params.app_session_id.toLowerCase(),
+        participants: [...new Set(allocations.map(allocation => allocation.participant.toLowerCase() as Address))],
+        protocol: "",
+        weights: [],
+        quorum: 0,
+        challenge: 0,
+        nonce: now,
+        allocations: [],
+        stateNonce: 0,
+        version: 0,
+        status: "open",
+        createdAt: now,
+        updatedAt: now,
+      };
+    }
+
+    if (adopted && session.participants[0] !== sender) {
+      throw new RPCError("App session not found; only the channel creator can open it");
+    }
+    this.requireParticipant(session, sender);
+    if (session.status !== "open") {
+      throw new RPCError("App session is closed");
+    }
+    if (stateNonce <= session.stateNonce) {
+      throw new RPCError(`State nonce ${stateNonce} is not newer than ${session.stateNonce}`);
+    }
+
+    if (adopted) {
+      this.sessions.set(session.id, session);
+    }
+    session.stateNonce = stateNonce;
+    session.allocations = allocations.length > 0 ? allocations : session.allocations;
+    session.sessionData = params.session_data;
+    session.version += 1;
+    session.updatedAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Close a session and credit its final allocations to the participants' ledger balances
+   * Without allocations in the request the latest submitted ones are used.
+   */
+  close(sender: Address, params: Record<string, any>): AppSession {
+    const session = typeof params.app_session_id === "string" ? this.get(params.app_session_id) : undefined;
+    if (!session) {
+      throw new RPCError("App session not found");
+    }
+    this.requireParticipant(session, sender);
+    if (session.status !== "open") {
+      throw new RPCError("App session is already closed");
+    }
+
+    const allocations = readAllocations(params.allocations);
+    if (allocations.length > 0) {
+      session.allocations = allocations;
+    }
+    session.allocations.forEach(allocation => this.credit(allocation));
+
+    session.status = "closed";
+    session.version += 1;
+    session.updatedAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Relay recipients: everyone in the session except the sender
+   */
+  recipients(session: AppSession, sender: Address): Address[] {
+    this.requireParticipant(session, sender);
+    return session.participants.filter(participant => participant !== sender);
+  }
+
+  listFor(participant: Address): AppSession[] {
+    return [...this.sessions.values()].filter(session => session.participants.includes(participant));
+  }
+
+  balancesOf(participant: Address): { asset: string; amount: string }[] {
+    return [...(this.ledger.get(participant)?.entries() ?? [])].map(([asset, amount]) => ({
+      asset,
+      amount: formatUnits(amount, LEDGER_DECIMALS),
+    }));
+  }
+
+  private credit(allocation: Allocation): void {
+    const participant = allocation.participant.toLowerCase() as Address;
+    const balances = this.ledger.get(participant) ?? new Map<string, bigint>();
+    const amount = parseUnits(allocation.amount, LEDGER_DECIMALS);
+    balances.set(allocation.asset, (balances.get(allocation.asset) ?? 0n) + amount);
+    this.ledger.set(participant, balances);
+  }
+
+  private requireParticipant(session: AppSession, sender: Address): void {
+    if (!session.participants.includes(sender)) {
+      throw new RPCError("Not a participant of this app session");
+    }
+  }
+}
@@ -0,0 +1,584 @@
+import "fake-indexeddb/auto";
+import { type AddressInfo } from "net";
+import { type Address, createWalletClient, custom, keccak256, toHex, zeroAddress, zeroHash } from "viem";
+import { type PrivateKeyAccount, generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+import { signJwt } from "../src/auth";
+import { ClearNodeServer } from "../src/server";
+import { ClearNodeService, type RelayedMessage, type StateUpdatePayload } from "~~/services/clearnode";
+import { outboxStore } from "~~/services/outboxStore";
+import { StateChannelClient } from "~~/services/stateChannelClient";
+import { createAddedExpense, createExpense } from "~~/test/fixtures";
+import { calculateChannelBalances } from "~~/utils/expenseSplit";
+
+// Channels are read from BatchPayChannel through the wagmi config's client
+const { readContract } = vi.hoisted(() => ({ readContract: vi.fn() }));
+vi.mock("~~/services/web3/wagmiConfig", () => ({ wagmiConfig: { getClient: () => ({ readContract }) } }));
+
+// The service runs in the browser; give it the WebSocket it expects there
+globalThis.WebSocket = WebSocket as unknown as typeof globalThis.WebSocket;
+
+// Sessions outlive a test on the shared server, so every test uses channels of its own
+const newChannelId = () => generatePrivateKey().toLowerCase();
+
+// Local accounts sign without a node behind the client
+const createWallet = () =>
+  createWalletClient({
+    account: privateKeyToAccount(generatePrivateKey()),
+    transport: custom({
+      request: async () => {
+        throw new Error("No RPC node in these tests");
+      },
+    }),
+  });
+
+type Wallet = ReturnType<typeof createWallet>;
+
+// A bare WebSocket endpoint that never answers like ClearNode does, for the failure paths
+const startRawServer = async (onMessage: (socket: WebSocket) => void) => {
+  const raw = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise(resolve => raw.once("listening", resolve));
+  raw.on("connection", socket => socket.on("message", () => onMessage(socket)));
+  return {
+    endpoint: `ws://127.0.0.1:${(raw.address() as AddressInfo).port}`,
+    close: () => new Promise(resolve => raw.close(resolve)),
+  };
+};
+type AppDefinition = Parameters<ClearNodeService["createAppSession"]>[0]["definition"];
+type RelayedMessageOf<M extends RelayedMessage["method"]> = Extract<RelayedMessage, { method: M }>;
+
+describe("ClearNodeService against the local ClearNode", () => {
+  let server: ClearNodeServer;
+  let endpoint: string;
+  const services: ClearNodeService[] = [];
+
+  // An authenticated client for a wallet, closed after the test
+  const connect = async (wallet: Wallet) => {
+    const service = new ClearNodeService({ endpoint, timeout: 5000 });
+    services.push(service);
+    await service.connect();
+    await service.authenticate(wallet.account.address, wallet);
+    return service;
+  };
+
+  // The next relayed message a client receives with the given method
+  const nextRelayed = <M extends RelayedMessage["method"]>(service: ClearNodeService, method: M) =>
+    new Promise<RelayedMessageOf<M>>(resolve => {
+      const unsubscribe = service.onRelayedMessage(message => {
+        if (message.method !== method) return;
+        unsubscribe();
+        resolve(message as RelayedMessageOf<M>);
+      });
+    });
+
+  const stateUpdate = (channelId: string, participants: Address[], nonce: number, variant = 0): StateUpdatePayload => ({
+    channelId,
+    nonce,
+    stateHash: `0x${variant.toString(16).padStart(32, "0")}${nonce.toString(16).padStart(32, "0")}`,
+    expensesRoot: `0x${"00".repeat(32)}`,
+    balances: ["5", "-5"],
+    participants,
+    expenses: [createExpense(`expense-${nonce}`)],
+    recurringExpenses: [],
+    operations: [],
+    timestamp: Date.now(),
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    server = new ClearNodeServer({ port: 0, jwtSecret: "test-secret", log: () => undefined });
+    endpoint = await server.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map(service => service.disconnect()));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("authenticates a wallet through a session key it authorizes once", async () => {
+    const wallet = createWallet();
+    const signTypedData = vi.spyOn(wallet, "signTypedData");
+
+    const service = await connect(wallet);
+
+    expect(service.getStatus()).toMatchObject({ isConnected: true, isAuthenticated: true });
+    expect(service.getParticipantAddress()).toBe(wallet.account.address);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+
+    // A second client for the same wallet resumes the stored key with its JWT
+    await connect(wallet);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it("creates an app session for its participants", async () => {
+    const alice = createWallet();
+    const bob = createWallet();
+    const aliceService = await connect(alice);
+    const bobService = await connect(bob);
+
+    const { appSessionId } = await aliceService.createAppSession({
+      definition: {
+        protocol: "NitroRPC/0.2" as AppDefinition["protocol"],
+        participants: [alice.account.address, bob.account.address],
+        weights: [50, 50],
+        quorum: 100,
+        challenge: 0,
+        nonce: Date.now(),
+      },
+      allocations: [],
+    });
+
+    const sessions = await bobService.getAppSessions();
+    expect(sessions.map(session => session.appSessionId)).toContain(appSessionId);
+  });
+
+  it("relays a submitted state update to the other participant", async () => {
+    const alice = createWallet();
+    const bob = createWallet();
+    const aliceService = await connect(alice);
+    const bobService = await connect(bob);
+    const participants = [alice.account.address, bob.account.address];
+
+    const channelId = newChannelId();
+
+    const received = nextRelayed(bobService, "state_update");
+    expect(await aliceService.sendStateUpdate(stateUpdate(channelId, participants, 1))).toBe("sent");
+
+    const relayed = await received;
+    expect(relayed.channelId).toBe(channelId);
+    const { data } = relayed;
+    expect(data).toMatchObject({ nonce: 1, expenses: [{ id: "expense-1" }] });
+    expect(data.participants.map((participant: string) => participant.toLowerCase())).toEqual(
+      participants.map(participant => participant.toLowerCase()),
+    );
+  });
+
+  it("relays peer messages, but only within the app session", async () => {
+    const alice = createWallet();
+    const bob = createWallet();
+    const carol = createWallet();
+    const aliceService = await connect(alice);
+    const bobService = await connect(bob);
+    const carolService = await connect(carol);
+    const channelId = newChannelId();
+    await aliceService.sendStateUpdate(stateUpdate(channelId, [alice.account.address, bob.account.address], 1));
+
+    const received = nextRelayed(bobService, "state_proposal");
+    const carolListener = vi.fn();
+    carolService.onRelayedMessage(carolListener);
+    await aliceService.sendPeerMessage("state_proposal", channelId, { nonce: 2 });
+
+    expect(await received).toMatchObject({
+      method: "state_proposal",
+      channelId,
+      data: { nonce: 2, sender: alice.account.address },
+    });
+    expect(carolListener).not.toHaveBeenCalled();
+    await expect(carolService.sendStateUpdate(stateUpdate(channelId, [alice.account.address], 9))).rejects.toThrow(
+      "Not a participant of this app session",
+    );
+  });
+
+  describe("session keys", () => {
+    it("signs requests with the session key instead of prompting the wallet", async () => {
+      const alice = createWallet();
+      const bob = createWallet();
+      const signTypedData = vi.spyOn(alice, "signTypedData");
+      const signMessage = vi.spyOn(alice, "signMessage");
+      const aliceService = await connect(alice);
+      const channelId = newChannelId();
+
+      await aliceService.sendStateUpdate(stateUpdate(channelId, [alice.account.address, bob.account.address], 1));
+      await aliceService.sendPeerMessage("state_proposal", channelId, { nonce: 2 });
+
+      expect(signTypedData).toHaveBeenCalledTimes(1);
+      expect(signMessage).not.toHaveBeenCalled();
+      expect(aliceService.getStatus().sessionKey).not.toBe(alice.account.address);
+    });
+
+    it("revokes the stored key on disconnect, so the next session asks the wallet again", async () => {
+      const wallet = createWallet();
+      const signTypedData = vi.spyOn(wallet, "signTypedData");
+      const first = await connect(wallet);
+      const firstKey = first.getStatus().sessionKey;
+
+      await first.disconnect();
+      const second = await connect(wallet);
+
+      expect(signTypedData).toHaveBeenCalledTimes(2);
+      expect(second.getStatus().sessionKey).not.toBe(firstKey);
+    });
+
+    it("rotates the key shortly before it expires", async () => {
+      const wallet = createWallet();
+      const signTypedData = vi.spyOn(wallet, "signTypedData");
+      // Due for rotation a second after it is authorized
+      const service = new ClearNodeService({ endpoint, timeout: 5000, sessionKeyTtl: 5 * 60 + 1 });
+      services.push(service);
+      await service.connect();
+      await service.authenticate(wallet.account.address, wallet);
+      const firstKey = service.getStatus().sessionKey;
+
+      await vi.waitFor(() => expect(service.getStatus().sessionKey).not.toBe(firstKey), { timeout: 3000 });
+
+      expect(signTypedData).toHaveBeenCalledTimes(2);
+      expect(service.getStatus()).toMatchObject({ isAuthenticated: true });
+      expect(await service.sendStateUpdate(stateUpdate(newChannelId(), [wallet.account.address], 1))).toBe("sent");
+    });
+  });
+
+  describe("request correlation", () => {
+    it("settles concurrent requests with their own responses", async () => {
+      const alice = createWallet();
+      const bob = createWallet();
+      const participants = [alice.account.address, bob.account.address];
+      const stale = newChannelId();
+      const fresh = newChannelId();
+      const bobService = await connect(bob);
+      // Bob opened the channel, so he is listed first
+      await bobService.sendStateUpdate(stateUpdate(stale, [...participants].reverse(), 5));
+      const aliceService = await connect(alice);
+
+      const [rejected, sent, sessions] = await Promise.allSettled([
+        aliceService.sendStateUpdate(stateUpdate(stale, participants, 4)),
+        aliceService.sendStateUpdate(stateUpdate(fresh, participants, 1)),
+        aliceService.getAppSessions(),
+      ]);
+
+      expect(rejected).toMatchObject({
+        status: "rejected",
+        reason: { code: "rpc_error", message: "submit_app_state failed: State nonce 4 is not newer than 5" },
+      });
+      expect(sent).toEqual({ status: "fulfilled", value: "sent" });
+      expect(sessions).toMatchObject({ status: "fulfilled", value: expect.any(Array) });
+    });
+
+    it("rejects with a typed error when ClearNode answers with one", async () => {
+      const alice = createWallet();
+      const bob = createWallet();
+      const channelId = newChannelId();
+      const aliceService = await connect(alice);
+      await aliceService.sendStateUpdate(stateUpdate(channelId, [alice.account.address, bob.account.address], 1));
+      const carolService = await connect(createWallet());
+
+      await expect(
+        carolService.sendStateUpdate(stateUpdate(channelId, [alice.account.address], 2)),
+      ).rejects.toMatchObject({
+        name: "ClearNodeError",
+        code: "rpc_error",
+        message: "submit_app_state failed: Not a participant of this app session",
+      });
+    });
+
+    it("times out a request ClearNode never answers", async () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      const silent = await startRawServer(() => undefined);
+      const service = new ClearNodeService({ endpoint: silent.endpoint, timeout: 200 });
+      services.push(service);
+      const wallet = createWallet();
+
+      await service.connect();
+      await expect(service.authenticate(wallet.account.address, wallet)).rejects.toMatchObject({
+        code: "timeout",
+        message: "auth_request timed out after 200ms",
+      });
+
+      await service.disconnect();
+      await silent.close();
+      consoleError.mockRestore();
+    });
+
+    it("fails a pending request when the connection drops", async () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      const dropping = await startRawServer(socket => socket.terminate());
+      const service = new ClearNodeService({ endpoint: dropping.endpoint, timeout: 5000 });
+      services.push(service);
+      const wallet = createWallet();
+
+      await service.connect();
+      await expect(service.authenticate(wallet.account.address, wallet)).rejects.toMatchObject({
+        code: "connection_closed",
+      });
+
+      await service.disconnect();
+      await dropping.close();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("request signatures", () => {
+    // Send a raw request and wait for the method and params of the answer
+    const sendRaw = (socket: WebSocket, req: unknown[], sig: string[]) =>
+      new Promise<{ method: string; params: unknown }>(resolve => {
+        socket.once("message", data => {
+          const [, method, params] = JSON.parse(data.toString()).res;
+          resolve({ method, params });
+        });
+        socket.send(JSON.stringify({ req, sig }));
+      });
+
+    // A connection that resumes a wallet's session with a JWT, to send requests the service never would
+    const resumeRaw = async (sessionKey: PrivateKeyAccount) => {
+      const socket = new WebSocket(endpoint);
+      await new Promise(resolve => socket.once("open", resolve));
+      const jwt = signJwt(
+        {
+          address: privateKeyToAccount(generatePrivateKey()).address,
+          sessionKey: sessionKey.address,
+          scope: "",
+          application: zeroAddress,
+          exp: Math.floor(Date.now() / 1000) + 60,
+        },
+        "test-secret",
+      );
+      await sendRaw(socket, [1, "auth_verify", { jwt }, Date.now()], []);
+      return socket;
+    };
+
+    const sign = (account: PrivateKeyAccount, req: unknown[]) =>
+      account.sign({ hash: keccak256(toHex(JSON.stringify(req))) });
+
+    it("only answers requests signed by the session key of the connection", async () => {
+      const sessionKey = privateKeyToAccount(generatePrivateKey());
+      const socket = await resumeRaw(sessionKey);
+      const req = [2, "get_app_sessions", {}, Date.now()];
+      const rejected = { method: "error", params: { error: "Invalid request signature" } };
+
+      expect(await sendRaw(socket, req, [])).toEqual(rejected);
+      expect(await sendRaw(socket, req, [await sign(privateKeyToAccount(generatePrivateKey()), req)])).toEqual(
+        rejected,
+      );
+      expect(await sendRaw(socket, req, [await sign(sessionKey, req)])).toEqual({
+        method: "get_app_sessions",
+        params: { app_sessions: [] },
+      });
+      socket.close();
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("describe the authenticated connection without its secrets", async () => {
+      const wallet = createWallet();
+      const service = await connect(wallet);
+
+      const diagnostics = service.getDiagnostics();
+
+      expect(diagnostics).toMatchObject({
+        connectionState: "authenticated",
+        endpoint,
+        participantAddress: wallet.account.address,
+        pendingRequests: [],
+        reconnectAttempts: 0,
+      });
+      expect(diagnostics.authExpiresAt).toBeGreaterThan(Date.now() / 1000);
+      expect(diagnostics).not.toHaveProperty("jwtToken");
+      expect(JSON.stringify(diagnostics)).not.toContain(service.getStatus().jwtToken);
+    });
+
+    it("never print the JWT to the console", async () => {
+      const service = await connect(createWallet());
+
+      const printed = vi.mocked(console.log).mock.calls.map(args => JSON.stringify(args));
+
+      expect(printed.join("\n")).not.toContain(service.getStatus().jwtToken);
+    });
+
+    it("log the shape of each RPC message but none of its values", async () => {
+      const wallet = createWallet();
+      const service = await connect(wallet);
+
+      const { rpcLog } = service.getDiagnostics();
+
+      const authRequest = rpcLog.find(entry => entry.direction === "sent" && entry.method === "auth_request");
+      expect(authRequest).toMatchObject({
+        requestId: expect.any(Number),
+        paramKeys: expect.arrayContaining(["address"]),
+      });
+      expect(rpcLog.some(entry => entry.direction === "received" && entry.method === "auth_verify")).toBe(true);
+      expect(JSON.stringify(rpcLog)).not.toContain(wallet.account.address.slice(2).toLowerCase());
+    });
+
+    it("list requests still waiting for a response", async () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      const silent = await startRawServer(() => undefined);
+      const service = new ClearNodeService({ endpoint: silent.endpoint, timeout: 200 });
+      services.push(service);
+      const wallet = createWallet();
+      await service.connect();
+
+      const authenticating = service.authenticate(wallet.account.address, wallet).catch(error => error);
+      await vi.waitFor(() => expect(service.getDiagnostics().pendingRequests).toHaveLength(1));
+
+      expect(service.getDiagnostics().pendingRequests[0]).toMatchObject({ method: "auth_request" });
+      expect(await authenticating).toMatchObject({ code: "timeout" });
+      expect(service.getDiagnostics()).toMatchObject({
+        pendingRequests: [],
+        lastError: "auth_request timed out after 200ms",
+      });
+
+      await service.disconnect();
+      await silent.close();
+      consoleError.mockRestore();
+    });
+
+    it("keep the last error ClearNode answered with", async () => {
+      const alice = createWallet();
+      const channelId = newChannelId();
+      const aliceService = await connect(alice);
+      await aliceService.sendStateUpdate(stateUpdate(channelId, [alice.account.address], 2));
+
+      await expect(aliceService.sendStateUpdate(stateUpdate(channelId, [alice.account.address], 1))).rejects.toThrow();
+
+      expect(aliceService.getDiagnostics().lastError).toBe(
+        "submit_app_state failed: State nonce 1 is not newer than 2",
+      );
+    });
+  });
+
+  describe("outbox replay", () => {
+    // Queue a state update the way the service does while it is offline
+    const queue = (wallet: Wallet, update: StateUpdatePayload) =>
+      outboxStore.add({
+        kind: "state_update",
+        participant: wallet.account.address.toLowerCase(),
+        channelId: update.channelId,
+        nonce: update.nonce,
+        stateHash: update.stateHash,
+        payload: update,
+      });
+
+    const outboxOf = (wallet: Wallet) => outboxStore.getAll(wallet.account.address);
+
+    it("drops queued updates ClearNode is past as conflicts, and replays the newer ones", async () => {
+      const alice = createWallet();
+      const bob = createWallet();
+      const participants = [alice.account.address, bob.account.address];
+      const channelId = newChannelId();
+      const bobService = await connect(bob);
+      // While Alice was offline, Bob's update took nonce 2 on the channel he opened
+      await bobService.sendStateUpdate(stateUpdate(channelId, [...participants].reverse(), 2, 1));
+      await queue(alice, stateUpdate(channelId, participants, 1));
+      await queue(alice, stateUpdate(channelId, participants, 2));
+      await queue(alice, stateUpdate(channelId, participants, 3));
+
+      const received = nextRelayed(bobService, "state_update");
+      const aliceService = new ClearNodeService({ endpoint, timeout: 5000 });
+      services.push(aliceService);
+      const conflicts: RelayedMessageOf<"outbox_conflict">[] = [];
+      aliceService.onRelayedMessage(message => {
+        if (message.method === "outbox_conflict") conflicts.push(message);
+      });
+      await aliceService.connect();
+      await aliceService.authenticate(alice.account.address, alice);
+
+      expect((await received).data).toMatchObject({ nonce: 3 });
+      await vi.waitFor(async () => expect(await outboxOf(alice)).toEqual([]));
+      expect(conflicts.map(({ channelId, data }) => ({ channelId, nonce: data.nonce }))).toEqual([
+        { channelId, nonce: 1 },
+        { channelId, nonce: 2 },
+      ]);
+      expect(conflicts[1].data).toMatchObject({ acknowledgedNonce: 2 });
+    });
+
+    it("drops queued updates ClearNode already has from us without a conflict", async () => {
+      const alice = createWallet();
+      const bob = createWallet();
+      const participants = [alice.account.address, bob.account.address];
+      const channelId = newChannelId();
+      const aliceService = await connect(alice);
+      // Delivered, but the connection dropped before they left the outbox
+      await aliceService.sendStateUpdate(stateUpdate(channelId, participants, 1));
+      await aliceService.sendStateUpdate(stateUpdate(channelId, participants, 2));
+      await queue(alice, stateUpdate(channelId, participants, 1));
+      await queue(alice, stateUpdate(channelId, participants, 2));
+
+      const resumed = new ClearNodeService({ endpoint, timeout: 5000 });
+      services.push(resumed);
+      const conflicts = vi.fn();
+      resumed.onRelayedMessage(message => {
+        if (message.method === "outbox_conflict") conflicts(message);
+      });
+      await resumed.connect();
+      await resumed.authenticate(alice.account.address, alice);
+
+      await vi.waitFor(async () => expect(await outboxOf(alice)).toEqual([]));
+      expect(conflicts).not.toHaveBeenCalled();
+    });
+
+    it("has ClearNode reject a state update older than the one it holds", async () => {
+      const alice = createWallet();
+      const bob = createWallet();
+      const participants = [alice.account.address, bob.account.address];
+      const channelId = newChannelId();
+      const bobService = await connect(bob);
+      // Bob opened the channel, so he is listed first
+      await bobService.sendStateUpdate(stateUpdate(channelId, [...participants].reverse(), 5));
+      const aliceService = await connect(alice);
+
+      await expect(aliceService.sendStateUpdate(stateUpdate(channelId, participants, 4))).rejects.toThrow(
+        "State nonce 4 is not newer than 5",
+      );
+    });
+  });
+  describe("concurrent state updates", () => {
+    // A state channel client for a wallet, with the channel loaded
+    const openClient = async (wallet: Wallet, channelId: string) => {
+      const client = new StateChannelClient(await connect(wallet));
+      client.setMessageSigner(async () => "0x");
+      await client.loadChannel(channelId);
+      return client;
+    };
+
+    // Add an expense the way the app does, sending the balances of the expense list it sees
+    const addExpense = (client: StateChannelClient, channelId: string, paidBy: Address) => {
+      const channel = client.getChannel(channelId)!;
+      const participants = channel.participants.map(p => p.address);
+      const expenses = [
+        ...channel.expenses,
+        createAddedExpense(`${paidBy}-${channel.nonce + 1}`, { paidBy, participants }, channel.nonce + 1),
+      ];
+      return client.updateChannelState(channelId, calculateChannelBalances(participants, expenses), expenses);
+    };
+
+    it("rebases the update ClearNode rejects for a newer state at its nonce, keeping both expenses", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => undefined);
+      const alice = createWallet();
+      const bob = createWallet();
+      const participants = [alice.account.address, bob.account.address];
+      readContract.mockResolvedValue([participants, 0n, 0n, 0n, true, false, 31337n, zeroHash]);
+      const channelId = newChannelId();
+      const aliceClient = await openClient(alice, channelId);
+      const bobClient = await openClient(bob, channelId);
+
+      // Alice opens the app session with a first expense
+      await addExpense(aliceClient, channelId, alice.account.address);
+      await vi.waitFor(() => expect(bobClient.getChannel(channelId)!.nonce).toBe(1));
+
+      // Both add an expense on top of state #1; ClearNode takes whichever arrives first
+      await Promise.all([
+        addExpense(aliceClient, channelId, alice.account.address),
+        addExpense(bobClient, channelId, bob.account.address),
+      ]);
+
+      const expenseIds = (client: StateChannelClient) =>
+        client
+          .getChannel(channelId)!
+          .expenses.map(expense => expense.id)
+          .sort();
+      await vi.waitFor(() => {
+        expect(aliceClient.getChannel(channelId)!.nonce).toBe(3);
+        expect(bobClient.getChannel(channelId)!.nonce).toBe(3);
+      });
+      expect(expenseIds(aliceClient)).toEqual(
+        [`${alice.account.address}-1`, `${alice.account.address}-2`, `${bob.account.address}-2`].sort(),
+      );
+      expect(expenseIds(bobClient)).toEqual(expenseIds(aliceClient));
+      expect(bobClient.getChannel(channelId)!.stateHash).toBe(aliceClient.getChannel(channelId)!.stateHash);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { type Address } from "viem";
+import { describe, expect, it } from "vitest";
+import { SessionStore } from "../src/sessions";
+
+const ALICE = "0x00000000000000000000000000000000000000a1" as Address;
+const BOB = "0x00000000000000000000000000000000000000b2" as Address;
+const CAROL = "0x00000000000000000000000000000000000000c3" as Address;
+const CHANNEL_ID = `0x${"ab".repeat(32)}`;
+
+const submitParams = (nonce: unknown, participants: Address[] = [ALICE, BOB]) => ({
+  app_session_id: CHANNEL_ID,
+  allocations: participants.map(participant => ({ participant, asset: "usdc", amount: "0" })),
+  session_data: JSON.stringify({ nonce, stateHash: `0x${String(nonce)}`, expenses: [] }),
+});
+
+describe("SessionStore.submit", () => {
+  it("adopts an unknown session and accepts increasing nonces", () => {
+    const store = new SessionStore();
+
+    store.submit(ALICE, submitParams(1));
+    const session = store.submit(BOB, submitParams(3));
+
+    expect(session).toMatchObject({ participants: [ALICE, BOB], stateNonce: 3, version: 2 });
+  });
+
+  it("rejects a nonce that is not greater than the stored one", () => {
+    const store = new SessionStore();
+    store.submit(ALICE, submitParams(2));
+
+    expect(() => store.submit(BOB, submitParams(2))).toThrow("State nonce 2 is not newer than 2");
+    expect(() => store.submit(BOB, submitParams(1))).toThrow("State nonce 1 is not newer than 2");
+    expect(JSON.parse(store.get(CHANNEL_ID)!.sessionData!).nonce).toBe(2);
+  });
+
+  it("rejects a submit without a state nonce, even for an unknown session", () => {
+    const store = new SessionStore();
+
+    expect(() => store.submit(ALICE, submitParams(undefined))).toThrow(
+      "session_data needs a positive integer state nonce",
+    );
+    expect(() => store.submit(ALICE, { ...submitParams(1), session_data: "{" })).toThrow("Invalid session_data");
+    expect(store.get(CHANNEL_ID)).toBeUndefined();
+  });
+
+  it("only lets the channel creator, listed first, open an unknown session", () => {
+    const store = new SessionStore();
+
+    expect(() => store.submit(CAROL, submitParams(1))).toThrow("only the channel creator can open it");
+    expect(() => store.submit(BOB, submitParams(1))).toThrow("only the channel creator can open it");
+    expect(store.get(CHANNEL_ID)).toBeUndefined();
+    expect(store.submit(ALICE, submitParams(1)).stateNonce).toBe(1);
+    expect(store.submit(BOB, submitParams(2)).stateNonce).toBe(2);
+    expect(() => store.submit(CAROL, submitParams(3))).toThrow("Not a participant of this app session");
+  });
+});
@@ -14,6 +14,7 @@ import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 
 // OpenZeppelin Token Support
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 // OpenZeppelin Utils
@@ -49,6 +50,9 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
     address public constant PYUSD_ETHEREUM = 0x6c3ea9036406852006290770BEdFcAbA0e23A0e8;
     // Solana PYUSD: 2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo (for reference)
 
+    // USDC on Ethereum, accepted for channel deposits alongside PYUSD
+    address public constant USDC_ETHEREUM = 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48;
+
     // LayerZero endpoint for PYUSD cross-chain (if using LayerZero)
     address public constant LAYERZERO_ENDPOINT = 0x66A71Dcef29A0fFBDBE3c6a460a3B5BC225Cd675;
 
@@ -60,6 +64,12 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         mapping(address => UserPreference) preferences;
         uint256 totalDeposit;
         mapping(address => uint256) deposits;
+        mapping(address => mapping(address => uint256)) tokenDeposits; // token => participant => amount
+        mapping(address => uint256) tokenTotals; // token => total deposited
+        EnumerableSet.AddressSet tokens; // ERC-20 tokens deposited into the channel
+        int256[] balances; // Latest balances submitted with signatures, parallel to participants
+        mapping(address => bool) withdrawn;
+        uint256 ethUsdPrice; // Price the ETH deposits settle at, fixed when the channel opens
         uint256 nonce;
         uint256 timeout;
         uint256 disputeDeadline;
@@ -87,9 +97,10 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
 
     struct ChannelStateData {
         bytes32 channelId;
-        bytes32 stateHash;
+        bytes32 stateHash; // hashState(channelId, nonce, balances, expensesRoot), signed by every participant
         uint256 nonce;
         int256[] balances; // Array parallel to participants (in USD-equivalent)
+        bytes32 expensesRoot; // Commitment to the off-chain expense list
     }
 
     struct Settlement {
@@ -123,18 +134,27 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
     mapping(bytes32 => bool) public yellowIntentCompleted;
     mapping(bytes32 => bool) public pyusdSettlementCompleted;
 
+    // ERC-20 tokens participants can deposit into channels (6-decimal USD stablecoins)
+    mapping(address => bool) public depositTokens;
+
     // ============ Events ============
 
     event ChannelOpened(
         bytes32 indexed channelId, address[] participants, uint256 chainId, uint256 deposit, uint256 timestamp
     );
 
-    event ChannelStateUpdated(bytes32 indexed channelId, uint256 nonce, bytes32 stateHash, address updatedBy);
+    event ChannelStateUpdated(
+        bytes32 indexed channelId, uint256 nonce, bytes32 stateHash, address updatedBy, int256[] balances
+    );
 
     event ChannelClosed(bytes32 indexed channelId, uint256 finalNonce, uint256 timestamp);
 
     event DisputeInitiated(
-        bytes32 indexed channelId, address indexed challenger, uint256 newNonce, uint256 disputeDeadline
+        bytes32 indexed channelId,
+        address indexed challenger,
+        uint256 newNonce,
+        uint256 disputeDeadline,
+        int256[] balances
     );
 
     event DisputeResolved(bytes32 indexed channelId, uint256 finalNonce);
@@ -173,6 +193,16 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
 
     event EmergencyWithdraw(bytes32 indexed channelId, address indexed user, uint256 amount);
 
+    // token is address(0) for ETH deposits
+    event Deposited(
+        bytes32 indexed channelId, address indexed participant, address indexed token, uint256 amount, uint256 total
+    );
+
+    event DepositTokenSet(address indexed token, bool allowed);
+
+    // token is address(0) for ETH
+    event Withdrawn(bytes32 indexed channelId, address indexed participant, address indexed token, uint256 amount);
+
     // ============ Modifiers ============
 
     modifier onlyParticipant(bytes32 channelId) {
@@ -199,17 +229,23 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
 
     constructor() Ownable(msg.sender) {
         // Contract is unpaused by default
+        depositTokens[PYUSD_ETHEREUM] = true;
+        depositTokens[USDC_ETHEREUM] = true;
     }
 
     // ============ Channel Lifecycle Functions ============
 
     /**
      * @notice Open a new state channel (ERC-7824)
+     * @dev Balances are in USD, so ETH deposits are valued at ethUsdPrice when the channel settles.
+     *      The price is fixed for the channel's lifetime: participants who disagree with it should
+     *      not deposit, and nobody can change it afterwards.
      * @param participants Array of participant addresses (2-50 participants)
      * @param chainId Primary chain ID for this channel
+     * @param ethUsdPrice USD value of 1 ETH with 6 decimals
      * @return channelId Unique identifier for the channel
      */
-    function openChannel(address[] calldata participants, uint256 chainId)
+    function openChannel(address[] calldata participants, uint256 chainId, uint256 ethUsdPrice)
         external
         payable
         whenNotPaused
@@ -222,6 +258,7 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         );
         require(msg.value > 0, "Deposit required");
         require(chainId > 0, "Invalid chain ID");
+        require(ethUsdPrice > 0, "Invalid price");
 
         // Validate no duplicate participants
         for (uint256 i = 0; i < participants.length; i++) {
@@ -242,6 +279,7 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         channel.timeout = block.timestamp + CHANNEL_TIMEOUT;
         channel.isOpen = true;
         channel.chainId = chainId;
+        channel.ethUsdPrice = ethUsdPrice;
 
         // Add participants using EnumerableSet for O(1) lookups
         for (uint256 i = 0; i < participants.length; i++) {
@@ -252,6 +290,61 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         emit ChannelOpened(channelId, participants, chainId, msg.value, block.timestamp);
     }
 
+    /**
+     * @notice Add ETH to a channel's collateral
+     * @dev Any participant can top up while the channel is open and not in dispute
+     * @param channelId Channel identifier
+     */
+    function deposit(bytes32 channelId)
+        external
+        payable
+        whenNotPaused
+        nonReentrant
+        validChannelId(channelId)
+        onlyParticipant(channelId)
+        channelOpen(channelId)
+        notInDispute(channelId)
+    {
+        require(msg.value > 0, "Deposit required");
+
+        Channel storage channel = channels[channelId];
+        channel.deposits[msg.sender] += msg.value;
+        channel.totalDeposit += msg.value;
+
+        emit Deposited(channelId, msg.sender, address(0), msg.value, channel.deposits[msg.sender]);
+    }
+
+    /**
+     * @notice Add PYUSD or USDC to a channel's collateral
+     * @dev Requires an allowance; records the amount actually received
+     * @param channelId Channel identifier
+     * @param token Deposit token (see depositTokens)
+     * @param amount Amount in the token's smallest unit
+     */
+    function depositToken(bytes32 channelId, address token, uint256 amount)
+        external
+        whenNotPaused
+        nonReentrant
+        validChannelId(channelId)
+        onlyParticipant(channelId)
+        channelOpen(channelId)
+        notInDispute(channelId)
+    {
+        require(depositTokens[token], "Token not accepted");
+        require(amount > 0, "Deposit required");
+
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        uint256 received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+
+        Channel storage channel = channels[channelId];
+        channel.tokenDeposits[token][msg.sender] += received;
+        channel.tokenTotals[token] += received;
+        channel.tokens.add(token);
+
+        emit Deposited(channelId, msg.sender, token, received, channel.tokenDeposits[token][msg.sender]);
+    }
+
     /**
      * @notice Set user's preferred settlement token and chain with PYUSD support
      * @param channelId Channel identifier
@@ -309,21 +402,47 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
 
         require(newState.channelId == channelId, "Channel ID mismatch");
         require(newState.nonce > channel.nonce, "Nonce must increase");
-        require(newState.balances.length == channel.participants.length(), "Balance array length mismatch");
         require(_verifySignatures(channelId, newState, signatures), "Invalid signatures");
 
-        // Verify balances sum to zero (closed economy)
+        // Update channel state
+        _storeBalances(channel, newState.balances);
+        channel.stateHash = newState.stateHash;
+        channel.nonce = newState.nonce;
+
+        emit ChannelStateUpdated(channelId, newState.nonce, newState.stateHash, msg.sender, newState.balances);
+    }
+
+    /**
+     * @notice Record the balances of a signed state, which decide the payouts once the channel closes
+     * @dev Balances must be parallel to the participants and sum to zero (closed economy)
+     */
+    function _storeBalances(Channel storage channel, int256[] calldata balances) internal {
+        require(balances.length == channel.participants.length(), "Balance array length mismatch");
+
         int256 sum = 0;
-        for (uint256 i = 0; i < newState.balances.length; i++) {
-            sum += newState.balances[i];
+        for (uint256 i = 0; i < balances.length; i++) {
+            sum += balances[i];
         }
         require(sum == 0, "Balances must sum to zero");
 
-        // Update channel state
-        channel.stateHash = newState.stateHash;
-        channel.nonce = newState.nonce;
+        channel.balances = balances;
+    }
 
-        emit ChannelStateUpdated(channelId, newState.nonce, newState.stateHash, msg.sender);
+    /**
+     * @notice Canonical hash of a channel state
+     * @dev Must match hashChannelState in the frontend (utils/stateEncoding.ts)
+     * @param channelId Channel identifier
+     * @param nonce State nonce
+     * @param balances Balances parallel to participants
+     * @param expensesRoot Commitment to the off-chain expense list
+     * @return keccak256(abi.encode(channelId, nonce, balances, expensesRoot))
+     */
+    function hashState(bytes32 channelId, uint256 nonce, int256[] memory balances, bytes32 expensesRoot)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(channelId, nonce, balances, expensesRoot));
     }
 
     /**
@@ -344,11 +463,14 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
 
         require(signatures.length == participantCount, "Need all participant signatures");
 
-        // Create message hash (EIP-191 format)
-        bytes32 messageHash = keccak256(abi.encodePacked(channelId, state.stateHash, state.nonce, state.balances));
+        // The state hash must be the canonical encoding of the state it is submitted with
+        require(
+            state.stateHash == hashState(channelId, state.nonce, state.balances, state.expensesRoot),
+            "State hash mismatch"
+        );
 
-        // Convert to Ethereum Signed Message format using OpenZeppelin
-        bytes32 ethSignedHash = messageHash.toEthSignedMessageHash();
+        // Convert to Ethereum Signed Message format (EIP-191) using OpenZeppelin
+        bytes32 ethSignedHash = state.stateHash.toEthSignedMessageHash();
 
         // Track which participants have signed
         bool[] memory hasSigned = new bool[](participantCount);
@@ -402,7 +524,8 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
 
         require(finalState.nonce >= channel.nonce, "Cannot use old state");
 
-        channel.isOpen = false;
+        _storeBalances(channel, finalState.balances);
+        _settle(channel);
         channel.stateHash = finalState.stateHash;
         channel.nonce = finalState.nonce;
 
@@ -426,27 +549,201 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         require(higherNonceState.nonce > channel.nonce, "Must provide higher nonce");
         require(_verifySignatures(channelId, higherNonceState, signatures), "Invalid signatures");
 
+        _storeBalances(channel, higherNonceState.balances);
         channel.stateHash = higherNonceState.stateHash;
         channel.nonce = higherNonceState.nonce;
         channel.inDispute = true;
         channel.disputeDeadline = block.timestamp + DISPUTE_PERIOD;
 
-        emit DisputeInitiated(channelId, msg.sender, higherNonceState.nonce, channel.disputeDeadline);
+        emit DisputeInitiated(
+            channelId, msg.sender, higherNonceState.nonce, channel.disputeDeadline, higherNonceState.balances
+        );
     }
 
     /**
      * @notice Force close channel after timeout
+     * @dev Payouts use the balances of the latest state submitted on-chain
      * @param channelId Channel identifier
      */
-    function forceClose(bytes32 channelId) external validChannelId(channelId) onlyParticipant(channelId) nonReentrant {
+    function forceClose(bytes32 channelId)
+        external
+        validChannelId(channelId)
+        onlyParticipant(channelId)
+        channelOpen(channelId)
+        nonReentrant
+    {
         Channel storage channel = channels[channelId];
         require(block.timestamp >= channel.timeout, "Timeout not reached");
+        if (channel.inDispute) {
+            require(block.timestamp >= channel.disputeDeadline, "Dispute period not over");
+        }
 
-        channel.isOpen = false;
+        _settle(channel);
 
         emit ChannelClosed(channelId, channel.nonce, block.timestamp);
     }
 
+    /**
+     * @notice Pay out a participant's share of a closed channel (pull payment)
+     * @dev Each asset is paid in the token it was deposited in, see getPayout
+     * @param channelId Channel identifier
+     */
+    function withdraw(bytes32 channelId) external validChannelId(channelId) onlyParticipant(channelId) nonReentrant {
+        Channel storage channel = channels[channelId];
+        require(!channel.isOpen, "Channel still open");
+        require(!channel.withdrawn[msg.sender], "Already withdrawn");
+
+        (uint256 ethAmount, address[] memory tokens, uint256[] memory amounts) = getPayout(channelId, msg.sender);
+        channel.withdrawn[msg.sender] = true;
+
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (amounts[i] > 0) {
+                IERC20(tokens[i]).safeTransfer(msg.sender, amounts[i]);
+                emit Withdrawn(channelId, msg.sender, tokens[i], amounts[i]);
+            }
+        }
+
+        if (ethAmount > 0) {
+            (bool success,) = payable(msg.sender).call{value: ethAmount}("");
+            require(success, "Transfer failed");
+            emit Withdrawn(channelId, msg.sender, address(0), ethAmount);
+        }
+    }
+
+    /**
+     * @notice Close a channel, after which participants withdraw their payouts
+     */
+    function _settle(Channel storage channel) internal {
+        channel.isOpen = false;
+    }
+
+    /**
+     * @notice What a participant receives from a channel once it is closed
+     * @dev Balances are USD amounts with 6 decimals and settle against all deposits, ETH valued
+     *      at the price fixed when the channel opened: a participant is owed their deposits plus their balance
+     *      (at least zero). Debtors get back what is left of their own deposits, in the same assets;
+     *      creditors also get the forfeited deposits, asset by asset, pro rata to what they are owed.
+     * @return ethAmount ETH payout
+     * @return tokens Deposited ERC-20 tokens
+     * @return amounts Payout per token, parallel to tokens
+     */
+    function getPayout(bytes32 channelId, address participant)
+        public
+        view
+        returns (uint256 ethAmount, address[] memory tokens, uint256[] memory amounts)
+    {
+        Channel storage channel = channels[channelId];
+
+        uint256 tokenCount = channel.tokens.length();
+        tokens = new address[](tokenCount);
+        amounts = new uint256[](tokenCount);
+        for (uint256 t = 0; t < tokenCount; t++) {
+            tokens[t] = channel.tokens.at(t);
+        }
+        if (!channel.participants.contains(participant)) {
+            return (0, tokens, amounts);
+        }
+        if (channel.isOpen) {
+            // Nothing is settled yet: report the deposits as they stand
+            for (uint256 t = 0; t < tokenCount; t++) {
+                amounts[t] = channel.tokenDeposits[tokens[t]][participant];
+            }
+            return (channel.deposits[participant], tokens, amounts);
+        }
+
+        (uint256[] memory forfeited, uint256 totalOwed) = _forfeitedDeposits(channel, tokens);
+        uint256 deposited = _depositValue(channel, tokens, participant);
+        uint256 entitled = _entitlement(deposited, _balanceOf(channel, participant));
+
+        // Assets are the tokens followed by ETH
+        for (uint256 a = 0; a <= tokenCount; a++) {
+            uint256 own = _assetDeposit(channel, tokens, a, participant);
+            uint256 payout;
+            if (entitled < deposited) {
+                payout = own - (own * (deposited - entitled)) / deposited;
+            } else {
+                payout = own + (totalOwed == 0 ? 0 : (forfeited[a] * (entitled - deposited)) / totalOwed);
+            }
+            if (a == tokenCount) {
+                ethAmount = payout;
+            } else {
+                amounts[a] = payout;
+            }
+        }
+    }
+
+    /**
+     * @notice Deposits debtors lose, per asset (tokens, then ETH), and the total owed to creditors
+     */
+    function _forfeitedDeposits(Channel storage channel, address[] memory tokens)
+        internal
+        view
+        returns (uint256[] memory forfeited, uint256 totalOwed)
+    {
+        forfeited = new uint256[](tokens.length + 1);
+        uint256 participantCount = channel.participants.length();
+
+        for (uint256 i = 0; i < participantCount; i++) {
+            address participant = channel.participants.at(i);
+            uint256 deposited = _depositValue(channel, tokens, participant);
+            uint256 entitled = _entitlement(deposited, _balanceOf(channel, participant));
+
+            if (entitled > deposited) {
+                totalOwed += entitled - deposited;
+                continue;
+            }
+            for (uint256 a = 0; a <= tokens.length; a++) {
+                uint256 own = _assetDeposit(channel, tokens, a, participant);
+                forfeited[a] += deposited == 0 ? 0 : (own * (deposited - entitled)) / deposited;
+            }
+        }
+    }
+
+    /**
+     * @notice A participant's deposit of one asset: a token, or ETH past the last token
+     */
+    function _assetDeposit(Channel storage channel, address[] memory tokens, uint256 asset, address participant)
+        internal
+        view
+        returns (uint256)
+    {
+        if (asset == tokens.length) return channel.deposits[participant];
+        return channel.tokenDeposits[tokens[asset]][participant];
+    }
+
+    /**
+     * @notice USD value (6 decimals) of a participant's deposits, ETH at the channel's settlement price
+     */
+    function _depositValue(Channel storage channel, address[] memory tokens, address participant)
+        internal
+        view
+        returns (uint256 total)
+    {
+        for (uint256 t = 0; t < tokens.length; t++) {
+            total += channel.tokenDeposits[tokens[t]][participant];
+        }
+        total += (channel.deposits[participant] * channel.ethUsdPrice) / 1 ether;
+    }
+
+    /**
+     * @notice A participant's final balance, zero when no signed state was submitted
+     */
+    function _balanceOf(Channel storage channel, address participant) internal view returns (int256) {
+        if (channel.balances.length == 0) return 0;
+
+        uint256 participantCount = channel.participants.length();
+        for (uint256 i = 0; i < participantCount; i++) {
+            if (channel.participants.at(i) == participant) return channel.balances[i];
+        }
+        return 0;
+    }
+
+    function _entitlement(uint256 deposited, int256 balance) internal pure returns (uint256) {
+        if (balance >= 0) return deposited + uint256(balance);
+        uint256 owed = uint256(-balance);
+        return owed >= deposited ? 0 : deposited - owed;
+    }
+
     // ============ PYUSD Settlement Functions ============
 
     /**
@@ -599,15 +896,19 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
             uint256 timeout,
             bool isOpen,
             bool inDispute,
-            uint256 chainId
+            uint256 chainId,
+            bytes32 stateHash,
+            uint256[] memory deposits
         )
     {
         Channel storage channel = channels[channelId];
         uint256 participantCount = channel.participants.length();
         participants = new address[](participantCount);
+        deposits = new uint256[](participantCount);
 
         for (uint256 i = 0; i < participantCount; i++) {
             participants[i] = channel.participants.at(i);
+            deposits[i] = channel.deposits[participants[i]];
         }
 
         return (
@@ -617,10 +918,38 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
             channel.timeout,
             channel.isOpen,
             channel.inDispute,
-            channel.chainId
+            channel.chainId,
+            channel.stateHash,
+            deposits
         );
     }
 
+    /**
+     * @notice Get ERC-20 deposits for a channel, parallel to the participants from getChannel
+     */
+    function getTokenDeposits(bytes32 channelId, address token)
+        external
+        view
+        returns (uint256[] memory deposits, uint256 total)
+    {
+        Channel storage channel = channels[channelId];
+        uint256 participantCount = channel.participants.length();
+        deposits = new uint256[](participantCount);
+
+        for (uint256 i = 0; i < participantCount; i++) {
+            deposits[i] = channel.tokenDeposits[token][channel.participants.at(i)];
+        }
+
+        return (deposits, channel.tokenTotals[token]);
+    }
+
+    /**
+     * @notice USD value of 1 ETH (6 decimals) the channel's ETH deposits settle at
+     */
+    function getEthUsdPrice(bytes32 channelId) external view returns (uint256) {
+        return channels[channelId].ethUsdPrice;
+    }
+
     /**
      * @notice Get all channels for a user
      */
@@ -647,6 +976,20 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         return channelSettlements[channelId];
     }
 
+    /**
+     * @notice Check if a participant has withdrawn their payout
+     */
+    function hasWithdrawn(bytes32 channelId, address user) external view returns (bool) {
+        return channels[channelId].withdrawn[user];
+    }
+
+    /**
+     * @notice Get the balances stored with the latest state submitted on-chain
+     */
+    function getBalances(bytes32 channelId) external view returns (int256[] memory) {
+        return channels[channelId].balances;
+    }
+
     /**
      * @notice Check if channel exists
      */
@@ -678,8 +1021,28 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
         _unpause();
     }
 
+    /**
+     * @notice Accept or stop accepting an ERC-20 token for channel deposits
+     * @dev Token deposits count one for one against USD balances, so only 6-decimal tokens are accepted
+     * @param token Token address
+     * @param allowed Whether depositToken accepts it
+     */
+    function setDepositToken(address token, bool allowed) external onlyOwner {
+        require(token != address(0), "Invalid token");
+        if (allowed) {
+            try IERC20Metadata(token).decimals() returns (uint8 decimals) {
+                require(decimals == PYUSD_DECIMALS, "Token must have 6 decimals");
+            } catch {
+                revert("Token must have 6 decimals");
+            }
+        }
+        depositTokens[token] = allowed;
+        emit DepositTokenSet(token, allowed);
+    }
+
     /**
      * @notice Emergency withdraw for stuck funds
+     * @dev Pays out the ETH share only, for when a token transfer blocks withdraw; gives up the token payout
      * @param channelId Channel to withdraw from
      */
     function emergencyWithdraw(bytes32 channelId)
@@ -690,11 +1053,12 @@ contract BatchPayChannel is ReentrancyGuard, Pausable, Ownable {
     {
         Channel storage channel = channels[channelId];
         require(!channel.isOpen, "Channel still open");
+        require(!channel.withdrawn[msg.sender], "Already withdrawn");
 
-        uint256 amount = channel.deposits[msg.sender];
+        (uint256 amount,,) = getPayout(channelId, msg.sender);
         require(amount > 0, "No deposit to withdraw");
 
-        channel.deposits[msg.sender] = 0;
+        channel.withdrawn[msg.sender] = true;
 
         (bool success,) = payable(msg.sender).call{value: amount}("");
         require(success, "Transfer failed");
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BatchPayChannel, MockERC20 } from "../typechain-types";
+import { getExpensesRoot, hashChannelState } from "../../nextjs/utils/stateEncoding";
+
+const ETH_USD_PRICE = 2_000_000_000n; // 2000 USD per ETH, 6 decimals
+const usd = (amount: number) => BigInt(amount) * 1_000_000n;
+
+describe("BatchPayChannel closing", function () {
+  let batchPayChannel: BatchPayChannel;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let channelId: string;
+
+  // A state both participants signed, as the client submits it
+  const signedState = async (nonce: bigint, balances: bigint[]) => {
+    const state = { channelId: channelId as `0x${string}`, nonce, balances, expensesRoot: getExpensesRoot([]) };
+    const stateHash = hashChannelState(state);
+    const signatures = await Promise.all([alice, bob].map(signer => signer.signMessage(ethers.getBytes(stateHash))));
+    return [{ ...state, stateHash }, signatures] as const;
+  };
+
+  beforeEach(async () => {
+    [alice, bob] = await ethers.getSigners();
+    const batchPayChannelFactory = await ethers.getContractFactory("BatchPayChannel");
+    batchPayChannel = (await batchPayChannelFactory.deploy()) as BatchPayChannel;
+    await batchPayChannel.waitForDeployment();
+
+    // 1 ETH (2000 USD) of collateral each
+    await batchPayChannel
+      .connect(alice)
+      .openChannel([alice.address, bob.address], 31337, ETH_USD_PRICE, { value: ethers.parseEther("1") });
+    [channelId] = await batchPayChannel.getUserChannels(alice.address);
+    await batchPayChannel.connect(bob).deposit(channelId, { value: ethers.parseEther("1") });
+  });
+
+  it("settles ETH deposits against the balances of a cooperative close", async function () {
+    const [state, signatures] = await signedState(3n, [usd(500), -usd(500)]);
+    await batchPayChannel.connect(alice).closeChannel(channelId, state, signatures);
+
+    // Bob owes 500 USD, a quarter of his deposit, which goes to Alice
+    expect((await batchPayChannel.getPayout(channelId, alice.address)).ethAmount).to.equal(ethers.parseEther("1.25"));
+    expect((await batchPayChannel.getPayout(channelId, bob.address)).ethAmount).to.equal(ethers.parseEther("0.75"));
+
+    await expect(batchPayChannel.connect(alice).withdraw(channelId)).to.changeEtherBalances(
+      [alice, batchPayChannel],
+      [ethers.parseEther("1.25"), -ethers.parseEther("1.25")],
+    );
+    await expect(batchPayChannel.connect(bob).withdraw(channelId)).to.changeEtherBalance(
+      bob,
+      ethers.parseEther("0.75"),
+    );
+    await expect(batchPayChannel.connect(bob).withdraw(channelId)).to.be.revertedWith("Already withdrawn");
+  });
+
+  it("closes on the challenged state once the dispute period is over", async function () {
+    const [stale, staleSignatures] = await signedState(1n, [usd(100), -usd(100)]);
+    const [latest, latestSignatures] = await signedState(2n, [-usd(1000), usd(1000)]);
+    await batchPayChannel.connect(alice).updateState(channelId, stale, staleSignatures);
+    await batchPayChannel.connect(bob).challengeState(channelId, latest, latestSignatures);
+
+    await expect(batchPayChannel.connect(alice).closeChannel(channelId, stale, staleSignatures)).to.be.revertedWith(
+      "Dispute period not over",
+    );
+    await time.increase(await batchPayChannel.DISPUTE_PERIOD());
+    await expect(batchPayChannel.connect(alice).closeChannel(channelId, stale, staleSignatures)).to.be.revertedWith(
+      "Cannot use old state",
+    );
+    await batchPayChannel.connect(bob).closeChannel(channelId, latest, latestSignatures);
+
+    expect((await batchPayChannel.getPayout(channelId, alice.address)).ethAmount).to.equal(ethers.parseEther("0.5"));
+    expect((await batchPayChannel.getPayout(channelId, bob.address)).ethAmount).to.equal(ethers.parseEther("1.5"));
+  });
+
+  it("pays out the last submitted balances on a timeout close", async function () {
+    // Bob owes more than his whole deposit is worth: Alice gets all of it, no more
+    const [state, signatures] = await signedState(1n, [usd(3000), -usd(3000)]);
+    await batchPayChannel.connect(bob).updateState(channelId, state, signatures);
+
+    await expect(batchPayChannel.connect(alice).forceClose(channelId)).to.be.revertedWith("Timeout not reached");
+    await time.increase(await batchPayChannel.CHANNEL_TIMEOUT());
+    await batchPayChannel.connect(alice).forceClose(channelId);
+
+    expect((await batchPayChannel.getPayout(channelId, alice.address)).ethAmount).to.equal(ethers.parseEther("2"));
+    expect((await batchPayChannel.getPayout(channelId, bob.address)).ethAmount).to.equal(0n);
+    await expect(batchPayChannel.connect(alice).withdraw(channelId)).to.changeEtherBalance(
+      alice,
+      ethers.parseEther("2"),
+    );
+  });
+
+  it("settles token and ETH deposits asset by asset", async function () {
+    const tokenFactory = await ethers.getContractFactory("MockERC20");
+    const pyusd = (await tokenFactory.deploy("PayPal USD", "PYUSD", 6)) as MockERC20;
+    const token = await pyusd.getAddress();
+    await batchPayChannel.setDepositToken(token, true);
+    await pyusd.mint(bob.address, usd(2000));
+    await pyusd.connect(bob).approve(await batchPayChannel.getAddress(), usd(2000));
+    // Bob's collateral is now 2000 PYUSD and 1 ETH, 4000 USD in all
+    await batchPayChannel.connect(bob).depositToken(channelId, token, usd(2000));
+
+    const [state, signatures] = await signedState(1n, [usd(1000), -usd(1000)]);
+    await batchPayChannel.connect(alice).closeChannel(channelId, state, signatures);
+
+    // Bob loses a quarter of each asset he deposited to Alice
+    const alicePayout = await batchPayChannel.getPayout(channelId, alice.address);
+    expect(alicePayout.ethAmount).to.equal(ethers.parseEther("1.25"));
+    expect(alicePayout.tokens).to.deep.equal([token]);
+    expect(alicePayout.amounts).to.deep.equal([usd(500)]);
+    const bobPayout = await batchPayChannel.getPayout(channelId, bob.address);
+    expect(bobPayout.ethAmount).to.equal(ethers.parseEther("0.75"));
+    expect(bobPayout.amounts).to.deep.equal([usd(1500)]);
+
+    await expect(batchPayChannel.connect(bob).withdraw(channelId)).to.changeTokenBalance(pyusd, bob, usd(1500));
+    await expect(batchPayChannel.connect(alice).withdraw(channelId)).to.changeEtherBalance(
+      alice,
+      ethers.parseEther("1.25"),
+    );
+    expect(await pyusd.balanceOf(alice.address)).to.equal(usd(500));
+    expect(await pyusd.balanceOf(await batchPayChannel.getAddress())).to.equal(0n);
+  });
+
+  it("limits an emergency withdraw to the settled ETH share", async function () {
+    const [state, signatures] = await signedState(1n, [usd(500), -usd(500)]);
+    await batchPayChannel.connect(alice).closeChannel(channelId, state, signatures);
+
+    await expect(batchPayChannel.connect(bob).emergencyWithdraw(channelId)).to.changeEtherBalance(
+      bob,
+      ethers.parseEther("0.75"),
+    );
+    await expect(batchPayChannel.connect(bob).withdraw(channelId)).to.be.revertedWith("Already withdrawn");
+  });
+
+  it("settles ETH at the price each channel opened with", async function () {
+    // A second channel between the same participants, opened when ETH was worth 4000 USD
+    const first = channelId;
+    await batchPayChannel
+      .connect(alice)
+      .openChannel([alice.address, bob.address], 31337, ETH_USD_PRICE * 2n, { value: ethers.parseEther("1") });
+    const [, second] = await batchPayChannel.getUserChannels(alice.address);
+    await batchPayChannel.connect(bob).deposit(second, { value: ethers.parseEther("1") });
+    expect(await batchPayChannel.getEthUsdPrice(first)).to.equal(ETH_USD_PRICE);
+    expect(await batchPayChannel.getEthUsdPrice(second)).to.equal(ETH_USD_PRICE * 2n);
+
+    for (const id of [first, second]) {
+      channelId = id;
+      const [state, signatures] = await signedState(1n, [usd(1000), -usd(1000)]);
+      await batchPayChannel.connect(alice).closeChannel(id, state, signatures);
+    }
+
+    // Bob owes 1000 USD: half an ETH in the first channel, a quarter in the second
+    expect((await batchPayChannel.getPayout(first, alice.address)).ethAmount).to.equal(ethers.parseEther("1.5"));
+    expect((await batchPayChannel.getPayout(second, alice.address)).ethAmount).to.equal(ethers.parseEther("1.25"));
+  });
+
+  it("refuses to open a channel without an ETH price", async function () {
+    await expect(
+      batchPayChannel.connect(alice).openChannel([alice.address, bob.address], 31337, 0, {
+        value: ethers.parseEther("1"),
+      }),
+    ).to.be.revertedWith("Invalid price");
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BatchPayChannel, MockERC20 } from "../typechain-types";
+import { getExpensesRoot, hashChannelState } from "../../nextjs/utils/stateEncoding";
+
+const usd = (amount: number) => BigInt(amount) * 1_000_000n;
+
+describe("BatchPayChannel deposits", function () {
+  let batchPayChannel: BatchPayChannel;
+  let pyusd: MockERC20;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let channelId: string;
+
+  beforeEach(async function () {
+    [alice, bob, carol] = await ethers.getSigners();
+    const batchPayChannelFactory = await ethers.getContractFactory("BatchPayChannel");
+    batchPayChannel = (await batchPayChannelFactory.deploy()) as BatchPayChannel;
+    await batchPayChannel.waitForDeployment();
+
+    const tokenFactory = await ethers.getContractFactory("MockERC20");
+    pyusd = (await tokenFactory.deploy("PayPal USD", "PYUSD", 6)) as MockERC20;
+    await pyusd.waitForDeployment();
+    await batchPayChannel.setDepositToken(await pyusd.getAddress(), true);
+    for (const signer of [alice, bob, carol]) {
+      await pyusd.mint(signer.address, usd(1000));
+      await pyusd.connect(signer).approve(await batchPayChannel.getAddress(), ethers.MaxUint256);
+    }
+
+    await batchPayChannel
+      .connect(alice)
+      .openChannel([alice.address, bob.address], 31337, 3_000_000_000n, { value: ethers.parseEther("1") });
+    [channelId] = await batchPayChannel.getUserChannels(alice.address);
+  });
+
+  it("lets every participant top up with ETH", async function () {
+    await expect(batchPayChannel.connect(bob).deposit(channelId, { value: ethers.parseEther("0.5") }))
+      .to.emit(batchPayChannel, "Deposited")
+      .withArgs(channelId, bob.address, ethers.ZeroAddress, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+    await batchPayChannel.connect(alice).deposit(channelId, { value: ethers.parseEther("0.25") });
+
+    const channel = await batchPayChannel.getChannel(channelId);
+    expect(channel.deposits).to.deep.equal([ethers.parseEther("1.25"), ethers.parseEther("0.5")]);
+    expect(channel.totalDeposit).to.equal(ethers.parseEther("1.75"));
+  });
+
+  it("records accepted token deposits per participant", async function () {
+    const token = await pyusd.getAddress();
+
+    await expect(batchPayChannel.connect(bob).depositToken(channelId, token, usd(200)))
+      .to.emit(batchPayChannel, "Deposited")
+      .withArgs(channelId, bob.address, token, usd(200), usd(200));
+    await batchPayChannel.connect(alice).depositToken(channelId, token, usd(50));
+    await batchPayChannel.connect(bob).depositToken(channelId, token, usd(100));
+
+    const [deposits, total] = await batchPayChannel.getTokenDeposits(channelId, token);
+    expect(deposits).to.deep.equal([usd(50), usd(300)]);
+    expect(total).to.equal(usd(350));
+    expect(await pyusd.balanceOf(await batchPayChannel.getAddress())).to.equal(usd(350));
+  });
+
+  it("rejects tokens the owner has not accepted", async function () {
+    const tokenFactory = await ethers.getContractFactory("MockERC20");
+    const other = await tokenFactory.deploy("Other USD", "OUSD", 6);
+    await batchPayChannel.setDepositToken(await pyusd.getAddress(), false);
+
+    await expect(
+      batchPayChannel.connect(alice).depositToken(channelId, await other.getAddress(), usd(1)),
+    ).to.be.revertedWith("Token not accepted");
+    await expect(
+      batchPayChannel.connect(alice).depositToken(channelId, await pyusd.getAddress(), usd(1)),
+    ).to.be.revertedWith("Token not accepted");
+    await expect(batchPayChannel.connect(bob).setDepositToken(await other.getAddress(), true))
+      .to.be.revertedWithCustomError(batchPayChannel, "OwnableUnauthorizedAccount")
+      .withArgs(bob.address);
+  });
+
+  it("only accepts tokens with 6 decimals, which count one for one against USD balances", async function () {
+    const tokenFactory = await ethers.getContractFactory("MockERC20");
+    const dai = await tokenFactory.deploy("Dai", "DAI", 18);
+
+    await expect(batchPayChannel.setDepositToken(await dai.getAddress(), true)).to.be.revertedWith(
+      "Token must have 6 decimals",
+    );
+    await expect(batchPayChannel.setDepositToken(await batchPayChannel.getAddress(), true)).to.be.revertedWith(
+      "Token must have 6 decimals",
+    );
+    // Tokens can always be removed
+    await batchPayChannel.setDepositToken(await dai.getAddress(), false);
+    expect(await batchPayChannel.depositTokens(await dai.getAddress())).to.equal(false);
+  });
+
+  it("rejects empty deposits and deposits from outside the channel", async function () {
+    await expect(batchPayChannel.connect(bob).deposit(channelId)).to.be.revertedWith("Deposit required");
+    await expect(batchPayChannel.connect(bob).depositToken(channelId, await pyusd.getAddress(), 0)).to.be.revertedWith(
+      "Deposit required",
+    );
+    await expect(
+      batchPayChannel.connect(carol).deposit(channelId, { value: ethers.parseEther("1") }),
+    ).to.be.revertedWith("Not a participant");
+    await expect(
+      batchPayChannel.connect(carol).depositToken(channelId, await pyusd.getAddress(), usd(1)),
+    ).to.be.revertedWith("Not a participant");
+  });
+
+  it("stops taking deposits once the channel is disputed", async function () {
+    const state = {
+      channelId: channelId as `0x${string}`,
+      nonce: 1n,
+      balances: [0n, 0n],
+      expensesRoot: getExpensesRoot([]),
+    };
+    const stateHash = hashChannelState(state);
+    const signatures = await Promise.all([alice, bob].map(signer => signer.signMessage(ethers.getBytes(stateHash))));
+    await batchPayChannel.connect(alice).challengeState(channelId, { ...state, stateHash }, signatures);
+
+    await expect(batchPayChannel.connect(bob).deposit(channelId, { value: ethers.parseEther("1") })).to.be.revertedWith(
+      "Channel in dispute",
+    );
+    await expect(
+      batchPayChannel.connect(bob).depositToken(channelId, await pyusd.getAddress(), usd(1)),
+    ).to.be.revertedWith("Channel in dispute");
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BatchPayChannel } from "../typechain-types";
+import { type EncodableChannelState, getExpensesRoot, hashChannelState } from "../../nextjs/utils/stateEncoding";
+
+const CHANNEL_ID = `0x${"ab".repeat(32)}` as const;
+const MAX_INT256 = 2n ** 255n - 1n;
+const MIN_INT256 = -(2n ** 255n);
+
+// One expense as the client commits to it, revision log included
+const EXPENSE = {
+  id: "expense-1",
+  description: "Dinner",
+  amount: "42.5",
+  currency: "USD",
+  fxRate: "1",
+  paidBy: "0x00000000000000000000000000000000000000a1",
+  participants: ["0x00000000000000000000000000000000000000a1", "0x00000000000000000000000000000000000000b2"],
+  splitMode: "equal",
+  timestamp: 1_700_000_000_000,
+  revisions: [
+    {
+      revision: 0,
+      action: "created",
+      author: "0x00000000000000000000000000000000000000a1",
+      nonce: 1,
+      timestamp: 1_700_000_000_000,
+      changes: [],
+    },
+  ],
+};
+
+const VECTORS: Array<{ name: string; state: EncodableChannelState }> = [
+  {
+    name: "an empty expense list",
+    state: { channelId: CHANNEL_ID, nonce: 0n, balances: [0n, 0n], expensesRoot: getExpensesRoot([]) },
+  },
+  {
+    name: "negative balances",
+    state: {
+      channelId: CHANNEL_ID,
+      nonce: 7n,
+      balances: [21_250_000n, -21_250_000n],
+      expensesRoot: getExpensesRoot([EXPENSE]),
+    },
+  },
+  {
+    name: "more participants and several negative balances",
+    state: {
+      channelId: CHANNEL_ID,
+      nonce: 123_456n,
+      balances: [30_000_000n, -10_000_000n, -15_000_000n, -5_000_000n],
+      expensesRoot: getExpensesRoot([EXPENSE, { ...EXPENSE, id: "expense-2", amount: "10" }]),
+    },
+  },
+  {
+    name: "no participants",
+    state: { channelId: CHANNEL_ID, nonce: 1n, balances: [], expensesRoot: getExpensesRoot([]) },
+  },
+  {
+    name: "int256 and uint256 extremes",
+    state: {
+      channelId: CHANNEL_ID,
+      nonce: 2n ** 256n - 1n,
+      balances: [MAX_INT256, MIN_INT256, 1n],
+      expensesRoot: getExpensesRoot([EXPENSE]),
+    },
+  },
+];
+
+describe("BatchPayChannel.hashState", function () {
+  let batchPayChannel: BatchPayChannel;
+
+  before(async () => {
+    const batchPayChannelFactory = await ethers.getContractFactory("BatchPayChannel");
+    batchPayChannel = (await batchPayChannelFactory.deploy()) as BatchPayChannel;
+    await batchPayChannel.waitForDeployment();
+  });
+
+  it("commits an empty expense list to the zero hash", async function () {
+    expect(getExpensesRoot([])).to.equal(ethers.ZeroHash);
+  });
+
+  VECTORS.forEach(({ name, state }) => {
+    it(`matches the client's hashChannelState for ${name}`, async function () {
+      const onChain = await batchPayChannel.hashState(state.channelId, state.nonce, state.balances, state.expensesRoot);
+      expect(onChain).to.equal(hashChannelState(state));
+    });
+  });
+
+  it("changes when the sign of a balance changes", async function () {
+    const { state } = VECTORS[1];
+    const flipped = { ...state, balances: state.balances.map(balance => -balance) };
+
+    expect(await batchPayChannel.hashState(flipped.channelId, flipped.nonce, flipped.balances, flipped.expensesRoot))
+      .to.equal(hashChannelState(flipped))
+      .and.not.equal(hashChannelState(state));
+  });
+});
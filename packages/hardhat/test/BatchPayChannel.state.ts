@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BatchPayChannel } from "../typechain-types";
+import { getExpensesRoot, hashChannelState } from "../../nextjs/utils/stateEncoding";
+
+const usd = (amount: number) => BigInt(amount) * 1_000_000n;
+
+describe("BatchPayChannel state updates", function () {
+  let batchPayChannel: BatchPayChannel;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let channelId: string;
+
+  // A state every participant signed, as the client submits it
+  const signedState = async (nonce: bigint, balances: bigint[], signers = [alice, bob, carol]) => {
+    const state = { channelId: channelId as `0x${string}`, nonce, balances, expensesRoot: getExpensesRoot([]) };
+    const stateHash = hashChannelState(state);
+    const signatures = await Promise.all(signers.map(signer => signer.signMessage(ethers.getBytes(stateHash))));
+    return [{ ...state, stateHash }, signatures] as const;
+  };
+
+  beforeEach(async function () {
+    [alice, bob, carol] = await ethers.getSigners();
+    const batchPayChannelFactory = await ethers.getContractFactory("BatchPayChannel");
+    batchPayChannel = (await batchPayChannelFactory.deploy()) as BatchPayChannel;
+    await batchPayChannel.waitForDeployment();
+
+    await batchPayChannel
+      .connect(alice)
+      .openChannel([alice.address, bob.address, carol.address], 31337, 3_000_000_000n, {
+        value: ethers.parseEther("1"),
+      });
+    [channelId] = await batchPayChannel.getUserChannels(alice.address);
+  });
+
+  it("stores and emits the balances of a submitted state", async function () {
+    const balances = [usd(40), -usd(25), -usd(15)];
+    const [state, signatures] = await signedState(1n, balances);
+
+    await expect(batchPayChannel.connect(bob).updateState(channelId, state, signatures))
+      .to.emit(batchPayChannel, "ChannelStateUpdated")
+      .withArgs(channelId, 1n, state.stateHash, bob.address, balances);
+
+    expect(await batchPayChannel.getBalances(channelId)).to.deep.equal(balances);
+    const channel = await batchPayChannel.getChannel(channelId);
+    expect(channel.nonce).to.equal(1n);
+    expect(channel.stateHash).to.equal(state.stateHash);
+  });
+
+  it("emits the challenged balances with a dispute", async function () {
+    const balances = [-usd(10), usd(10), 0n];
+    const [state, signatures] = await signedState(2n, balances);
+
+    const tx = batchPayChannel.connect(carol).challengeState(channelId, state, signatures);
+
+    await expect(tx).to.emit(batchPayChannel, "DisputeInitiated");
+    const receipt = await (await tx).wait();
+    const [event] = await batchPayChannel.queryFilter(
+      batchPayChannel.filters.DisputeInitiated(channelId),
+      receipt!.blockNumber,
+    );
+    expect(event.args.challenger).to.equal(carol.address);
+    expect(event.args.newNonce).to.equal(2n);
+    expect(event.args.balances).to.deep.equal(balances);
+    expect(await batchPayChannel.getBalances(channelId)).to.deep.equal(balances);
+  });
+
+  it("rejects balances that do not sum to zero or miss a participant", async function () {
+    const [unbalanced, unbalancedSignatures] = await signedState(1n, [usd(10), -usd(5), 0n]);
+    const [short, shortSignatures] = await signedState(1n, [usd(10), -usd(10)]);
+
+    await expect(
+      batchPayChannel.connect(alice).updateState(channelId, unbalanced, unbalancedSignatures),
+    ).to.be.revertedWith("Balances must sum to zero");
+    await expect(batchPayChannel.connect(alice).updateState(channelId, short, shortSignatures)).to.be.revertedWith(
+      "Balance array length mismatch",
+    );
+  });
+
+  it("requires every participant's signature and an increasing nonce", async function () {
+    const [state, signatures] = await signedState(1n, [0n, 0n, 0n]);
+    const [, missingSignatures] = await signedState(1n, [0n, 0n, 0n], [alice, bob]);
+    const [, duplicateSignatures] = await signedState(1n, [0n, 0n, 0n], [alice, bob, alice]);
+
+    await expect(batchPayChannel.connect(alice).updateState(channelId, state, missingSignatures)).to.be.revertedWith(
+      "Need all participant signatures",
+    );
+    await expect(batchPayChannel.connect(alice).updateState(channelId, state, duplicateSignatures)).to.be.revertedWith(
+      "Invalid signatures",
+    );
+    await batchPayChannel.connect(alice).updateState(channelId, state, signatures);
+    await expect(batchPayChannel.connect(alice).updateState(channelId, state, signatures)).to.be.revertedWith(
+      "Nonce must increase",
+    );
+  });
+});
@@ -4,12 +4,29 @@ import { useState } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import BatchSettlement from "../_components/BatchSettlement";
+import ChannelDeposits from "../_components/ChannelDeposits";
+import ChannelStateManager from "../_components/ChannelStateManager";
 import ExpenseForm from "../_components/ExpenseForm";
+import ExpenseHistoryDrawer from "../_components/ExpenseHistoryDrawer";
+import ExpenseImportWizard from "../_components/ExpenseImportWizard";
+import ExpenseReceipts from "../_components/ExpenseReceipts";
+import ExpenseReports from "../_components/ExpenseReports";
 import Navigation from "../_components/Navigation";
+import ParticipantStatement from "../_components/ParticipantStatement";
+import RecurringExpenses from "../_components/RecurringExpenses";
 import { useAccount } from "wagmi";
 import { Address } from "~~/components/scaffold-eth";
 import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
 import { useExpenseStateChannel } from "~~/hooks/scaffold-eth/useExpenseStateChannel";
+import { useReceiptSharing } from "~~/hooks/scaffold-eth/useReceiptSharing";
+import { stateChannelClient } from "~~/services/stateChannelClient";
+import { SETTLEMENT_CURRENCY, formatCurrencyAmount } from "~~/utils/currencies";
+import { type Settlement, simplifyDebts } from "~~/utils/debtSimplification";
+import { getCategoryLabel } from "~~/utils/expenseCategories";
+import { describeSplit, getExpenseSettlementAmount } from "~~/utils/expenseSplit";
+import type { Expense } from "~~/utils/expenseValidation";
+import { downloadFile, exportExpensesCsv, exportLedgerBundle } from "~~/utils/ledgerExport";
+import { formatMoney } from "~~/utils/money";
 import { notification } from "~~/utils/scaffold-eth";
 import { PYUSD_CONSTANTS, SUPPORTED_TOKENS, isPYUSD } from "~~/utils/tokens";
 
@@ -22,18 +39,33 @@ const ChannelDetailPage = () => {
   const [usePYUSD, setUsePYUSD] = useState(true);
   const [paypalEmail, setPaypalEmail] = useState("");
   const [showExpenseForm, setShowExpenseForm] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [historyExpense, setHistoryExpense] = useState<Expense | null>(null);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showStatement, setShowStatement] = useState(false);
   // Use expense state channel integration
   const {
     expenses,
+    balances,
+    deletedExpenses,
+    recurringExpenses,
     addExpense,
+    addRecurringExpense,
+    removeRecurringExpense,
+    importExpenses,
+    editExpense,
     clearExpenses,
     syncExpenses,
     isLoading: isLoadingExpenses,
     error: expenseError,
+    syncWarnings,
     isConnected: clearNodeConnected,
     isAuthenticated: clearNodeAuthenticated,
   } = useExpenseStateChannel(channelId);
 
+  // Receipt files behind the hashes recorded in the expenses
+  const { availableReceipts, requestReceipt, verifyReceiptFile, getReceipt } = useReceiptSharing(channelId, expenses);
+
   // Get channel information
   const { data: channelInfo, isLoading: isLoadingChannel } = useScaffoldReadContract({
     contractName: "BatchPayChannel",
@@ -85,9 +117,28 @@ const ChannelDetailPage = () => {
     }
   };
 
-  const handleAddExpense = async (expense: any) => {
-    await addExpense(expense);
+  const handleAddExpense = async (expense: Expense) => {
+    if (editingExpense) {
+      await editExpense(editingExpense.id, expense);
+    } else {
+      await addExpense(expense);
+    }
+    setShowExpenseForm(false);
+    setEditingExpense(null);
+  };
+
+  const handleEditExpense = (expense: Expense) => {
+    if (!isConnected || !address) {
+      notification.error("Please connect your wallet");
+      return;
+    }
+    setEditingExpense(expense);
+    setShowExpenseForm(true);
+  };
+
+  const handleCloseExpenseForm = () => {
     setShowExpenseForm(false);
+    setEditingExpense(null);
   };
 
   const handleClearExpenses = async () => {
@@ -126,7 +177,51 @@ const ChannelDetailPage = () => {
     );
   }
 
-  const [participants, , , , isOpen, inDispute, chainId] = channelInfo;
+  const [participants, , , , isOpen, inDispute, chainId, , deposits] = channelInfo;
+
+  const exportFilePrefix = `channel-${channelId.slice(0, 10)}`;
+
+  const handleExportCsv = () => {
+    downloadFile(`${exportFilePrefix}-expenses.csv`, exportExpensesCsv(expenses, [...participants]), "text/csv");
+  };
+
+  const handleExportJson = () => {
+    const currentChannel = stateChannelClient.getChannel(channelId);
+    const latestState = currentChannel
+      ? {
+          channelId,
+          nonce: currentChannel.nonce,
+          stateHash: currentChannel.stateHash,
+          balances: currentChannel.participants.map(({ address, balance }) => ({ address, balance })),
+          signatures: currentChannel.signatures ?? [],
+        }
+      : null;
+
+    downloadFile(
+      `${exportFilePrefix}-ledger.json`,
+      exportLedgerBundle({
+        channelId,
+        participants: [...participants],
+        expenses: [...expenses, ...deletedExpenses], // Tombstones carry the history of removed expenses
+        latestState,
+        settlements: settlements ? [...settlements] : [],
+      }),
+      "application/json",
+    );
+  };
+
+  // Minimal set of PYUSD transfers that settles the current channel balances. Balances from a
+  // stale or invalid peer state may not sum to zero, which simplifyDebts rejects.
+  let suggestedSettlements: Settlement[] = [];
+  let settlementError: string | null = null;
+  try {
+    suggestedSettlements = simplifyDebts(balances, {
+      token: PYUSD_CONSTANTS.ETHEREUM_ADDRESS,
+      chainId: Number(chainId),
+    });
+  } catch (error) {
+    settlementError = error instanceof Error ? error.message : String(error);
+  }
 
   return (
     <div className="min-h-screen bg-base-200">
@@ -165,6 +260,18 @@ const ChannelDetailPage = () => {
                   <div className="stat-value text-lg">{chainId.toString()}</div>
                 </div>
               </div>
+              {syncWarnings.length > 0 && (
+                <div className="alert alert-warning mt-2">
+                  <div>
+                    <h3 className="font-bold">Channel state is out of sync</h3>
+                    <ul className="list-disc list-inside text-sm">
+                      {syncWarnings.map(warning => (
+                        <li key={`${warning.code}-${warning.message}`}>{warning.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -187,6 +294,15 @@ const ChannelDetailPage = () => {
             </div>
           </div>
 
+          {/* Per-participant collateral */}
+          <ChannelDeposits
+            channelId={channelId}
+            participants={participants}
+            ethDeposits={deposits}
+            isOpen={isOpen}
+            inDispute={inDispute}
+          />
+
           {/* PYUSD Token Selector */}
           <div className="card bg-base-100 shadow-xl">
             <div className="card-body">
@@ -348,6 +464,24 @@ const ChannelDetailPage = () => {
                   <button className="btn btn-sm btn-outline btn-info" onClick={syncExpenses}>
                     🔄 Sync
                   </button>
+                  <div className="dropdown dropdown-end">
+                    <div tabIndex={0} role="button" className="btn btn-sm btn-outline">
+                      Export
+                    </div>
+                    <ul tabIndex={0} className="dropdown-content menu bg-base-100 rounded-box z-10 w-56 p-2 shadow-sm">
+                      <li>
+                        <button onClick={handleExportCsv} disabled={expenses.length === 0}>
+                          Expenses (CSV)
+                        </button>
+                      </li>
+                      <li>
+                        <button onClick={handleExportJson}>Ledger bundle (JSON)</button>
+                      </li>
+                      <li>
+                        <button onClick={() => setShowStatement(true)}>Printable statement</button>
+                      </li>
+                    </ul>
+                  </div>
                   {expenses.length > 0 && (
                     <button className="btn btn-sm btn-outline btn-error" onClick={handleClearExpenses}>
                       Clear All
@@ -398,23 +532,61 @@ const ChannelDetailPage = () => {
                     <div key={expense.id || index} className="bg-base-200 p-4 rounded-lg">
                       <div className="flex justify-between items-start">
                         <div>
-                          <h3 className="font-semibold">{expense.description}</h3>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <h3 className="font-semibold">{expense.description}</h3>
+                            {expense.category && (
+                              <span className="badge badge-sm badge-primary">{getCategoryLabel(expense.category)}</span>
+                            )}
+                            {expense.tags?.map(tag => (
+                              <span key={tag} className="badge badge-sm badge-ghost">
+                                #{tag}
+                              </span>
+                            ))}
+                          </div>
                           <p className="text-sm text-base-content/60">
-                            ${expense.amount} • Paid by{" "}
+                            {formatCurrencyAmount(expense.amount, expense.currency)} • Paid by{" "}
                             {expense.paidBy === address
                               ? "You"
                               : expense.paidBy.slice(0, 6) + "..." + expense.paidBy.slice(-4)}
                           </p>
-                          <p className="text-xs text-base-content/50">
-                            Split between {expense.participants.length} participant
-                            {expense.participants.length !== 1 ? "s" : ""}
-                          </p>
+                          <p className="text-xs text-base-content/50">{describeSplit(expense)}</p>
+                          <ExpenseReceipts
+                            expense={expense}
+                            availableReceipts={availableReceipts}
+                            onRequest={requestReceipt}
+                            onVerify={verifyReceiptFile}
+                            getReceipt={getReceipt}
+                          />
                         </div>
                         <div className="text-right">
-                          <div className="text-lg font-bold">${expense.amount}</div>
+                          <div className="text-lg font-bold">
+                            {formatCurrencyAmount(expense.amount, expense.currency)}
+                            {expense.currency !== SETTLEMENT_CURRENCY && (
+                              <span className="text-sm font-normal text-base-content/60"> {expense.currency}</span>
+                            )}
+                          </div>
+                          {expense.currency !== SETTLEMENT_CURRENCY && (
+                            <div className="text-xs text-base-content/60">
+                              ≈ {formatCurrencyAmount(formatMoney(getExpenseSettlementAmount(expense)))} @{" "}
+                              {expense.fxRate}
+                            </div>
+                          )}
                           <div className="text-xs text-base-content/50">
                             {new Date(expense.timestamp).toLocaleDateString()}
                           </div>
+                          <div className="flex justify-end gap-1 mt-2">
+                            <button className="btn btn-xs btn-ghost" onClick={() => setHistoryExpense(expense)}>
+                              History
+                              {expense.revisions &&
+                                expense.revisions.length > 1 &&
+                                ` (${expense.revisions.length - 1} edits)`}
+                            </button>
+                            {isOpen && (
+                              <button className="btn btn-xs btn-outline" onClick={() => handleEditExpense(expense)}>
+                                Edit
+                              </button>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -429,6 +601,14 @@ const ChannelDetailPage = () => {
             </div>
           </div>
 
+          {/* Recurring Expenses */}
+          {recurringExpenses.length > 0 && (
+            <RecurringExpenses templates={recurringExpenses} canEdit={isOpen} onRemove={removeRecurringExpense} />
+          )}
+
+          {/* Reports */}
+          {expenses.length > 0 && <ExpenseReports expenses={expenses} />}
+
           {/* Settlements */}
           {!isLoadingSettlements && settlements && settlements.length > 0 && (
             <div className="card bg-base-100 shadow-xl">
@@ -468,17 +648,17 @@ const ChannelDetailPage = () => {
             </div>
           )}
 
+          {settlementError && (
+            <div className="alert alert-warning">
+              <span>Settlements cannot be suggested for the current channel state: {settlementError}</span>
+            </div>
+          )}
+
           {/* Batch Settlement Component */}
-          {!isOpen && settlements && settlements.length > 0 && (
+          {suggestedSettlements.length > 0 && (
             <BatchSettlement
               channelId={channelId}
-              settlements={settlements.map((s: any) => ({
-                from: s.from,
-                to: s.to,
-                amount: s.amount.toString(),
-                token: s.fromToken,
-                chainId: Number(s.fromChainId),
-              }))}
+              settlements={suggestedSettlements}
               onSettlementComplete={success => {
                 if (success) {
                   notification.success("Batch settlement completed successfully!");
@@ -489,6 +669,11 @@ const ChannelDetailPage = () => {
             />
           )}
 
+          {/* On-chain State (signing rounds) */}
+          {isOpen && participants.some(participant => participant.toLowerCase() === address?.toLowerCase()) && (
+            <ChannelStateManager channelId={channelId} participants={participants} />
+          )}
+
           {/* Actions */}
           <div className="flex gap-4">
             <Link href="/batchpay" className="btn btn-outline">
@@ -499,6 +684,11 @@ const ChannelDetailPage = () => {
                 Add Expense
               </button>
             )}
+            {isOpen && (
+              <button className="btn btn-outline" onClick={() => setShowImportWizard(true)} disabled={!isConnected}>
+                Import Expenses
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -508,8 +698,42 @@ const ChannelDetailPage = () => {
         <ExpenseForm
           channelId={channelId}
           participants={[...participants]}
+          expense={editingExpense ?? undefined}
           onExpenseAdded={handleAddExpense}
-          onClose={() => setShowExpenseForm(false)}
+          onRecurringExpenseAdded={async template => {
+            await addRecurringExpense(template);
+            setShowExpenseForm(false);
+          }}
+          onClose={handleCloseExpenseForm}
+        />
+      )}
+
+      {/* Import Wizard Modal */}
+      {showImportWizard && (
+        <ExpenseImportWizard
+          channelId={channelId}
+          participants={[...participants]}
+          onImport={importExpenses}
+          onClose={() => setShowImportWizard(false)}
+        />
+      )}
+
+      {/* Participant Statement */}
+      {showStatement && (
+        <ParticipantStatement
+          channelId={channelId}
+          participants={[...participants]}
+          initialParticipant={address}
+          expenses={expenses}
+          onClose={() => setShowStatement(false)}
+        />
+      )}
+
+      {/* Expense History Drawer */}
+      {historyExpense && (
+        <ExpenseHistoryDrawer
+          expense={expenses.find(expense => expense.id === historyExpense.id) ?? historyExpense}
+          onClose={() => setHistoryExpense(null)}
         />
       )}
     </div>
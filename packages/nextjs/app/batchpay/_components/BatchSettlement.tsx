@@ -7,16 +7,9 @@ import { Address } from "~~/components/scaffold-eth";
 import { pyusdBridgeService } from "~~/services/pyusdBridge";
 import { stateChannelClient } from "~~/services/stateChannelClient";
 import { yellowNetworkService } from "~~/services/yellowNetwork";
+import type { Settlement } from "~~/utils/debtSimplification";
 import { notification } from "~~/utils/scaffold-eth";
-import { SUPPORTED_TOKENS, isPYUSD } from "~~/utils/tokens";
-
-interface Settlement {
-  from: string;
-  to: string;
-  amount: string;
-  token: string;
-  chainId: number;
-}
+import { SUPPORTED_TOKENS, formatTokenAmount, isPYUSD } from "~~/utils/tokens";
 
 interface BatchSettlementProps {
   channelId: string;
@@ -24,7 +17,7 @@ interface BatchSettlementProps {
   onSettlementComplete?: (success: boolean) => void;
 }
 
-const BatchSettlement = ({ settlements, onSettlementComplete }: BatchSettlementProps) => {
+const BatchSettlement = ({ channelId, settlements, onSettlementComplete }: BatchSettlementProps) => {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const [isProcessing, setIsProcessing] = useState(false);
@@ -134,7 +127,7 @@ const BatchSettlement = ({ settlements, onSettlementComplete }: BatchSettlementP
       // Direct settlements via state channel
       for (const settlement of directSettlements) {
         settlementPromises.push(
-          stateChannelClient.sendPayment({
+          stateChannelClient.sendPayment(channelId, {
             amount: BigInt(settlement.amount),
             recipient: settlement.to as `0x${string}`,
             token: settlement.token,
@@ -234,7 +227,8 @@ const BatchSettlement = ({ settlements, onSettlementComplete }: BatchSettlementP
                         <div>
                           <div className="flex items-center space-x-2">
                             <span className="font-semibold">
-                              {settlement.amount} {token?.symbol || "Unknown"}
+                              {token ? formatTokenAmount(BigInt(settlement.amount), token.decimals) : settlement.amount}{" "}
+                              {token?.symbol || "Unknown"}
                             </span>
                             <span className="badge badge-sm">
                               {route === "pyusd" ? "PYUSD Direct" : route === "yellow" ? "Yellow Network" : "Direct"}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { erc20Abi, formatEther, formatUnits, parseEther, parseUnits } from "viem";
+import { useAccount, useWriteContract } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useTransactor } from "~~/hooks/scaffold-eth/useTransactor";
+import { notification } from "~~/utils/scaffold-eth";
+import { SUPPORTED_TOKENS } from "~~/utils/tokens";
+
+interface ChannelDepositsProps {
+  channelId: string;
+  participants: readonly string[];
+  ethDeposits: readonly bigint[]; // Parallel to participants, from getChannel
+  isOpen: boolean;
+  inDispute: boolean;
+}
+
+// Collateral the contract accepts: ETH plus the stablecoins enabled in depositTokens
+const DEPOSIT_TOKENS = SUPPORTED_TOKENS.filter(token => ["ETH", "PYUSD", "USDC"].includes(token.symbol));
+const ETH_ADDRESS = DEPOSIT_TOKENS[0].address;
+
+const formatTokenAmount = (token: string, amount: bigint) => {
+  const info = DEPOSIT_TOKENS.find(item => item.address.toLowerCase() === token.toLowerCase());
+  return `${formatUnits(amount, info?.decimals ?? 18)} ${info?.symbol ?? token}`;
+};
+
+/**
+ * Per-participant channel collateral, top-ups while the channel is open and payouts once it is closed
+ */
+const ChannelDeposits = ({ channelId, participants, ethDeposits, isOpen, inDispute }: ChannelDepositsProps) => {
+  const { address } = useAccount();
+  const [tokenAddress, setTokenAddress] = useState(ETH_ADDRESS);
+  const [amount, setAmount] = useState("");
+  const [isApproving, setIsApproving] = useState(false);
+
+  const pyusd = DEPOSIT_TOKENS.find(token => token.symbol === "PYUSD")!;
+  const usdc = DEPOSIT_TOKENS.find(token => token.symbol === "USDC")!;
+
+  const { data: pyusdDeposits } = useScaffoldReadContract({
+    contractName: "BatchPayChannel",
+    functionName: "getTokenDeposits",
+    args: [channelId as `0x${string}`, pyusd.address],
+  });
+  const { data: usdcDeposits } = useScaffoldReadContract({
+    contractName: "BatchPayChannel",
+    functionName: "getTokenDeposits",
+    args: [channelId as `0x${string}`, usdc.address],
+  });
+
+  // Pull payment of our share once the channel is closed
+  const { data: payout } = useScaffoldReadContract({
+    contractName: "BatchPayChannel",
+    functionName: "getPayout",
+    args: [channelId as `0x${string}`, address],
+  });
+  const { data: hasWithdrawn } = useScaffoldReadContract({
+    contractName: "BatchPayChannel",
+    functionName: "hasWithdrawn",
+    args: [channelId as `0x${string}`, address],
+  });
+
+  const { data: batchPayChannel } = useDeployedContractInfo({ contractName: "BatchPayChannel" });
+  const { writeContractAsync: writeBatchPayChannelAsync, isPending: isDepositing } = useScaffoldWriteContract({
+    contractName: "BatchPayChannel",
+  });
+  const { writeContractAsync: writeTokenAsync } = useWriteContract();
+  const writeTx = useTransactor();
+
+  const isParticipant = participants.some(participant => participant.toLowerCase() === address?.toLowerCase());
+  const selectedToken = DEPOSIT_TOKENS.find(token => token.address === tokenAddress)!;
+
+  const handleDeposit = async () => {
+    if (!address || !batchPayChannel) {
+      notification.error("Please connect your wallet");
+      return;
+    }
+
+    let value: bigint;
+    try {
+      value = selectedToken.address === ETH_ADDRESS ? parseEther(amount) : parseUnits(amount, selectedToken.decimals);
+    } catch {
+      notification.error("Enter a valid amount");
+      return;
+    }
+    if (value <= 0n) {
+      notification.error("Enter a valid amount");
+      return;
+    }
+
+    try {
+      if (selectedToken.address === ETH_ADDRESS) {
+        await writeBatchPayChannelAsync({
+          functionName: "deposit",
+          args: [channelId as `0x${string}`],
+          value,
+        });
+      } else {
+        // The contract pulls the tokens, so it needs an allowance first
+        setIsApproving(true);
+        await writeTx(() =>
+          writeTokenAsync({
+            address: selectedToken.address as `0x${string}`,
+            abi: erc20Abi,
+            functionName: "approve",
+            args: [batchPayChannel.address, value],
+          }),
+        );
+        setIsApproving(false);
+
+        await writeBatchPayChannelAsync({
+          functionName: "depositToken",
+          args: [channelId as `0x${string}`, selectedToken.address, value],
+        });
+      }
+
+      notification.success(`Deposited ${amount} ${selectedToken.symbol}`);
+      setAmount("");
+    } catch (error) {
+      console.error("Error depositing:", error);
+      notification.error("Failed to deposit");
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    try {
+      await writeBatchPayChannelAsync({
+        functionName: "withdraw",
+        args: [channelId as `0x${string}`],
+      });
+      notification.success("Channel payout withdrawn");
+    } catch (error) {
+      console.error("Error withdrawing:", error);
+      notification.error("Failed to withdraw");
+    }
+  };
+
+  const payoutLines = payout
+    ? [
+        ...(payout[0] > 0n ? [`${formatEther(payout[0])} ETH`] : []),
+        ...payout[1].flatMap((token, index) =>
+          payout[2][index] > 0n ? [formatTokenAmount(token, payout[2][index])] : [],
+        ),
+      ]
+    : [];
+
+  const totals = [
+    ethDeposits.reduce((sum, deposit) => sum + deposit, 0n),
+    pyusdDeposits?.[1] ?? 0n,
+    usdcDeposits?.[1] ?? 0n,
+  ];
+
+  return (
+    <div className="card bg-base-100 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Deposits</h2>
+        <p className="text-base-content/60">
+          Collateral each participant has locked in the channel. Everyone can top up while the channel is open.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="table table-sm w-full">
+            <thead>
+              <tr>
+                <th>Participant</th>
+                <th className="text-right">ETH</th>
+                <th className="text-right">PYUSD</th>
+                <th className="text-right">USDC</th>
+              </tr>
+            </thead>
+            <tbody>
+              {participants.map((participant, index) => (
+                <tr key={participant}>
+                  <td>
+                    <Address address={participant} size="sm" />
+                  </td>
+                  <td className="text-right font-mono">{formatEther(ethDeposits[index] ?? 0n)}</td>
+                  <td className="text-right font-mono">
+                    {formatUnits(pyusdDeposits?.[0][index] ?? 0n, pyusd.decimals)}
+                  </td>
+                  <td className="text-right font-mono">{formatUnits(usdcDeposits?.[0][index] ?? 0n, usdc.decimals)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th>Total</th>
+                <th className="text-right font-mono">{formatEther(totals[0])}</th>
+                <th className="text-right font-mono">{formatUnits(totals[1], pyusd.decimals)}</th>
+                <th className="text-right font-mono">{formatUnits(totals[2], usdc.decimals)}</th>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {isParticipant && !isOpen && (
+          <div className="alert mt-2 flex flex-col md:flex-row md:justify-between">
+            <div>
+              <h3 className="font-bold">Your payout</h3>
+              <div className="text-sm">
+                {hasWithdrawn
+                  ? "Already withdrawn."
+                  : payoutLines.length > 0
+                    ? payoutLines.join(" + ")
+                    : "Nothing to withdraw for this channel."}
+              </div>
+            </div>
+            {!hasWithdrawn && payoutLines.length > 0 && (
+              <button className="btn btn-primary" onClick={handleWithdraw} disabled={isDepositing}>
+                {isDepositing ? <span className="loading loading-spinner loading-sm"></span> : "Withdraw"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {isParticipant && isOpen && !inDispute && (
+          <div className="flex flex-col md:flex-row gap-2 mt-2">
+            <select
+              value={tokenAddress}
+              onChange={e => setTokenAddress(e.target.value)}
+              className="select select-bordered md:w-40"
+            >
+              {DEPOSIT_TOKENS.map(token => (
+                <option key={token.symbol} value={token.address}>
+                  {token.symbol}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Amount"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              className="input input-bordered flex-1"
+            />
+            <button
+              className="btn btn-primary"
+              onClick={handleDeposit}
+              disabled={!amount || isApproving || isDepositing}
+            >
+              {isApproving || isDepositing ? (
+                <>
+                  <span className="loading loading-spinner loading-sm"></span>
+                  {isApproving ? "Approving..." : "Depositing..."}
+                </>
+              ) : (
+                "Deposit"
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChannelDeposits;
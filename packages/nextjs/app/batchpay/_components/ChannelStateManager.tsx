@@ -1,26 +1,40 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import StateSignatureRequests from "./StateSignatureRequests";
+import type { Hex } from "viem";
 import { useAccount } from "wagmi";
-import { useScaffoldEventHistory, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldEventHistory, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getSignerStatus, useStateSigning } from "~~/hooks/scaffold-eth/useStateSigning";
 import { stateChannelClient } from "~~/services/stateChannelClient";
+import { formatCurrencyAmount } from "~~/utils/currencies";
 import { createViemMessageSigner } from "~~/utils/messageSigning";
+import { formatMoney } from "~~/utils/money";
 import { notification } from "~~/utils/scaffold-eth";
+import { type SignableChannelState, getSignableState } from "~~/utils/stateSignatures";
 
 interface ChannelStateManagerProps {
   channelId: string;
-  participants: string[];
-  onStateUpdate?: (newState: any) => void;
+  participants: readonly string[];
+  onStateUpdate?: (newState: SignableChannelState) => void;
 }
 
+const SIGNER_STATUS_BADGES = {
+  signed: "badge-success",
+  rejected: "badge-error",
+  pending: "badge-ghost",
+} as const;
+
 const ChannelStateManager = ({ channelId, participants, onStateUpdate }: ChannelStateManagerProps) => {
   const { address } = useAccount();
-  const [newState, setNewState] = useState({
-    balances: [] as string[],
-    description: "",
-  });
   const [isConnected, setIsConnected] = useState(false);
-  const [signatures, setSignatures] = useState<Record<string, string>>({});
+  const [isCollecting, setIsCollecting] = useState(false);
+  // signedState is the latest state every participant signed, persisted for closing or challenging
+  const { rounds, proposals, signedState, proposeState, approveProposal, rejectProposal } = useStateSigning(
+    channelId,
+    participants,
+  );
 
   const { writeContractAsync: updateStateAsync, isPending: isUpdatingState } = useScaffoldWriteContract({
     contractName: "BatchPayChannel",
@@ -43,35 +57,58 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
     }
   }, [address]);
 
-  // Watch for state updates
+  // Watch for state updates and disputes on this channel
   const { data: stateEvents } = useScaffoldEventHistory({
     contractName: "BatchPayChannel",
     eventName: "ChannelStateUpdated",
+    filters: { channelId: channelId as Hex },
+    watch: true,
+  });
+  const { data: disputeEvents } = useScaffoldEventHistory({
+    contractName: "BatchPayChannel",
+    eventName: "DisputeInitiated",
+    filters: { channelId: channelId as Hex },
     watch: true,
   });
 
-  // Collect signatures from participants
-  const collectSignatures = async (stateData: any) => {
-    if (!address) return {};
+  // Balances of the latest state submitted on-chain, which decide the payouts at close
+  const { data: onChainBalances } = useScaffoldReadContract({
+    contractName: "BatchPayChannel",
+    functionName: "getBalances",
+    args: [channelId as Hex],
+    watch: true,
+  });
 
-    const newSignatures: Record<string, string> = {};
+  /**
+   * The latest off-chain state, with balances in on-chain participant order
+   */
+  const getCurrentState = (): SignableChannelState => {
+    const currentChannel = stateChannelClient.getChannel(channelId);
+    if (!currentChannel) {
+      throw new Error("Channel state is not loaded");
+    }
 
-    // For now, we'll simulate signature collection
-    // In a real implementation, each participant would sign the state
-    try {
-      const messageSigner = createViemMessageSigner();
-      const signature = await messageSigner(stateData);
-      newSignatures[address] = signature;
+    return getSignableState(currentChannel, participants);
+  };
 
-      // In production, you'd collect signatures from all participants
-      // This would involve sending the state to each participant for signing
-      notification.success("State signed successfully");
-    } catch (error) {
-      console.error("Error signing state:", error);
-      notification.error("Failed to sign state");
+  // Run a signing round and keep the result as the latest fully signed state
+  const collectSignatures = async (state: SignableChannelState): Promise<Hex[]> => {
+    setIsCollecting(true);
+    try {
+      const signatures = await proposeState(state);
+      notification.success("All participants signed the state");
+      return signatures;
+    } finally {
+      setIsCollecting(false);
     }
+  };
 
-    return newSignatures;
+  // Reuse the signatures when the state has not changed since it was signed
+  const getSignaturesFor = async (state: SignableChannelState): Promise<Hex[]> => {
+    if (signedState && signedState.state.stateHash === state.stateHash && signedState.state.nonce === state.nonce) {
+      return signedState.signatures;
+    }
+    return collectSignatures(state);
   };
 
   const handleUpdateState = async () => {
@@ -81,47 +118,19 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
     }
 
     try {
-      // Convert balances to bigint array
-      const balances = newState.balances.map(b => BigInt(parseInt(b) || 0));
-
-      // Create state update data
-      const stateData = {
-        channelId,
-        balances,
-        description: newState.description,
-        timestamp: Date.now(),
-      };
-
-      // Collect signatures
-      const collectedSignatures = await collectSignatures(stateData);
-      setSignatures(collectedSignatures);
-
-      // Use state channel client to update state
-      await stateChannelClient.updateChannelState(balances);
-
-      // Also update the smart contract for tracking
-      const stateHash = `0x${Buffer.from(JSON.stringify(stateData)).toString("hex")}`;
-      const signaturesArray = Object.values(collectedSignatures) as `0x${string}`[];
+      const state = getCurrentState();
+      const signatures = await getSignaturesFor(state);
 
       await updateStateAsync({
         functionName: "updateState",
-        args: [
-          channelId as `0x${string}`,
-          {
-            channelId: channelId as `0x${string}`,
-            stateHash: stateHash as `0x${string}`,
-            nonce: BigInt(Date.now()),
-            balances: balances,
-          },
-          signaturesArray,
-        ],
+        args: [channelId as Hex, state, signatures],
       });
 
       notification.success("Channel state updated successfully!");
-      onStateUpdate?.(stateData);
+      onStateUpdate?.(state);
     } catch (error) {
       console.error("Error updating state:", error);
-      notification.error("Failed to update channel state");
+      notification.error(error instanceof Error ? error.message : "Failed to update channel state");
     }
   };
 
@@ -132,38 +141,21 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
     }
 
     try {
-      // Use state channel client to close channel
-      await stateChannelClient.closeChannel();
-
-      // Also update the smart contract for tracking
-      const balances = newState.balances.map(b => BigInt(parseInt(b) || 0));
-      const stateData = {
-        channelId,
-        balances,
-        description: newState.description,
-        timestamp: Date.now(),
-      };
-      const stateHash = `0x${Buffer.from(JSON.stringify(stateData)).toString("hex")}`;
-      const signaturesArray = Object.values(signatures) as `0x${string}`[];
+      const state = getCurrentState();
+      const signatures = await getSignaturesFor(state);
 
       await closeChannelAsync({
         functionName: "closeChannel",
-        args: [
-          channelId as `0x${string}`,
-          {
-            channelId: channelId as `0x${string}`,
-            stateHash: stateHash as `0x${string}`,
-            nonce: BigInt(Date.now()),
-            balances: balances,
-          },
-          signaturesArray,
-        ],
+        args: [channelId as Hex, state, signatures],
       });
 
+      // Close the off-chain session once the final state is on-chain
+      await stateChannelClient.closeChannel(channelId);
+
       notification.success("Channel closed successfully!");
     } catch (error) {
       console.error("Error closing channel:", error);
-      notification.error("Failed to close channel");
+      notification.error(error instanceof Error ? error.message : "Failed to close channel");
     }
   };
 
@@ -173,29 +165,15 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
       return;
     }
 
-    try {
-      const balances = newState.balances.map(b => BigInt(parseInt(b) || 0));
-      const stateData = {
-        channelId,
-        balances,
-        description: newState.description,
-        timestamp: Date.now(),
-      };
-      const stateHash = `0x${Buffer.from(JSON.stringify(stateData)).toString("hex")}`;
-      const signaturesArray = Object.values(signatures) as `0x${string}`[];
+    if (!signedState) {
+      notification.error("No state signed by every participant is stored on this device");
+      return;
+    }
 
+    try {
       await challengeStateAsync({
         functionName: "challengeState",
-        args: [
-          channelId as `0x${string}`,
-          {
-            channelId: channelId as `0x${string}`,
-            stateHash: stateHash as `0x${string}`,
-            nonce: BigInt(Date.now()),
-            balances: balances,
-          },
-          signaturesArray,
-        ],
+        args: [channelId as Hex, signedState.state, signedState.signatures],
       });
 
       notification.success("State challenge initiated!");
@@ -205,6 +183,8 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
     }
   };
 
+  const currentChannel = stateChannelClient.getChannel(channelId);
+
   return (
     <div className="card bg-base-100 shadow-xl">
       <div className="card-body">
@@ -227,53 +207,56 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
           </svg>
           <span>
             State Channel: {isConnected ? "Connected" : "Disconnected"}
-            {isConnected && ` (${Object.keys(signatures).length} signature(s) collected)`}
+            {isConnected && signedState && ` (state #${signedState.state.nonce} signed by all participants)`}
           </span>
         </div>
 
-        {/* State Update Form */}
+        {/* Current Off-chain State */}
         <div className="space-y-4">
-          <div className="form-control">
-            <label className="label">
-              <span className="label-text">New Balances</span>
-            </label>
-            <div className="space-y-2">
-              {participants.map((participant, index) => (
-                <div key={participant} className="flex items-center space-x-2">
-                  <span className="text-sm font-mono w-32 truncate">{participant}</span>
-                  <input
-                    type="number"
-                    placeholder="Balance"
-                    className="input input-bordered flex-1"
-                    value={newState.balances[index] || ""}
-                    onChange={e => {
-                      const newBalances = [...newState.balances];
-                      newBalances[index] = e.target.value;
-                      setNewState({ ...newState, balances: newBalances });
-                    }}
-                  />
+          {currentChannel ? (
+            <div className="bg-base-200 p-3 rounded text-sm space-y-1">
+              <div>
+                <span className="text-base-content/60">Nonce:</span> {currentChannel.nonce}
+              </div>
+              <div className="break-all">
+                <span className="text-base-content/60">State hash:</span>{" "}
+                <span className="font-mono">{currentChannel.stateHash}</span>
+              </div>
+              {currentChannel.participants.map(participant => (
+                <div key={participant.address} className="flex justify-between items-center">
+                  <Address address={participant.address} size="xs" />
+                  <span className="font-mono">{formatCurrencyAmount(formatMoney(participant.balance))}</span>
                 </div>
               ))}
             </div>
-          </div>
-
-          <div className="form-control">
-            <label className="label">
-              <span className="label-text">Description</span>
-            </label>
-            <input
-              type="text"
-              placeholder="State update description"
-              className="input input-bordered"
-              value={newState.description}
-              onChange={e => setNewState({ ...newState, description: e.target.value })}
-            />
+          ) : (
+            <p className="text-sm text-base-content/60">No off-chain state loaded for this channel yet.</p>
+          )}
+
+          {/* Adjudicated On-chain State */}
+          <div className="bg-base-200 p-3 rounded text-sm space-y-1">
+            <div className="font-semibold">On-chain balances</div>
+            {onChainBalances && onChainBalances.length > 0 ? (
+              participants.map((participant, index) => (
+                <div key={participant} className="flex justify-between items-center">
+                  <Address address={participant} size="xs" />
+                  <span className="font-mono">{formatCurrencyAmount(formatMoney(onChainBalances[index] ?? 0n))}</span>
+                </div>
+              ))
+            ) : (
+              <p className="text-base-content/60">No signed state has been submitted on-chain yet.</p>
+            )}
           </div>
 
           {/* Action Buttons */}
           <div className="flex gap-2 flex-wrap">
-            <button className="btn btn-primary" onClick={handleUpdateState} disabled={isUpdatingState}>
-              {isUpdatingState ? (
+            <button className="btn btn-primary" onClick={handleUpdateState} disabled={isUpdatingState || isCollecting}>
+              {isCollecting ? (
+                <>
+                  <span className="loading loading-spinner loading-sm"></span>
+                  Collecting signatures...
+                </>
+              ) : isUpdatingState ? (
                 <>
                   <span className="loading loading-spinner loading-sm"></span>
                   Updating...
@@ -283,7 +266,11 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
               )}
             </button>
 
-            <button className="btn btn-warning" onClick={handleChallengeState} disabled={isChallengingState}>
+            <button
+              className="btn btn-warning"
+              onClick={handleChallengeState}
+              disabled={isChallengingState || !signedState}
+            >
               {isChallengingState ? (
                 <>
                   <span className="loading loading-spinner loading-sm"></span>
@@ -294,7 +281,7 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
               )}
             </button>
 
-            <button className="btn btn-error" onClick={handleCloseChannel} disabled={isClosingChannel}>
+            <button className="btn btn-error" onClick={handleCloseChannel} disabled={isClosingChannel || isCollecting}>
               {isClosingChannel ? (
                 <>
                   <span className="loading loading-spinner loading-sm"></span>
@@ -307,6 +294,35 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
           </div>
         </div>
 
+        {/* Signing Rounds */}
+        {rounds.length > 0 && (
+          <div className="mt-4">
+            <h3 className="font-semibold mb-2">Signing Rounds</h3>
+            <div className="space-y-2">
+              {rounds.slice(0, 3).map(round => (
+                <div key={round.id} className="bg-base-200 p-3 rounded text-sm space-y-2">
+                  <div className="flex justify-between">
+                    <span>State #{round.state.nonce.toString()}</span>
+                    <span className="capitalize">
+                      {round.status}
+                      {round.status === "collecting" && ` until ${new Date(round.deadline).toLocaleTimeString()}`}
+                    </span>
+                  </div>
+                  {round.participants.map(participant => {
+                    const status = getSignerStatus(round, participant);
+                    return (
+                      <div key={participant} className="flex justify-between items-center">
+                        <Address address={participant} size="xs" />
+                        <span className={`badge badge-sm ${SIGNER_STATUS_BADGES[status]}`}>{status}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent State Events */}
         {stateEvents && stateEvents.length > 0 && (
           <div className="mt-4">
@@ -317,12 +333,48 @@ const ChannelStateManager = ({ channelId, participants, onStateUpdate }: Channel
                   <div>Nonce: {event.args.nonce?.toString()}</div>
                   <div>Updated by: {event.args.updatedBy}</div>
                   <div>Hash: {event.args.stateHash?.slice(0, 10)}...</div>
+                  <div>
+                    Balances:{" "}
+                    {event.args.balances?.map(balance => formatCurrencyAmount(formatMoney(balance))).join(", ")}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Disputes */}
+        {disputeEvents && disputeEvents.length > 0 && (
+          <div className="mt-4">
+            <h3 className="font-semibold mb-2">Disputes</h3>
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {disputeEvents.slice(0, 5).map((event, index) => (
+                <div key={index} className="text-xs bg-base-200 p-2 rounded">
+                  <div>Nonce: {event.args.newNonce?.toString()}</div>
+                  <div>Challenger: {event.args.challenger}</div>
+                  <div>
+                    Deadline:{" "}
+                    {event.args.disputeDeadline
+                      ? new Date(Number(event.args.disputeDeadline) * 1000).toLocaleString()
+                      : "-"}
+                  </div>
+                  <div>
+                    Balances:{" "}
+                    {event.args.balances?.map(balance => formatCurrencyAmount(formatMoney(balance))).join(", ")}
+                  </div>
                 </div>
               ))}
             </div>
           </div>
         )}
       </div>
+
+      <StateSignatureRequests
+        participants={participants}
+        proposals={proposals}
+        onApprove={approveProposal}
+        onReject={rejectProposal}
+      />
     </div>
   );
 };
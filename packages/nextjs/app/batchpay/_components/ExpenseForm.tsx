@@ -1,32 +1,150 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useAccount } from "wagmi";
+import { fxRateService } from "~~/services/fxRates";
+import { receiptStore } from "~~/services/receiptStore";
+import { SETTLEMENT_CURRENCY, SUPPORTED_CURRENCIES } from "~~/utils/currencies";
+import {
+  DEFAULT_EXPENSE_CATEGORIES,
+  getCategoryLabel,
+  normalizeCategory,
+  parseTagInput,
+  validateCategoryAndTags,
+} from "~~/utils/expenseCategories";
+import { SPLIT_MODES, type SplitMode, validateExpenseSplit } from "~~/utils/expenseSplit";
+import type { Expense } from "~~/utils/expenseValidation";
+import { MAX_RECEIPTS_PER_EXPENSE, MAX_RECEIPT_SIZE, RECEIPT_ACCEPT, formatFileSize } from "~~/utils/receipts";
+import {
+  RECURRENCE_INTERVALS,
+  type RecurrenceInterval,
+  type RecurringExpenseTemplate,
+  formatCalendarDate,
+  parseCalendarDate,
+} from "~~/utils/recurringExpenses";
 import { notification } from "~~/utils/scaffold-eth";
 
-interface Expense {
-  id: string;
-  description: string;
-  amount: string;
-  paidBy: string;
-  participants: string[];
-  timestamp: number;
-}
-
 interface ExpenseFormProps {
   channelId: string;
   participants: string[];
+  expense?: Expense; // Pre-fills the form to edit an existing expense
+  categories?: string[]; // Closed category list of the channel; custom categories are allowed when omitted
   onExpenseAdded: (expense: Expense) => void;
+  onRecurringExpenseAdded?: (template: Omit<RecurringExpenseTemplate, "id" | "createdBy" | "createdAt">) => void;
   onClose: () => void;
 }
 
-const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: ExpenseFormProps) => {
+/**
+ * Maps a (lowercased) stored address back to the channel's participant entry
+ */
+const findParticipant = (participants: string[], address: string): string | undefined => {
+  return participants.find(participant => participant.toLowerCase() === address.toLowerCase());
+};
+
+// Select value that reveals the custom category input
+const CUSTOM_CATEGORY = "__custom__";
+
+const ExpenseForm = ({
+  channelId,
+  participants,
+  expense,
+  categories,
+  onExpenseAdded,
+  onRecurringExpenseAdded,
+  onClose,
+}: ExpenseFormProps) => {
   const { address } = useAccount();
-  const [description, setDescription] = useState("");
-  const [amount, setAmount] = useState("");
-  const [paidBy, setPaidBy] = useState(address || "");
-  const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
+  const isEditing = Boolean(expense);
+  const categoryOptions = categories
+    ? categories.map(category => ({ value: normalizeCategory(category), label: getCategoryLabel(category) }))
+    : DEFAULT_EXPENSE_CATEGORIES;
+  const isKnownCategory = (category?: string) => categoryOptions.some(option => option.value === category);
+  const [description, setDescription] = useState(expense?.description ?? "");
+  const [category, setCategory] = useState(() => {
+    if (!expense?.category) return "";
+    return isKnownCategory(expense.category) || categories ? expense.category : CUSTOM_CATEGORY;
+  });
+  const [customCategory, setCustomCategory] = useState(
+    expense?.category && !isKnownCategory(expense.category) ? expense.category : "",
+  );
+  const [tagsInput, setTagsInput] = useState(expense?.tags?.join(", ") ?? "");
+  const [amount, setAmount] = useState(expense?.amount ?? "");
+  const [currency, setCurrency] = useState(expense?.currency ?? SETTLEMENT_CURRENCY);
+  const [fxRate, setFxRate] = useState(expense?.fxRate ?? "1");
+  const [fxRateSource, setFxRateSource] = useState<string | null>(null);
+  const [isFetchingRate, setIsFetchingRate] = useState(false);
+  const [paidBy, setPaidBy] = useState(
+    expense ? (findParticipant(participants, expense.paidBy) ?? expense.paidBy) : address || "",
+  );
+  const [selectedParticipants, setSelectedParticipants] = useState<string[]>(() =>
+    expense ? participants.filter(participant => expense.participants.includes(participant.toLowerCase())) : [],
+  );
+  const [splitMode, setSplitMode] = useState<SplitMode>(expense?.splitMode ?? "equal");
+  const [splitWeights, setSplitWeights] = useState<Record<string, string>>(() => {
+    if (!expense?.splitWeights) return {};
+    return Object.fromEntries(
+      expense.participants.map((participant, index) => [
+        findParticipant(participants, participant) ?? participant,
+        expense.splitWeights?.[index] ?? "0",
+      ]),
+    );
+  });
+  const [receipts, setReceipts] = useState<string[]>(expense?.receipts ?? []);
+  const [receiptNames, setReceiptNames] = useState<Record<string, string>>({});
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [repeatInterval, setRepeatInterval] = useState<RecurrenceInterval | "">("");
+  const [startDate, setStartDate] = useState(() => formatCalendarDate(Date.now()));
+  const [endDate, setEndDate] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const canRepeat = Boolean(onRecurringExpenseAdded) && !isEditing;
+
+  const selectedWeights = selectedParticipants.map(participant => splitWeights[participant] || "0");
+  const weightsTotal = selectedWeights.reduce((sum, weight) => sum + (parseFloat(weight) || 0), 0);
+
+  // Snapshot the current exchange rate whenever the currency changes
+  useEffect(() => {
+    let cancelled = false;
+
+    if (currency === SETTLEMENT_CURRENCY) {
+      setFxRate("1");
+      setFxRateSource(null);
+      return;
+    }
+
+    // Keep the rate snapshotted when the expense was entered unless its currency changes
+    if (expense && currency === expense.currency) {
+      setFxRate(expense.fxRate);
+      setFxRateSource("snapshot");
+      return;
+    }
+
+    setIsFetchingRate(true);
+    fxRateService
+      .getRate(currency)
+      .then(quote => {
+        if (cancelled) return;
+        setFxRate(quote.rate);
+        setFxRateSource(quote.source);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error("Error fetching FX rate:", error);
+        setFxRate("");
+        setFxRateSource(null);
+        notification.error(`Could not fetch an exchange rate for ${currency}, please enter one`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsFetchingRate(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, expense]);
+
+  const handleWeightChange = (participant: string, value: string) => {
+    setSplitWeights({ ...splitWeights, [participant]: value });
+  };
 
   const handleParticipantToggle = (participant: string) => {
     if (selectedParticipants.includes(participant)) {
@@ -36,6 +154,36 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
     }
   };
 
+  // Store picked files locally; only their content hashes go into the expense
+  const handleReceiptChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    if (receipts.length + files.length > MAX_RECEIPTS_PER_EXPENSE) {
+      notification.error(`At most ${MAX_RECEIPTS_PER_EXPENSE} receipts can be attached to an expense`);
+      return;
+    }
+
+    setIsAttaching(true);
+    try {
+      const added = [...receipts];
+      const names = { ...receiptNames };
+      for (const file of files) {
+        const receipt = await receiptStore.addFile(file);
+        if (!added.includes(receipt.hash)) added.push(receipt.hash);
+        names[receipt.hash] = receipt.name;
+      }
+      setReceipts(added);
+      setReceiptNames(names);
+    } catch (error) {
+      console.error("Error attaching receipt:", error);
+      notification.error(error instanceof Error ? error.message : "Failed to attach receipt");
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -44,11 +192,29 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
       return;
     }
 
+    const selectedCategory = category === CUSTOM_CATEGORY ? normalizeCategory(customCategory) : category;
+    if (category === CUSTOM_CATEGORY && !selectedCategory) {
+      notification.error("Please enter a custom category");
+      return;
+    }
+
+    const tags = parseTagInput(tagsInput);
+    const categoryErrors = validateCategoryAndTags(selectedCategory || undefined, tags, categories);
+    if (categoryErrors.length > 0) {
+      notification.error(categoryErrors[0]);
+      return;
+    }
+
     if (!amount || parseFloat(amount) <= 0) {
       notification.error("Please enter a valid amount");
       return;
     }
 
+    if (!fxRate || parseFloat(fxRate) <= 0) {
+      notification.error("Please enter a valid exchange rate");
+      return;
+    }
+
     if (!paidBy) {
       notification.error("Please select who paid");
       return;
@@ -59,26 +225,79 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
       return;
     }
 
+    const splitErrors = validateExpenseSplit({
+      amount,
+      fxRate,
+      participants: selectedParticipants,
+      splitMode,
+      splitWeights: selectedWeights,
+    });
+    if (splitErrors.length > 0) {
+      notification.error(splitErrors[0]);
+      return;
+    }
+
+    if (repeatInterval) {
+      const start = parseCalendarDate(startDate);
+      if (start === null) {
+        notification.error("Please enter a valid start date");
+        return;
+      }
+      if (endDate && (parseCalendarDate(endDate) ?? 0) < start) {
+        notification.error("End date cannot be before the start date");
+        return;
+      }
+    }
+
     setIsSubmitting(true);
 
     try {
-      const expense: Expense = {
-        id: `${channelId}-${Date.now()}`,
+      const submittedExpense: Expense = {
+        ...expense,
+        id: expense?.id ?? `${channelId}-${Date.now()}`,
         description: description.trim(),
+        category: selectedCategory || undefined,
+        tags: tags.length > 0 ? tags : undefined,
         amount,
+        currency,
+        fxRate,
         paidBy,
         participants: selectedParticipants,
-        timestamp: Date.now(),
+        splitMode,
+        splitWeights: splitMode === "equal" ? undefined : selectedWeights,
+        receipts: receipts.length > 0 ? receipts : undefined,
+        timestamp: expense?.timestamp ?? Date.now(),
       };
 
-      onExpenseAdded(expense);
-      notification.success("Expense added successfully!");
+      if (repeatInterval && onRecurringExpenseAdded) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { id, timestamp, revisions, receipts, ...templateData } = submittedExpense;
+        onRecurringExpenseAdded({
+          ...templateData,
+          interval: repeatInterval,
+          startDate,
+          endDate: endDate || undefined,
+        });
+      } else {
+        onExpenseAdded(submittedExpense);
+        notification.success(isEditing ? "Expense saved successfully!" : "Expense added successfully!");
+      }
 
       // Reset form
       setDescription("");
+      setCategory("");
+      setCustomCategory("");
+      setTagsInput("");
       setAmount("");
+      setCurrency(SETTLEMENT_CURRENCY);
       setPaidBy(address || "");
       setSelectedParticipants([]);
+      setSplitMode("equal");
+      setSplitWeights({});
+      setReceipts([]);
+      setReceiptNames({});
+      setRepeatInterval("");
+      setEndDate("");
       onClose();
     } catch (error) {
       console.error("Error adding expense:", error);
@@ -93,7 +312,7 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
       <div className="bg-base-100 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold">Add New Expense</h2>
+            <h2 className="text-2xl font-bold">{isEditing ? "Edit Expense" : "Add New Expense"}</h2>
             <button onClick={onClose} className="btn btn-sm btn-circle btn-ghost" disabled={isSubmitting}>
               ✕
             </button>
@@ -116,24 +335,122 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
               />
             </div>
 
-            {/* Amount */}
+            {/* Category */}
             <div className="form-control">
               <label className="label">
-                <span className="label-text">Amount (USD)</span>
+                <span className="label-text">Category</span>
+              </label>
+              <div className="flex gap-2">
+                <select
+                  className="select select-bordered flex-1"
+                  value={category}
+                  onChange={e => setCategory(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value="">{getCategoryLabel()}</option>
+                  {categoryOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                  {!categories && <option value={CUSTOM_CATEGORY}>Custom...</option>}
+                </select>
+                {category === CUSTOM_CATEGORY && (
+                  <input
+                    type="text"
+                    placeholder="e.g., Entertainment"
+                    className="input input-bordered flex-1"
+                    value={customCategory}
+                    onChange={e => setCustomCategory(e.target.value)}
+                    disabled={isSubmitting}
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* Tags */}
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Tags</span>
               </label>
               <input
-                type="number"
-                step="0.01"
-                min="0"
-                placeholder="0.00"
+                type="text"
+                placeholder="e.g., trip, paris"
                 className="input input-bordered w-full"
-                value={amount}
-                onChange={e => setAmount(e.target.value)}
+                value={tagsInput}
+                onChange={e => setTagsInput(e.target.value)}
                 disabled={isSubmitting}
-                required
               />
+              <label className="label">
+                <span className="label-text-alt">Separate tags with commas</span>
+              </label>
             </div>
 
+            {/* Amount */}
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Amount ({currency})</span>
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  className="input input-bordered flex-1"
+                  value={amount}
+                  onChange={e => setAmount(e.target.value)}
+                  disabled={isSubmitting}
+                  required
+                />
+                <select
+                  className="select select-bordered w-32"
+                  value={currency}
+                  onChange={e => setCurrency(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  {SUPPORTED_CURRENCIES.map(option => (
+                    <option key={option.code} value={option.code}>
+                      {option.code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Exchange Rate */}
+            {currency !== SETTLEMENT_CURRENCY && (
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">
+                    Exchange Rate (1 {currency} = ? {SETTLEMENT_CURRENCY})
+                  </span>
+                  {isFetchingRate && <span className="loading loading-spinner loading-xs"></span>}
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  className="input input-bordered w-full"
+                  value={fxRate}
+                  onChange={e => {
+                    setFxRate(e.target.value);
+                    setFxRateSource("manual");
+                  }}
+                  disabled={isSubmitting || isFetchingRate}
+                  required
+                />
+                <label className="label">
+                  <span className="label-text-alt">
+                    {fxRateSource ? `Rate source: ${fxRateSource}. ` : ""}
+                    {amount && parseFloat(fxRate) > 0
+                      ? `≈ ${(parseFloat(amount) * parseFloat(fxRate)).toFixed(2)} ${SETTLEMENT_CURRENCY}`
+                      : ""}
+                  </span>
+                </label>
+              </div>
+            )}
+
             {/* Paid By */}
             <div className="form-control">
               <label className="label">
@@ -155,6 +472,30 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
               </select>
             </div>
 
+            {/* Split Mode */}
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Split Mode</span>
+              </label>
+              <select
+                className="select select-bordered w-full"
+                value={splitMode}
+                onChange={e => setSplitMode(e.target.value as SplitMode)}
+                disabled={isSubmitting}
+              >
+                {SPLIT_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+              <label className="label">
+                <span className="label-text-alt">
+                  {SPLIT_MODES.find(mode => mode.value === splitMode)?.description}
+                </span>
+              </label>
+            </div>
+
             {/* Participants */}
             <div className="form-control">
               <label className="label">
@@ -162,36 +503,164 @@ const ExpenseForm = ({ channelId, participants, onExpenseAdded, onClose }: Expen
               </label>
               <div className="space-y-2">
                 {participants.map(participant => (
-                  <label key={participant} className="flex items-center space-x-3 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      className="checkbox"
-                      checked={selectedParticipants.includes(participant)}
-                      onChange={() => handleParticipantToggle(participant)}
-                      disabled={isSubmitting}
-                    />
-                    <span className="flex items-center space-x-2">
-                      <span className="font-mono text-sm">
-                        {participant === address ? "You" : participant.slice(0, 6) + "..." + participant.slice(-4)}
+                  <div key={participant} className="flex items-center justify-between gap-3">
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="checkbox"
+                        checked={selectedParticipants.includes(participant)}
+                        onChange={() => handleParticipantToggle(participant)}
+                        disabled={isSubmitting}
+                      />
+                      <span className="flex items-center space-x-2">
+                        <span className="font-mono text-sm">
+                          {participant === address ? "You" : participant.slice(0, 6) + "..." + participant.slice(-4)}
+                        </span>
+                        {participant === address && <span className="badge badge-primary badge-sm">You</span>}
                       </span>
-                      {participant === address && <span className="badge badge-primary badge-sm">You</span>}
-                    </span>
-                  </label>
+                    </label>
+                    {splitMode !== "equal" && selectedParticipants.includes(participant) && (
+                      <input
+                        type="number"
+                        step={splitMode === "shares" ? "1" : "0.01"}
+                        min="0"
+                        placeholder={splitMode === "exact" ? "0.00" : splitMode === "percent" ? "%" : "1"}
+                        className="input input-bordered input-sm w-32"
+                        value={splitWeights[participant] || ""}
+                        onChange={e => handleWeightChange(participant, e.target.value)}
+                        disabled={isSubmitting}
+                      />
+                    )}
+                  </div>
                 ))}
               </div>
+              {splitMode !== "equal" && selectedParticipants.length > 0 && (
+                <label className="label">
+                  <span className="label-text-alt">
+                    {splitMode === "exact" &&
+                      `Assigned ${weightsTotal.toFixed(2)} of ${(parseFloat(amount) || 0).toFixed(2)}`}
+                    {splitMode === "percent" && `Assigned ${weightsTotal}% of 100%`}
+                    {splitMode === "shares" && `${weightsTotal} total share${weightsTotal !== 1 ? "s" : ""}`}
+                  </span>
+                </label>
+              )}
             </div>
 
+            {/* Receipts */}
+            {!repeatInterval && (
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">Receipts</span>
+                  {isAttaching && <span className="loading loading-spinner loading-xs"></span>}
+                </label>
+                {receipts.length > 0 && (
+                  <ul className="space-y-1 mb-2">
+                    {receipts.map(hash => (
+                      <li key={hash} className="flex items-center justify-between gap-2 bg-base-200 px-3 py-1 rounded">
+                        <span className="text-sm truncate" title={hash}>
+                          📎 {receiptNames[hash] ?? `${hash.slice(0, 10)}…${hash.slice(-8)}`}
+                        </span>
+                        <button
+                          type="button"
+                          className="btn btn-xs btn-ghost"
+                          onClick={() => setReceipts(receipts.filter(receipt => receipt !== hash))}
+                          disabled={isSubmitting}
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <input
+                  type="file"
+                  accept={RECEIPT_ACCEPT}
+                  multiple
+                  className="file-input file-input-bordered file-input-sm w-full"
+                  onChange={handleReceiptChange}
+                  disabled={isSubmitting || isAttaching || receipts.length >= MAX_RECEIPTS_PER_EXPENSE}
+                />
+                <label className="label">
+                  <span className="label-text-alt">
+                    Images or PDFs up to {formatFileSize(MAX_RECEIPT_SIZE)}. Files stay on your device; only their hash
+                    is shared in the channel state.
+                  </span>
+                </label>
+              </div>
+            )}
+
+            {/* Repeat */}
+            {canRepeat && (
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">Repeat</span>
+                </label>
+                <select
+                  className="select select-bordered w-full"
+                  value={repeatInterval}
+                  onChange={e => setRepeatInterval(e.target.value as RecurrenceInterval | "")}
+                  disabled={isSubmitting}
+                >
+                  <option value="">Does not repeat</option>
+                  {RECURRENCE_INTERVALS.map(interval => (
+                    <option key={interval.value} value={interval.value}>
+                      {interval.label}
+                    </option>
+                  ))}
+                </select>
+                {repeatInterval && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <div>
+                      <label className="label">
+                        <span className="label-text-alt">Starts</span>
+                      </label>
+                      <input
+                        type="date"
+                        className="input input-bordered w-full"
+                        value={startDate}
+                        onChange={e => setStartDate(e.target.value)}
+                        disabled={isSubmitting}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="label">
+                        <span className="label-text-alt">Ends (optional)</span>
+                      </label>
+                      <input
+                        type="date"
+                        className="input input-bordered w-full"
+                        value={endDate}
+                        min={startDate}
+                        onChange={e => setEndDate(e.target.value)}
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                  </div>
+                )}
+                {repeatInterval && (
+                  <label className="label">
+                    <span className="label-text-alt">
+                      Every due occurrence is added automatically when a participant opens the channel
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex gap-3 pt-4">
               <button type="button" onClick={onClose} className="btn btn-outline flex-1" disabled={isSubmitting}>
                 Cancel
               </button>
-              <button type="submit" className="btn btn-primary flex-1" disabled={isSubmitting}>
+              <button type="submit" className="btn btn-primary flex-1" disabled={isSubmitting || isAttaching}>
                 {isSubmitting ? (
                   <>
                     <span className="loading loading-spinner loading-sm"></span>
-                    Adding...
+                    {isEditing ? "Saving..." : "Adding..."}
                   </>
+                ) : isEditing ? (
+                  "Save Changes"
                 ) : (
                   "Add Expense"
                 )}
@@ -0,0 +1,82 @@
+"use client";
+
+import { Address } from "~~/components/scaffold-eth";
+import { getFieldLabel } from "~~/utils/expenseRevisions";
+import type { Expense } from "~~/utils/expenseValidation";
+
+interface ExpenseHistoryDrawerProps {
+  expense: Expense;
+  onClose: () => void;
+}
+
+const ExpenseHistoryDrawer = ({ expense, onClose }: ExpenseHistoryDrawerProps) => {
+  // Newest revision first
+  const revisions = [...(expense.revisions ?? [])].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-base-100 shadow-xl w-full max-w-md h-full overflow-y-auto"
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-2xl font-bold">Revision History</h2>
+            <button onClick={onClose} className="btn btn-sm btn-circle btn-ghost">
+              ✕
+            </button>
+          </div>
+          <p className="text-base-content/60 mb-6">{expense.description}</p>
+
+          {revisions.length === 0 ? (
+            <div className="text-center py-8 text-base-content/60">
+              <p>No revision history recorded for this expense.</p>
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {revisions.map(revision => (
+                <li key={revision.revision} className="bg-base-200 p-4 rounded-lg">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className={`badge ${revision.action === "created" ? "badge-success" : "badge-info"}`}>
+                      {revision.action === "created" ? "Created" : `Edit #${revision.revision}`}
+                    </span>
+                    <span className="text-xs text-base-content/60">Nonce {revision.nonce}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-base-content/60">By</span>
+                    <Address address={revision.author} size="sm" />
+                  </div>
+                  <div className="text-xs text-base-content/50 mb-2">
+                    {new Date(revision.timestamp).toLocaleString()}
+                  </div>
+                  {revision.changes.length > 0 && (
+                    <table className="table table-xs w-full">
+                      <thead>
+                        <tr>
+                          <th>Field</th>
+                          <th>Before</th>
+                          <th>After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {revision.changes.map(change => (
+                          <tr key={change.field}>
+                            <td>{getFieldLabel(change.field)}</td>
+                            <td className="break-all">{change.from || "—"}</td>
+                            <td className="break-all">{change.to || "—"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseHistoryDrawer;
@@ -0,0 +1,359 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { fxRateService } from "~~/services/fxRates";
+import { SETTLEMENT_CURRENCY, formatCurrencyAmount } from "~~/utils/currencies";
+import {
+  type ColumnMapping,
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportRowResult,
+  type ImportTable,
+  type PayerMapping,
+  buildImportedExpenses,
+  detectImportFormat,
+  getImportedNames,
+  guessColumnMapping,
+  guessPayerMapping,
+  parseImportFile,
+} from "~~/utils/expenseImport";
+import type { Expense } from "~~/utils/expenseValidation";
+import { notification } from "~~/utils/scaffold-eth";
+
+type WizardStep = "upload" | "map" | "preview";
+
+interface ExpenseImportWizardProps {
+  channelId: string;
+  participants: string[];
+  onImport: (expenses: Expense[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const STEPS: Array<{ value: WizardStep; label: string }> = [
+  { value: "upload", label: "Upload" },
+  { value: "map", label: "Map columns" },
+  { value: "preview", label: "Preview" },
+];
+
+const ExpenseImportWizard = ({ channelId, participants, onImport, onClose }: ExpenseImportWizardProps) => {
+  const { address } = useAccount();
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [payerMapping, setPayerMapping] = useState<PayerMapping>({});
+  const [defaultPayer, setDefaultPayer] = useState(
+    participants.find(participant => participant.toLowerCase() === address?.toLowerCase()) ?? "",
+  );
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const names = getImportedNames(table, mapping);
+  const validExpenses = results.flatMap(result => (result.expense ? [result.expense] : []));
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.value] === undefined);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const parsed = parseImportFile(text, detectImportFormat(file.name, text));
+      if (parsed.rows.length === 0) {
+        notification.error("The file has no rows to import");
+        return;
+      }
+
+      const guessedMapping = guessColumnMapping(parsed.headers);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessedMapping);
+      setPayerMapping(guessPayerMapping(getImportedNames(parsed, guessedMapping), participants));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      notification.error(`Could not read ${file.name}: ${error instanceof Error ? error.message : "invalid file"}`);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === "") {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handlePreview = async () => {
+    setIsPreparing(true);
+
+    try {
+      // Snapshot today's rate for foreign currency rows that don't carry their own
+      const fxRates: Record<string, string> = {};
+      if (mapping.currency !== undefined && mapping.fxRate === undefined) {
+        const currencies = new Set(
+          table.rows.map(row => (row[mapping.currency as number] || SETTLEMENT_CURRENCY).trim().toUpperCase()),
+        );
+        for (const currency of currencies) {
+          if (currency === SETTLEMENT_CURRENCY) continue;
+          try {
+            fxRates[currency] = (await fxRateService.getRate(currency)).rate;
+          } catch (error) {
+            console.warn(`No exchange rate for ${currency}:`, error);
+          }
+        }
+      }
+
+      setResults(
+        buildImportedExpenses(table, mapping, {
+          channelId,
+          participants,
+          payerMapping,
+          defaultPayer: defaultPayer || undefined,
+          fxRates,
+        }),
+      );
+      setStep("preview");
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(validExpenses);
+      onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-base-100 rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold">Import Expenses</h2>
+            <button onClick={onClose} className="btn btn-sm btn-circle btn-ghost" disabled={isImporting}>
+              ✕
+            </button>
+          </div>
+
+          <ul className="steps w-full mb-6">
+            {STEPS.map((item, index) => (
+              <li
+                key={item.value}
+                className={`step ${STEPS.findIndex(s => s.value === step) >= index ? "step-primary" : ""}`}
+              >
+                {item.label}
+              </li>
+            ))}
+          </ul>
+
+          {/* Step 1: Upload */}
+          {step === "upload" && (
+            <div className="space-y-4">
+              <p className="text-base-content/60">
+                Upload a CSV or JSON export, e.g. from Splitwise or your bank. The first CSV row must contain the column
+                names.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="file-input file-input-bordered w-full"
+                onChange={handleFileChange}
+              />
+            </div>
+          )}
+
+          {/* Step 2: Map columns and payer names */}
+          {step === "map" && (
+            <div className="space-y-6">
+              <p className="text-base-content/60">
+                {fileName}: {table.rows.length} row(s). Choose which column holds each field.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.value} className="form-control">
+                    <label className="label">
+                      <span className="label-text">
+                        {field.label}
+                        {field.required && " *"}
+                      </span>
+                    </label>
+                    <select
+                      className="select select-bordered select-sm w-full"
+                      value={mapping[field.value] ?? ""}
+                      onChange={e => handleMappingChange(field.value, e.target.value)}
+                    >
+                      <option value="">Not in file</option>
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {mapping.paidBy === undefined && (
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">Paid by (all rows)</span>
+                  </label>
+                  <select
+                    className="select select-bordered w-full"
+                    value={defaultPayer}
+                    onChange={e => setDefaultPayer(e.target.value)}
+                  >
+                    <option value="">Select payer</option>
+                    {participants.map(participant => (
+                      <option key={participant} value={participant}>
+                        {participant.toLowerCase() === address?.toLowerCase() ? `${participant} (You)` : participant}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {names.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2">Match names to participants</h3>
+                  <div className="space-y-2">
+                    {names.map(name => (
+                      <div key={name} className="flex items-center gap-4 bg-base-200 p-2 rounded">
+                        <span className="flex-1 font-mono text-sm truncate">{name}</span>
+                        <select
+                          className="select select-bordered select-sm flex-1"
+                          value={payerMapping[name] ?? ""}
+                          onChange={e => setPayerMapping({ ...payerMapping, [name]: e.target.value })}
+                        >
+                          <option value="">Not mapped</option>
+                          {participants.map(participant => (
+                            <option key={participant} value={participant}>
+                              {participant}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button className="btn btn-outline flex-1" onClick={() => setStep("upload")}>
+                  Back
+                </button>
+                <button
+                  className="btn btn-primary flex-1"
+                  onClick={handlePreview}
+                  disabled={missingRequired.length > 0 || isPreparing}
+                >
+                  {isPreparing ? <span className="loading loading-spinner loading-sm"></span> : "Preview"}
+                </button>
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-error">
+                  Map a column for: {missingRequired.map(field => field.label).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Step 3: Preview validation results */}
+          {step === "preview" && (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <span className="badge badge-success">{validExpenses.length} valid</span>
+                <span className="badge badge-error">{results.length - validExpenses.length} with errors</span>
+                <span className="badge badge-warning">
+                  {results.filter(result => result.warnings.length > 0).length} with warnings
+                </span>
+              </div>
+
+              <div className="overflow-x-auto max-h-96">
+                <table className="table table-sm w-full">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Expense</th>
+                      <th>Paid by</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map(result => (
+                      <tr key={result.row}>
+                        <td>{result.row}</td>
+                        <td>
+                          {result.expense ? (
+                            <>
+                              <div className="font-semibold">{result.expense.description}</div>
+                              <div className="text-xs text-base-content/60">
+                                {formatCurrencyAmount(result.expense.amount, result.expense.currency)} •{" "}
+                                {new Date(result.expense.timestamp).toLocaleDateString()}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-base-content/60">—</span>
+                          )}
+                        </td>
+                        <td>{result.expense && <Address address={result.expense.paidBy} size="xs" />}</td>
+                        <td className="text-xs">
+                          {result.errors.map((error, index) => (
+                            <div key={`error-${index}`} className="text-error">
+                              {error}
+                            </div>
+                          ))}
+                          {result.warnings.map((warning, index) => (
+                            <div key={`warning-${index}`} className="text-warning">
+                              {warning}
+                            </div>
+                          ))}
+                          {result.errors.length === 0 && result.warnings.length === 0 && (
+                            <span className="text-success">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex gap-3">
+                <button className="btn btn-outline flex-1" onClick={() => setStep("map")} disabled={isImporting}>
+                  Back
+                </button>
+                <button
+                  className="btn btn-primary flex-1"
+                  onClick={handleImport}
+                  disabled={validExpenses.length === 0 || isImporting}
+                >
+                  {isImporting ? (
+                    <>
+                      <span className="loading loading-spinner loading-sm"></span>
+                      Importing...
+                    </>
+                  ) : (
+                    `Import ${validExpenses.length} Expense(s)`
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseImportWizard;
@@ -0,0 +1,84 @@
+"use client";
+
+import type { StoredReceipt } from "~~/services/receiptStore";
+import type { Expense } from "~~/utils/expenseValidation";
+import { RECEIPT_ACCEPT } from "~~/utils/receipts";
+import { notification } from "~~/utils/scaffold-eth";
+
+interface ExpenseReceiptsProps {
+  expense: Expense;
+  availableReceipts: Set<string>;
+  onRequest: (hash: string) => void;
+  onVerify: (file: File, expense: Expense) => Promise<boolean>;
+  getReceipt: (hash: string) => Promise<StoredReceipt | null>;
+}
+
+const shortHash = (hash: string) => `${hash.slice(0, 8)}…${hash.slice(-6)}`;
+
+/**
+ * Receipt hashes of an expense, with the local file when we have it
+ */
+const ExpenseReceipts = ({ expense, availableReceipts, onRequest, onVerify, getReceipt }: ExpenseReceiptsProps) => {
+  const receipts = expense.receipts ?? [];
+
+  const handleView = async (hash: string) => {
+    const receipt = await getReceipt(hash);
+    if (!receipt) {
+      notification.error("Receipt is not stored on this device");
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([receipt.data], { type: receipt.mimeType }));
+    window.open(url, "_blank", "noopener,noreferrer");
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleVerify = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await onVerify(file, expense);
+    } catch (error) {
+      console.error("Error verifying receipt:", error);
+      notification.error(error instanceof Error ? error.message : "Failed to verify receipt");
+    }
+  };
+
+  if (receipts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {receipts.map(hash =>
+        availableReceipts.has(hash) ? (
+          <button
+            key={hash}
+            className="badge badge-sm badge-success gap-1"
+            onClick={() => handleView(hash)}
+            title={hash}
+          >
+            📎 {shortHash(hash)}
+          </button>
+        ) : (
+          <button
+            key={hash}
+            className="badge badge-sm badge-outline gap-1"
+            onClick={() => onRequest(hash)}
+            title={hash}
+          >
+            📎 {shortHash(hash)} · Request
+          </button>
+        ),
+      )}
+      <label className="badge badge-sm badge-ghost cursor-pointer" title="Check a file against the recorded hashes">
+        Verify file
+        <input type="file" accept={RECEIPT_ACCEPT} className="hidden" onChange={handleVerify} />
+      </label>
+    </div>
+  );
+};
+
+export default ExpenseReceipts;
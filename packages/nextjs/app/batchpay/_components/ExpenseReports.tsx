@@ -0,0 +1,147 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Address } from "~~/components/scaffold-eth";
+import { formatCurrencyAmount } from "~~/utils/currencies";
+import { getCategoryLabel } from "~~/utils/expenseCategories";
+import { buildExpenseReport } from "~~/utils/expenseReports";
+import type { Expense } from "~~/utils/expenseValidation";
+import { formatMoney } from "~~/utils/money";
+
+interface ExpenseReportsProps {
+  expenses: Expense[];
+}
+
+/**
+ * Convert a yyyy-mm-dd input value to a local-time timestamp at the start or end of that day
+ */
+const parseDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date.getTime();
+};
+
+const formatUsd = (units: bigint) => formatCurrencyAmount(formatMoney(units));
+
+const ExpenseReports = ({ expenses }: ExpenseReportsProps) => {
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const report = useMemo(
+    () =>
+      buildExpenseReport(expenses, {
+        from: parseDateInput(fromDate, false),
+        to: parseDateInput(toDate, true),
+      }),
+    [expenses, fromDate, toDate],
+  );
+
+  return (
+    <div className="card bg-base-100 shadow-xl">
+      <div className="card-body">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h2 className="card-title">Reports</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              className="input input-bordered input-sm"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={e => setFromDate(e.target.value)}
+            />
+            <span className="text-base-content/60">to</span>
+            <input
+              type="date"
+              className="input input-bordered input-sm"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={e => setToDate(e.target.value)}
+            />
+            {(fromDate || toDate) && (
+              <button
+                className="btn btn-sm btn-ghost"
+                onClick={() => {
+                  setFromDate("");
+                  setToDate("");
+                }}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+
+        {report.count === 0 ? (
+          <div className="text-center py-8 text-base-content/60">
+            <p>No expenses in this period.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="stat bg-base-200 rounded-lg">
+              <div className="stat-title">Total Spent</div>
+              <div className="stat-value text-2xl">{formatUsd(report.total)}</div>
+              <div className="stat-desc">
+                {report.count} expense{report.count !== 1 ? "s" : ""}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Per category */}
+              <div className="overflow-x-auto">
+                <h3 className="font-semibold mb-2">By Category</h3>
+                <table className="table table-zebra w-full">
+                  <thead>
+                    <tr>
+                      <th>Category</th>
+                      <th className="text-right">Expenses</th>
+                      <th className="text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byCategory.map(({ category, count, total }) => (
+                      <tr key={category ?? ""}>
+                        <td>{getCategoryLabel(category)}</td>
+                        <td className="text-right">{count}</td>
+                        <td className="text-right">{formatUsd(total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Per participant */}
+              <div className="overflow-x-auto">
+                <h3 className="font-semibold mb-2">By Participant</h3>
+                <table className="table table-zebra w-full">
+                  <thead>
+                    <tr>
+                      <th>Participant</th>
+                      <th className="text-right">Paid</th>
+                      <th className="text-right">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byParticipant.map(({ address, paid, spent }) => (
+                      <tr key={address}>
+                        <td>
+                          <Address address={address} size="sm" />
+                        </td>
+                        <td className="text-right">{formatUsd(paid)}</td>
+                        <td className="text-right">{formatUsd(spent)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseReports;
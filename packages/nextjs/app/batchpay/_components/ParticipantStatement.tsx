@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { formatCurrencyAmount } from "~~/utils/currencies";
+import type { Expense } from "~~/utils/expenseValidation";
+import { buildParticipantStatement } from "~~/utils/ledgerExport";
+import { formatMoney } from "~~/utils/money";
+
+interface ParticipantStatementProps {
+  channelId: string;
+  participants: string[];
+  initialParticipant?: string;
+  expenses: Expense[];
+  onClose: () => void;
+}
+
+const formatUsd = (units: bigint) => formatCurrencyAmount(formatMoney(units));
+
+/**
+ * Print-optimized statement of one participant's expenses and balance
+ */
+const ParticipantStatement = ({
+  channelId,
+  participants,
+  initialParticipant,
+  expenses,
+  onClose,
+}: ParticipantStatementProps) => {
+  const [participant, setParticipant] = useState(
+    participants.find(p => p.toLowerCase() === initialParticipant?.toLowerCase()) ?? participants[0] ?? "",
+  );
+  const statement = buildParticipantStatement(participant, expenses);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 print:bg-transparent">
+      <div className="print-statement bg-base-100 rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto print:max-h-none print:shadow-none print:rounded-none print:mx-0 print:bg-white print:text-black">
+        <div className="p-6">
+          {/* Controls, not printed */}
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-6 print:hidden">
+            <select
+              className="select select-bordered select-sm flex-1"
+              value={participant}
+              onChange={e => setParticipant(e.target.value)}
+            >
+              {participants.map(p => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <button className="btn btn-sm btn-primary" onClick={() => window.print()}>
+              Print
+            </button>
+            <button onClick={onClose} className="btn btn-sm btn-circle btn-ghost">
+              ✕
+            </button>
+          </div>
+
+          {/* Statement */}
+          <h2 className="text-2xl font-bold">Expense Statement</h2>
+          <div className="text-sm space-y-1 mb-6">
+            <div>
+              <span className="text-base-content/60 print:text-black">Participant:</span>{" "}
+              <span className="font-mono break-all">{participant}</span>
+            </div>
+            <div>
+              <span className="text-base-content/60 print:text-black">Channel:</span>{" "}
+              <span className="font-mono break-all">{channelId}</span>
+            </div>
+            <div>
+              <span className="text-base-content/60 print:text-black">Generated:</span> {new Date().toLocaleString()}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div>
+              <div className="text-sm text-base-content/60 print:text-black">Total paid</div>
+              <div className="text-xl font-bold">{formatUsd(statement.totalPaid)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-base-content/60 print:text-black">Total share</div>
+              <div className="text-xl font-bold">{formatUsd(statement.totalShare)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-base-content/60 print:text-black">
+                {statement.balance >= 0n ? "Owed to participant" : "Owed by participant"}
+              </div>
+              <div className="text-xl font-bold">
+                {formatUsd(statement.balance >= 0n ? statement.balance : -statement.balance)}
+              </div>
+            </div>
+          </div>
+
+          {statement.lines.length === 0 ? (
+            <p className="text-base-content/60">No expenses involve this participant.</p>
+          ) : (
+            <table className="table table-sm w-full">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th className="text-right">Total</th>
+                  <th className="text-right">Paid</th>
+                  <th className="text-right">Share</th>
+                  <th className="text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.lines.map(({ expense, paid, share, balance }) => (
+                  <tr key={expense.id} className="break-inside-avoid">
+                    <td>{new Date(expense.timestamp).toLocaleDateString()}</td>
+                    <td>{expense.description}</td>
+                    <td className="text-right">{formatCurrencyAmount(expense.amount, expense.currency)}</td>
+                    <td className="text-right">{paid > 0n ? formatUsd(paid) : "—"}</td>
+                    <td className="text-right">{share > 0n ? formatUsd(share) : "—"}</td>
+                    <td className="text-right font-mono">{formatMoney(balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantStatement;
@@ -0,0 +1,61 @@
+"use client";
+
+import { formatCurrencyAmount } from "~~/utils/currencies";
+import { getCategoryLabel } from "~~/utils/expenseCategories";
+import { describeSplit } from "~~/utils/expenseSplit";
+import { RECURRENCE_INTERVALS, type RecurringExpenseTemplate, getNextOccurrence } from "~~/utils/recurringExpenses";
+
+interface RecurringExpensesProps {
+  templates: RecurringExpenseTemplate[];
+  canEdit: boolean;
+  onRemove: (templateId: string) => void;
+}
+
+const getIntervalLabel = (template: RecurringExpenseTemplate) =>
+  RECURRENCE_INTERVALS.find(interval => interval.value === template.interval)?.label ?? template.interval;
+
+const RecurringExpenses = ({ templates, canEdit, onRemove }: RecurringExpensesProps) => {
+  return (
+    <div className="card bg-base-100 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Recurring Expenses ({templates.length})</h2>
+        <div className="space-y-3">
+          {templates.map(template => {
+            const nextOccurrence = getNextOccurrence(template);
+
+            return (
+              <div key={template.id} className="bg-base-200 p-4 rounded-lg">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="font-semibold">{template.description}</h3>
+                      <span className="badge badge-sm badge-secondary">{getIntervalLabel(template)}</span>
+                      {template.category && (
+                        <span className="badge badge-sm badge-primary">{getCategoryLabel(template.category)}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-base-content/60">
+                      {formatCurrencyAmount(template.amount, template.currency)} • {describeSplit(template)}
+                    </p>
+                    <p className="text-xs text-base-content/50">
+                      From {template.startDate}
+                      {template.endDate ? ` until ${template.endDate}` : ""} •{" "}
+                      {nextOccurrence ? `Next on ${nextOccurrence}` : "Schedule ended"}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <button className="btn btn-xs btn-outline btn-error" onClick={() => onRemove(template.id)}>
+                      Stop
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringExpenses;
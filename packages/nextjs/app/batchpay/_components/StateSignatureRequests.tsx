@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { Address } from "~~/components/scaffold-eth";
+import type { StateProposal } from "~~/hooks/scaffold-eth/useStateSigning";
+import { stateChannelClient } from "~~/services/stateChannelClient";
+import { formatCurrencyAmount } from "~~/utils/currencies";
+import { formatMoney } from "~~/utils/money";
+import { getSignableState } from "~~/utils/stateSignatures";
+
+interface StateSignatureRequestsProps {
+  participants: readonly string[];
+  proposals: StateProposal[];
+  onApprove: (roundId: string) => Promise<void>;
+  onReject: (roundId: string) => Promise<void>;
+}
+
+/**
+ * Review prompt for channel states other participants asked us to sign
+ */
+const StateSignatureRequests = ({ participants, proposals, onApprove, onReject }: StateSignatureRequestsProps) => {
+  const [signingRoundId, setSigningRoundId] = useState<string | null>(null);
+
+  if (proposals.length === 0) {
+    return null;
+  }
+
+  const proposal = proposals[0];
+  const { state } = proposal;
+  const localChannel = stateChannelClient.getChannel(state.channelId);
+  const matchesLocalState =
+    localChannel !== null &&
+    getSignableState(localChannel, participants).stateHash.toLowerCase() === state.stateHash.toLowerCase();
+  const balancesSum = state.balances.reduce((sum, balance) => sum + balance, 0n);
+
+  const handleApprove = async () => {
+    setSigningRoundId(proposal.roundId);
+    try {
+      await onApprove(proposal.roundId);
+    } finally {
+      setSigningRoundId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-base-100 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold">Sign Channel State</h2>
+            {proposals.length > 1 && <span className="badge badge-info">{proposals.length - 1} more waiting</span>}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-base-content/60">Proposed by</span>
+            <Address address={proposal.proposer} size="sm" />
+          </div>
+
+          <div className="text-sm space-y-1">
+            <div>
+              <span className="text-base-content/60">Nonce:</span> {state.nonce.toString()}
+            </div>
+            <div className="break-all">
+              <span className="text-base-content/60">State hash:</span>{" "}
+              <span className="font-mono">{state.stateHash}</span>
+            </div>
+            <div>
+              <span className="text-base-content/60">Expires:</span> {new Date(proposal.deadline).toLocaleTimeString()}
+            </div>
+          </div>
+
+          <table className="table table-sm w-full">
+            <thead>
+              <tr>
+                <th>Participant</th>
+                <th className="text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {participants.map((participant, index) => {
+                const balance = state.balances[index] ?? 0n;
+                return (
+                  <tr key={participant}>
+                    <td>
+                      <Address address={participant} size="sm" />
+                    </td>
+                    <td className={`text-right font-mono ${balance < 0n ? "text-error" : "text-success"}`}>
+                      {balance < 0n ? "-" : "+"}
+                      {formatCurrencyAmount(formatMoney(balance < 0n ? -balance : balance))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {matchesLocalState ? (
+            <div className="alert alert-success text-sm">This is the state your client has for the channel.</div>
+          ) : (
+            <div className="alert alert-warning text-sm">
+              This state does not match your local channel state. Only sign it if you agree with these balances.
+            </div>
+          )}
+          {state.balances.length !== participants.length && (
+            <div className="alert alert-error text-sm">The state does not have a balance for every participant.</div>
+          )}
+          {balancesSum !== 0n && (
+            <div className="alert alert-error text-sm">Balances do not sum to zero; the contract will reject them.</div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              className="btn btn-outline btn-error flex-1"
+              onClick={() => onReject(proposal.roundId)}
+              disabled={signingRoundId !== null}
+            >
+              Reject
+            </button>
+            <button className="btn btn-primary flex-1" onClick={handleApprove} disabled={signingRoundId !== null}>
+              {signingRoundId === proposal.roundId ? (
+                <>
+                  <span className="loading loading-spinner loading-sm"></span>
+                  Signing...
+                </>
+              ) : (
+                "Approve & Sign"
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StateSignatureRequests;
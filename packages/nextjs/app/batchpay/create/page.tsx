@@ -3,9 +3,11 @@
 import { useState } from "react";
 import Link from "next/link";
 import Navigation from "../_components/Navigation";
+import { parseUnits } from "viem";
 import { useAccount, useChainId } from "wagmi";
 import { AddressInput } from "~~/components/scaffold-eth";
 import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useGlobalState } from "~~/services/store/store";
 import { notification } from "~~/utils/scaffold-eth";
 
 const CreateChannelPage = () => {
@@ -14,6 +16,10 @@ const CreateChannelPage = () => {
   const [participants, setParticipants] = useState<string[]>([]);
   const [newParticipant, setNewParticipant] = useState("");
   const [deposit, setDeposit] = useState("0.01");
+  // Fixed for the channel's lifetime; defaults to the current market price
+  const [ethUsdPrice, setEthUsdPrice] = useState("");
+  const nativeCurrencyPrice = useGlobalState(state => state.nativeCurrency.price);
+  const settlementPrice = ethUsdPrice || (nativeCurrencyPrice > 0 ? nativeCurrencyPrice.toFixed(2) : "");
 
   const { writeContractAsync: writeBatchPayChannelAsync, isPending } = useScaffoldWriteContract({
     contractName: "BatchPayChannel",
@@ -41,13 +47,19 @@ const CreateChannelPage = () => {
       return;
     }
 
+    if (!(Number(settlementPrice) > 0)) {
+      notification.error("Please enter the ETH price deposits settle at");
+      return;
+    }
+
     try {
       // Convert deposit to wei (assuming ETH deposit)
       const depositWei = BigInt(Math.floor(parseFloat(deposit) * 1e18));
 
       await writeBatchPayChannelAsync({
         functionName: "openChannel",
-        args: [[...participants, address], BigInt(chainId || 1)],
+        // The creator goes first: ClearNode only lets the first participant open the channel's app session
+        args: [[address, ...participants], BigInt(chainId || 1), parseUnits(settlementPrice, 6)],
         value: depositWei,
       });
 
@@ -138,6 +150,27 @@ const CreateChannelPage = () => {
                 />
               </div>
 
+              {/* Settlement Price */}
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">ETH Price (USD)</span>
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={settlementPrice}
+                  onChange={e => setEthUsdPrice(e.target.value)}
+                  className="input input-bordered w-full"
+                  placeholder="3000"
+                />
+                <label className="label">
+                  <span className="label-text-alt">
+                    ETH deposits settle against USD balances at this price, which cannot change once the channel is open
+                  </span>
+                </label>
+              </div>
+
               {/* Chain Info */}
               <div className="alert alert-info">
                 <svg
@@ -4,7 +4,10 @@ import Link from "next/link";
 import Navigation from "./_components/Navigation";
 import { useAccount } from "wagmi";
 import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useChannelState } from "~~/hooks/scaffold-eth/useChannelState";
 import { useStateChannel } from "~~/hooks/scaffold-eth/useStateChannel";
+import { formatCurrencyAmount } from "~~/utils/currencies";
+import { formatMoney } from "~~/utils/money";
 
 const BatchPayDashboard = () => {
   const { address, isConnected } = useAccount();
@@ -156,12 +159,17 @@ const BatchPayDashboard = () => {
 
 // Channel Card Component
 const ChannelCard = ({ channelId }: { channelId: string }) => {
+  const { address } = useAccount();
   const { data: channelInfo, isLoading } = useScaffoldReadContract({
     contractName: "BatchPayChannel",
     functionName: "getChannel",
     args: [channelId as `0x${string}`],
   });
 
+  // Live off-chain state, updated as participants add expenses
+  const { channel } = useChannelState(channelId);
+  const ownBalance = channel?.participants.find(p => p.address.toLowerCase() === address?.toLowerCase())?.balance;
+
   if (isLoading) {
     return (
       <div className="card bg-base-200 shadow">
@@ -191,6 +199,16 @@ const ChannelCard = ({ channelId }: { channelId: string }) => {
               <p>Status: {isOpen ? "Open" : "Closed"}</p>
               {inDispute && <p className="text-warning">In Dispute</p>}
               <p>Chain ID: {chainId.toString()}</p>
+              {ownBalance !== undefined && (
+                <p>
+                  Your balance:{" "}
+                  <span className={`font-mono ${ownBalance < 0n ? "text-error" : "text-success"}`}>
+                    {ownBalance < 0n ? "-" : "+"}
+                    {formatCurrencyAmount(formatMoney(ownBalance < 0n ? -ownBalance : ownBalance))}
+                  </span>{" "}
+                  <span className="text-xs">(state #{channel?.nonce})</span>
+                </p>
+              )}
             </div>
           </div>
           <div className="card-actions">
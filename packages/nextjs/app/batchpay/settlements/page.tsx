@@ -1,17 +1,14 @@
 "use client";
 
-import { useState } from "react";
 import Link from "next/link";
 import Navigation from "../_components/Navigation";
 import { useAccount } from "wagmi";
 import { Address } from "~~/components/scaffold-eth";
 import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
-import { notification } from "~~/utils/scaffold-eth";
 import { SUPPORTED_TOKENS } from "~~/utils/tokens";
 
 const SettlementsPage = () => {
   const { address, isConnected } = useAccount();
-  const [selectedSettlements, setSelectedSettlements] = useState<Set<string>>(new Set());
 
   // Get user's channels to find settlements
   const { data: userChannels, isLoading: isLoadingChannels } = useScaffoldReadContract({
@@ -20,27 +17,6 @@ const SettlementsPage = () => {
     args: [address as `0x${string}`],
   });
 
-  // Settlement selection handler (for future use)
-  // const handleSettlementSelection = (settlementId: string) => {
-  //   const newSelection = new Set(selectedSettlements);
-  //   if (newSelection.has(settlementId)) {
-  //     newSelection.delete(settlementId);
-  //   } else {
-  //     newSelection.add(settlementId);
-  //   }
-  //   setSelectedSettlements(newSelection);
-  // };
-
-  const handleBatchSettlement = async () => {
-    if (selectedSettlements.size === 0) {
-      notification.error("Please select at least one settlement");
-      return;
-    }
-
-    // TODO: Implement batch settlement logic
-    notification.success(`Processing ${selectedSettlements.size} settlement(s)...`);
-  };
-
   if (!isConnected) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -149,24 +125,6 @@ const SettlementsPage = () => {
               )}
             </div>
           </div>
-
-          {/* Batch Actions */}
-          {selectedSettlements.size > 0 && (
-            <div className="card bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-xl">
-              <div className="card-body">
-                <h2 className="card-title text-white">Batch Settlement Ready</h2>
-                <p className="text-white/90">{selectedSettlements.size} settlement(s) selected for batch processing</p>
-                <div className="card-actions">
-                  <button className="btn btn-white" onClick={handleBatchSettlement}>
-                    Process Batch Settlement
-                  </button>
-                  <button className="btn btn-outline btn-white" onClick={() => setSelectedSettlements(new Set())}>
-                    Clear Selection
-                  </button>
-                </div>
-              </div>
-            </div>
-          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,6 @@
 import { Address } from "viem";
 import { useContractLogs } from "~~/hooks/scaffold-eth";
+import { decodeLog } from "~~/utils/scaffold-eth";
 import { replacer } from "~~/utils/scaffold-eth/common";
 
 export const AddressLogsTab = ({ address }: { address: Address }) => {
@@ -9,11 +10,22 @@ export const AddressLogsTab = ({ address }: { address: Address }) => {
     <div className="flex flex-col gap-3 p-4">
       <div className="mockup-code overflow-auto max-h-[500px]">
         <pre className="px-5 whitespace-pre-wrap break-words">
-          {contractLogs.map((log, i) => (
-            <div key={i}>
-              <strong>Log:</strong> {JSON.stringify(log, replacer, 2)}
-            </div>
-          ))}
+          {contractLogs.map((log, i) => {
+            const decoded = decodeLog(log);
+            return (
+              <div key={i}>
+                {decoded && (
+                  <div>
+                    <strong>
+                      {decoded.contractName}.{decoded.eventName}:
+                    </strong>{" "}
+                    {JSON.stringify(decoded.args, replacer, 2)}
+                  </div>
+                )}
+                <strong>Log:</strong> {JSON.stringify(log, replacer, 2)}
+              </div>
+            );
+          })}
         </pre>
       </div>
     </div>
@@ -7,7 +7,7 @@ import { hardhat } from "viem/chains";
 import { usePublicClient } from "wagmi";
 import { Address } from "~~/components/scaffold-eth";
 import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
-import { decodeTransactionData, getFunctionDetails } from "~~/utils/scaffold-eth";
+import { decodeLog, decodeTransactionData, getFunctionDetails } from "~~/utils/scaffold-eth";
 import { replacer } from "~~/utils/scaffold-eth/common";
 
 const TransactionComp = ({ txHash }: { txHash: Hash }) => {
@@ -131,11 +131,25 @@ const TransactionComp = ({ txHash }: { txHash: Hash }) => {
                 </td>
                 <td>
                   <ul>
-                    {receipt?.logs?.map((log, i) => (
-                      <li key={i}>
-                        <strong>Log {i} topics:</strong> {JSON.stringify(log.topics, replacer, 2)}
-                      </li>
-                    ))}
+                    {receipt?.logs?.map((log, i) => {
+                      const decoded = decodeLog(log);
+                      return (
+                        <li key={i}>
+                          {decoded ? (
+                            <>
+                              <strong>
+                                Log {i}: {decoded.contractName}.{decoded.eventName}
+                              </strong>{" "}
+                              {JSON.stringify(decoded.args, replacer, 2)}
+                            </>
+                          ) : (
+                            <>
+                              <strong>Log {i} topics:</strong> {JSON.stringify(log.topics, replacer, 2)}
+                            </>
+                          )}
+                        </li>
+                      );
+                    })}
                   </ul>
                 </td>
               </tr>
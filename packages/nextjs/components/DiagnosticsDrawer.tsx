@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ClipboardDocumentIcon, SignalIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { useCopyToClipboard } from "~~/hooks/scaffold-eth";
+import { clearNodeService } from "~~/services/clearnode";
+import { pyusdBridgeService } from "~~/services/pyusdBridge";
+import { yellowNetworkService } from "~~/services/yellowNetwork";
+import type { ClearNodeDiagnostics, PYUSDBridgeServiceStatus, YellowNetworkServiceStatus } from "~~/types/nitrolite";
+
+interface ServiceSnapshot {
+  clearNode: ClearNodeDiagnostics;
+  yellowNetwork: YellowNetworkServiceStatus;
+  pyusdBridge: PYUSDBridgeServiceStatus;
+  takenAt: number;
+}
+
+const takeSnapshot = (): ServiceSnapshot => ({
+  clearNode: clearNodeService.getDiagnostics(),
+  yellowNetwork: yellowNetworkService.getStatus(),
+  pyusdBridge: pyusdBridgeService.getStatus(),
+  takenAt: Date.now(),
+});
+
+const CONNECTION_STATE_COLORS: Record<string, { badge: string; dot: string }> = {
+  authenticated: { badge: "badge-success", dot: "bg-success" },
+  authenticating: { badge: "badge-warning", dot: "bg-warning" },
+  connected: { badge: "badge-info", dot: "bg-info" },
+  connecting: { badge: "badge-warning", dot: "bg-warning" },
+  disconnected: { badge: "badge-error", dot: "bg-error" },
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const StatusRow = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 py-0.5">
+    <span className="opacity-70 shrink-0">{label}</span>
+    <span className="font-mono text-right break-all">{children}</span>
+  </div>
+);
+
+const ServiceStatusRows = ({ status }: { status: YellowNetworkServiceStatus | PYUSDBridgeServiceStatus }) => (
+  <>
+    <StatusRow label="Connected">{status.isConnected ? "yes" : "no"}</StatusRow>
+    <StatusRow label="Authenticated">{status.isAuthenticated ? "yes" : "no"}</StatusRow>
+    <StatusRow label="Last update">{formatTime(status.lastUpdate)}</StatusRow>
+    {status.lastError && <StatusRow label="Last error">{status.lastError}</StatusRow>}
+  </>
+);
+
+/**
+ * Connection diagnostics for ClearNode, Yellow Network and the PYUSD bridge
+ * Opened from the header; the debug bundle it copies holds no signatures, tokens or payload values.
+ */
+export const DiagnosticsDrawer = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [snapshot, setSnapshot] = useState<ServiceSnapshot | null>(null);
+  const { copyToClipboard, isCopiedToClipboard } = useCopyToClipboard();
+
+  // Refresh often while open, and slowly otherwise to keep the header indicator current
+  useEffect(() => {
+    const refresh = () => setSnapshot(takeSnapshot());
+    refresh();
+    const interval = setInterval(refresh, isOpen ? 1000 : 5000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  const copyDebugBundle = () => {
+    const bundle = {
+      ...takeSnapshot(),
+      page: window.location.pathname,
+      userAgent: navigator.userAgent,
+    };
+    copyToClipboard(JSON.stringify(bundle, null, 2));
+  };
+
+  const clearNode = snapshot?.clearNode;
+  const stateColors = CONNECTION_STATE_COLORS[clearNode?.connectionState ?? "disconnected"];
+
+  return (
+    <>
+      <button
+        className="btn btn-ghost btn-sm btn-circle relative mr-2"
+        onClick={() => setIsOpen(true)}
+        aria-label="Connection diagnostics"
+        title={`ClearNode: ${clearNode?.connectionState ?? "unknown"}`}
+      >
+        <SignalIcon className="h-5 w-5" />
+        <span className={`absolute top-1 right-1 h-2 w-2 rounded-full ${stateColors.dot}`} />
+      </button>
+
+      {isOpen && snapshot && clearNode && (
+        <div className="fixed inset-0 z-50 flex justify-end">
+          <div className="absolute inset-0 bg-black/30" onClick={() => setIsOpen(false)} />
+          <div className="relative w-full max-w-md h-full bg-base-100 shadow-xl overflow-y-auto p-4 flex flex-col gap-4 text-sm">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold m-0">Connection diagnostics</h2>
+              <button className="btn btn-ghost btn-sm btn-circle" onClick={() => setIsOpen(false)} aria-label="Close">
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <section>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold m-0">ClearNode</h3>
+                <span className={`badge badge-sm ${stateColors.badge}`}>{clearNode.connectionState}</span>
+              </div>
+              <StatusRow label="Endpoint">{clearNode.endpoint}</StatusRow>
+              {clearNode.participantAddress && <StatusRow label="Wallet">{clearNode.participantAddress}</StatusRow>}
+              {clearNode.sessionKey && <StatusRow label="Session key">{clearNode.sessionKey}</StatusRow>}
+              <StatusRow label="Auth expires">
+                {clearNode.authExpiresAt
+                  ? `in ${formatDuration(clearNode.authExpiresAt * 1000 - snapshot.takenAt)}`
+                  : "not authenticated"}
+              </StatusRow>
+              <StatusRow label="Heartbeat latency">
+                {clearNode.heartbeatLatency !== undefined ? `${clearNode.heartbeatLatency} ms` : "no pong yet"}
+              </StatusRow>
+              <StatusRow label="Reconnect attempts">{clearNode.reconnectAttempts}</StatusRow>
+              {clearNode.lastError && <StatusRow label="Last error">{clearNode.lastError}</StatusRow>}
+            </section>
+
+            <section>
+              <h3 className="font-semibold m-0 mb-1">Outstanding requests ({clearNode.pendingRequests.length})</h3>
+              {clearNode.pendingRequests.length === 0 ? (
+                <p className="opacity-70 m-0">None</p>
+              ) : (
+                clearNode.pendingRequests.map(request => (
+                  <StatusRow key={request.requestId} label={`#${request.requestId} ${request.method}`}>
+                    {formatDuration(snapshot.takenAt - request.sentAt)}
+                  </StatusRow>
+                ))
+              )}
+            </section>
+
+            <section>
+              <h3 className="font-semibold m-0 mb-1">Yellow Network</h3>
+              <ServiceStatusRows status={snapshot.yellowNetwork} />
+              <StatusRow label="Active intents">{snapshot.yellowNetwork.activeIntents}</StatusRow>
+            </section>
+
+            <section>
+              <h3 className="font-semibold m-0 mb-1">PYUSD bridge</h3>
+              <ServiceStatusRows status={snapshot.pyusdBridge} />
+              <StatusRow label="Bridge available">{snapshot.pyusdBridge.bridgeAvailable ? "yes" : "no"}</StatusRow>
+            </section>
+
+            <section>
+              <h3 className="font-semibold m-0 mb-1">Recent messages ({clearNode.rpcLog.length})</h3>
+              <p className="opacity-70 mt-0 mb-2 text-xs">Payloads are redacted to their parameter names.</p>
+              <div className="flex flex-col gap-1 font-mono text-xs">
+                {[...clearNode.rpcLog].reverse().map((entry, index) => (
+                  <div key={`${entry.timestamp}-${index}`} className="bg-base-200 rounded-sm px-2 py-1">
+                    <div className="flex justify-between gap-2">
+                      <span>
+                        {entry.direction === "sent" ? "↑" : "↓"} {entry.method}
+                        {entry.requestId !== undefined && ` #${entry.requestId}`}
+                      </span>
+                      <span className="opacity-70">
+                        {formatTime(entry.timestamp)} · {entry.size} chars
+                      </span>
+                    </div>
+                    {entry.paramKeys.length > 0 && (
+                      <div className="opacity-70 break-all">{entry.paramKeys.join(", ")}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <button className="btn btn-primary btn-sm mt-auto" onClick={copyDebugBundle}>
+              <ClipboardDocumentIcon className="h-4 w-4" />
+              {isCopiedToClipboard ? "Copied" : "Copy debug bundle"}
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -205,10 +205,72 @@ const deployedContracts = {
               name: "updatedBy",
               type: "address",
             },
+            {
+              indexed: false,
+              internalType: "int256[]",
+              name: "balances",
+              type: "int256[]",
+            },
           ],
           name: "ChannelStateUpdated",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "allowed",
+              type: "bool",
+            },
+          ],
+          name: "DepositTokenSet",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "total",
+              type: "uint256",
+            },
+          ],
+          name: "Deposited",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -236,6 +298,12 @@ const deployedContracts = {
               name: "disputeDeadline",
               type: "uint256",
             },
+            {
+              indexed: false,
+              internalType: "int256[]",
+              name: "balances",
+              type: "int256[]",
+            },
           ],
           name: "DisputeInitiated",
           type: "event",
@@ -459,6 +527,37 @@ const deployedContracts = {
           name: "UserPreferenceSet",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "Withdrawn",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -630,6 +729,19 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "USDC_ETHEREUM",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -659,6 +771,11 @@ const deployedContracts = {
                   name: "balances",
                   type: "int256[]",
                 },
+                {
+                  internalType: "bytes32",
+                  name: "expensesRoot",
+                  type: "bytes32",
+                },
               ],
               internalType: "struct BatchPayChannel.ChannelStateData",
               name: "higherNonceState",
@@ -782,6 +899,11 @@ const deployedContracts = {
                   name: "balances",
                   type: "int256[]",
                 },
+                {
+                  internalType: "bytes32",
+                  name: "expensesRoot",
+                  type: "bytes32",
+                },
               ],
               internalType: "struct BatchPayChannel.ChannelStateData",
               name: "finalState",
@@ -834,6 +956,61 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+          ],
+          name: "deposit",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "depositToken",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "depositTokens",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -860,6 +1037,25 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+          ],
+          name: "getBalances",
+          outputs: [
+            {
+              internalType: "int256[]",
+              name: "",
+              type: "int256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -905,6 +1101,16 @@ const deployedContracts = {
               name: "chainId",
               type: "uint256",
             },
+            {
+              internalType: "bytes32",
+              name: "stateHash",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256[]",
+              name: "deposits",
+              type: "uint256[]",
+            },
           ],
           stateMutability: "view",
           type: "function",
@@ -970,6 +1176,88 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+          ],
+          name: "getEthUsdPrice",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+          ],
+          name: "getPayout",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "ethAmount",
+              type: "uint256",
+            },
+            {
+              internalType: "address[]",
+              name: "tokens",
+              type: "address[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "amounts",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "getTokenDeposits",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "deposits",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256",
+              name: "total",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -1028,6 +1316,64 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "user",
+              type: "address",
+            },
+          ],
+          name: "hasWithdrawn",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256",
+              name: "nonce",
+              type: "uint256",
+            },
+            {
+              internalType: "int256[]",
+              name: "balances",
+              type: "int256[]",
+            },
+            {
+              internalType: "bytes32",
+              name: "expensesRoot",
+              type: "bytes32",
+            },
+          ],
+          name: "hashState",
+          outputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -1119,6 +1465,11 @@ const deployedContracts = {
               name: "chainId",
               type: "uint256",
             },
+            {
+              internalType: "uint256",
+              name: "ethUsdPrice",
+              type: "uint256",
+            },
           ],
           name: "openChannel",
           outputs: [
@@ -1190,6 +1541,24 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              internalType: "bool",
+              name: "allowed",
+              type: "bool",
+            },
+          ],
+          name: "setDepositToken",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -1334,6 +1703,11 @@ const deployedContracts = {
                   name: "balances",
                   type: "int256[]",
                 },
+                {
+                  internalType: "bytes32",
+                  name: "expensesRoot",
+                  type: "bytes32",
+                },
               ],
               internalType: "struct BatchPayChannel.ChannelStateData",
               name: "newState",
@@ -1374,6 +1748,19 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "channelId",
+              type: "bytes32",
+            },
+          ],
+          name: "withdraw",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
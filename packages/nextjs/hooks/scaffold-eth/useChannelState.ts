@@ -0,0 +1,52 @@
+/**
+ * Channel State Hook
+ * Live off-chain state of one channel from the state channel client's registry
+ *
+ * Loads the channel when no other component has, and re-renders on every update
+ * routed to it, so several channels can be shown side by side.
+ */
+import { useEffect, useState } from "react";
+import { stateChannelClient } from "~~/services/stateChannelClient";
+import type { ChannelState } from "~~/types/nitrolite";
+
+export interface ChannelStateReturn {
+  channel: ChannelState | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export const useChannelState = (channelId: string): ChannelStateReturn => {
+  const [channel, setChannel] = useState<ChannelState | null>(() => stateChannelClient.getChannel(channelId));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // The client updates channels in place, so copy them to trigger a render
+    const unsubscribe = stateChannelClient.subscribe(channelId, updated =>
+      setChannel({ ...updated, participants: [...updated.participants] }),
+    );
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    stateChannelClient
+      .ensureChannel(channelId)
+      .then(loaded => {
+        if (!isCancelled) setChannel({ ...loaded, participants: [...loaded.participants] });
+      })
+      .catch(err => {
+        console.error(`Failed to load channel ${channelId}:`, err);
+        if (!isCancelled) setError(err instanceof Error ? err.message : "Failed to load channel");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [channelId]);
+
+  return { channel, isLoading, error };
+};
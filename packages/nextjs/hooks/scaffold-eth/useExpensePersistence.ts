@@ -3,15 +3,9 @@
  * Manages expense storage and retrieval using state channel integration only
  */
 import { useCallback, useState } from "react";
+import type { Expense } from "~~/utils/expenseValidation";
 
-export interface Expense {
-  id: string;
-  description: string;
-  amount: string;
-  paidBy: string;
-  participants: string[];
-  timestamp: number;
-}
+export type { Expense };
 
 export interface UseExpensePersistenceReturn {
   expenses: Expense[];
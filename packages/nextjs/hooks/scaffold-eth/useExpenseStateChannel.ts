@@ -2,34 +2,99 @@
  * Expense State Channel Integration
  * Properly integrates expenses with ERC-7824 state channels via ClearNode
  */
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { Expense } from "./useExpensePersistence";
 import { useStateChannel } from "./useStateChannel";
 import { useAccount } from "wagmi";
-import { stateChannelClient } from "~~/services/stateChannelClient";
-import { sanitizeExpense, validateExpenses } from "~~/utils/expenseValidation";
+import { type ChannelSyncWarning, stateChannelClient } from "~~/services/stateChannelClient";
+import type { ParticipantBalance } from "~~/utils/debtSimplification";
+import {
+  type ExpenseUpdate,
+  appendRevision,
+  deleteExpense,
+  diffExpenses,
+  getActiveExpenses,
+} from "~~/utils/expenseRevisions";
+import { calculateChannelBalances } from "~~/utils/expenseSplit";
+import { type ExpenseValidationOptions, sanitizeExpense, validateExpenses } from "~~/utils/expenseValidation";
+import {
+  type RecurringExpenseTemplate,
+  getMissingInstances,
+  validateRecurringExpense,
+} from "~~/utils/recurringExpenses";
 import { notification } from "~~/utils/scaffold-eth";
 
 export interface ExpenseStateChannelReturn {
   expenses: Expense[];
-  addExpense: (expense: Omit<Expense, "id" | "timestamp">) => Promise<void>;
+  deletedExpenses: Expense[]; // Tombstones of removed expenses, with their revision history
+  balances: ParticipantBalance[];
+  recurringExpenses: RecurringExpenseTemplate[];
+  addExpense: (
+    expense: Omit<Expense, "id" | "timestamp" | "revisions">,
+    options?: { id?: string; timestamp?: number },
+  ) => Promise<void>;
+  addRecurringExpense: (template: Omit<RecurringExpenseTemplate, "id" | "createdBy" | "createdAt">) => Promise<void>;
+  removeRecurringExpense: (templateId: string) => Promise<void>;
+  importExpenses: (expenses: Expense[]) => Promise<void>;
+  editExpense: (expenseId: string, updates: ExpenseUpdate) => Promise<void>;
   removeExpense: (expenseId: string) => Promise<void>;
   clearExpenses: () => Promise<void>;
   syncExpenses: () => Promise<void>;
   isLoading: boolean;
   error: string | null;
+  syncWarnings: ChannelSyncWarning[]; // Disagreements between chain, signed states and ClearNode
   isConnected: boolean;
   isAuthenticated: boolean;
 }
 
-export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelReturn => {
+/**
+ * @param options.allowedCategories closed category list of the channel; keep the array reference stable
+ */
+export const useExpenseStateChannel = (
+  channelId: string,
+  { allowedCategories }: ExpenseValidationOptions = {},
+): ExpenseStateChannelReturn => {
   const { address } = useAccount();
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [balances, setBalances] = useState<ParticipantBalance[]>([]);
+
+  // Latest expenses for the ClearNode listener, which is not re-registered on every change
+  const expensesRef = useRef<Expense[]>([]);
+  useEffect(() => {
+    expensesRef.current = expenses;
+  }, [expenses]);
+
+  // Recurring templates are sent along with every state update
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpenseTemplate[]>([]);
+  const recurringExpensesRef = useRef<RecurringExpenseTemplate[]>([]);
+  useEffect(() => {
+    recurringExpensesRef.current = recurringExpenses;
+  }, [recurringExpenses]);
+  const isMaterializingRef = useRef(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [syncWarnings, setSyncWarnings] = useState<ChannelSyncWarning[]>([]);
 
   // Use the existing state channel hook for connection status
-  const { isConnected, isAuthenticated, connect } = useStateChannel();
+  const { isConnected, isAuthenticated, hasSession, connect } = useStateChannel();
+
+  // Mirror the net balances tracked by the state channel client
+  const syncBalances = useCallback(() => {
+    const currentChannel = stateChannelClient.getChannel(channelId);
+    setBalances(
+      currentChannel ? currentChannel.participants.map(({ address, balance }) => ({ address, balance })) : [],
+    );
+  }, [channelId]);
+
+  // Follow this channel's state, including updates from other participants routed by the client
+  useEffect(
+    () =>
+      stateChannelClient.subscribe(channelId, () => {
+        syncBalances();
+        setSyncWarnings([...stateChannelClient.getSyncWarnings(channelId)]);
+      }),
+    [channelId, syncBalances],
+  );
 
   // Auto-connect to ClearNode when component mounts (with debouncing)
   useEffect(() => {
@@ -50,14 +115,8 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
         try {
           console.log(`🔄 Loading channel ${channelId} for address ${address}`);
 
-          // For now, we'll use a simple approach with the current user and a placeholder participant
-          // In a real app, you'd fetch the actual participants from the blockchain or API
-          const participants = [
-            address as `0x${string}`,
-            "0x239897464D9B3C40b8EF695A0E1236e220B2a311" as `0x${string}`, // From the URL you provided
-          ];
-
-          await stateChannelClient.loadChannel(channelId, participants);
+          setSyncWarnings(await stateChannelClient.loadChannel(channelId));
+          syncBalances();
           console.log("✅ Channel loaded successfully");
         } catch (error) {
           console.error("Failed to load channel:", error);
@@ -67,100 +126,52 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
     };
 
     loadChannel();
-  }, [channelId, address]);
+  }, [channelId, address, syncBalances]);
 
-  // Set up state channel listeners for real-time expense synchronization
+  // The ClearNode session can only be checked once authenticated
   useEffect(() => {
-    if (!isConnected || !isAuthenticated) {
+    if (!isAuthenticated || !channelId) {
       return;
     }
 
-    console.log("🔗 Setting up state channel listeners for expense synchronization");
-
-    // Listen for state updates from other participants via ClearNode
-    const handleStateUpdate = (stateData: any) => {
-      console.log("📊 Received state update from other participant:", stateData);
-
-      // Extract expenses from state update
-      if (stateData.expenses && Array.isArray(stateData.expenses)) {
-        // Validate incoming expenses
-        const validation = validateExpenses(stateData.expenses);
-        if (!validation.isValid) {
-          console.error("❌ Invalid expenses received:", validation.errors);
-          notification.error(`Invalid expenses received: ${validation.errors.join(", ")}`);
-          return;
-        }
-
-        // Sanitize expenses
-        const sanitizedExpenses = stateData.expenses.map((expense: Expense) => sanitizeExpense(expense));
-
-        // Update expenses without comparing to avoid dependency issues
-        setExpenses(sanitizedExpenses);
-        console.log("✅ Expenses synchronized from state channel:", sanitizedExpenses.length);
-      }
-    };
-
-    // Register the handler with the state channel client for ClearNode messages
-    const handleClearNodeMessage = (event: MessageEvent) => {
-      console.log("📨 Received window message:", event.data);
-
-      if (event.data && event.data.type === "state_update") {
-        // Check if this is for our channel
-        if (event.data.channelId === channelId) {
-          console.log("✅ Message is for our channel:", channelId);
-          handleStateUpdate(event.data.data);
-        } else {
-          console.log("❌ Message is for different channel:", event.data.channelId, "vs", channelId);
-        }
-      }
-    };
-
-    window.addEventListener("message", handleClearNodeMessage);
-
-    // Cleanup function
-    return () => {
-      console.log("🧹 Cleaning up state channel listeners");
-      window.removeEventListener("message", handleClearNodeMessage);
-    };
-  }, [channelId, isConnected, isAuthenticated]); // Removed expenses from dependencies
+    stateChannelClient
+      .refreshSessionWarnings(channelId)
+      .then(setSyncWarnings)
+      .catch(error => console.error("Failed to check ClearNode session:", error));
+  }, [channelId, isAuthenticated]);
 
-  // Calculate new balances based on expenses
-  const calculateBalances = useCallback((participants: string[], expenses: Expense[]): bigint[] => {
-    const balances = new Array(participants.length).fill(0n);
-
-    expenses.forEach(expense => {
-      const paidByIndex = participants.indexOf(expense.paidBy);
-      const splitAmount = BigInt(Math.floor(parseFloat(expense.amount) * 100)) / BigInt(expense.participants.length);
-
-      // Add to payer's balance (they paid)
-      if (paidByIndex !== -1) {
-        balances[paidByIndex] += BigInt(Math.floor(parseFloat(expense.amount) * 100));
-      }
-
-      // Subtract from all participants (they owe)
-      expense.participants.forEach(participant => {
-        const participantIndex = participants.indexOf(participant);
-        if (participantIndex !== -1) {
-          balances[participantIndex] -= splitAmount;
-        }
-      });
-    });
-
-    return balances;
-  }, []);
+  // Expenses from other participants are checked against this channel's categories
+  useEffect(() => {
+    stateChannelClient.setExpenseValidation(channelId, { allowedCategories });
+  }, [channelId, allowedCategories]);
+
+  // Show the client's merged expenses, which include concurrent updates from other participants
+  useEffect(
+    () =>
+      stateChannelClient.on("stateUpdated", ({ channelId: eventChannelId, data: { channel } }) => {
+        if (eventChannelId.toLowerCase() !== channelId.toLowerCase()) return;
+
+        expensesRef.current = channel.expenses;
+        setExpenses(channel.expenses);
+        recurringExpensesRef.current = channel.recurringExpenses;
+        setRecurringExpenses(channel.recurringExpenses);
+      }),
+    [channelId],
+  );
 
   // Add expense with ERC-7824 state channel integration
   const addExpense = useCallback(
-    async (expenseData: Omit<Expense, "id" | "timestamp">) => {
-      // Check both connection and authentication status
-      if (!isConnected) {
-        const errorMessage = "Not connected to ClearNode. Please connect first.";
-        setError(errorMessage);
-        notification.error(errorMessage);
+    async (
+      expenseData: Omit<Expense, "id" | "timestamp" | "revisions">,
+      options: { id?: string; timestamp?: number } = {},
+    ) => {
+      // Expenses with a deterministic ID (e.g. recurring instances) are only added once
+      if (options.id && expensesRef.current.some(expense => expense.id === options.id)) {
         return;
       }
 
-      if (!isAuthenticated) {
+      // Offline updates are queued, but only once we have signed in to ClearNode
+      if (!hasSession) {
         const errorMessage = "Not authenticated with ClearNode. Please wait for authentication to complete.";
         setError(errorMessage);
         notification.error(errorMessage);
@@ -168,7 +179,7 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
       }
 
       // Check if channel is loaded
-      const currentChannel = stateChannelClient.getCurrentChannel();
+      const currentChannel = stateChannelClient.getChannel(channelId);
       if (!currentChannel) {
         const errorMessage = "No active channel found. Please ensure you're on the correct channel page.";
         setError(errorMessage);
@@ -186,46 +197,51 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
       setIsLoading(true);
       setError(null);
 
+      // Read through the ref so consecutive calls build on each other
+      const previousExpenses = expensesRef.current;
+
       try {
-        const newExpense: Expense = {
-          ...expenseData,
-          id: `${channelId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: Date.now(),
-        };
+        const now = Date.now();
+        const newExpense: Expense = appendRevision(
+          {
+            ...expenseData,
+            id: options.id ?? `${channelId}-${now}-${Math.random().toString(36).substr(2, 9)}`,
+            timestamp: options.timestamp ?? now,
+          },
+          {
+            action: "created",
+            author: address.toLowerCase(),
+            nonce: currentChannel.nonce + 1, // The state update below carries this revision
+            timestamp: now,
+            changes: [],
+          },
+        );
 
         // Validate and sanitize the new expense
         const sanitizedExpense = sanitizeExpense(newExpense);
-        const validation = validateExpenses([sanitizedExpense]);
+        const validation = validateExpenses([sanitizedExpense], { allowedCategories });
         if (!validation.isValid) {
           throw new Error(`Invalid expense data: ${validation.errors.join(", ")}`);
         }
 
         // Update local state first
-        const updatedExpenses = [...expenses, sanitizedExpense];
+        const updatedExpenses = [...previousExpenses, sanitizedExpense];
+        expensesRef.current = updatedExpenses;
         setExpenses(updatedExpenses);
 
-        // Get current channel participants
-        const currentChannel = stateChannelClient.getCurrentChannel();
-        if (!currentChannel) {
-          throw new Error("No active channel found");
-        }
-
         const participants = currentChannel.participants.map(p => p.address);
 
         // Calculate new balances
-        const newBalances = calculateBalances(participants, updatedExpenses);
-
-        // Create comprehensive state update with expenses data
-        // const stateUpdate = {
-        //   channelId,
-        //   expenses: updatedExpenses,
-        //   balances: newBalances,
-        //   participants,
-        //   timestamp: Date.now(),
-        // };
+        const newBalances = calculateChannelBalances(participants, updatedExpenses);
 
         // Broadcast state update via ERC-7824 with expenses data
-        await stateChannelClient.updateChannelState(newBalances, updatedExpenses);
+        await stateChannelClient.updateChannelState(
+          channelId,
+          newBalances,
+          updatedExpenses,
+          recurringExpensesRef.current,
+        );
+        syncBalances();
 
         notification.success("Expense added and broadcast to all participants!");
       } catch (err) {
@@ -233,60 +249,390 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
         setError(errorMessage);
         notification.error(errorMessage);
 
+        // Revert local state on error
+        expensesRef.current = previousExpenses;
+        setExpenses(previousExpenses);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [channelId, address, hasSession, syncBalances, allowedCategories],
+  );
+
+  // Edit expense in place, appending the change to its revision log
+  const editExpense = useCallback(
+    async (expenseId: string, updates: ExpenseUpdate) => {
+      if (!hasSession) {
+        notification.error("Not signed in to ClearNode");
+        return;
+      }
+
+      if (!address) {
+        notification.error("Wallet not connected");
+        return;
+      }
+
+      const existingExpense = expenses.find(expense => expense.id === expenseId);
+      if (!existingExpense || existingExpense.deleted) {
+        notification.error("Expense not found");
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const currentChannel = stateChannelClient.getChannel(channelId);
+        if (!currentChannel) {
+          throw new Error("No active channel found");
+        }
+
+        // id, timestamp and history are never taken from the update
+        const editedExpense = sanitizeExpense({
+          ...existingExpense,
+          ...updates,
+          id: existingExpense.id,
+          timestamp: existingExpense.timestamp,
+          revisions: existingExpense.revisions,
+        });
+
+        const changes = diffExpenses(existingExpense, editedExpense);
+        if (changes.length === 0) {
+          notification.info("No changes to save");
+          return;
+        }
+
+        const revisedExpense = appendRevision(editedExpense, {
+          action: "edited",
+          author: address.toLowerCase(),
+          nonce: currentChannel.nonce + 1, // The state update below carries this revision
+          timestamp: Date.now(),
+          changes,
+        });
+
+        const validation = validateExpenses([revisedExpense], { allowedCategories });
+        if (!validation.isValid) {
+          throw new Error(`Invalid expense data: ${validation.errors.join(", ")}`);
+        }
+
+        const updatedExpenses = expenses.map(expense => (expense.id === expenseId ? revisedExpense : expense));
+        setExpenses(updatedExpenses);
+
+        const participants = currentChannel.participants.map(p => p.address);
+
+        // Recalculate balances
+        const newBalances = calculateChannelBalances(participants, updatedExpenses);
+
+        // Broadcast state update with the revised expense and its history
+        await stateChannelClient.updateChannelState(
+          channelId,
+          newBalances,
+          updatedExpenses,
+          recurringExpensesRef.current,
+        );
+        syncBalances();
+
+        notification.success("Expense updated and broadcast to all participants!");
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to edit expense";
+        setError(errorMessage);
+        notification.error(errorMessage);
+
         // Revert local state on error
         setExpenses(expenses);
       } finally {
         setIsLoading(false);
       }
     },
-    [expenses, channelId, address, isAuthenticated, calculateBalances, isConnected],
+    [channelId, expenses, address, hasSession, syncBalances, allowedCategories],
   );
 
-  // Remove expense with state channel integration
-  const removeExpense = useCallback(
-    async (expenseId: string) => {
-      if (!isAuthenticated) {
-        notification.error("Not connected to ClearNode");
+  // Add many expenses (e.g. from an import) in a single state update
+  const importExpenses = useCallback(
+    async (importedExpenses: Expense[]) => {
+      if (!hasSession) {
+        notification.error("Not signed in to ClearNode");
         return;
       }
 
+      if (!address) {
+        notification.error("Wallet not connected");
+        return;
+      }
+
+      if (importedExpenses.length === 0) {
+        notification.info("No expenses to import");
+        return;
+      }
+
+      const previousExpenses = expensesRef.current;
       setIsLoading(true);
       setError(null);
 
       try {
-        const updatedExpenses = expenses.filter(expense => expense.id !== expenseId);
+        const currentChannel = stateChannelClient.getChannel(channelId);
+        if (!currentChannel) {
+          throw new Error("No active channel found");
+        }
+
+        const now = Date.now();
+        const newExpenses = importedExpenses.map(expense =>
+          appendRevision(sanitizeExpense({ ...expense, revisions: undefined }), {
+            action: "created",
+            author: address.toLowerCase(),
+            nonce: currentChannel.nonce + 1, // The state update below carries these revisions
+            timestamp: now,
+            changes: [],
+          }),
+        );
+
+        // Validate together with the existing expenses to catch duplicate IDs
+        const updatedExpenses = [...previousExpenses, ...newExpenses];
+        const validation = validateExpenses(updatedExpenses, { allowedCategories });
+        if (!validation.isValid) {
+          throw new Error(`Invalid expense data: ${validation.errors.join(", ")}`);
+        }
+
+        expensesRef.current = updatedExpenses;
         setExpenses(updatedExpenses);
 
+        const participants = currentChannel.participants.map(p => p.address);
+        const newBalances = calculateChannelBalances(participants, updatedExpenses);
+
+        // One broadcast for the whole batch
+        await stateChannelClient.updateChannelState(
+          channelId,
+          newBalances,
+          updatedExpenses,
+          recurringExpensesRef.current,
+        );
+        syncBalances();
+
+        notification.success(`Imported ${newExpenses.length} expense(s) and broadcast to all participants!`);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to import expenses";
+        setError(errorMessage);
+        notification.error(errorMessage);
+
+        // Revert local state on error
+        expensesRef.current = previousExpenses;
+        setExpenses(previousExpenses);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [channelId, address, hasSession, syncBalances, allowedCategories],
+  );
+
+  // Broadcast a new set of recurring templates with the current expenses
+  const updateRecurringExpenses = useCallback(
+    async (templates: RecurringExpenseTemplate[], successMessage: string) => {
+      if (!hasSession) {
+        notification.error("Not signed in to ClearNode");
+        return;
+      }
+
+      const previousTemplates = recurringExpensesRef.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const currentChannel = stateChannelClient.getChannel(channelId);
+        if (!currentChannel) {
+          throw new Error("No active channel found");
+        }
+
+        recurringExpensesRef.current = templates;
+        setRecurringExpenses(templates);
+
+        const participants = currentChannel.participants.map(p => p.address);
+        const newBalances = calculateChannelBalances(participants, expensesRef.current);
+        await stateChannelClient.updateChannelState(channelId, newBalances, expensesRef.current, templates);
+        syncBalances();
+
+        notification.success(successMessage);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to update recurring expenses";
+        setError(errorMessage);
+        notification.error(errorMessage);
+
+        // Revert local state on error
+        recurringExpensesRef.current = previousTemplates;
+        setRecurringExpenses(previousTemplates);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [channelId, hasSession, syncBalances],
+  );
+
+  // Add a recurring expense template; due instances are materialized automatically
+  const addRecurringExpense = useCallback(
+    async (templateData: Omit<RecurringExpenseTemplate, "id" | "createdBy" | "createdAt">) => {
+      if (!address) {
+        notification.error("Wallet not connected");
+        return;
+      }
+
+      const now = Date.now();
+      // Normalize the expense part of the template the same way as a one-off expense
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id, timestamp, ...expenseData } = sanitizeExpense({ ...templateData, id: "", timestamp: now });
+      const template: RecurringExpenseTemplate = {
+        ...expenseData,
+        id: `recurring-${channelId}-${now}-${Math.random().toString(36).substr(2, 9)}`,
+        interval: templateData.interval,
+        startDate: templateData.startDate,
+        endDate: templateData.endDate || undefined,
+        createdBy: address.toLowerCase(),
+        createdAt: now,
+      };
+
+      const errors = validateRecurringExpense(template, { allowedCategories });
+      if (errors.length > 0) {
+        notification.error(`Invalid recurring expense: ${errors.join(", ")}`);
+        return;
+      }
+
+      await updateRecurringExpenses([...recurringExpensesRef.current, template], "Recurring expense scheduled!");
+    },
+    [address, channelId, allowedCategories, updateRecurringExpenses],
+  );
+
+  // Stop a recurring expense; instances already added are kept
+  const removeRecurringExpense = useCallback(
+    async (templateId: string) => {
+      await updateRecurringExpenses(
+        recurringExpensesRef.current.filter(template => template.id !== templateId),
+        "Recurring expense stopped",
+      );
+    },
+    [updateRecurringExpenses],
+  );
+
+  // Materialize every recurring instance that has come due and is not in the channel yet
+  useEffect(() => {
+    if (!hasSession || recurringExpenses.length === 0 || isMaterializingRef.current) {
+      return;
+    }
+
+    // Tombstones count as existing, so a deleted instance is not added again
+    const nextBatch = () =>
+      getMissingInstances(recurringExpensesRef.current, new Set(expensesRef.current.map(expense => expense.id)));
+
+    if (nextBatch().length === 0 || !stateChannelClient.getChannel(channelId)) {
+      return;
+    }
+
+    isMaterializingRef.current = true;
+
+    // Work through the backlog one batch at a time until every due instance is in the channel
+    const materialize = async () => {
+      for (let batch = nextBatch(); batch.length > 0; batch = nextBatch()) {
+        console.log(`🔁 Materializing ${batch.length} recurring expense instance(s)`);
+        for (const instance of batch) {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { id, timestamp, revisions, ...expenseData } = instance;
+          await addExpense(expenseData, { id, timestamp });
+        }
+
+        // addExpense reports its own failures; stop instead of retrying a batch that made no progress
+        const addedIds = new Set(expensesRef.current.map(expense => expense.id));
+        if (!batch.some(instance => addedIds.has(instance.id))) {
+          break;
+        }
+      }
+    };
+
+    materialize().finally(() => {
+      isMaterializingRef.current = false;
+    });
+  }, [channelId, hasSession, expenses, recurringExpenses, addExpense]);
+
+  // Remove an expense, keeping a tombstone so its revision history stays in the channel
+  const removeExpense = useCallback(
+    async (expenseId: string) => {
+      if (!hasSession) {
+        notification.error("Not signed in to ClearNode");
+        return;
+      }
+
+      if (!address) {
+        notification.error("Wallet not connected");
+        return;
+      }
+
+      const previousExpenses = expensesRef.current;
+      const existingExpense = previousExpenses.find(expense => expense.id === expenseId);
+      if (!existingExpense || existingExpense.deleted) {
+        notification.error("Expense not found");
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
         // Get current channel participants
-        const currentChannel = stateChannelClient.getCurrentChannel();
+        const currentChannel = stateChannelClient.getChannel(channelId);
         if (!currentChannel) {
           throw new Error("No active channel found");
         }
 
+        const deletedExpense = deleteExpense(existingExpense, {
+          author: address.toLowerCase(),
+          nonce: currentChannel.nonce + 1, // The state update below carries this revision
+          timestamp: Date.now(),
+        });
+        const updatedExpenses = previousExpenses.map(expense => (expense.id === expenseId ? deletedExpense : expense));
+        expensesRef.current = updatedExpenses;
+        setExpenses(updatedExpenses);
+
         const participants = currentChannel.participants.map(p => p.address);
 
         // Recalculate balances
-        const newBalances = calculateBalances(participants, updatedExpenses);
+        const newBalances = calculateChannelBalances(participants, updatedExpenses);
 
-        // Broadcast state update with updated expenses
-        await stateChannelClient.updateChannelState(newBalances, updatedExpenses);
+        // Broadcast state update with the tombstoned expense
+        await stateChannelClient.updateChannelState(
+          channelId,
+          newBalances,
+          updatedExpenses,
+          recurringExpensesRef.current,
+        );
+        syncBalances();
 
         notification.success("Expense removed and state updated!");
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Failed to remove expense";
         setError(errorMessage);
         notification.error(errorMessage);
+
+        // Revert local state on error
+        expensesRef.current = previousExpenses;
+        setExpenses(previousExpenses);
       } finally {
         setIsLoading(false);
       }
     },
-    [expenses, isAuthenticated, calculateBalances],
+    [channelId, address, hasSession, syncBalances],
   );
 
-  // Clear all expenses
+  // Remove every expense, keeping their tombstones so the revision history stays in the channel
   const clearExpenses = useCallback(async () => {
-    if (!isAuthenticated) {
-      notification.error("Not connected to ClearNode");
+    if (!hasSession) {
+      notification.error("Not signed in to ClearNode");
+      return;
+    }
+
+    if (!address) {
+      notification.error("Wallet not connected");
+      return;
+    }
+
+    const previousExpenses = expensesRef.current;
+    if (getActiveExpenses(previousExpenses).length === 0) {
+      notification.info("No expenses to clear");
       return;
     }
 
@@ -294,29 +640,48 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
     setError(null);
 
     try {
-      setExpenses([]);
-
       // Get current channel participants
-      const currentChannel = stateChannelClient.getCurrentChannel();
+      const currentChannel = stateChannelClient.getChannel(channelId);
       if (!currentChannel) {
         throw new Error("No active channel found");
       }
 
+      const revision = {
+        author: address.toLowerCase(),
+        nonce: currentChannel.nonce + 1, // The state update below carries these revisions
+        timestamp: Date.now(),
+      };
+      const updatedExpenses = previousExpenses.map(expense =>
+        expense.deleted ? expense : deleteExpense(expense, revision),
+      );
+      expensesRef.current = updatedExpenses;
+      setExpenses(updatedExpenses);
+
       const participants = currentChannel.participants.map(p => p.address);
 
-      // Reset balances to initial state
-      const initialBalances = new Array(participants.length).fill(0n);
-      await stateChannelClient.updateChannelState(initialBalances, []);
+      // Tombstones do not count towards balances, so every balance goes back to zero
+      const newBalances = calculateChannelBalances(participants, updatedExpenses);
+      await stateChannelClient.updateChannelState(
+        channelId,
+        newBalances,
+        updatedExpenses,
+        recurringExpensesRef.current,
+      );
+      syncBalances();
 
       notification.success("All expenses cleared and state reset!");
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to clear expenses";
       setError(errorMessage);
       notification.error(errorMessage);
+
+      // Revert local state on error
+      expensesRef.current = previousExpenses;
+      setExpenses(previousExpenses);
     } finally {
       setIsLoading(false);
     }
-  }, [isAuthenticated]);
+  }, [channelId, address, hasSession, syncBalances]);
 
   // Manual synchronization function
   const syncExpenses = useCallback(async () => {
@@ -329,17 +694,21 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
 
     try {
       // Get current channel state
-      const currentChannel = stateChannelClient.getCurrentChannel();
-      if (currentChannel && (currentChannel as any).expenses) {
-        const channelExpenses = (currentChannel as any).expenses;
+      const currentChannel = stateChannelClient.getChannel(channelId);
+      if (currentChannel) {
+        const channelExpenses = currentChannel.expenses;
         console.log("📊 Found expenses in channel state:", channelExpenses);
 
-        if (Array.isArray(channelExpenses) && channelExpenses.length > 0) {
+        if (channelExpenses.length > 0) {
           // Validate and sanitize expenses
-          const validation = validateExpenses(channelExpenses);
+          const validation = validateExpenses(channelExpenses, { allowedCategories });
           if (validation.isValid) {
-            const sanitizedExpenses = channelExpenses.map((expense: Expense) => sanitizeExpense(expense));
+            const sanitizedExpenses = channelExpenses.map(expense => sanitizeExpense(expense));
+            expensesRef.current = sanitizedExpenses;
             setExpenses(sanitizedExpenses);
+            recurringExpensesRef.current = currentChannel.recurringExpenses;
+            setRecurringExpenses(currentChannel.recurringExpenses);
+            syncBalances();
             console.log("✅ Expenses synchronized from channel state:", sanitizedExpenses.length);
             notification.success(`Synchronized ${sanitizedExpenses.length} expenses`);
           } else {
@@ -348,6 +717,7 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
           }
         } else {
           console.log("📊 No expenses found in channel state");
+          expensesRef.current = [];
           setExpenses([]);
         }
       } else {
@@ -357,16 +727,28 @@ export const useExpenseStateChannel = (channelId: string): ExpenseStateChannelRe
       console.error("Error synchronizing expenses:", err);
       notification.error("Failed to synchronize expenses");
     }
-  }, [isAuthenticated]);
+  }, [channelId, isAuthenticated, syncBalances, allowedCategories]);
+
+  // Tombstones stay in the channel state but are listed separately
+  const activeExpenses = useMemo(() => getActiveExpenses(expenses), [expenses]);
+  const deletedExpenses = useMemo(() => expenses.filter(expense => expense.deleted), [expenses]);
 
   return {
-    expenses,
+    expenses: activeExpenses,
+    deletedExpenses,
+    balances,
+    recurringExpenses,
     addExpense,
+    addRecurringExpense,
+    removeRecurringExpense,
+    importExpenses,
+    editExpense,
     removeExpense,
     clearExpenses,
     syncExpenses,
     isLoading,
     error,
+    syncWarnings,
     isConnected,
     isAuthenticated,
   };
@@ -0,0 +1,135 @@
+/**
+ * Receipt Sharing
+ * Exchanges receipt files between channel participants over ClearNode
+ *
+ * Expenses only carry receipt hashes. Participants holding a file answer requests for it,
+ * and received files are stored only when they belong to an expense of the channel and
+ * their content matches the hash.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Expense } from "./useExpensePersistence";
+import { useAccount } from "wagmi";
+import { clearNodeService } from "~~/services/clearnode";
+import { type StoredReceipt, receiptStore } from "~~/services/receiptStore";
+import { decodeReceiptData, encodeReceiptData, hashReceipt } from "~~/utils/receipts";
+import { notification } from "~~/utils/scaffold-eth";
+
+export interface ReceiptSharingReturn {
+  availableReceipts: Set<string>; // Hashes of receipts stored on this device
+  requestReceipt: (hash: string) => Promise<void>;
+  verifyReceiptFile: (file: File, expense: Expense) => Promise<boolean>;
+  getReceipt: (hash: string) => Promise<StoredReceipt | null>;
+}
+
+export const useReceiptSharing = (channelId: string, expenses: Expense[]): ReceiptSharingReturn => {
+  const { address } = useAccount();
+  const [availableReceipts, setAvailableReceipts] = useState<Set<string>>(new Set());
+
+  // Receipts referenced by the channel's expenses; anything else sent to us is ignored
+  const referencedReceipts = useMemo(
+    () => Array.from(new Set(expenses.flatMap(expense => expense.receipts ?? []))),
+    [expenses],
+  );
+  const referencedRef = useRef<string[]>([]);
+  useEffect(() => {
+    referencedRef.current = referencedReceipts;
+  }, [referencedReceipts]);
+
+  const refreshAvailable = useCallback(async () => {
+    try {
+      setAvailableReceipts(await receiptStore.getAvailable(referencedRef.current));
+    } catch (error) {
+      console.error("Error reading receipt store:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshAvailable();
+  }, [referencedReceipts, refreshAvailable]);
+
+  // Answer requests for receipts we hold, and store receipts shared with us
+  useEffect(() => {
+    const handleReceiptMessage = async (type: string, data: any) => {
+      const hash = typeof data?.hash === "string" ? data.hash.toLowerCase() : "";
+      if (!referencedRef.current.includes(hash)) {
+        return;
+      }
+
+      if (type === "receipt_request") {
+        if (data.sender && data.sender.toLowerCase() === address?.toLowerCase()) return;
+
+        const receipt = await receiptStore.get(hash);
+        if (!receipt) return;
+
+        console.log("📎 Sharing receipt:", hash);
+        await clearNodeService.sendPeerMessage("receipt_share", channelId, {
+          hash,
+          name: receipt.name,
+          mimeType: receipt.mimeType,
+          data: encodeReceiptData(receipt.data),
+        });
+      } else if (type === "receipt_share" && typeof data.data === "string") {
+        if ((await receiptStore.getAvailable([hash])).size > 0) return;
+
+        const receipt = await receiptStore.importReceipt({
+          hash,
+          name: typeof data.name === "string" ? data.name : hash,
+          mimeType: typeof data.mimeType === "string" ? data.mimeType : "",
+          data: decodeReceiptData(data.data),
+        });
+        await refreshAvailable();
+        notification.success(`Received receipt ${receipt.name}`);
+      }
+    };
+
+    return clearNodeService.onRelayedMessage(({ method, channelId: messageChannelId, data }) => {
+      if ((method !== "receipt_request" && method !== "receipt_share") || messageChannelId !== channelId) {
+        return;
+      }
+
+      handleReceiptMessage(method, data).catch(error => {
+        console.error(`Error handling ${method}:`, error);
+      });
+    });
+  }, [channelId, address, refreshAvailable]);
+
+  // Ask the other participants for a receipt we don't have
+  const requestReceipt = useCallback(
+    async (hash: string) => {
+      try {
+        await clearNodeService.sendPeerMessage("receipt_request", channelId, { hash });
+        notification.info("Receipt requested from the other participants");
+      } catch (error) {
+        console.error("Error requesting receipt:", error);
+        notification.error("Failed to request receipt");
+      }
+    },
+    [channelId],
+  );
+
+  // Check a file against an expense's receipt hashes, keeping it when it matches
+  const verifyReceiptFile = useCallback(
+    async (file: File, expense: Expense) => {
+      const hash = hashReceipt(await file.arrayBuffer());
+      if (!expense.receipts?.includes(hash)) {
+        notification.error(`${file.name} does not match any receipt of "${expense.description}"`);
+        return false;
+      }
+
+      await receiptStore.addFile(file);
+      await refreshAvailable();
+      notification.success(`${file.name} matches the receipt recorded in the channel state`);
+      return true;
+    },
+    [refreshAvailable],
+  );
+
+  const getReceipt = useCallback((hash: string) => receiptStore.get(hash), []);
+
+  return {
+    availableReceipts,
+    requestReceipt,
+    verifyReceiptFile,
+    getReceipt,
+  };
+};
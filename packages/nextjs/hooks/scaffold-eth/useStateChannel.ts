@@ -24,11 +24,11 @@ export interface UseStateChannelReturn {
   // Connection status
   isConnected: boolean;
   isAuthenticated: boolean;
+  hasSession: boolean; // Updates are sent, or queued while the connection is down
   chainId: number | undefined;
 
   // Channel state
-  currentChannel: ChannelState | null;
-  isChannelActive: boolean;
+  channels: ChannelState[]; // Every channel created or loaded in this session
 
   // Actions
   connect: () => Promise<void>;
@@ -37,8 +37,8 @@ export interface UseStateChannelReturn {
     participants: Address[],
     allocations: Array<{ participant: Address; asset: string; amount: string }>,
   ) => Promise<string>;
-  sendPayment: (payment: PaymentRequest) => Promise<void>;
-  closeChannel: () => Promise<void>;
+  sendPayment: (channelId: string, payment: PaymentRequest) => Promise<void>;
+  closeChannel: (channelId: string) => Promise<void>;
 
   // Yellow Network
   getQuote: (params: QuoteParams) => Promise<YellowNetworkQuote>;
@@ -58,7 +58,8 @@ export const useStateChannel = (): UseStateChannelReturn => {
   const chainId = useChainId();
   const [isConnected, setIsConnected] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [currentChannel, setCurrentChannel] = useState<ChannelState | null>(null);
+  const [hasSession, setHasSession] = useState(false);
+  const [channels, setChannels] = useState<ChannelState[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
@@ -99,9 +100,9 @@ export const useStateChannel = (): UseStateChannelReturn => {
       // Update states based on connection state
       setIsConnected(clearNodeStatus.isConnected);
       setIsAuthenticated(clearNodeStatus.isAuthenticated);
+      setHasSession(clearNodeService.hasSession());
 
-      const channel = stateChannelClient.getCurrentChannel();
-      setCurrentChannel(channel);
+      setChannels(stateChannelClient.getChannels());
 
       // Log connection state for debugging
       if (clearNodeStatus.connectionState) {
@@ -141,8 +142,8 @@ export const useStateChannel = (): UseStateChannelReturn => {
       // Connect to ClearNode
       await clearNodeService.connect();
 
-      // Authenticate with ClearNode using SDK EIP-712 signer via walletClient
-      await clearNodeService.authenticate(finalMessageSigner, address as `0x${string}`, walletClient);
+      // Authenticate with ClearNode; the wallet only signs when a new session key has to be authorized
+      await clearNodeService.authenticate(address as `0x${string}`, walletClient);
 
       // Wait a moment for state to propagate
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -151,6 +152,7 @@ export const useStateChannel = (): UseStateChannelReturn => {
       const finalStatus = clearNodeService.getStatus();
       setIsConnected(finalStatus.isConnected);
       setIsAuthenticated(finalStatus.isAuthenticated);
+      setHasSession(clearNodeService.hasSession());
 
       if (finalStatus.isAuthenticated) {
         notification.success("Connected and authenticated with ClearNode");
@@ -197,7 +199,8 @@ export const useStateChannel = (): UseStateChannelReturn => {
       await clearNodeService.disconnect();
       setIsConnected(false);
       setIsAuthenticated(false);
-      setCurrentChannel(null);
+      setHasSession(false);
+      setChannels([]);
       notification.success("Disconnected from ClearNode");
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to disconnect";
@@ -241,7 +244,7 @@ export const useStateChannel = (): UseStateChannelReturn => {
           })),
         );
 
-        setCurrentChannel(stateChannelClient.getCurrentChannel());
+        setChannels(stateChannelClient.getChannels());
         notification.success("State channel created successfully");
         return channelId;
       } catch (err) {
@@ -259,7 +262,7 @@ export const useStateChannel = (): UseStateChannelReturn => {
 
   // Send payment
   const sendPayment = useCallback(
-    async (payment: PaymentRequest) => {
+    async (channelId: string, payment: PaymentRequest) => {
       if (!isAuthenticated) {
         throw new Error("Not authenticated with ClearNode");
       }
@@ -268,8 +271,8 @@ export const useStateChannel = (): UseStateChannelReturn => {
       setError(null);
 
       try {
-        await stateChannelClient.sendPayment(payment);
-        setCurrentChannel(stateChannelClient.getCurrentChannel());
+        await stateChannelClient.sendPayment(channelId, payment);
+        setChannels(stateChannelClient.getChannels());
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Failed to send payment";
         setError(errorMessage);
@@ -282,25 +285,28 @@ export const useStateChannel = (): UseStateChannelReturn => {
   );
 
   // Close channel
-  const closeChannel = useCallback(async () => {
-    if (!isAuthenticated) {
-      throw new Error("Not authenticated with ClearNode");
-    }
+  const closeChannel = useCallback(
+    async (channelId: string) => {
+      if (!isAuthenticated) {
+        throw new Error("Not authenticated with ClearNode");
+      }
 
-    setIsLoading(true);
-    setError(null);
+      setIsLoading(true);
+      setError(null);
 
-    try {
-      await stateChannelClient.closeChannel();
-      setCurrentChannel(null);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Failed to close channel";
-      setError(errorMessage);
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [isAuthenticated]);
+      try {
+        await stateChannelClient.closeChannel(channelId);
+        setChannels(stateChannelClient.getChannels());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to close channel";
+        setError(errorMessage);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [isAuthenticated],
+  );
 
   // Get Yellow Network quote
   const getQuote = useCallback(
@@ -379,9 +385,9 @@ export const useStateChannel = (): UseStateChannelReturn => {
   return {
     isConnected,
     isAuthenticated,
+    hasSession,
     chainId,
-    currentChannel,
-    isChannelActive: stateChannelClient.isChannelActive(),
+    channels,
     connect,
     disconnect,
     createChannel,
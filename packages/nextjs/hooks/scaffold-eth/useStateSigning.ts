@@ -0,0 +1,395 @@
+/**
+ * State Signing Rounds
+ * Collects every participant's signature over a channel state through ClearNode
+ *
+ * The proposer broadcasts the state, each participant checks it against the state its
+ * own expenses lead to and signs the exact hash BatchPayChannel verifies, and the
+ * proposer gathers the signatures into the `bytes[]` expected by updateState / closeChannel. Rounds time out when a
+ * participant doesn't answer. Completed rounds are shared with every participant
+ * and persisted, so each of them can answer a challenge with the latest state.
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Hex } from "viem";
+import { useAccount, useSignMessage } from "wagmi";
+import { clearNodeService } from "~~/services/clearnode";
+import type { SignedChannelState } from "~~/services/signedStateStore";
+import { stateChannelClient } from "~~/services/stateChannelClient";
+import { signStateUpdate } from "~~/utils/messageSigning";
+import { notification } from "~~/utils/scaffold-eth";
+import {
+  SIGNING_ROUND_TIMEOUT,
+  type SerializedChannelState,
+  type SignableChannelState,
+  deserializeChannelState,
+  getSignableState,
+  getStateDifferences,
+  orderSignatures,
+  recoverStateSigner,
+  serializeChannelState,
+} from "~~/utils/stateSignatures";
+
+export type SignerStatus = "pending" | "signed" | "rejected";
+
+export type SigningRoundStatus = "collecting" | "complete" | "rejected" | "expired";
+
+export interface SigningRound {
+  id: string;
+  state: SignableChannelState;
+  participants: string[]; // Lowercase, in on-chain order
+  signatures: Record<string, Hex>; // By lowercase participant address
+  rejectedBy: string[];
+  status: SigningRoundStatus;
+  deadline: number;
+}
+
+// A state proposed by another participant, waiting for our review
+export interface StateProposal {
+  roundId: string;
+  proposer: string;
+  state: SignableChannelState;
+  deadline: number;
+}
+
+export interface StateSigningReturn {
+  rounds: SigningRound[]; // Rounds we proposed, newest first
+  proposals: StateProposal[];
+  signedState: SignedChannelState | null; // Latest state signed by every participant
+  proposeState: (state: SignableChannelState) => Promise<Hex[]>;
+  approveProposal: (roundId: string) => Promise<void>;
+  rejectProposal: (roundId: string) => Promise<void>;
+}
+
+/**
+ * Status of one participant in a signing round
+ */
+export const getSignerStatus = (round: SigningRound, participant: string): SignerStatus => {
+  const address = participant.toLowerCase();
+  if (round.signatures[address]) return "signed";
+  if (round.rejectedBy.includes(address)) return "rejected";
+  return "pending";
+};
+
+interface PendingRound {
+  resolve: (signatures: Hex[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const useStateSigning = (channelId: string, participants: readonly string[]): StateSigningReturn => {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [rounds, setRounds] = useState<SigningRound[]>([]);
+  const [proposals, setProposals] = useState<StateProposal[]>([]);
+  const [signedState, setSignedState] = useState<SignedChannelState | null>(null);
+
+  // Read by the ClearNode listener, which is not re-registered on every change
+  const roundsRef = useRef<SigningRound[]>([]);
+  const pendingRef = useRef<Map<string, PendingRound>>(new Map());
+  const participantsRef = useRef<string[]>([]);
+  useEffect(() => {
+    participantsRef.current = participants.map(participant => participant.toLowerCase());
+  }, [participants]);
+
+  const updateRound = useCallback((roundId: string, update: (round: SigningRound) => SigningRound) => {
+    roundsRef.current = roundsRef.current.map(round => (round.id === roundId ? update(round) : round));
+    setRounds(roundsRef.current);
+  }, []);
+
+  // Settle a round's promise once, clearing its timeout
+  const settleRound = useCallback((roundId: string, result: { signatures: Hex[] } | { error: Error }) => {
+    const pending = pendingRef.current.get(roundId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    pendingRef.current.delete(roundId);
+    if ("signatures" in result) {
+      pending.resolve(result.signatures);
+    } else {
+      pending.reject(result.error);
+    }
+  }, []);
+
+  // Load the latest signed state persisted on this device
+  useEffect(() => {
+    setSignedState(null);
+    stateChannelClient
+      .getLatestSignedState(channelId)
+      .then(setSignedState)
+      .catch(error => console.error("Error loading signed state:", error));
+  }, [channelId]);
+
+  // Persist a fully signed state and keep it if it is the newest one
+  const storeSignedState = useCallback(
+    async (state: SignableChannelState, roundParticipants: string[], signatures: Hex[]) => {
+      try {
+        const signed = await stateChannelClient.recordSignedState(state, roundParticipants, signatures);
+        setSignedState(previous => (previous && previous.state.nonce > signed.state.nonce ? previous : signed));
+      } catch (error) {
+        console.error("Error saving signed state:", error);
+        notification.error("Failed to save the signed state on this device");
+      }
+    },
+    [],
+  );
+
+  const signState = useCallback(
+    (state: SignableChannelState) => signStateUpdate(signMessageAsync, state),
+    [signMessageAsync],
+  );
+
+  // Record a participant's signature on one of our rounds, completing it when everyone signed
+  const handleSignature = useCallback(
+    async (roundId: string, signature: Hex) => {
+      const round = roundsRef.current.find(item => item.id === roundId);
+      if (!round || round.status !== "collecting") return;
+
+      const signer = (await recoverStateSigner(round.state, signature)).toLowerCase();
+      if (!round.participants.includes(signer)) {
+        console.error(`❌ Signature for round ${roundId} is not from a participant:`, signer);
+        return;
+      }
+
+      const signatures = { ...round.signatures, [signer]: signature };
+      const isComplete = round.participants.every(participant => signatures[participant]);
+      updateRound(roundId, item => ({ ...item, signatures, status: isComplete ? "complete" : item.status }));
+
+      if (isComplete) {
+        const ordered = orderSignatures(round.participants, signatures);
+        await storeSignedState(round.state, round.participants, ordered);
+        settleRound(roundId, { signatures: ordered });
+        await clearNodeService.sendPeerMessage("state_signed", channelId, {
+          roundId,
+          state: serializeChannelState(round.state),
+          signatures: ordered,
+        });
+      }
+    },
+    [channelId, updateRound, settleRound, storeSignedState],
+  );
+
+  // Store a completed round shared by its proposer, once every signature checks out
+  const handleSignedState = useCallback(
+    async (data: { state: SerializedChannelState; signatures: unknown }) => {
+      const state = deserializeChannelState(data.state);
+      const roundParticipants = participantsRef.current;
+      if (state.channelId.toLowerCase() !== channelId.toLowerCase()) {
+        throw new Error("Signed state is for another channel");
+      }
+      if (!Array.isArray(data.signatures) || data.signatures.length !== roundParticipants.length) {
+        throw new Error("Signed state does not have one signature per participant");
+      }
+
+      const signers = await Promise.all(data.signatures.map(signature => recoverStateSigner(state, signature as Hex)));
+      if (signers.some((signer, index) => signer.toLowerCase() !== roundParticipants[index])) {
+        throw new Error("Signed state has a signature that is not from the matching participant");
+      }
+
+      await storeSignedState(state, roundParticipants, data.signatures as Hex[]);
+    },
+    [channelId, storeSignedState],
+  );
+
+  // Proposals arrive as signatureRequested events from the state channel client
+  useEffect(
+    () =>
+      stateChannelClient.on("signatureRequested", ({ channelId: eventChannelId, data }) => {
+        if (eventChannelId.toLowerCase() !== channelId.toLowerCase() || data.proposer === address?.toLowerCase()) {
+          return;
+        }
+
+        try {
+          const state = deserializeChannelState(data.state);
+          if (state.channelId.toLowerCase() !== channelId.toLowerCase()) {
+            throw new Error("Proposal is for another channel");
+          }
+          if (!participantsRef.current.includes(data.proposer)) {
+            throw new Error(`Proposer ${data.proposer} is not a participant`);
+          }
+
+          const proposal: StateProposal = {
+            roundId: data.roundId,
+            proposer: data.proposer,
+            state,
+            deadline: data.deadline || Date.now() + SIGNING_ROUND_TIMEOUT,
+          };
+          setProposals(previous =>
+            previous.some(item => item.roundId === proposal.roundId) ? previous : [...previous, proposal],
+          );
+          notification.info("A participant asked you to sign a new channel state");
+        } catch (error) {
+          console.error("❌ Ignoring invalid state proposal:", error);
+        }
+      }),
+    [channelId, address],
+  );
+
+  // Listen for signatures, rejections and completed rounds from the other participants
+  useEffect(
+    () =>
+      clearNodeService.onRelayedMessage(({ method, channelId: messageChannelId, data }) => {
+        if (method !== "state_signature" && method !== "state_signed" && method !== "state_rejection") {
+          return;
+        }
+        if (messageChannelId.toLowerCase() !== channelId.toLowerCase() || typeof data?.roundId !== "string") {
+          return;
+        }
+
+        const sender = typeof data.sender === "string" ? data.sender.toLowerCase() : "";
+        if (sender && sender === address?.toLowerCase()) {
+          return;
+        }
+
+        if (method === "state_signature" && typeof data.signature === "string") {
+          handleSignature(data.roundId, data.signature as Hex).catch(error => {
+            console.error("Error verifying state signature:", error);
+          });
+        } else if (method === "state_signed") {
+          handleSignedState({ state: data.state, signatures: data.signatures }).catch(error => {
+            console.error("❌ Ignoring invalid signed state:", error);
+          });
+        } else if (method === "state_rejection") {
+          const round = roundsRef.current.find(item => item.id === data.roundId);
+          if (!round || round.status !== "collecting" || !round.participants.includes(sender)) return;
+
+          updateRound(round.id, item => ({ ...item, rejectedBy: [...item.rejectedBy, sender], status: "rejected" }));
+          settleRound(round.id, { error: new Error(`State rejected by ${sender}`) });
+        }
+      }),
+    [channelId, address, handleSignature, handleSignedState, updateRound, settleRound],
+  );
+
+  // Drop proposals once their round has timed out
+  useEffect(() => {
+    if (proposals.length === 0) return;
+
+    const nextDeadline = Math.min(...proposals.map(proposal => proposal.deadline));
+    const timer = setTimeout(
+      () => setProposals(previous => previous.filter(proposal => proposal.deadline > Date.now())),
+      Math.max(nextDeadline - Date.now(), 0),
+    );
+    return () => clearTimeout(timer);
+  }, [proposals]);
+
+  // Fail outstanding rounds when the component using them goes away
+  useEffect(() => {
+    const pendingRounds = pendingRef.current;
+    return () => {
+      pendingRounds.forEach(({ timer, reject }) => {
+        clearTimeout(timer);
+        reject(new Error("Signing round cancelled"));
+      });
+      pendingRounds.clear();
+    };
+  }, []);
+
+  // Start a signing round and resolve with every participant's signature, in participant order
+  const proposeState = useCallback(
+    async (state: SignableChannelState): Promise<Hex[]> => {
+      const roundParticipants = participantsRef.current;
+      const self = address?.toLowerCase();
+      if (!self || !roundParticipants.includes(self)) {
+        throw new Error("Only channel participants can propose a state");
+      }
+
+      const ownSignature = await signState(state);
+      const round: SigningRound = {
+        id: `${state.stateHash}-${state.nonce}-${Date.now()}`,
+        state,
+        participants: roundParticipants,
+        signatures: { [self]: ownSignature },
+        rejectedBy: [],
+        status: roundParticipants.length === 1 ? "complete" : "collecting",
+        deadline: Date.now() + SIGNING_ROUND_TIMEOUT,
+      };
+
+      roundsRef.current = [round, ...roundsRef.current];
+      setRounds(roundsRef.current);
+
+      if (round.status === "complete") {
+        const ordered = orderSignatures(round.participants, round.signatures);
+        await storeSignedState(state, round.participants, ordered);
+        return ordered;
+      }
+
+      const result = new Promise<Hex[]>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          const latest = roundsRef.current.find(item => item.id === round.id);
+          const missing = latest?.participants.filter(participant => !latest.signatures[participant]) ?? [];
+          updateRound(round.id, item => ({ ...item, status: "expired" }));
+          settleRound(round.id, { error: new Error(`Signing round timed out waiting for ${missing.join(", ")}`) });
+        }, SIGNING_ROUND_TIMEOUT);
+        pendingRef.current.set(round.id, { resolve, reject, timer });
+      });
+
+      try {
+        await clearNodeService.sendPeerMessage("state_proposal", channelId, {
+          roundId: round.id,
+          state: serializeChannelState(state),
+          deadline: round.deadline,
+        });
+      } catch (error) {
+        updateRound(round.id, item => ({ ...item, status: "expired" }));
+        settleRound(round.id, { error: error instanceof Error ? error : new Error(String(error)) });
+      }
+
+      return result;
+    },
+    [address, channelId, signState, updateRound, settleRound, storeSignedState],
+  );
+
+  // Sign a proposed state and send the signature back to the proposer, if it is the state our expenses lead to
+  const approveProposal = useCallback(
+    async (roundId: string) => {
+      const proposal = proposals.find(item => item.roundId === roundId);
+      if (!proposal) return;
+
+      if (proposal.deadline <= Date.now()) {
+        notification.error("This signing request has expired");
+        setProposals(previous => previous.filter(item => item.roundId !== roundId));
+        return;
+      }
+
+      const channel = stateChannelClient.getChannel(channelId);
+      const differences = channel
+        ? getStateDifferences(proposal.state, getSignableState(channel, participantsRef.current))
+        : ["channel not loaded"];
+      if (differences.length > 0) {
+        console.error(`❌ Not signing state proposal ${roundId}, it differs from ours:`, differences);
+        notification.error(`Not signed: the proposed state does not match your expenses (${differences.join(", ")})`);
+        return;
+      }
+
+      try {
+        const signature = await signState(proposal.state);
+        await clearNodeService.sendPeerMessage("state_signature", channelId, { roundId, signature });
+        setProposals(previous => previous.filter(item => item.roundId !== roundId));
+        notification.success("State signed");
+      } catch (error) {
+        console.error("Error signing proposed state:", error);
+        notification.error("Failed to sign state");
+      }
+    },
+    [proposals, channelId, signState],
+  );
+
+  const rejectProposal = useCallback(
+    async (roundId: string) => {
+      setProposals(previous => previous.filter(item => item.roundId !== roundId));
+      try {
+        await clearNodeService.sendPeerMessage("state_rejection", channelId, { roundId });
+      } catch (error) {
+        console.error("Error rejecting proposed state:", error);
+      }
+    },
+    [channelId],
+  );
+
+  return {
+    rounds,
+    proposals,
+    signedState,
+    proposeState,
+    approveProposal,
+    rejectProposal,
+  };
+};
@@ -7,6 +7,7 @@ export type BaseConfig = {
   rpcOverrides?: Record<number, string>;
   walletConnectProjectId: string;
   onlyLocalBurnerWallet: boolean;
+  clearNodeUrl: string;
 };
 
 export type ScaffoldConfig = BaseConfig;
@@ -35,6 +36,9 @@ const scaffoldConfig = {
   // .env.local for local testing, and in the Vercel/system env config for live apps.
   walletConnectProjectId: process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || "3a8170812b534d0ff9d794f19a901d64",
   onlyLocalBurnerWallet: true,
+  // ClearNode WebSocket endpoint for state channel messaging.
+  // Run `yarn clearnode` and set NEXT_PUBLIC_CLEARNODE_URL=ws://127.0.0.1:8000/ws to develop against a local one.
+  clearNodeUrl: process.env.NEXT_PUBLIC_CLEARNODE_URL || "wss://clearnet.yellow.com/ws",
 } as const satisfies ScaffoldConfig;
 
 export default scaffoldConfig;
@@ -4,28 +4,156 @@
  * Using Nitrolite SDK for proper protocol compliance
  *
  * Reference: https://github.com/erc7824/clearnode
- * Endpoint: wss://clearnet.yellow.com/ws
+ * Endpoint: scaffoldConfig.clearNodeUrl (wss://clearnet.yellow.com/ws, or the local packages/clearnode server)
  */
 // Import Nitrolite SDK functions
+import { type NewOutboxEntry, type OutboxEntry, outboxStore } from "./outboxStore";
+import { type SessionKey, sessionKeyStore } from "./sessionKeyStore";
 import {
+  type MessageSigner,
+  type RPCAllowance,
   type RPCAppDefinition,
   type RPCAppSessionAllocation,
+  RPCProtocolVersion,
   createAppSessionMessage,
   createAuthRequestMessage,
-  createAuthVerifyMessage,
+  createAuthVerifyMessageFromChallenge,
   createAuthVerifyMessageWithJWT,
   createCloseAppSessionMessage,
   createEIP712AuthMessageSigner,
+  createGetAppSessionsMessage,
   createGetChannelsMessage,
   createGetLedgerBalancesMessage,
+  createPingMessage,
+  createSubmitAppStateMessage,
   parseAnyRPCResponse,
 } from "@erc7824/nitrolite";
 // Import Viem types
-import type { Address } from "viem";
+import { type Address, type Hex, type WalletClient, keccak256, toHex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import scaffoldConfig from "~~/scaffold.config";
 // Import our custom types
-import type { ClearNodeConfig, ClearNodeConnection, ViemMessageSigner } from "~~/types/nitrolite";
+import type {
+  ClearNodeAppSession,
+  ClearNodeConfig,
+  ClearNodeConnection,
+  ClearNodeDiagnostics,
+  ClearNodeRPCLogEntry,
+  ClearNodeRPCMethod,
+  ClearNodeRPCMethods,
+  RawAppSession,
+  ViemMessageSigner,
+} from "~~/types/nitrolite";
 // Import error class
-import { ClearNodeError } from "~~/types/nitrolite";
+import { ClearNodeError, type ClearNodeErrorCode } from "~~/types/nitrolite";
+import type { ExpenseOperation } from "~~/utils/expenseOperations";
+import type { Expense } from "~~/utils/expenseValidation";
+import type { RecurringExpenseTemplate } from "~~/utils/recurringExpenses";
+
+// Messages exchanged between channel participants through ClearNode
+export type PeerMessageMethod =
+  | "receipt_request"
+  | "receipt_share"
+  | "state_proposal"
+  | "state_signature"
+  | "state_rejection"
+  | "state_signed";
+
+// A channel state update as sent with sendStateUpdate, and kept in the outbox while offline
+export interface StateUpdatePayload {
+  channelId: string;
+  nonce: number;
+  stateHash: string;
+  expensesRoot: string;
+  balances: string[]; // In participant order
+  participants: string[];
+  expenses: Expense[];
+  recurringExpenses: RecurringExpenseTemplate[];
+  operations: ExpenseOperation[];
+  timestamp: number;
+}
+
+// Another participant's state update, as read from the session data and allocations ClearNode relayed
+// Nothing in it is checked yet: the state channel client validates it before using it.
+export interface RemoteStateUpdate {
+  nonce: number;
+  stateHash?: string;
+  expenses: Expense[];
+  recurringExpenses?: RecurringExpenseTemplate[];
+  operations?: unknown[]; // Missing from updates that replace the expense list
+  participants: string[]; // Allocation order
+  balances: string[]; // Allocation amounts, in participant order
+  timestamp?: number;
+}
+
+export interface PaymentMessage {
+  amount: string;
+  sender: string;
+  recipient: string;
+}
+
+// Payload of each channel message, by method
+// Peer messages are checked field by field by the hook that handles them.
+export interface RelayedMessageData extends Record<PeerMessageMethod, Record<string, any>> {
+  state_update: RemoteStateUpdate;
+  payment: PaymentMessage;
+  outbox_conflict: OutboxConflict;
+}
+
+// A channel message received from ClearNode, handed to in-app listeners
+// outbox_conflict is raised locally, for queued state updates ClearNode was already past
+export type RelayedMessage = {
+  [M in keyof RelayedMessageData]: { method: M; channelId: string; data: RelayedMessageData[M] };
+}[keyof RelayedMessageData];
+
+// A queued state update that was dropped because ClearNode holds a state at least as new
+export interface OutboxConflict {
+  nonce: number;
+  stateHash: string;
+  acknowledgedNonce?: number; // Unknown when ClearNode rejected the replay instead
+  reason: string;
+}
+
+export type RelayedMessageListener = (message: RelayedMessage) => void;
+
+// Whether a message went out now or waits in the outbox for the connection to come back
+export type SendOutcome = "sent" | "queued";
+
+// Failures that mean the connection is down, so the message is worth sending again later
+const OFFLINE_ERROR_CODES: ClearNodeErrorCode[] = [
+  "not_connected",
+  "not_authenticated",
+  "connection_closed",
+  "timeout",
+];
+
+// Reconnect delays double from ClearNodeConfig.reconnectDelay up to this, and attempts never stop
+const MAX_RECONNECT_DELAY = 60000;
+
+const APP_NAME = "BatchPay";
+
+// Session keys are replaced this many seconds before they expire
+const SESSION_KEY_ROTATION_MARGIN = 5 * 60;
+
+// Session keys sign app session updates and messages, but may not spend ledger funds on their own
+const SESSION_KEY_ALLOWANCES: RPCAllowance[] = [];
+
+// Responses repeat the request method, except for these
+const RESPONSE_METHODS: Partial<Record<ClearNodeRPCMethod, string>> = {
+  auth_request: "auth_challenge",
+  ping: "pong",
+};
+
+// Messages kept in the diagnostics log
+const RPC_LOG_SIZE = 50;
+
+interface PendingRequest {
+  method: ClearNodeRPCMethod;
+  resolve: (result: any) => void;
+  reject: (error: ClearNodeError) => void;
+  timer: ReturnType<typeof setTimeout>;
+  sentAt: number;
+}
 
 export class ClearNodeService {
   private ws: WebSocket | null = null;
@@ -36,24 +164,36 @@ export class ClearNodeService {
     isConnected: false,
     isAuthenticated: false,
   };
-  private messageHandlers: Map<string, (data: any) => void> = new Map();
-  private pendingRequests: Map<number, { resolve: (data: any) => void; reject: (error: any) => void }> = new Map();
+  private relayListeners: Set<RelayedMessageListener> = new Set();
+  private pendingRequests: Map<number, PendingRequest> = new Map();
   private reconnectAttempts = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private requestIdCounter = 0;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private isReconnecting = false;
+  private outboxReplay: Promise<void> | null = null;
+  private sessionKey: SessionKey | null = null;
+  private walletClient: WalletClient | null = null; // Kept to authorize new session keys on rotation and reconnect
+  private rotationTimer: NodeJS.Timeout | null = null;
+  private rpcLog: ClearNodeRPCLogEntry[] = [];
+  private heartbeatLatency?: number;
+  private lastError?: string;
   private connectionState: "disconnected" | "connecting" | "connected" | "authenticating" | "authenticated" =
     "disconnected";
 
   constructor(config: Partial<ClearNodeConfig> = {}) {
     this.config = {
-      endpoint: "wss://clearnet.yellow.com/ws",
+      endpoint: scaffoldConfig.clearNodeUrl,
       timeout: 30000,
-      retryAttempts: 3,
       reconnectDelay: 5000,
+      sessionKeyTtl: 24 * 60 * 60,
       ...config,
     };
+
+    // JWTs used to be kept in plain localStorage, session keys replace them
+    if (typeof window !== "undefined") {
+      localStorage.removeItem("clearnode_jwt");
+    }
   }
 
   /**
@@ -93,6 +233,7 @@ export class ClearNodeService {
 
         this.ws.onerror = error => {
           console.error("ClearNode WebSocket error:", error);
+          this.lastError = "WebSocket error";
           this.connectionState = "disconnected";
           this.connection.isConnected = false;
           this.connection.isAuthenticated = false;
@@ -101,10 +242,14 @@ export class ClearNodeService {
 
         this.ws.onclose = event => {
           console.log("ClearNode WebSocket closed", event.code, event.reason);
+          if (event.code !== 1000) {
+            this.lastError = `Connection closed (${event.code}${event.reason ? `: ${event.reason}` : ""})`;
+          }
           this.connectionState = "disconnected";
           this.connection.isConnected = false;
           this.connection.isAuthenticated = false;
           this.clearHeartbeat();
+          this.rejectPendingRequests(new ClearNodeError("Connection to ClearNode closed", "connection_closed"));
 
           // Only attempt reconnection if not a normal closure and not already reconnecting
           if (event.code !== 1000 && !this.isReconnecting) {
@@ -127,145 +272,186 @@ export class ClearNodeService {
   }
 
   /**
-   * Authenticate with ClearNode using Nitrolite SDK
+   * Authenticate with ClearNode through a session key
+   * Reuses the wallet's stored session key while ClearNode still accepts its JWT, otherwise the
+   * wallet authorizes a new one with a single EIP-712 signature. Requests are signed by the
+   * session key from then on, without wallet prompts.
    */
-  async authenticate(messageSigner: ViemMessageSigner, userAddress: Address, walletClient?: any): Promise<void> {
+  async authenticate(userAddress: Address, walletClient?: WalletClient): Promise<void> {
     if (!this.ws || this.connectionState !== "connected") {
-      throw new ClearNodeError("Not connected to ClearNode");
+      throw new ClearNodeError("Not connected to ClearNode", "not_connected");
     }
 
-    if (!messageSigner) {
-      throw new ClearNodeError("Message signer not available");
+    // Build SDK EIP-712 signer using the connected wallet client per docs
+    if (!walletClient) {
+      throw new ClearNodeError("Wallet client not available for EIP-712 auth signer", "auth_failed");
     }
 
-    // Prevent multiple simultaneous authentication attempts
-    if (["authenticating", "authenticated"].includes(this.connectionState)) {
-      console.log("Already authenticating or authenticated with ClearNode, skipping...");
-      return Promise.resolve();
+    this.connectionState = "authenticating";
+    this.walletClient = walletClient;
+
+    try {
+      const sessionKey =
+        (await this.resumeSessionKey(userAddress)) ?? (await this.authorizeSessionKey(userAddress, walletClient));
+      this.activateSessionKey(sessionKey, userAddress);
+      console.log("✅ Authenticated with ClearNode");
+      this.startOutboxReplay();
+    } catch (error) {
+      if (this.connectionState === "authenticating") {
+        this.connectionState = "connected";
+      }
+      console.error("❌ ClearNode authentication error:", error);
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error instanceof ClearNodeError
+        ? error
+        : new ClearNodeError(`Authentication failed: ${error}`, "auth_failed", error);
     }
+  }
 
-    this.connectionState = "authenticating";
-    this.messageSigner = messageSigner;
+  /**
+   * Authenticate with the wallet's stored session key, if it is not about to expire
+   * Returns null when there is no usable key, so a new one has to be authorized.
+   */
+  private async resumeSessionKey(userAddress: Address): Promise<SessionKey | null> {
+    let sessionKey: SessionKey | null;
+    try {
+      sessionKey = await sessionKeyStore.get(userAddress);
+    } catch (error) {
+      console.error("Could not read stored session key:", error);
+      return null;
+    }
 
-    return new Promise(async (resolve, reject) => {
-      try {
-        const appName = "BatchPay";
-        // Create auth request message using SDK - object-based approach
-        const authRequestMsg = await createAuthRequestMessage({
+    const jwtToken = sessionKey?.jwtToken;
+    if (!sessionKey || !jwtToken || sessionKey.expiresAt - SESSION_KEY_ROTATION_MARGIN <= Date.now() / 1000) {
+      return null;
+    }
+
+    try {
+      const result = await this.request("auth_verify", requestId =>
+        createAuthVerifyMessageWithJWT(jwtToken, requestId),
+      );
+      if (result.success) {
+        console.log("🔑 Resumed ClearNode session key", sessionKey.address);
+        return sessionKey;
+      }
+    } catch (error) {
+      if (this.isOfflineError(error)) {
+        throw error;
+      }
+      console.log("Stored session key was not accepted, authorizing a new one:", error);
+    }
+    return null;
+  }
+
+  /**
+   * Generate a session key and have the wallet authorize it
+   * The wallet signs an EIP-712 policy naming the key as participant, with the scope,
+   * allowances and expiry of the auth_request, and ClearNode accepts requests it signs until then.
+   */
+  private async authorizeSessionKey(userAddress: Address, walletClient: WalletClient): Promise<SessionKey> {
+    const privateKey = generatePrivateKey();
+    const sessionKeyAddress = privateKeyToAccount(privateKey).address as `0x${string}`;
+    const expiresAt = Math.floor(Date.now() / 1000) + this.config.sessionKeyTtl;
+
+    // The signed policy must repeat the auth request's fields exactly
+    const policy = {
+      scope: "console",
+      application: "0x0000000000000000000000000000000000000000" as `0x${string}`,
+      expire: expiresAt.toString(),
+      allowances: SESSION_KEY_ALLOWANCES,
+    };
+
+    console.log("🔐 Sending authentication request to ClearNode...");
+    const challenge = await this.request("auth_request", requestId =>
+      createAuthRequestMessage(
+        {
           address: userAddress as `0x${string}`,
-          session_key: userAddress as `0x${string}`, // Using same address as session key for simplicity
-          app_name: appName,
-          expire: (Math.floor(Date.now() / 1000) + 3600).toString(), // 1 hour
-          scope: "console",
-          application: "0x0000000000000000000000000000000000000000" as `0x${string}`,
-          allowances: [],
-        });
-
-        // Set up handler for auth responses
-        const authHandler = async (message: any) => {
-          try {
-            console.log("🔍 Received auth message:", JSON.stringify(message, null, 2));
-            const method = message.method || (message.res && message.res[1]);
-            console.log("🔍 Auth method:", method);
-
-            if (method === "auth_challenge") {
-              // Get challenge from response
-              const challenge = message.params?.challengeMessage || message.res?.[2]?.[0]?.challengeMessage;
-
-              if (!challenge) {
-                throw new ClearNodeError("No challenge received");
-              }
+          session_key: sessionKeyAddress,
+          app_name: APP_NAME,
+          ...policy,
+        },
+        requestId,
+      ),
+    );
+
+    // The SDK is built against its own copy of viem, whose WalletClient type differs from ours
+    const eip712Signer = createEIP712AuthMessageSigner(
+      walletClient as unknown as Parameters<typeof createEIP712AuthMessageSigner>[0],
+      { ...policy, participant: sessionKeyAddress },
+      { name: APP_NAME },
+    );
+    const result = await this.request("auth_verify", requestId =>
+      createAuthVerifyMessageFromChallenge(eip712Signer, challenge.challengeMessage, requestId),
+    );
+    if (!result.success) {
+      throw new ClearNodeError("Authentication failed", "auth_failed", result);
+    }
 
-              // Build SDK EIP-712 signer using the connected wallet client per docs
-              if (!walletClient) {
-                throw new ClearNodeError("Wallet client not available for EIP-712 auth signer");
-              }
+    const sessionKey: SessionKey = {
+      wallet: userAddress.toLowerCase(),
+      address: sessionKeyAddress,
+      privateKey,
+      expiresAt,
+      jwtToken: result.jwtToken,
+    };
+    try {
+      await sessionKeyStore.put(sessionKey);
+    } catch (error) {
+      console.error("Could not store session key, the wallet will be asked again next time:", error);
+    }
+    console.log("🔑 Authorized ClearNode session key", sessionKeyAddress);
+    return sessionKey;
+  }
 
-              const eip712Signer = createEIP712AuthMessageSigner(
-                walletClient,
-                {
-                  scope: "console",
-                  application: "0x0000000000000000000000000000000000000000",
-                  participant: userAddress as `0x${string}`,
-                  expire: (Math.floor(Date.now() / 1000) + 3600).toString(),
-                  allowances: [],
-                },
-                { name: appName },
-              );
-
-              // Create and send auth verify message using the SDK EIP-712 signer
-              const authVerifyMsg = await createAuthVerifyMessage(eip712Signer, message);
-
-              if (this.ws) {
-                this.ws.send(authVerifyMsg);
-              }
-            } else if (method === "auth_verify" || method === "auth_success") {
-              // Authentication successful
-              const success = message.params?.success !== false && message.res?.[2]?.[0]?.success !== false;
-
-              if (success) {
-                this.connectionState = "authenticated";
-                this.connection.isAuthenticated = true;
-                this.participantAddress = userAddress;
-                const jwtToken = message.params?.jwtToken || message.res?.[2]?.[0]?.jwtToken;
-                if (jwtToken) {
-                  this.connection.jwtToken = jwtToken;
-                  this.storeJWTToken(jwtToken);
-                }
-                this.messageHandlers.delete("auth");
-                console.log("✅ Authenticated with ClearNode");
-                resolve();
-              } else {
-                this.connectionState = "connected";
-                this.messageHandlers.delete("auth");
-                reject(new ClearNodeError("Authentication failed"));
-              }
-            } else if (message.error || (message.res && message.res[1] === "error")) {
-              this.messageHandlers.delete("auth");
-              const errorMessage =
-                message.error?.message ||
-                message.res?.[2]?.[0]?.message ||
-                message.params?.error ||
-                "Unknown authentication error";
-              console.error("❌ ClearNode authentication error:", errorMessage);
-              reject(new ClearNodeError(`Authentication failed: ${errorMessage}`));
-            }
-          } catch (error) {
-            this.messageHandlers.delete("auth");
-            reject(error);
-          }
-        };
+  /**
+   * Sign requests with a session key from now on and schedule its rotation
+   */
+  private activateSessionKey(sessionKey: SessionKey, userAddress: Address): void {
+    const account = privateKeyToAccount(sessionKey.privateKey);
+    // Raw ECDSA over the message, the way the SDK's createECDSAMessageSigner signs
+    this.messageSigner = message => account.sign({ hash: keccak256(toHex(message)) });
+    this.sessionKey = sessionKey;
+
+    this.connectionState = "authenticated";
+    this.connection.isAuthenticated = true;
+    this.connection.jwtToken = sessionKey.jwtToken;
+    this.connection.sessionKey = sessionKey.address;
+    this.participantAddress = userAddress;
+    this.scheduleRotation(sessionKey);
+  }
 
-        this.messageHandlers.set("auth", authHandler);
+  /**
+   * Replace the session key shortly before it expires
+   */
+  private scheduleRotation(sessionKey: SessionKey): void {
+    this.clearRotation();
+    const delay = Math.max((sessionKey.expiresAt - SESSION_KEY_ROTATION_MARGIN) * 1000 - Date.now(), 0);
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+      this.rotateSessionKey().catch(error => console.error("Failed to rotate ClearNode session key:", error));
+    }, delay);
+  }
 
-        // Set authentication timeout - NO FALLBACK
-        const authTimeout = setTimeout(() => {
-          this.messageHandlers.delete("auth");
-          this.connectionState = "connected";
-          console.log("❌ Authentication timeout - ClearNode authentication failed");
-          reject(new ClearNodeError("Authentication timeout - ClearNode authentication failed"));
-        }, 15000); // 15 second timeout
-
-        // Clear timeout on success
-        const originalResolve = resolve;
-        resolve = () => {
-          clearTimeout(authTimeout);
-          originalResolve();
-        };
+  private clearRotation(): void {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
 
-        // Send auth request
-        if (this.ws) {
-          console.log("🔐 Sending authentication request to ClearNode...");
-          this.ws.send(authRequestMsg);
-        } else {
-          clearTimeout(authTimeout);
-          reject(new ClearNodeError("WebSocket not connected"));
-        }
-      } catch (error) {
-        this.messageHandlers.delete("auth");
-        reject(new ClearNodeError(`Failed to create auth request: ${error}`));
-      }
-    });
+  /**
+   * Authorize a new session key on the open connection
+   * While disconnected there is nothing to do: authenticating after the reconnect replaces the key.
+   */
+  private async rotateSessionKey(): Promise<void> {
+    if (this.connectionState !== "authenticated" || !this.participantAddress || !this.walletClient) {
+      return;
+    }
+
+    console.log("🔑 Rotating ClearNode session key...");
+    const userAddress = this.participantAddress;
+    const sessionKey = await this.authorizeSessionKey(userAddress, this.walletClient);
+    this.activateSessionKey(sessionKey, userAddress);
   }
 
   /**
@@ -274,250 +460,482 @@ export class ClearNodeService {
   async createAppSession(session: {
     definition: RPCAppDefinition;
     allocations: RPCAppSessionAllocation[];
-  }): Promise<void> {
-    if (!this.messageSigner || !this.connection.isAuthenticated) {
-      throw new ClearNodeError("Not authenticated");
-    }
-
-    try {
-      // Create a wrapper that matches the SDK's expected interface
-      const sdkMessageSigner = async (payload: any): Promise<`0x${string}`> => {
-        try {
-          const messageString = typeof payload === "string" ? payload : JSON.stringify(payload);
-          return await this.messageSigner!(messageString);
-        } catch (error) {
-          console.error("Error in SDK message signer:", error);
-          throw new Error("Failed to sign message for SDK");
-        }
-      };
+  }): Promise<ClearNodeRPCMethods["create_app_session"]["result"]> {
+    this.requireAuthenticated();
+    return this.request("create_app_session", requestId =>
+      createAppSessionMessage(this.signPayload, session, requestId),
+    );
+  }
 
-      // Use SDK to create proper app session message (single object, not array)
-      const sessionMessage = await createAppSessionMessage(sdkMessageSigner, session);
+  /**
+   * Send state update using ERC-7824 submit_app_state
+   * While the connection is down the update is queued in the outbox instead.
+   */
+  async sendStateUpdate(stateUpdate: StateUpdatePayload): Promise<SendOutcome> {
+    return this.sendOrQueue(() => this.submitState(stateUpdate), {
+      kind: "state_update",
+      participant: this.participantAddress?.toLowerCase() ?? "",
+      channelId: stateUpdate.channelId.toLowerCase(),
+      nonce: stateUpdate.nonce,
+      stateHash: stateUpdate.stateHash,
+      payload: stateUpdate,
+    });
+  }
 
-      if (this.ws) {
-        this.ws.send(sessionMessage);
-      }
-    } catch (error) {
-      throw new ClearNodeError(`Failed to create app session: ${error}`);
-    }
+  private async submitState(
+    stateUpdate: StateUpdatePayload,
+  ): Promise<ClearNodeRPCMethods["submit_app_state"]["result"]> {
+    this.requireAuthenticated();
+    return this.request("submit_app_state", requestId =>
+      createSubmitAppStateMessage<RPCProtocolVersion.NitroRPC_0_2>(
+        this.signPayload,
+        {
+          app_session_id: stateUpdate.channelId as Hex,
+          allocations: stateUpdate.balances.map((balance, index) => ({
+            participant: (stateUpdate.participants[index] || `0x${index.toString().padStart(40, "0")}`) as Hex,
+            asset: "usdc",
+            amount: balance,
+          })),
+          session_data: JSON.stringify({
+            expenses: stateUpdate.expenses || [],
+            recurringExpenses: stateUpdate.recurringExpenses || [],
+            operations: stateUpdate.operations || [],
+            stateHash: stateUpdate.stateHash,
+            nonce: stateUpdate.nonce,
+            timestamp: Date.now(),
+            // App session listings leave out allocations, so the state can be read back without them
+            participants: stateUpdate.participants,
+            balances: stateUpdate.balances,
+          }),
+        },
+        requestId,
+      ),
+    );
   }
 
   /**
-   * Send state update using ERC-7824 submit_app_state
+   * Send a message to the other participants of a channel, relayed by ClearNode
+   * Used for data that is not part of the channel state, like receipt files and signing rounds.
    */
-  async sendStateUpdate(stateUpdate: any): Promise<void> {
-    if (!this.messageSigner || !this.connection.isAuthenticated) {
-      throw new ClearNodeError("Not authenticated");
-    }
+  async sendPeerMessage(method: PeerMessageMethod, channelId: string, payload: Record<string, unknown>): Promise<void> {
+    this.requireAuthenticated();
 
     try {
-      // Use proper ERC-7824 submit_app_state format
-      const submitAppStateData = {
+      const peerMessageData = {
         req: [
-          1,
-          "submit_app_state",
-          {
-            app_session_id: stateUpdate.channelId,
-            allocations: stateUpdate.balances.map((balance: string, index: number) => ({
-              participant: stateUpdate.participants?.[index] || `0x${index.toString().padStart(40, "0")}`,
-              asset: "usdc",
-              amount: balance,
-            })),
-            session_data: JSON.stringify({
-              expenses: stateUpdate.expenses || [],
-              stateHash: stateUpdate.stateHash,
-              nonce: stateUpdate.nonce,
-              timestamp: Date.now(),
-            }),
-          },
+          ++this.requestIdCounter,
+          method,
+          { app_session_id: channelId, sender: this.participantAddress, ...payload },
           Date.now(),
         ],
       };
 
-      const signature = await this.messageSigner(JSON.stringify(submitAppStateData));
-      const submitAppStateMessage = JSON.stringify({
-        ...submitAppStateData,
-        sig: [signature],
-      });
+      // Signed like SDK requests, over the req array, so ClearNode can check it against the session key
+      const signature = await this.messageSigner!(JSON.stringify(peerMessageData.req));
 
       if (this.ws) {
-        this.ws.send(submitAppStateMessage);
-        console.log("📤 Sent submit_app_state:", submitAppStateData);
+        const message = JSON.stringify({ ...peerMessageData, sig: [signature] });
+        this.ws.send(message);
+        this.logMessage("sent", message);
+        console.log(`📤 Sent ${method} for channel:`, channelId);
       }
     } catch (error) {
-      throw new ClearNodeError(`Failed to send state update: ${error}`);
+      throw new ClearNodeError(`Failed to send ${method}: ${error}`, "request_failed", error);
     }
   }
 
+  /**
+   * Listen for channel messages received from ClearNode
+   * Only messages that arrived over the ClearNode connection reach these listeners.
+   * Returns the function that removes the listener.
+   */
+  onRelayedMessage(listener: RelayedMessageListener): () => void {
+    this.relayListeners.add(listener);
+    return () => {
+      this.relayListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hand a channel message to every in-app listener
+   */
+  private relay(message: RelayedMessage): void {
+    this.relayListeners.forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(`Error in ${message.method} listener:`, error);
+      }
+    });
+  }
+
   /**
    * Get channels using SDK
    */
-  async getChannels(): Promise<any[]> {
-    if (!this.messageSigner || !this.connection.isAuthenticated) {
-      throw new ClearNodeError("Not authenticated");
+  async getChannels(): Promise<ClearNodeRPCMethods["get_channels"]["result"]["channels"]> {
+    this.requireAuthenticated();
+    const participant = (this.participantAddress || "0x0000000000000000000000000000000000000000") as `0x${string}`;
+    const result = await this.request("get_channels", requestId =>
+      createGetChannelsMessage(this.signPayload, participant, undefined, requestId),
+    );
+    return result.channels;
+  }
+
+  /**
+   * Get the app sessions a participant (by default the authenticated one) is part of using SDK
+   */
+  async getAppSessions(participantAddress?: Address): Promise<ClearNodeAppSession[]> {
+    this.requireAuthenticated();
+    const participant = (participantAddress ||
+      this.participantAddress ||
+      "0x0000000000000000000000000000000000000000") as `0x${string}`;
+    const result = await this.request("get_app_sessions", requestId =>
+      createGetAppSessionsMessage(this.signPayload, participant, undefined, requestId),
+    );
+    if ("appSessions" in result) {
+      return result.appSessions.map(({ appSessionId, status, participants, sessionData }) => ({
+        appSessionId,
+        status,
+        participants,
+        sessionData,
+      }));
     }
+    return (result.app_sessions || [])
+      .filter((session: RawAppSession) => typeof session?.app_session_id === "string")
+      .map(session => ({
+        appSessionId: session.app_session_id,
+        status: session.status,
+        participants: Array.isArray(session.participants) ? session.participants : [],
+        sessionData: session.session_data,
+      }));
+  }
 
-    return new Promise(async (resolve, reject) => {
-      const handler = (message: any) => {
-        const method = message.method || (message.res && message.res[1]);
+  /**
+   * The latest state ClearNode holds for a channel, read back from its app session data
+   * Like relayed updates, nothing in it is checked yet.
+   */
+  async getLatestState(channelId: string): Promise<RemoteStateUpdate | null> {
+    const session = (await this.getAppSessions()).find(
+      item => item.appSessionId.toLowerCase() === channelId.toLowerCase(),
+    );
+    if (!session?.sessionData) return null;
 
-        if (method === "get_channels") {
-          const result = message.result || message.params || (message.res && message.res[2]);
-          this.messageHandlers.delete("get_channels");
-          resolve(result);
-        } else if (message.error || (message.res && message.res[1] === "error")) {
-          this.messageHandlers.delete("get_channels");
-          reject(new ClearNodeError(`Failed to get channels: ${message.error?.message || "Unknown error"}`));
-        }
-      };
+    try {
+      const { expenses, recurringExpenses, operations, stateHash, nonce, timestamp, participants, balances } =
+        JSON.parse(session.sessionData);
+      return { expenses, recurringExpenses, operations, stateHash, nonce, timestamp, participants, balances };
+    } catch {
+      return null;
+    }
+  }
 
-      this.messageHandlers.set("get_channels", handler);
+  /**
+   * Get ledger balances using SDK
+   */
+  async getLedgerBalances(
+    participantAddress: Address,
+  ): Promise<ClearNodeRPCMethods["get_ledger_balances"]["result"]["ledgerBalances"]> {
+    this.requireAuthenticated();
+    const result = await this.request("get_ledger_balances", requestId =>
+      createGetLedgerBalancesMessage(this.signPayload, participantAddress as `0x${string}`, requestId),
+    );
+    return result.ledgerBalances;
+  }
 
-      try {
-        // Create a wrapper that matches the SDK's expected interface
-        const sdkMessageSigner = async (payload: any): Promise<`0x${string}`> => {
-          try {
-            const messageString = typeof payload === "string" ? payload : JSON.stringify(payload);
-            return await this.messageSigner!(messageString);
-          } catch (error) {
-            console.error("Error in SDK message signer:", error);
-            throw new Error("Failed to sign message for SDK");
-          }
-        };
+  /**
+   * Close app session using SDK
+   */
+  async closeAppSession(sessionId: string): Promise<ClearNodeRPCMethods["close_app_session"]["result"]> {
+    this.requireAuthenticated();
+    return this.request("close_app_session", requestId =>
+      createCloseAppSessionMessage(this.signPayload, { app_session_id: sessionId as Hex, allocations: [] }, requestId),
+    );
+  }
 
-        // Create get channels message - expects address parameter
-        const participant = (this.participantAddress || "0x0000000000000000000000000000000000000000") as `0x${string}`;
-        const getChannelsMessage = await createGetChannelsMessage(sdkMessageSigner, participant);
-        if (this.ws) {
-          this.ws.send(getChannelsMessage);
-        }
+  /**
+   * Send a request and wait for the response with the same ID
+   * `build` creates the SDK message for the request ID it is given. Fails with a typed
+   * ClearNodeError when ClearNode answers with an error, after ClearNodeConfig.timeout,
+   * or when the connection closes first.
+   */
+  private async request<M extends ClearNodeRPCMethod>(
+    method: M,
+    build: (requestId: number) => Promise<string>,
+  ): Promise<ClearNodeRPCMethods[M]["result"]> {
+    const requestId = ++this.requestIdCounter;
+
+    let message: string;
+    try {
+      message = await build(requestId);
+    } catch (error) {
+      throw new ClearNodeError(`Failed to create ${method} request: ${error}`, "request_failed", error);
+    }
+
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      throw new ClearNodeError("Not connected to ClearNode", "not_connected");
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new ClearNodeError(`${method} timed out after ${this.config.timeout}ms`, "timeout"));
+      }, this.config.timeout);
+      this.pendingRequests.set(requestId, { method, resolve, reject, timer, sentAt: Date.now() });
+
+      try {
+        ws.send(message);
+        this.logMessage("sent", message);
       } catch (error) {
-        this.messageHandlers.delete("get_channels");
-        reject(new ClearNodeError(`Failed to create get channels message: ${error}`));
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        reject(new ClearNodeError(`Failed to send ${method}: ${error}`, "request_failed", error));
       }
     });
   }
 
   /**
-   * Get ledger balances using SDK
+   * Settle the pending request a response belongs to
+   * Returns false for messages that are not a response to one of our requests.
    */
-  async getLedgerBalances(participantAddress: Address): Promise<any> {
-    if (!this.messageSigner || !this.connection.isAuthenticated) {
-      throw new ClearNodeError("Not authenticated");
+  private resolveRequest(message: any, method: string | undefined): boolean {
+    const requestId = message.requestId ?? message.res?.[0];
+    const pending = typeof requestId === "number" ? this.pendingRequests.get(requestId) : undefined;
+    // IDs are only unique per client, so the method has to match as well
+    if (!pending || (method !== "error" && method !== (RESPONSE_METHODS[pending.method] ?? pending.method))) {
+      return false;
     }
 
-    return new Promise(async (resolve, reject) => {
-      const handler = (message: any) => {
-        const method = message.method || (message.res && message.res[1]);
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
 
-        if (method === "get_ledger_balances") {
-          const result = message.result || message.params || (message.res && message.res[2]);
-          this.messageHandlers.delete("get_ledger_balances");
-          resolve(result);
-        } else if (message.error || (message.res && message.res[1] === "error")) {
-          this.messageHandlers.delete("get_ledger_balances");
-          reject(new ClearNodeError(`Failed to get ledger balances: ${message.error?.message || "Unknown error"}`));
-        }
-      };
+    // SDK-parsed responses carry params, raw ones the res payload
+    const params = message.res ? message.res[2] : message.params;
+    if (method === "error") {
+      const errorMessage = params?.error || params?.message || "Unknown error";
+      this.lastError = `${pending.method} failed: ${errorMessage}`;
+      pending.reject(new ClearNodeError(this.lastError, "rpc_error", params));
+    } else {
+      pending.resolve(params);
+    }
+    return true;
+  }
 
-      this.messageHandlers.set("get_ledger_balances", handler);
+  /**
+   * Fail every request still waiting for a response
+   */
+  private rejectPendingRequests(error: ClearNodeError): void {
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pendingRequests.clear();
+  }
 
-      try {
-        // Create a wrapper that matches the SDK's expected interface
-        const sdkMessageSigner = async (payload: any): Promise<`0x${string}`> => {
-          try {
-            const messageString = typeof payload === "string" ? payload : JSON.stringify(payload);
-            return await this.messageSigner!(messageString);
-          } catch (error) {
-            console.error("Error in SDK message signer:", error);
-            throw new Error("Failed to sign message for SDK");
-          }
-        };
+  private requireAuthenticated(): void {
+    if (!this.messageSigner || !this.connection.isAuthenticated) {
+      throw new ClearNodeError("Not authenticated", "not_authenticated");
+    }
+  }
 
-        const getLedgerBalancesMessage = await createGetLedgerBalancesMessage(
-          sdkMessageSigner,
-          participantAddress as `0x${string}`,
-        );
-        if (this.ws) {
-          this.ws.send(getLedgerBalancesMessage);
-        }
-      } catch (error) {
-        this.messageHandlers.delete("get_ledger_balances");
-        reject(new ClearNodeError(`Failed to create get ledger balances message: ${error}`));
-      }
+  /**
+   * Sign SDK request payloads with the authenticated message signer
+   */
+  private signPayload: MessageSigner = async payload => {
+    const messageString = typeof payload === "string" ? payload : JSON.stringify(payload);
+    return this.messageSigner!(messageString);
+  };
+
+  /**
+   * Send payment message (legacy method - should use state channels)
+   * While the connection is down the payment is queued in the outbox instead.
+   */
+  async sendPayment(amount: string, recipient: Address, token: string = "usdc"): Promise<SendOutcome> {
+    const payment = { amount, recipient, token };
+    return this.sendOrQueue(() => this.transmitPayment(payment), {
+      kind: "payment",
+      participant: this.participantAddress?.toLowerCase() ?? "",
+      payload: payment,
     });
   }
 
+  private async transmitPayment(payment: { amount: string; recipient: string; token: string }): Promise<void> {
+    this.requireAuthenticated();
+
+    const paymentData = {
+      type: "payment",
+      ...payment,
+      timestamp: Date.now(),
+    };
+
+    let signature: Hex;
+    try {
+      signature = await this.messageSigner!(JSON.stringify(paymentData));
+    } catch (error) {
+      throw new ClearNodeError(`Failed to send payment: ${error}`, "request_failed", error);
+    }
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new ClearNodeError("Not connected to ClearNode", "not_connected");
+    }
+    const message = JSON.stringify({ ...paymentData, signature });
+    this.ws.send(message);
+    this.logMessage("sent", message);
+  }
+
   /**
-   * Close app session using SDK
+   * Send a message now, or queue it when the connection is down
+   * Messages wait for an outbox replay in progress so they go out in the order they were made.
+   * Only queues once we have authenticated, since replaying needs to know who we are.
    */
-  async closeAppSession(sessionId: string): Promise<void> {
-    if (!this.messageSigner || !this.connection.isAuthenticated) {
-      throw new ClearNodeError("Not authenticated");
+  private async sendOrQueue(send: () => Promise<unknown>, entry: NewOutboxEntry): Promise<SendOutcome> {
+    await this.outboxReplay;
+
+    try {
+      await send();
+      return "sent";
+    } catch (error) {
+      if (!this.participantAddress || !this.isOfflineError(error)) {
+        throw error;
+      }
     }
 
     try {
-      // Create a wrapper that matches the SDK's expected interface
-      const sdkMessageSigner = async (payload: any): Promise<`0x${string}`> => {
-        try {
-          const messageString = typeof payload === "string" ? payload : JSON.stringify(payload);
-          return await this.messageSigner!(messageString);
-        } catch (error) {
-          console.error("Error in SDK message signer:", error);
-          throw new Error("Failed to sign message for SDK");
-        }
-      };
+      await outboxStore.add(entry);
+    } catch (error) {
+      throw new ClearNodeError(
+        `ClearNode is unreachable and the message could not be queued: ${error}`,
+        "not_connected",
+      );
+    }
+    console.log(`📥 Queued ${entry.kind} until ClearNode is reachable again`);
+    return "queued";
+  }
+
+  private isOfflineError(error: unknown): boolean {
+    return error instanceof ClearNodeError && !!error.code && OFFLINE_ERROR_CODES.includes(error.code);
+  }
+
+  /**
+   * Replay the outbox once, in the background
+   */
+  private startOutboxReplay(): void {
+    if (this.outboxReplay) return;
 
-      // SDK expects single object, not array
-      const closeSessionMessage = await createCloseAppSessionMessage(sdkMessageSigner, {
-        app_session_id: sessionId as `0x${string}`,
-        allocations: [],
+    this.outboxReplay = this.replayOutbox()
+      .catch(error => console.error("Failed to replay ClearNode outbox:", error))
+      .finally(() => {
+        this.outboxReplay = null;
       });
+  }
 
-      if (this.ws) {
-        this.ws.send(closeSessionMessage);
+  /**
+   * Send queued messages in order
+   * A queued state update is only sent while its nonce is ahead of the one ClearNode has for
+   * its channel. The others are dropped: silently when ClearNode's state is one of our own
+   * queued updates, otherwise as a conflict, since another participant's state took the nonce.
+   * Stops at the first message that fails for lack of a connection, so the rest keep their
+   * order for the next replay; other messages ClearNode rejects are dropped.
+   */
+  private async replayOutbox(): Promise<void> {
+    if (!this.participantAddress) return;
+
+    const entries = await outboxStore.getAll(this.participantAddress);
+    if (entries.length === 0) return;
+    console.log(`📤 Replaying ${entries.length} queued ClearNode message(s)`);
+
+    const acknowledged = await this.getAcknowledgedStates();
+
+    for (const entry of entries) {
+      const latest = entry.kind === "state_update" ? acknowledged.get(entry.channelId) : undefined;
+      if (entry.kind === "state_update" && latest && entry.nonce <= latest.nonce) {
+        const delivered = entries.some(
+          queued =>
+            queued.kind === "state_update" &&
+            queued.channelId === entry.channelId &&
+            queued.nonce === latest.nonce &&
+            queued.stateHash === latest.stateHash,
+        );
+        if (!delivered) {
+          this.reportConflict(entry, {
+            acknowledgedNonce: latest.nonce,
+            reason: `ClearNode already has state #${latest.nonce} for this channel`,
+          });
+        }
+      } else {
+        try {
+          await this.replayEntry(entry);
+        } catch (error) {
+          if (this.isOfflineError(error)) {
+            console.log("ClearNode went away again, keeping the rest of the outbox");
+            return;
+          }
+          console.error(`ClearNode rejected queued ${entry.kind}, dropping it:`, error);
+          if (entry.kind === "state_update") {
+            this.reportConflict(entry, { reason: error instanceof Error ? error.message : String(error) });
+          }
+        }
       }
-    } catch (error) {
-      throw new ClearNodeError(`Failed to close app session: ${error}`);
+      await outboxStore.remove(entry.id);
     }
   }
 
   /**
-   * Send payment message (legacy method - should use state channels)
+   * Tell the app about a queued state update that was dropped, as a message for its channel
    */
-  async sendPayment(amount: string, recipient: Address, token: string = "usdc"): Promise<void> {
-    if (!this.messageSigner || !this.connection.isAuthenticated) {
-      throw new ClearNodeError("Not authenticated");
+  private reportConflict(
+    entry: Extract<OutboxEntry, { kind: "state_update" }>,
+    details: Pick<OutboxConflict, "acknowledgedNonce" | "reason">,
+  ): void {
+    console.warn(`Dropped queued state #${entry.nonce} for channel ${entry.channelId}: ${details.reason}`);
+    const conflict: OutboxConflict = { nonce: entry.nonce, stateHash: entry.stateHash, ...details };
+    this.relay({ method: "outbox_conflict", channelId: entry.channelId, data: conflict });
+  }
+
+  private async replayEntry(entry: OutboxEntry): Promise<void> {
+    if (entry.kind === "state_update") {
+      await this.submitState(entry.payload);
+    } else {
+      await this.transmitPayment(entry.payload);
     }
+  }
 
-    try {
-      const paymentData = {
-        type: "payment",
-        amount,
-        recipient,
-        token,
-        timestamp: Date.now(),
-      };
+  /**
+   * Latest nonce and state hash ClearNode holds for each of our app sessions, from their session data
+   */
+  private async getAcknowledgedStates(): Promise<Map<string, { nonce: number; stateHash: string }>> {
+    const acknowledged = new Map<string, { nonce: number; stateHash: string }>();
 
-      const signature = await this.messageSigner(JSON.stringify(paymentData));
+    let sessions: ClearNodeAppSession[];
+    try {
+      sessions = await this.getAppSessions();
+    } catch (error) {
+      console.error("Could not fetch app sessions, replaying the whole outbox:", error);
+      return acknowledged;
+    }
 
-      const paymentMessage = {
-        ...paymentData,
-        signature,
-      };
+    sessions.forEach(({ appSessionId, sessionData }) => {
+      if (!sessionData) return;
 
-      if (this.ws) {
-        this.ws.send(JSON.stringify(paymentMessage));
+      try {
+        const { nonce, stateHash } = JSON.parse(sessionData);
+        if (typeof nonce === "number" && typeof stateHash === "string") {
+          acknowledged.set(appSessionId.toLowerCase(), { nonce, stateHash });
+        }
+      } catch {
+        // Session data written by another app
       }
-    } catch (error) {
-      throw new ClearNodeError(`Failed to send payment: ${error}`);
-    }
+    });
+
+    return acknowledged;
   }
 
   /**
    * Handle incoming messages
    */
   private handleMessage(data: string): void {
+    this.logMessage("received", data);
+
     try {
       // Try to parse using SDK parser
       let message: any;
@@ -528,21 +946,12 @@ export class ClearNodeService {
         message = JSON.parse(data);
       }
 
-      console.log("📨 Received message:", JSON.stringify(message, null, 2));
-
       // Determine message type/method
       const method = message.method || (message.res && message.res[1]);
       console.log("📨 Message method:", method);
 
-      // Handle authentication messages first
-      if (this.messageHandlers.has("auth")) {
-        this.messageHandlers.get("auth")!(message);
-        return;
-      }
-
-      // Handle specific method handlers
-      if (method && this.messageHandlers.has(method)) {
-        this.messageHandlers.get(method)!(message);
+      // Responses to our own requests
+      if (this.resolveRequest(message, method)) {
         return;
       }
 
@@ -552,9 +961,18 @@ export class ClearNodeService {
         case "create_app_session":
           console.log("✅ Session created:", message.result || message.res?.[2]);
           break;
-        case "payment":
-          console.log("💰 Payment received:", message.params || message.res?.[2]);
+        case "payment": {
+          const paymentData = message.params || message.res?.[2];
+          console.log("💰 Payment received:", paymentData);
+          if (paymentData?.app_session_id) {
+            this.relay({
+              method: "payment",
+              channelId: paymentData.app_session_id,
+              data: paymentData as PaymentMessage,
+            });
+          }
           break;
+        }
         case "submit_app_state":
           console.log("📊 App state updated:", message.params || message.res?.[2]);
           // Handle app state updates with expenses data
@@ -564,25 +982,31 @@ export class ClearNodeService {
               const sessionData = JSON.parse(appStateData.session_data);
               console.log("📊 Parsed session data:", sessionData);
 
+              const allocations: RPCAppSessionAllocation[] = Array.isArray(appStateData.allocations)
+                ? appStateData.allocations
+                : [];
+
               if (sessionData.expenses) {
                 console.log("📊 Found expenses in session data:", sessionData.expenses.length);
 
-                // Broadcast to other participants via window events
-                const broadcastMessage = {
-                  type: "state_update",
+                // Hand the update to the state channel client
+                const broadcastMessage: RelayedMessage = {
+                  method: "state_update",
                   channelId: appStateData.app_session_id,
                   data: {
                     expenses: sessionData.expenses,
+                    recurringExpenses: sessionData.recurringExpenses,
+                    operations: sessionData.operations,
                     stateHash: sessionData.stateHash,
                     nonce: sessionData.nonce,
                     timestamp: sessionData.timestamp,
-                    participants: appStateData.allocations?.map((alloc: any) => alloc.participant) || [],
+                    participants: allocations.map(allocation => allocation.participant),
+                    balances: allocations.map(allocation => allocation.amount),
                   },
                 };
 
-                console.log("📤 Broadcasting message:", broadcastMessage);
-                window.postMessage(broadcastMessage, "*");
-                console.log("📤 Broadcasted state update to participants with expenses:", sessionData.expenses.length);
+                this.relay(broadcastMessage);
+                console.log("📤 Relayed state update with expenses:", sessionData.expenses.length);
               } else {
                 console.log("📊 No expenses found in session data");
               }
@@ -593,11 +1017,24 @@ export class ClearNodeService {
             console.log("📊 No session_data found in app state update");
           }
           break;
+        case "receipt_request":
+        case "receipt_share":
+        case "state_proposal":
+        case "state_signature":
+        case "state_rejection":
+        case "state_signed": {
+          const { app_session_id, ...peerData } = message.params || message.res?.[2] || {};
+          if (app_session_id) {
+            this.relay({ method, channelId: app_session_id, data: peerData });
+          }
+          break;
+        }
         case "error":
           console.error("❌ ClearNode error:", message.error || message.res?.[2]);
           break;
         default:
-          console.log("📨 Received message:", message);
+          // Only the method: messages can carry credentials such as the JWT
+          console.log("📨 Unhandled ClearNode message:", method);
       }
     } catch (error) {
       console.error("Error parsing message:", error);
@@ -611,6 +1048,12 @@ export class ClearNodeService {
     this.clearHeartbeat();
     this.heartbeatInterval = setInterval(() => {
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        // Once authenticated, signed pings are answered with a pong, which gives the latency
+        if (this.connection.isAuthenticated) {
+          this.ping().catch(error => console.error("Heartbeat failed:", error));
+          return;
+        }
+
         try {
           this.ws.send(JSON.stringify({ type: "ping", timestamp: Date.now() }));
         } catch (error) {
@@ -623,6 +1066,15 @@ export class ClearNodeService {
     }, 30000); // 30 seconds
   }
 
+  /**
+   * Ping ClearNode and record how long the pong took
+   */
+  private async ping(): Promise<void> {
+    const sentAt = Date.now();
+    await this.request("ping", requestId => createPingMessage(this.signPayload, requestId));
+    this.heartbeatLatency = Date.now() - sentAt;
+  }
+
   /**
    * Clear heartbeat interval
    */
@@ -634,69 +1086,43 @@ export class ClearNodeService {
   }
 
   /**
-   * Handle reconnection with JWT token support
+   * Handle reconnection, authenticating again with the session key
    */
   private handleReconnect(): void {
-    if (this.isReconnecting) {
-      console.log("Already reconnecting, skipping...");
+    // A failed attempt reports through both onclose and connectWithSessionKey
+    if (this.reconnectTimer) {
+      console.log("Reconnect already scheduled, skipping...");
       return;
     }
 
-    if (this.reconnectAttempts < this.config.retryAttempts) {
-      this.isReconnecting = true;
-      this.reconnectAttempts++;
-      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.config.retryAttempts})...`);
+    const delay = Math.min(this.config.reconnectDelay * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.isReconnecting = true;
+    this.reconnectAttempts++;
+    console.log(`Reconnecting to ClearNode in ${delay / 1000}s (attempt ${this.reconnectAttempts})...`);
 
-      this.reconnectTimer = setTimeout(() => {
-        this.connectWithJWT().catch(console.error);
-      }, this.config.reconnectDelay);
-    } else {
-      console.error("Max reconnection attempts reached");
-      this.connection.isConnected = false;
-      this.connection.isAuthenticated = false;
-      this.connectionState = "disconnected";
-    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectWithSessionKey().catch(console.error);
+    }, delay);
   }
 
   /**
-   * Reconnect using stored JWT token
+   * Reconnect and authenticate again, with the stored session key while it is valid
    */
-  private async connectWithJWT(): Promise<void> {
+  private async connectWithSessionKey(): Promise<void> {
     try {
       await this.connect();
 
-      // If we have a JWT token, try to authenticate with it
-      const storedToken = this.getStoredJWTToken();
-      if (storedToken && this.ws) {
-        console.log("Reconnecting with JWT token...");
-        this.connectionState = "authenticating";
-
+      if (this.participantAddress && this.walletClient && this.ws) {
+        console.log("Reconnecting with session key...");
         try {
-          const authVerifyMsg = await createAuthVerifyMessageWithJWT(storedToken);
-          this.ws.send(authVerifyMsg);
-
-          // Set up handler for JWT auth response
-          this.messageHandlers.set("auth", (message: any) => {
-            const method = message.method || (message.res && message.res[1]);
-            if (method === "auth_verify" || method === "auth_success") {
-              const success = message.params?.success !== false && message.res?.[2]?.[0]?.success !== false;
-              if (success) {
-                this.connectionState = "authenticated";
-                this.connection.isAuthenticated = true;
-                console.log("✅ Reconnected with JWT");
-              } else {
-                this.connectionState = "connected";
-              }
-              this.messageHandlers.delete("auth");
-            }
-          });
+          await this.authenticate(this.participantAddress, this.walletClient);
         } catch (error) {
-          console.error("Failed to authenticate with JWT:", error);
-          this.connectionState = "connected";
+          console.error("Failed to authenticate after reconnecting:", error);
         }
       }
     } catch (error) {
-      console.error("Failed to reconnect with JWT:", error);
+      console.error("Failed to reconnect:", error);
       this.connectionState = "disconnected";
       this.handleReconnect();
     } finally {
@@ -705,9 +1131,11 @@ export class ClearNodeService {
   }
 
   /**
-   * Disconnect from ClearNode
+   * Disconnect from ClearNode and revoke the session key
+   * ClearNode has no call to revoke a session key, so revoking forgets the key and its JWT on
+   * this device; ClearNode stops accepting them when they expire.
    */
-  disconnect(): void {
+  async disconnect(): Promise<void> {
     this.connectionState = "disconnected";
     this.isReconnecting = false;
 
@@ -717,6 +1145,8 @@ export class ClearNodeService {
     }
 
     this.clearHeartbeat();
+    this.clearRotation();
+    this.rejectPendingRequests(new ClearNodeError("Disconnected from ClearNode", "connection_closed"));
 
     if (this.ws) {
       this.ws.close(1000, "Normal closure");
@@ -728,6 +1158,29 @@ export class ClearNodeService {
     this.connection.jwtToken = undefined;
     this.connection.sessionKey = undefined;
     this.reconnectAttempts = 0;
+
+    const sessionKey = this.sessionKey;
+    this.sessionKey = null;
+    this.messageSigner = null;
+    this.walletClient = null;
+    if (sessionKey) {
+      await sessionKeyStore.remove(sessionKey.wallet);
+    }
+  }
+
+  /**
+   * Address we authenticated as, if any
+   */
+  getParticipantAddress(): Address | undefined {
+    return this.participantAddress;
+  }
+
+  /**
+   * Whether state updates can be sent, or queued while the connection is down: a session key
+   * and the address it signs for are known
+   */
+  hasSession(): boolean {
+    return !!this.sessionKey && !!this.participantAddress;
   }
 
   /**
@@ -738,24 +1191,54 @@ export class ClearNodeService {
   }
 
   /**
-   * Store JWT token for reconnection
+   * Connection details for the diagnostics panel and debug bundles
+   * Holds no secrets: the JWT is left out and the RPC log only keeps the shape of each message.
    */
-  private storeJWTToken(token: string): void {
-    this.connection.jwtToken = token;
-    // Store in localStorage for persistence
-    if (typeof window !== "undefined") {
-      localStorage.setItem("clearnode_jwt", token);
-    }
+  getDiagnostics(): ClearNodeDiagnostics {
+    return {
+      isConnected: this.connection.isConnected,
+      isAuthenticated: this.connection.isAuthenticated,
+      sessionKey: this.connection.sessionKey,
+      lastError: this.lastError,
+      lastUpdate: this.rpcLog.length > 0 ? this.rpcLog[this.rpcLog.length - 1].timestamp : Date.now(),
+      connectionState: this.connectionState,
+      endpoint: this.config.endpoint,
+      participantAddress: this.participantAddress,
+      authExpiresAt: this.sessionKey?.expiresAt,
+      heartbeatLatency: this.heartbeatLatency,
+      reconnectAttempts: this.reconnectAttempts,
+      pendingRequests: [...this.pendingRequests.entries()].map(([requestId, pending]) => ({
+        requestId,
+        method: pending.method,
+        sentAt: pending.sentAt,
+      })),
+      rpcLog: [...this.rpcLog],
+    };
   }
 
   /**
-   * Retrieve JWT token from storage
+   * Add a message to the diagnostics log, keeping its method, ID and parameter names but no values
    */
-  private getStoredJWTToken(): string | null {
-    if (typeof window !== "undefined") {
-      return localStorage.getItem("clearnode_jwt");
+  private logMessage(direction: ClearNodeRPCLogEntry["direction"], data: string): void {
+    let method = "unknown";
+    let requestId: number | undefined;
+    let paramKeys: string[] = [];
+
+    try {
+      const message = JSON.parse(data);
+      const [id, rpcMethod, params] = message.req || message.res || [];
+      method = rpcMethod || message.type || method;
+      requestId = typeof id === "number" ? id : undefined;
+      const fields = params ?? message;
+      paramKeys = fields && typeof fields === "object" && !Array.isArray(fields) ? Object.keys(fields) : [];
+    } catch {
+      // Not JSON, logged as unknown
+    }
+
+    this.rpcLog.push({ direction, method, requestId, paramKeys, size: data.length, timestamp: Date.now() });
+    if (this.rpcLog.length > RPC_LOG_SIZE) {
+      this.rpcLog.shift();
     }
-    return null;
   }
 }
 
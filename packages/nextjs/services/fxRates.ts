@@ -0,0 +1,141 @@
+/**
+ * FX Rate Service
+ * Provides exchange rates into the channel settlement currency (USD)
+ *
+ * Rates are snapshotted onto each expense when it is entered, so balances never
+ * change after the fact and every participant converts with the same rate.
+ * Providers are tried in order; the static table is the offline fallback.
+ */
+import { mainnet } from "viem/chains";
+import { SETTLEMENT_CURRENCY } from "~~/utils/currencies";
+import { fetchPriceFromUniswap } from "~~/utils/scaffold-eth";
+
+export interface FxRateQuote {
+  currency: string;
+  rate: string; // Settlement currency units per one unit of `currency`
+  source: string;
+  timestamp: number;
+}
+
+export interface FxRateProvider {
+  name: string;
+  supports(currency: string): boolean;
+  getRate(currency: string): Promise<number | null>;
+}
+
+// Approximate USD rates used when no live source is reachable
+export const STATIC_FX_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  JPY: 0.0067,
+  CHF: 1.12,
+  CAD: 0.73,
+  AUD: 0.66,
+  INR: 0.012,
+  MXN: 0.055,
+  ETH: 3000,
+};
+
+// Mainnet 18-decimal tokens that track a currency and have a Uniswap V2 pair with DAI
+const UNISWAP_CURRENCY_TOKENS: Record<string, string> = {
+  ETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
+  EUR: "0x1a7e4e63778B4f12a199C062f3eFdD288afCBce8", // EURA (agEUR)
+};
+
+/**
+ * Live rates from Uniswap V2 token/DAI pairs on mainnet
+ */
+export class UniswapRateProvider implements FxRateProvider {
+  name = "Uniswap";
+
+  supports(currency: string): boolean {
+    return currency in UNISWAP_CURRENCY_TOKENS;
+  }
+
+  async getRate(currency: string): Promise<number | null> {
+    const tokenAddress = UNISWAP_CURRENCY_TOKENS[currency];
+    if (!tokenAddress) return null;
+
+    // fetchPriceFromUniswap prices a network's native currency token against DAI
+    const price = await fetchPriceFromUniswap({ ...mainnet, nativeCurrencyTokenAddress: tokenAddress });
+    return price > 0 ? price : null;
+  }
+}
+
+/**
+ * Offline fallback using the static rate table
+ */
+export class StaticRateProvider implements FxRateProvider {
+  name = "Static table";
+
+  constructor(private rates: Record<string, number> = STATIC_FX_RATES) {}
+
+  supports(currency: string): boolean {
+    return currency in this.rates;
+  }
+
+  async getRate(currency: string): Promise<number | null> {
+    return this.rates[currency] ?? null;
+  }
+}
+
+export class FxRateService {
+  private cache: Map<string, FxRateQuote> = new Map();
+
+  constructor(
+    private providers: FxRateProvider[],
+    private cacheTtl: number = 5 * 60 * 1000, // 5 minutes
+  ) {}
+
+  /**
+   * Register an additional provider, tried before the existing ones
+   */
+  addProvider(provider: FxRateProvider): void {
+    this.providers = [provider, ...this.providers];
+    this.cache.clear();
+  }
+
+  /**
+   * Get the rate for converting `currency` into the settlement currency
+   */
+  async getRate(currency: string): Promise<FxRateQuote> {
+    const code = currency.toUpperCase();
+
+    if (code === SETTLEMENT_CURRENCY) {
+      return { currency: code, rate: "1", source: "identity", timestamp: Date.now() };
+    }
+
+    const cached = this.cache.get(code);
+    if (cached && Date.now() - cached.timestamp < this.cacheTtl) {
+      return cached;
+    }
+
+    for (const provider of this.providers) {
+      if (!provider.supports(code)) continue;
+
+      try {
+        const rate = await provider.getRate(code);
+        if (rate && rate > 0) {
+          const quote = { currency: code, rate: formatRate(rate), source: provider.name, timestamp: Date.now() };
+          this.cache.set(code, quote);
+          return quote;
+        }
+      } catch (error) {
+        console.warn(`FX provider ${provider.name} failed for ${code}:`, error);
+      }
+    }
+
+    throw new Error(`No exchange rate available for ${code}`);
+  }
+}
+
+/**
+ * Render a rate as a plain decimal string (no exponent) with at most 12 decimals
+ */
+const formatRate = (rate: number): string => {
+  return rate.toFixed(12).replace(/\.?0+$/, "");
+};
+
+// Export singleton instance
+export const fxRateService = new FxRateService([new UniswapRateProvider(), new StaticRateProvider()]);
@@ -0,0 +1,95 @@
+/**
+ * IndexedDB
+ * Shared plumbing for the stores that keep data in the browser (receipts, signed states,
+ * the offline outbox and session keys)
+ *
+ * Each store only declares its database and object stores; opening, upgrading and
+ * turning requests and transactions into promises happens here.
+ */
+
+export interface ObjectStoreSchema {
+  name: string;
+  options?: IDBObjectStoreParameters;
+}
+
+export interface DatabaseSchema {
+  name: string;
+  version: number;
+  stores: ObjectStoreSchema[]; // Created on upgrade when missing
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolve once a transaction has committed
+ */
+export const completeTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+};
+
+export class IndexedDbDatabase {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly schema: DatabaseSchema) {}
+
+  /**
+   * Open the database, creating its object stores on first use
+   * A failed open is retried on the next call.
+   */
+  open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.schema.name, this.schema.version);
+        request.onupgradeneeded = () => {
+          this.schema.stores
+            .filter(({ name }) => !request.result.objectStoreNames.contains(name))
+            .forEach(({ name, options }) => request.result.createObjectStore(name, options));
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.db;
+  }
+
+  /**
+   * Run one read request against an object store
+   */
+  async read<T>(storeName: string, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return promisifyRequest(operation(db.transaction(storeName, "readonly").objectStore(storeName)));
+  }
+
+  /**
+   * Run one write request against an object store, resolving once it has committed
+   */
+  async write<T>(storeName: string, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, "readwrite");
+    const [result] = await Promise.all([
+      promisifyRequest(operation(transaction.objectStore(storeName))),
+      completeTransaction(transaction),
+    ]);
+    return result;
+  }
+}
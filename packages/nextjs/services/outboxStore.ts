@@ -0,0 +1,66 @@
+/**
+ * Outbox Store
+ * Keeps ClearNode messages that could not be sent in the browser's IndexedDB
+ *
+ * State updates and payments made while the connection is down are queued here instead
+ * of failing, and ClearNode replays them in the order they were made once it is
+ * authenticated again, even after a page reload.
+ */
+import type { StateUpdatePayload } from "./clearnode";
+import { IndexedDbDatabase } from "./indexedDb";
+
+export type OutboxEntry =
+  | {
+      id: number; // Auto-incremented, gives the replay order
+      kind: "state_update";
+      participant: string; // Lowercase address the message is sent as
+      channelId: string; // Lowercase
+      nonce: number;
+      stateHash: string;
+      payload: StateUpdatePayload;
+      createdAt: number;
+    }
+  | {
+      id: number;
+      kind: "payment";
+      participant: string;
+      payload: { amount: string; recipient: string; token: string };
+      createdAt: number;
+    };
+
+// An entry as queued, before the store assigns its ID and time (distributes over the kinds)
+type Unsaved<Entry> = Entry extends OutboxEntry ? Omit<Entry, "id" | "createdAt"> : never;
+export type NewOutboxEntry = Unsaved<OutboxEntry>;
+
+const STORE_NAME = "messages";
+
+export class OutboxStore {
+  private database = new IndexedDbDatabase({
+    name: "batchpay-outbox",
+    version: 1,
+    stores: [{ name: STORE_NAME, options: { keyPath: "id", autoIncrement: true } }],
+  });
+
+  /**
+   * Queue a message behind the ones already waiting
+   */
+  async add(entry: NewOutboxEntry): Promise<number> {
+    const id = await this.database.write(STORE_NAME, store => store.add({ ...entry, createdAt: Date.now() }));
+    return id as number;
+  }
+
+  /**
+   * Messages waiting to be sent as a participant, oldest first
+   */
+  async getAll(participant: string): Promise<OutboxEntry[]> {
+    const entries = (await this.database.read(STORE_NAME, store => store.getAll())) as OutboxEntry[];
+    return entries.filter(entry => entry.participant === participant.toLowerCase());
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.database.write(STORE_NAME, store => store.delete(id));
+  }
+}
+
+// Export singleton instance
+export const outboxStore = new OutboxStore();
@@ -0,0 +1,94 @@
+/**
+ * Receipt Store
+ * Keeps receipt files in the browser's IndexedDB, keyed by their keccak256 content hash
+ *
+ * Files never leave the device unless a participant asks for them over ClearNode,
+ * and files received from peers are only stored when their content matches the hash.
+ */
+import { IndexedDbDatabase, promisifyRequest } from "./indexedDb";
+import type { Hex } from "viem";
+import { MAX_RECEIPT_SIZE, formatFileSize, hashReceipt, isReceiptMimeType } from "~~/utils/receipts";
+
+export interface StoredReceipt {
+  hash: Hex;
+  name: string;
+  mimeType: string;
+  size: number;
+  data: ArrayBuffer;
+  addedAt: number;
+}
+
+const STORE_NAME = "receipts";
+
+export class ReceiptStore {
+  private database = new IndexedDbDatabase({
+    name: "batchpay-receipts",
+    version: 1,
+    stores: [{ name: STORE_NAME, options: { keyPath: "hash" } }],
+  });
+
+  /**
+   * Hash and store a file picked by the user
+   */
+  async addFile(file: File): Promise<StoredReceipt> {
+    if (!isReceiptMimeType(file.type)) {
+      throw new Error(`${file.name} is not an image or PDF`);
+    }
+    if (file.size > MAX_RECEIPT_SIZE) {
+      throw new Error(`${file.name} is larger than ${formatFileSize(MAX_RECEIPT_SIZE)}`);
+    }
+
+    const data = await file.arrayBuffer();
+    const receipt: StoredReceipt = {
+      hash: hashReceipt(data),
+      name: file.name,
+      mimeType: file.type,
+      size: data.byteLength,
+      data,
+      addedAt: Date.now(),
+    };
+
+    await this.put(receipt);
+    return receipt;
+  }
+
+  /**
+   * Store a receipt received from a peer, after checking its content against the hash
+   */
+  async importReceipt(receipt: Omit<StoredReceipt, "size" | "addedAt">): Promise<StoredReceipt> {
+    if (hashReceipt(receipt.data) !== receipt.hash) {
+      throw new Error(`Receipt content does not match hash ${receipt.hash}`);
+    }
+    if (receipt.data.byteLength > MAX_RECEIPT_SIZE || !isReceiptMimeType(receipt.mimeType)) {
+      throw new Error(`Receipt ${receipt.hash} is not an accepted file`);
+    }
+
+    const stored = { ...receipt, size: receipt.data.byteLength, addedAt: Date.now() };
+    await this.put(stored);
+    return stored;
+  }
+
+  /**
+   * Get a stored receipt by content hash
+   */
+  async get(hash: string): Promise<StoredReceipt | null> {
+    return (await this.database.read(STORE_NAME, store => store.get(hash.toLowerCase()))) ?? null;
+  }
+
+  /**
+   * Check which of the given hashes are stored locally
+   */
+  async getAvailable(hashes: string[]): Promise<Set<string>> {
+    const db = await this.database.open();
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const keys = await Promise.all(hashes.map(hash => promisifyRequest(store.getKey(hash.toLowerCase()))));
+    return new Set(hashes.filter((_, index) => keys[index] !== undefined));
+  }
+
+  private async put(receipt: StoredReceipt): Promise<void> {
+    await this.database.write(STORE_NAME, store => store.put(receipt));
+  }
+}
+
+// Export singleton instance
+export const receiptStore = new ReceiptStore();
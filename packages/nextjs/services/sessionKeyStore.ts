@@ -0,0 +1,116 @@
+/**
+ * Session Key Store
+ * Keeps the ClearNode session key of each wallet, encrypted, in the browser's IndexedDB
+ *
+ * The private key and the JWT ClearNode issued for it are encrypted with an AES-GCM key
+ * that WebCrypto generates as non-extractable, so its raw bytes never reach page scripts
+ * and cannot be read back out of the database. secp256k1 keys are not supported by
+ * WebCrypto, so the session key itself is only decrypted into memory while it is in use.
+ */
+import { IndexedDbDatabase } from "./indexedDb";
+import type { Address, Hex } from "viem";
+
+export interface SessionKey {
+  wallet: string; // Lowercase address of the wallet that authorized the key
+  address: Address; // Address of the session key, the participant ClearNode knows it as
+  privateKey: Hex;
+  expiresAt: number; // Unix seconds, as authorized in the auth_request policy
+  jwtToken?: string;
+}
+
+interface StoredSessionKey {
+  wallet: string;
+  address: Address;
+  expiresAt: number;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer; // { privateKey, jwtToken } as JSON
+}
+
+const STORE_NAME = "keys";
+const ENCRYPTION_KEY_STORE = "encryption";
+const ENCRYPTION_KEY_ID = "default";
+
+export class SessionKeyStore {
+  private database = new IndexedDbDatabase({
+    name: "batchpay-session-keys",
+    version: 1,
+    stores: [{ name: STORE_NAME, options: { keyPath: "wallet" } }, { name: ENCRYPTION_KEY_STORE }],
+  });
+  private encryptionKey: Promise<CryptoKey> | null = null;
+
+  /**
+   * The AES-GCM key session keys are encrypted with, generated non-extractable on first use
+   */
+  private getEncryptionKey(): Promise<CryptoKey> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = (async () => {
+        const existing = (await this.database.read(ENCRYPTION_KEY_STORE, store => store.get(ENCRYPTION_KEY_ID))) as
+          | CryptoKey
+          | undefined;
+        if (existing) return existing;
+
+        const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+        await this.database.write(ENCRYPTION_KEY_STORE, store => store.put(key, ENCRYPTION_KEY_ID));
+        return key;
+      })().catch(error => {
+        this.encryptionKey = null;
+        throw error;
+      });
+    }
+
+    return this.encryptionKey;
+  }
+
+  /**
+   * Store a wallet's session key, replacing the one it had
+   */
+  async put(sessionKey: SessionKey): Promise<void> {
+    const encryptionKey = await this.getEncryptionKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(
+      JSON.stringify({ privateKey: sessionKey.privateKey, jwtToken: sessionKey.jwtToken }),
+    );
+
+    const stored: StoredSessionKey = {
+      wallet: sessionKey.wallet.toLowerCase(),
+      address: sessionKey.address,
+      expiresAt: sessionKey.expiresAt,
+      iv,
+      ciphertext: await crypto.subtle.encrypt({ name: "AES-GCM", iv }, encryptionKey, plaintext),
+    };
+
+    await this.database.write(STORE_NAME, store => store.put(stored));
+  }
+
+  /**
+   * A wallet's session key, or null if it has none that can still be decrypted
+   */
+  async get(wallet: string): Promise<SessionKey | null> {
+    const stored = (await this.database.read(STORE_NAME, store => store.get(wallet.toLowerCase()))) as
+      | StoredSessionKey
+      | undefined;
+    if (!stored) return null;
+
+    try {
+      const encryptionKey = await this.getEncryptionKey();
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: stored.iv },
+        encryptionKey,
+        stored.ciphertext,
+      );
+      const { privateKey, jwtToken } = JSON.parse(new TextDecoder().decode(plaintext));
+      return { wallet: stored.wallet, address: stored.address, privateKey, expiresAt: stored.expiresAt, jwtToken };
+    } catch (error) {
+      // Encrypted with a key that is gone, e.g. after site data was partly cleared
+      console.error("Could not decrypt stored session key:", error);
+      return null;
+    }
+  }
+
+  async remove(wallet: string): Promise<void> {
+    await this.database.write(STORE_NAME, store => store.delete(wallet.toLowerCase()));
+  }
+}
+
+// Export singleton instance
+export const sessionKeyStore = new SessionKeyStore();
@@ -0,0 +1,96 @@
+/**
+ * Signed State Store
+ * Keeps every channel state signed by all participants in the browser's IndexedDB
+ *
+ * These are the states we can submit to BatchPayChannel when a counterparty closes
+ * or challenges with an older one, so they have to survive page reloads.
+ */
+import { IndexedDbDatabase } from "./indexedDb";
+import type { Hex } from "viem";
+import type { Expense } from "~~/utils/expenseValidation";
+import {
+  type SerializedChannelState,
+  type SignableChannelState,
+  deserializeChannelState,
+  serializeChannelState,
+} from "~~/utils/stateSignatures";
+
+export interface SignedChannelState {
+  state: SignableChannelState;
+  participants: string[]; // Lowercase, in on-chain order
+  signatures: Hex[]; // In participant order
+  expenses: Expense[] | null; // The expenses behind state.expensesRoot, when known on this device
+  signedAt: number;
+}
+
+interface StoredSignedState {
+  channelId: string; // Lowercase
+  nonce: number;
+  state: SerializedChannelState;
+  participants: string[];
+  signatures: Hex[];
+  expenses: Expense[] | null;
+  signedAt: number;
+}
+
+const STORE_NAME = "states";
+
+const fromStored = (stored: StoredSignedState): SignedChannelState => ({
+  state: deserializeChannelState(stored.state),
+  participants: stored.participants,
+  signatures: stored.signatures,
+  expenses: stored.expenses,
+  signedAt: stored.signedAt,
+});
+
+// All states of a channel, ordered by nonce
+const channelRange = (channelId: string) =>
+  IDBKeyRange.bound([channelId.toLowerCase(), 0], [channelId.toLowerCase(), Number.MAX_SAFE_INTEGER]);
+
+export class SignedStateStore {
+  private database = new IndexedDbDatabase({
+    name: "batchpay-signed-states",
+    version: 1,
+    stores: [{ name: STORE_NAME, options: { keyPath: ["channelId", "nonce"] } }],
+  });
+
+  /**
+   * Store a fully signed state, replacing any earlier record with the same nonce
+   */
+  async put(signed: SignedChannelState): Promise<void> {
+    if (signed.signatures.length !== signed.participants.length) {
+      throw new Error("A signed state needs one signature per participant");
+    }
+
+    const stored: StoredSignedState = {
+      channelId: signed.state.channelId.toLowerCase(),
+      nonce: Number(signed.state.nonce),
+      state: serializeChannelState(signed.state),
+      participants: signed.participants.map(participant => participant.toLowerCase()),
+      signatures: signed.signatures,
+      expenses: signed.expenses,
+      signedAt: signed.signedAt,
+    };
+
+    await this.database.write(STORE_NAME, store => store.put(stored));
+  }
+
+  /**
+   * The signed state with the highest nonce for a channel
+   */
+  async getLatest(channelId: string): Promise<SignedChannelState | null> {
+    const cursor = await this.database.read(STORE_NAME, store => store.openCursor(channelRange(channelId), "prev"));
+    return cursor ? fromStored(cursor.value as StoredSignedState) : null;
+  }
+
+  /**
+   * Every signed state of a channel, oldest first
+   */
+  async getAll(channelId: string): Promise<SignedChannelState[]> {
+    const stored = await this.database.read(STORE_NAME, store => store.getAll(channelRange(channelId)));
+    return (stored as StoredSignedState[]).map(fromStored);
+  }
+}
+
+// Export singleton instance
+export const signedStateStore = new SignedStateStore();
@@ -2,17 +2,66 @@
  * State Channel Client
  * ERC-7824 compliant state channel management using Nitrolite SDK
  * Handles off-chain operations and on-chain settlements
+ *
+ * Every channel the user opens or loads is kept in a registry keyed by channel ID.
+ * Updates relayed by ClearNode are routed to their own channel, and hooks subscribe
+ * to the channels they display, or to typed events with `on`. Only messages received over
+ * the ClearNode connection are handled; other windows cannot inject updates.
+ *
+ * Expense changes travel as operations (see expenseOperations.ts). When two participants
+ * update the same nonce, each merges the other's operations, and whoever finds their own
+ * operations missing from the competing state sends them again on top of it. The same
+ * happens when ClearNode rejects our state because it already holds a newer one.
  */
 // Import Nitrolite SDK functions
 // Import services
-import { clearNodeService } from "./clearnode";
+import {
+  type ClearNodeService,
+  type OutboxConflict,
+  type PaymentMessage,
+  type RelayedMessage,
+  type RelayedMessageData,
+  type RemoteStateUpdate,
+  clearNodeService,
+} from "./clearnode";
+import { type SignedChannelState, signedStateStore } from "./signedStateStore";
 import { type RPCAppDefinition, type RPCAppSessionAllocation } from "@erc7824/nitrolite";
 // Import Viem types
-import type { Address } from "viem";
+import { type Address, type Hex, keccak256, toBytes } from "viem";
+import { readContract } from "wagmi/actions";
+import scaffoldConfig from "~~/scaffold.config";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
 // Import our custom types
-import type { ChannelState, PaymentRequest, ViemMessageSigner } from "~~/types/nitrolite";
+import type {
+  ChannelEvent,
+  ChannelEventData,
+  ChannelEventHandler,
+  ChannelEventType,
+  ChannelState,
+  ClearNodeAppSession,
+  PaymentRequest,
+  ViemMessageSigner,
+} from "~~/types/nitrolite";
+import { ClearNodeError } from "~~/types/nitrolite";
+import {
+  type ExpenseLog,
+  type ExpenseOperation,
+  type MergeResult,
+  appendOperations,
+  checkpointLog,
+  createExpenseLog,
+  diffToOperations,
+  getLogExpenses,
+  mergeRemoteUpdate,
+} from "~~/utils/expenseOperations";
+import { calculateChannelBalances } from "~~/utils/expenseSplit";
+import type { Expense, ExpenseValidationOptions } from "~~/utils/expenseValidation";
+import { type RecurringExpenseTemplate, validateRecurringExpense } from "~~/utils/recurringExpenses";
 // Import utilities
 import { notification } from "~~/utils/scaffold-eth";
+import { contracts } from "~~/utils/scaffold-eth/contract";
+import { getExpensesRoot, hashChannelState } from "~~/utils/stateEncoding";
+import { type SignableChannelState, getSignableState } from "~~/utils/stateSignatures";
 
 // Local interfaces for state channel operations
 export interface StateChannelConfig {
@@ -30,14 +79,97 @@ export interface StateChannelSession {
   createdAt: number;
 }
 
+export type ChannelSyncWarningCode =
+  | "nonce_ahead" // The on-chain state is newer than anything signed on this device
+  | "state_mismatch" // Same nonce, different state hash
+  | "participants_mismatch"
+  | "in_dispute"
+  | "session_missing"
+  | "session_mismatch"
+  | "outbox_conflict"; // An update made offline was dropped, another state took its nonce
+
+export interface ChannelSyncWarning {
+  code: ChannelSyncWarningCode;
+  message: string;
+}
+
+// BatchPayChannel.getChannel, without the timeout
+interface OnChainChannel {
+  participants: Address[];
+  totalDeposit: bigint;
+  nonce: bigint;
+  isOpen: boolean;
+  inDispute: boolean;
+  chainId: bigint;
+  stateHash: Hex;
+}
+
+// A channel tracked by the client
+interface ChannelEntry {
+  channel: ChannelState;
+  session: StateChannelSession | null;
+  onChain: OnChainChannel | null; // As read by loadChannel
+  syncWarnings: ChannelSyncWarning[];
+  expenseLog?: ExpenseLog; // Created from the channel's expenses on first use
+}
+
+export type ChannelListener = (channel: ChannelState) => void;
+
+// Times a state ClearNode rejected for a newer one is rebased and sent again
+const MAX_REBASE_ATTEMPTS = 3;
+
+// Handlers of the ClearNode messages the client acts on, by method
+type MessageHandlers = {
+  [M in keyof RelayedMessageData]?: (channelId: string, data: RelayedMessageData[M]) => void;
+};
+
+/**
+ * What is wrong with the shape of another participant's state update, and with the balances
+ * it allocates, which must be the ones its own expenses lead to
+ */
+function getRemoteStateErrors(channel: ChannelState, update: RemoteStateUpdate): string[] {
+  if (!Number.isSafeInteger(update.nonce) || update.nonce < 1) {
+    return ["State update has no valid nonce"];
+  }
+  if (!Array.isArray(update.expenses)) {
+    return ["State update has no expense list"];
+  }
+
+  const addresses = channel.participants.map(p => p.address.toLowerCase());
+  if (
+    !Array.isArray(update.participants) ||
+    !Array.isArray(update.balances) ||
+    update.participants.length !== addresses.length ||
+    update.balances.length !== addresses.length
+  ) {
+    return ["State update does not allocate a balance to every participant"];
+  }
+
+  const expected = calculateChannelBalances(addresses, update.expenses);
+  const matches = update.participants.every((participant, index) => {
+    const position = addresses.indexOf(String(participant).toLowerCase());
+    return position !== -1 && String(update.balances[index]) === expected[position].toString();
+  });
+  return matches ? [] : ["State update balances do not match its expenses"];
+}
+
 export class StateChannelClient {
-  private clearNode = clearNodeService;
-  private currentChannel: ChannelState | null = null;
-  private currentSession: StateChannelSession | null = null;
-  private messageHandlers: Map<string, (data: any) => void> = new Map();
+  private clearNode: ClearNodeService;
+  private channels: Map<string, ChannelEntry> = new Map(); // By lowercase channel ID
+  private listeners: Map<string, Set<ChannelListener>> = new Map();
+  private eventHandlers: { [T in ChannelEventType]: Set<ChannelEventHandler<T>> } = {
+    stateUpdated: new Set(),
+    paymentReceived: new Set(),
+    signatureRequested: new Set(),
+    channelClosed: new Set(),
+  };
+  private pendingLoads: Map<string, Promise<ChannelSyncWarning[]>> = new Map();
+  private messageHandlers: MessageHandlers = {};
+  private expenseValidation: Map<string, ExpenseValidationOptions> = new Map(); // Checks on other participants' expenses
   private messageSigner: ViemMessageSigner | null = null;
 
-  constructor() {
+  constructor(clearNode: ClearNodeService = clearNodeService) {
+    this.clearNode = clearNode;
     this.setupMessageHandlers();
   }
 
@@ -87,30 +219,36 @@ export class StateChannelClient {
       const channelId = this.generateChannelId(participants);
       const sessionId = this.generateSessionId();
 
-      // Create local session tracking
-      this.currentSession = {
-        sessionId,
-        channelId,
-        participants,
-        allocations: initialAllocations,
-        isActive: true,
-        createdAt: Date.now(),
-      };
-
-      // Create local channel state
-      this.currentChannel = {
-        channelId,
-        participants: participants.map((addr, index) => ({
-          address: addr,
-          balance: BigInt(initialAllocations[index]?.amount || "0"),
-          weight: 100 / participants.length,
-        })),
-        nonce: 0,
-        stateHash: "",
-        isOpen: true,
-        totalDeposit: initialAllocations.reduce((sum, alloc) => sum + BigInt(alloc.amount), 0n),
-        chainId: 1, // Default to Ethereum mainnet
-      };
+      this.channels.set(channelId.toLowerCase(), {
+        // Create local session tracking
+        session: {
+          sessionId,
+          channelId,
+          participants,
+          allocations: initialAllocations,
+          isActive: true,
+          createdAt: Date.now(),
+        },
+        // Create local channel state
+        channel: {
+          channelId,
+          participants: participants.map((addr, index) => ({
+            address: addr,
+            balance: BigInt(initialAllocations[index]?.amount || "0"),
+            weight: 100 / participants.length,
+          })),
+          nonce: 0,
+          stateHash: "",
+          expenses: [],
+          recurringExpenses: [],
+          isOpen: true,
+          totalDeposit: initialAllocations.reduce((sum, alloc) => sum + BigInt(alloc.amount), 0n),
+          chainId: 1, // Default to Ethereum mainnet
+        },
+        onChain: null,
+        syncWarnings: [],
+      });
+      this.notify(channelId);
 
       notification.success("State channel created successfully!");
       return channelId;
@@ -124,21 +262,24 @@ export class StateChannelClient {
   /**
    * Send payment through state channel
    */
-  async sendPayment(payment: PaymentRequest): Promise<void> {
-    if (!this.currentChannel) {
-      throw new Error("No active channel");
-    }
+  async sendPayment(channelId: string, payment: PaymentRequest): Promise<void> {
+    const channel = this.requireChannel(channelId);
 
     try {
       // Convert amount to string for ClearNode
       const amountStr = payment.amount.toString();
 
-      await this.clearNode.sendPayment(amountStr, payment.recipient, payment.token);
+      const outcome = await this.clearNode.sendPayment(amountStr, payment.recipient, payment.token);
 
       // Update local state
-      this.updateLocalState(payment);
+      this.updateLocalState(channel, payment);
+      this.notify(channelId);
 
-      notification.success(`Payment of ${amountStr} sent to ${payment.recipient}`);
+      if (outcome === "queued") {
+        notification.info(`Offline: payment of ${amountStr} will be sent when ClearNode is reachable again`);
+      } else {
+        notification.success(`Payment of ${amountStr} sent to ${payment.recipient}`);
+      }
     } catch (error) {
       console.error("Error sending payment:", error);
       notification.error("Failed to send payment");
@@ -148,41 +289,32 @@ export class StateChannelClient {
 
   /**
    * Update channel state using Nitrolite SDK
+   * The expense changes are sent as operations on top of the current nonce.
    */
-  async updateChannelState(newBalances: bigint[], expenses?: any[]): Promise<void> {
-    if (!this.currentChannel || !this.messageSigner) {
-      throw new Error("No active channel or message signer not set");
+  async updateChannelState(
+    channelId: string,
+    newBalances: bigint[],
+    expenses?: Expense[],
+    recurringExpenses?: RecurringExpenseTemplate[],
+  ): Promise<void> {
+    const entry = this.requireEntry(channelId);
+    if (!this.messageSigner) {
+      throw new Error("Message signer not set");
     }
 
     try {
-      // Create state update using SDK structure
-      const stateUpdate = {
-        channelId: this.currentChannel.channelId,
-        stateHash: this.generateStateHash(newBalances),
-        nonce: this.currentChannel.nonce + 1,
-        balances: newBalances.map(b => b.toString()),
-        expenses: expenses || [], // Include expenses in state update
-        timestamp: Date.now(),
-      };
-
-      // Send to ClearNode using proper ERC-7824 submit_app_state
-      await this.clearNode.sendStateUpdate({
-        ...stateUpdate,
-        participants: this.currentChannel.participants.map(p => p.address),
-      });
+      const { channel } = entry;
+      const operations = expenses
+        ? diffToOperations(getLogExpenses(this.getExpenseLog(entry)), expenses, {
+            author: this.clearNode.getParticipantAddress() ?? "unknown",
+            baseNonce: channel.nonce,
+            timestamp: Date.now(),
+          })
+        : [];
 
-      // Update local state
-      this.currentChannel.nonce++;
-      this.currentChannel.stateHash = stateUpdate.stateHash;
-      this.currentChannel.participants = this.currentChannel.participants.map((p, i) => ({
-        ...p,
-        balance: newBalances[i] || p.balance,
-      }));
-
-      // Store expenses in channel state for synchronization
-      if (expenses) {
-        (this.currentChannel as any).expenses = expenses;
-      }
+      await this.submitOperations(entry, newBalances, operations, recurringExpenses ?? channel.recurringExpenses);
+      this.notify(channelId);
+      this.emit("stateUpdated", channelId, { channel, source: "local" });
 
       notification.success("Channel state updated successfully");
     } catch (error) {
@@ -192,21 +324,134 @@ export class StateChannelClient {
     }
   }
 
+  /**
+   * Send our operations as the next state, rebasing them when ClearNode already holds a newer one
+   * Another participant's state took the nonce: it is merged in like a relayed update, and the
+   * operations are replayed on top of it with the balances that follow, then sent again.
+   */
+  private async submitOperations(
+    entry: ChannelEntry,
+    newBalances: bigint[],
+    operations: ExpenseOperation[],
+    recurringExpenses: RecurringExpenseTemplate[],
+  ): Promise<void> {
+    let balances = newBalances;
+    for (let attempt = 0; ; attempt++) {
+      const expenseLog = appendOperations(this.getExpenseLog(entry), operations);
+      const nonce = entry.channel.nonce + 1;
+      try {
+        await this.submitState(entry, balances, expenseLog, recurringExpenses);
+        return;
+      } catch (error) {
+        const isRejection = error instanceof ClearNodeError && error.code === "rpc_error";
+        if (!isRejection || attempt === MAX_REBASE_ATTEMPTS || !(await this.catchUpWithClearNode(entry, nonce))) {
+          throw error;
+        }
+      }
+
+      balances = calculateChannelBalances(
+        entry.channel.participants.map(p => p.address),
+        getLogExpenses(appendOperations(this.getExpenseLog(entry), operations)),
+      );
+      console.log(`🔀 State #${nonce} was taken, rebasing onto state #${entry.channel.nonce}`);
+    }
+  }
+
+  /**
+   * Merge the state ClearNode holds for a channel when we have not seen it yet
+   * Usually it was already relayed to us. Returns whether the channel is now at the given nonce
+   * or past it.
+   */
+  private async catchUpWithClearNode(entry: ChannelEntry, nonce: number): Promise<boolean> {
+    const { channelId } = entry.channel;
+    if (entry.channel.nonce < nonce) {
+      const latest = await this.clearNode.getLatestState(channelId).catch(error => {
+        console.error("Failed to fetch the state ClearNode holds:", error);
+        return null;
+      });
+      if (latest && latest.nonce > entry.channel.nonce) {
+        this.handleStateUpdate(channelId, latest);
+        this.notify(channelId);
+      }
+    }
+    return entry.channel.nonce >= nonce;
+  }
+
+  /**
+   * Send the next state to ClearNode and make it the channel's current state
+   */
+  private async submitState(
+    entry: ChannelEntry,
+    newBalances: bigint[],
+    expenseLog: ExpenseLog,
+    recurringExpenses: RecurringExpenseTemplate[],
+  ): Promise<void> {
+    const { channel } = entry;
+    const expenses = getLogExpenses(expenseLog);
+
+    // Hash the state the same way BatchPayChannel verifies it
+    const nonce = channel.nonce + 1;
+    const expensesRoot = getExpensesRoot(expenses);
+    const stateUpdate = {
+      channelId: channel.channelId,
+      stateHash: hashChannelState({
+        channelId: channel.channelId as Hex,
+        nonce: BigInt(nonce),
+        balances: newBalances,
+        expensesRoot,
+      }),
+      nonce,
+      expensesRoot,
+      balances: newBalances.map(b => b.toString()),
+      expenses, // Include expenses in state update
+      recurringExpenses, // Recurring expense templates travel with the expenses
+      operations: expenseLog.operations, // Lets participants with a competing state merge instead of overwrite
+      timestamp: Date.now(),
+    };
+
+    // Send to ClearNode using proper ERC-7824 submit_app_state, or queue it while offline
+    const outcome = await this.clearNode.sendStateUpdate({
+      ...stateUpdate,
+      participants: channel.participants.map(p => p.address),
+    });
+    if (outcome === "queued") {
+      notification.info("Offline: the update is saved and will sync when ClearNode is reachable again");
+    }
+
+    // Update local state
+    channel.nonce = nonce;
+    channel.stateHash = stateUpdate.stateHash;
+    channel.expensesRoot = expensesRoot;
+    channel.signatures = undefined; // Signatures cover the previous state only
+    channel.participants = channel.participants.map((p, i) => ({
+      ...p,
+      balance: newBalances[i] ?? p.balance,
+    }));
+
+    // Store expenses in channel state for synchronization
+    entry.expenseLog = expenseLog;
+    channel.expenses = expenses;
+    channel.recurringExpenses = recurringExpenses;
+  }
+
   /**
    * Close channel using Nitrolite SDK
    */
-  async closeChannel(): Promise<void> {
-    if (!this.currentChannel || !this.currentSession || !this.messageSigner) {
+  async closeChannel(channelId: string): Promise<void> {
+    const entry = this.channels.get(channelId.toLowerCase());
+    if (!entry?.session || !this.messageSigner) {
       throw new Error("No active channel or session");
     }
 
     try {
       // Send to ClearNode (SDK handles message creation internally)
-      await this.clearNode.closeAppSession(this.currentSession.sessionId);
+      await this.clearNode.closeAppSession(entry.session.sessionId);
 
       // Update local state
-      this.currentChannel.isOpen = false;
-      this.currentSession.isActive = false;
+      entry.channel.isOpen = false;
+      entry.session.isActive = false;
+      this.notify(channelId);
+      this.emit("channelClosed", channelId, { channel: entry.channel });
 
       notification.success("Channel closed successfully");
     } catch (error) {
@@ -217,100 +462,523 @@ export class StateChannelClient {
   }
 
   /**
-   * Get current channel state
+   * Persist a state every participant signed, attaching the signatures if it is the current state
+   */
+  async recordSignedState(
+    state: SignableChannelState,
+    participants: readonly string[],
+    signatures: Hex[],
+  ): Promise<SignedChannelState> {
+    const channel = this.getChannel(state.channelId);
+    const isCurrent = channel !== null && getSignableState(channel, participants).stateHash === state.stateHash;
+
+    // Keep the expenses alongside the state when we hold the ones it commits to
+    const expenses = isCurrent ? channel.expenses : undefined;
+    const signed: SignedChannelState = {
+      state,
+      participants: participants.map(participant => participant.toLowerCase()),
+      signatures,
+      expenses: expenses && getExpensesRoot(expenses) === state.expensesRoot ? expenses : null,
+      signedAt: Date.now(),
+    };
+
+    if (isCurrent) {
+      channel.signatures = signatures;
+      // Everyone holds the same expenses at a state they all signed: fold the log there
+      const entry = this.requireEntry(state.channelId);
+      if (signed.expenses) {
+        entry.expenseLog = checkpointLog(this.getExpenseLog(entry));
+      }
+      this.notify(state.channelId);
+    }
+    await signedStateStore.put(signed);
+    return signed;
+  }
+
+  /**
+   * The latest state of a channel signed by every participant, for closing or answering a challenge
+   */
+  async getLatestSignedState(channelId: string): Promise<SignedChannelState | null> {
+    return signedStateStore.getLatest(channelId);
+  }
+
+  /**
+   * Get a channel's state, if it has been created or loaded
    */
-  getCurrentChannel(): ChannelState | null {
-    return this.currentChannel;
+  getChannel(channelId: string): ChannelState | null {
+    return this.channels.get(channelId.toLowerCase())?.channel ?? null;
+  }
+
+  /**
+   * Every channel created or loaded in this session
+   */
+  getChannels(): ChannelState[] {
+    return Array.from(this.channels.values()).map(entry => entry.channel);
+  }
+
+  /**
+   * Set the checks applied to expenses other participants send for a channel
+   */
+  setExpenseValidation(channelId: string, options: ExpenseValidationOptions): void {
+    this.expenseValidation.set(channelId.toLowerCase(), options);
+  }
+
+  /**
+   * Get a channel's ClearNode session
+   */
+  getSession(channelId: string): StateChannelSession | null {
+    return this.channels.get(channelId.toLowerCase())?.session ?? null;
+  }
+
+  /**
+   * Listen for changes to one channel's state
+   * Returns the function that removes the listener.
+   */
+  subscribe(channelId: string, listener: ChannelListener): () => void {
+    const key = channelId.toLowerCase();
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for one kind of channel event, for every channel
+   * Returns the function that removes the handler.
+   */
+  on<T extends ChannelEventType>(type: T, handler: ChannelEventHandler<T>): () => void {
+    this.eventHandlers[type].add(handler);
+
+    return () => {
+      this.eventHandlers[type].delete(handler);
+    };
+  }
+
+  /**
+   * Call the handlers of an event
+   */
+  private emit<T extends ChannelEventType>(type: T, channelId: string, data: ChannelEventData[T]): void {
+    const event: ChannelEvent<T> = { type, channelId, timestamp: Date.now(), data };
+    this.eventHandlers[type].forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Error in ${type} handler:`, error);
+      }
+    });
+  }
+
+  /**
+   * Load a channel unless it is already tracked
+   */
+  async ensureChannel(channelId: string): Promise<ChannelState> {
+    if (!this.channels.has(channelId.toLowerCase())) {
+      await this.loadChannel(channelId);
+    }
+    return this.requireChannel(channelId);
   }
 
   /**
    * Load existing channel by ID
    * This method should be called when navigating to an existing channel
+   *
+   * Participants, nonce and state hash come from BatchPayChannel. They are reconciled
+   * against the latest signed state on this device and the ClearNode app session, and
+   * every disagreement is returned (and kept, see getSyncWarnings) for the UI to show.
    */
-  async loadChannel(channelId: string, participants: Address[]): Promise<void> {
+  async loadChannel(channelId: string): Promise<ChannelSyncWarning[]> {
+    // Components showing the same channel share one load
+    const key = channelId.toLowerCase();
+    const pending = this.pendingLoads.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const load = this.readChannel(channelId).finally(() => this.pendingLoads.delete(key));
+    this.pendingLoads.set(key, load);
+    return load;
+  }
+
+  private async readChannel(channelId: string): Promise<ChannelSyncWarning[]> {
     try {
       console.log(`🔄 Loading existing channel: ${channelId}`);
 
-      // Create a basic channel state for the existing channel
-      this.currentChannel = {
-        channelId: channelId as `0x${string}`,
+      const onChain = await this.readOnChainChannel(channelId);
+      const participants = onChain.participants;
+
+      const channel: ChannelState = {
+        channelId,
         participants: participants.map(address => ({
-          address: address as `0x${string}`,
-          balance: 0n, // Will be updated when we get actual state
-          weight: 1, // Default weight for all participants
+          address,
+          balance: 0n, // Known once a signed state is restored or expenses are synced
+          weight: 100 / participants.length,
         })),
-        nonce: 0,
-        stateHash: "0x0000000000000000000000000000000000000000000000000000000000000000" as `0x${string}`,
-        isOpen: true,
-        totalDeposit: 0n,
-        chainId: 31337, // Hardhat local network
+        nonce: Number(onChain.nonce),
+        stateHash: onChain.stateHash,
+        expenses: [],
+        recurringExpenses: [],
+        isOpen: onChain.isOpen,
+        totalDeposit: onChain.totalDeposit,
+        chainId: Number(onChain.chainId),
       };
 
-      // Create a basic session for the channel
-      this.currentSession = {
-        sessionId: `session_${channelId}`,
-        channelId: channelId,
-        participants: participants,
-        allocations: participants.map(address => ({
-          participant: address as `0x${string}`,
-          asset: "0x0000000000000000000000000000000000000000" as `0x${string}`, // ETH
-          amount: "0",
-        })),
-        isActive: true,
-        createdAt: Date.now(),
-      };
+      // Pick up from the latest fully signed state stored on this device
+      const latest = await this.getLatestSignedState(channelId).catch(error => {
+        console.error("Failed to read signed states:", error);
+        return null;
+      });
+      const warnings = this.reconcileSignedState(channel, onChain, latest);
+      warnings.push(...(await this.reconcileClearNodeSession(channelId, onChain)));
+
+      this.channels.set(channelId.toLowerCase(), {
+        channel,
+        // Create a basic session for the channel
+        session: {
+          sessionId: `session_${channelId}`,
+          channelId: channelId,
+          participants: participants,
+          allocations: participants.map(address => ({
+            participant: address as `0x${string}`,
+            asset: "0x0000000000000000000000000000000000000000" as `0x${string}`, // ETH
+            amount: "0",
+          })),
+          isActive: onChain.isOpen,
+          createdAt: Date.now(),
+        },
+        onChain,
+        syncWarnings: warnings,
+      });
+      this.notify(channelId);
+      this.emit("stateUpdated", channelId, { channel, source: "loaded" });
 
-      console.log("✅ Channel loaded successfully:", this.currentChannel);
+      warnings.forEach(warning => console.warn(`⚠️ ${warning.message}`));
+      console.log("✅ Channel loaded successfully:", channel);
+      return warnings;
     } catch (error) {
       console.error("Failed to load channel:", error);
       throw error;
     }
   }
 
+  /**
+   * Disagreements found when a channel was loaded
+   */
+  getSyncWarnings(channelId: string): ChannelSyncWarning[] {
+    return this.channels.get(channelId.toLowerCase())?.syncWarnings ?? [];
+  }
+
+  /**
+   * Re-check the ClearNode app session of a loaded channel, e.g. once authenticated
+   */
+  async refreshSessionWarnings(channelId: string): Promise<ChannelSyncWarning[]> {
+    const entry = this.channels.get(channelId.toLowerCase());
+    if (!entry?.onChain) {
+      return entry?.syncWarnings ?? [];
+    }
+
+    const sessionWarnings = await this.reconcileClearNodeSession(channelId, entry.onChain);
+    entry.syncWarnings = [
+      ...entry.syncWarnings.filter(
+        warning => warning.code !== "session_missing" && warning.code !== "session_mismatch",
+      ),
+      ...sessionWarnings,
+    ];
+    return entry.syncWarnings;
+  }
+
+  /**
+   * Read a channel from the BatchPayChannel deployment on the target network
+   */
+  private async readOnChainChannel(channelId: string): Promise<OnChainChannel> {
+    const chainId = scaffoldConfig.targetNetworks[0].id;
+    const contract = contracts?.[chainId]?.BatchPayChannel;
+    if (!contract) {
+      throw new Error(`BatchPayChannel is not deployed on chain ${chainId}`);
+    }
+
+    const [participants, totalDeposit, nonce, , isOpen, inDispute, onChainChainId, stateHash] = (await readContract(
+      wagmiConfig,
+      {
+        address: contract.address,
+        abi: contract.abi,
+        functionName: "getChannel",
+        args: [channelId],
+        chainId,
+      },
+    )) as readonly [Address[], bigint, bigint, bigint, boolean, boolean, bigint, Hex];
+
+    if (participants.length === 0) {
+      throw new Error(`Channel ${channelId} does not exist on chain ${chainId}`);
+    }
+
+    return { participants, totalDeposit, nonce, isOpen, inDispute, chainId: onChainChainId, stateHash };
+  }
+
+  /**
+   * Restore the latest signed state when it is at least as recent as the on-chain one
+   */
+  private reconcileSignedState(
+    channel: ChannelState,
+    onChain: OnChainChannel,
+    latest: SignedChannelState | null,
+  ): ChannelSyncWarning[] {
+    const warnings: ChannelSyncWarning[] = [];
+    if (onChain.inDispute) {
+      warnings.push({
+        code: "in_dispute",
+        message: "The channel is in dispute on-chain. Answer with the latest signed state before the deadline.",
+      });
+    }
+
+    if (!latest) {
+      if (onChain.nonce > 0n) {
+        warnings.push({
+          code: "nonce_ahead",
+          message: `The on-chain state is at nonce ${onChain.nonce}, but no signed state is stored on this device.`,
+        });
+      }
+      return warnings;
+    }
+
+    const onChainParticipants = onChain.participants.map(participant => participant.toLowerCase());
+    const sameParticipants =
+      latest.participants.length === onChainParticipants.length &&
+      latest.participants.every(participant => onChainParticipants.includes(participant));
+    if (!sameParticipants) {
+      warnings.push({
+        code: "participants_mismatch",
+        message: "The participants of the signed state on this device differ from the on-chain channel.",
+      });
+      return warnings;
+    }
+
+    if (latest.state.nonce < onChain.nonce) {
+      warnings.push({
+        code: "nonce_ahead",
+        message: `The on-chain state (nonce ${onChain.nonce}) is ahead of the latest state signed on this device (nonce ${latest.state.nonce}).`,
+      });
+      return warnings;
+    }
+
+    if (
+      latest.state.nonce === onChain.nonce &&
+      latest.state.stateHash.toLowerCase() !== onChain.stateHash.toLowerCase()
+    ) {
+      warnings.push({
+        code: "state_mismatch",
+        message: `The on-chain state at nonce ${onChain.nonce} is not the state signed on this device.`,
+      });
+    }
+
+    this.restoreSignedState(channel, latest);
+    return warnings;
+  }
+
+  /**
+   * Compare the ClearNode app session with the on-chain channel, when authenticated
+   */
+  private async reconcileClearNodeSession(channelId: string, onChain: OnChainChannel): Promise<ChannelSyncWarning[]> {
+    if (!this.clearNode.getStatus().isAuthenticated) {
+      return [];
+    }
+
+    let sessions: ClearNodeAppSession[];
+    try {
+      sessions = await this.clearNode.getAppSessions();
+    } catch (error) {
+      console.error("Failed to fetch app sessions:", error);
+      return [];
+    }
+
+    const session = sessions.find(item => item.appSessionId.toLowerCase() === channelId.toLowerCase());
+    if (!session) {
+      return [{ code: "session_missing", message: "ClearNode has no app session for this channel." }];
+    }
+
+    const warnings: ChannelSyncWarning[] = [];
+    const onChainParticipants = onChain.participants.map(participant => participant.toLowerCase());
+    const sessionParticipants = session.participants.map(participant => participant.toLowerCase());
+    if (
+      sessionParticipants.length !== onChainParticipants.length ||
+      !sessionParticipants.every(participant => onChainParticipants.includes(participant))
+    ) {
+      warnings.push({
+        code: "session_mismatch",
+        message: "The ClearNode app session participants differ from the on-chain channel.",
+      });
+    }
+    if (session.status && session.status !== "open" && onChain.isOpen) {
+      warnings.push({
+        code: "session_mismatch",
+        message: `The ClearNode app session is ${session.status}, but the channel is still open on-chain.`,
+      });
+    }
+    return warnings;
+  }
+
+  /**
+   * Replace a channel's state with a stored signed state
+   */
+  private restoreSignedState(channel: ChannelState, signed: SignedChannelState): void {
+    const balances = new Map(
+      signed.participants.map((participant, index) => [participant, signed.state.balances[index]]),
+    );
+    channel.participants = channel.participants.map(p => ({
+      ...p,
+      balance: balances.get(p.address.toLowerCase()) ?? p.balance,
+    }));
+    channel.nonce = Number(signed.state.nonce);
+    channel.stateHash = signed.state.stateHash;
+    channel.expensesRoot = signed.state.expensesRoot;
+    channel.signatures = signed.signatures;
+    if (signed.expenses) {
+      channel.expenses = signed.expenses;
+    }
+
+    console.log(`🔏 Restored signed state #${signed.state.nonce} for channel ${signed.state.channelId}`);
+  }
+
   /**
    * Get participant balance
    */
-  getParticipantBalance(address: Address): bigint {
-    if (!this.currentChannel) return 0n;
+  getParticipantBalance(channelId: string, address: Address): bigint {
+    const channel = this.getChannel(channelId);
+    if (!channel) return 0n;
 
-    const participant = this.currentChannel.participants.find(p => p.address === address);
+    const participant = channel.participants.find(p => p.address.toLowerCase() === address.toLowerCase());
     return participant?.balance || 0n;
   }
 
   /**
    * Check if channel is active
    */
-  isChannelActive(): boolean {
-    return this.currentChannel?.isOpen || false;
+  isChannelActive(channelId: string): boolean {
+    return this.getChannel(channelId)?.isOpen || false;
   }
 
   /**
    * Setup message handlers for ClearNode
+   * Messages relayed by ClearNode are routed to the channel they belong to; others are ignored.
    */
   private setupMessageHandlers(): void {
-    this.messageHandlers.set("payment", data => {
+    this.messageHandlers.payment = (channelId, data) => {
       console.log("Payment received:", data);
       // Update local state when payment is received
-      this.handleIncomingPayment(data);
-    });
+      this.handleIncomingPayment(channelId, data);
+    };
 
-    this.messageHandlers.set("state_update", data => {
+    this.messageHandlers.state_update = (channelId, data) => {
       console.log("State update received:", data);
       // Update local state when state is updated
-      this.handleStateUpdate(data);
+      this.handleStateUpdate(channelId, data);
+    };
+
+    this.messageHandlers.outbox_conflict = (channelId, data: OutboxConflict) => {
+      const message = `An update made offline (state #${data.nonce}) was not synced: ${data.reason}. Reload the channel and enter it again if it is missing.`;
+      this.requireEntry(channelId).syncWarnings.push({ code: "outbox_conflict", message });
+      notification.error(message);
+    };
+
+    this.messageHandlers.state_proposal = (channelId, data) => {
+      if (typeof data?.roundId !== "string" || typeof data.sender !== "string") return;
+
+      this.emit("signatureRequested", channelId, {
+        roundId: data.roundId,
+        proposer: data.sender.toLowerCase(),
+        state: data.state,
+        deadline: typeof data.deadline === "number" ? data.deadline : undefined,
+      });
+    };
+
+    this.clearNode.onRelayedMessage(message => {
+      if (this.channels.has(message.channelId.toLowerCase()) && this.dispatchMessage(message)) {
+        this.notify(message.channelId);
+      }
     });
   }
 
+  /**
+   * Hand a relayed message to the handler of its method, returning false when there is none
+   */
+  private dispatchMessage<M extends RelayedMessage["method"]>(message: {
+    method: M;
+    channelId: string;
+    data: RelayedMessageData[M];
+  }): boolean {
+    const handler = this.messageHandlers[message.method];
+    if (!handler) {
+      return false;
+    }
+
+    handler(message.channelId, message.data);
+    return true;
+  }
+
+  /**
+   * Call a channel's listeners with its latest state
+   */
+  private notify(channelId: string): void {
+    const channel = this.getChannel(channelId);
+    if (!channel) return;
+
+    this.listeners.get(channelId.toLowerCase())?.forEach(listener => {
+      try {
+        listener(channel);
+      } catch (error) {
+        console.error("Error in channel listener:", error);
+      }
+    });
+  }
+
+  /**
+   * Get a channel that must already be created or loaded
+   */
+  private requireChannel(channelId: string): ChannelState {
+    return this.requireEntry(channelId).channel;
+  }
+
+  private requireEntry(channelId: string): ChannelEntry {
+    const entry = this.channels.get(channelId.toLowerCase());
+    if (!entry) {
+      throw new Error(`Channel ${channelId} is not loaded`);
+    }
+    return entry;
+  }
+
+  /**
+   * The channel's expense operation log, starting from the expenses it was loaded with
+   */
+  private getExpenseLog(entry: ChannelEntry): ExpenseLog {
+    if (!entry.expenseLog) {
+      entry.expenseLog = createExpenseLog(entry.channel.expenses);
+    }
+    return entry.expenseLog;
+  }
+
   /**
    * Handle incoming payment
    */
-  private handleIncomingPayment(paymentData: any): void {
-    if (!this.currentChannel) return;
+  private handleIncomingPayment(channelId: string, paymentData: PaymentMessage): void {
+    const channel = this.getChannel(channelId);
+    if (!channel) return;
 
     const { amount, sender, recipient } = paymentData;
+    if (
+      typeof amount !== "string" ||
+      !/^\d+$/.test(amount) ||
+      typeof sender !== "string" ||
+      typeof recipient !== "string"
+    ) {
+      console.error("❌ Ignoring malformed payment:", paymentData);
+      return;
+    }
 
     // Update balances
-    this.currentChannel.participants = this.currentChannel.participants.map(p => {
+    channel.participants = channel.participants.map(p => {
       if (p.address === recipient) {
         return { ...p, balance: p.balance + BigInt(amount) };
       }
@@ -320,47 +988,127 @@ export class StateChannelClient {
       return p;
     });
 
+    this.emit("paymentReceived", channelId, { amount: BigInt(amount), sender, recipient });
     notification.success(`Received payment of ${amount} from ${sender}`);
   }
 
   /**
    * Handle state update
+   * The update is merged into our expenses (see mergeRemoteUpdate) and the merged result is
+   * validated before anything changes, and the balances the sender allocated are checked against
+   * its own expenses. Balances are derived from the merged expenses, in this channel's
+   * participant order, and the log, expenses and state are then replaced together.
    */
-  private handleStateUpdate(stateData: any): void {
-    if (!this.currentChannel) return;
+  private handleStateUpdate(channelId: string, update: RemoteStateUpdate): void {
+    const entry = this.channels.get(channelId.toLowerCase());
+    if (!entry) return;
 
-    const { balances, nonce, expenses } = stateData;
+    const { channel } = entry;
+    const validationOptions = this.expenseValidation.get(channelId.toLowerCase());
+    const remoteNonce = update.nonce;
 
-    // Update channel state
-    this.currentChannel.nonce = nonce;
-    this.currentChannel.participants = this.currentChannel.participants.map((p, i) => ({
+    let merge: MergeResult;
+    try {
+      merge = mergeRemoteUpdate(
+        this.getExpenseLog(entry),
+        channel.nonce,
+        this.clearNode.getParticipantAddress()?.toLowerCase(),
+        { nonce: remoteNonce, expenses: update.expenses, operations: update.operations },
+        validationOptions,
+      );
+      // Checked once their expenses are known to be valid
+      const errors = merge.isValid ? getRemoteStateErrors(channel, update) : [];
+      if (errors.length > 0) {
+        merge = { isValid: false, errors };
+      }
+    } catch (error) {
+      merge = { isValid: false, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+    if (!merge.isValid) {
+      console.error(`❌ Ignoring invalid state update for channel ${channelId}:`, merge.errors);
+      notification.error(`Rejected state update: ${merge.errors.join(", ")}`);
+      return;
+    }
+
+    const { expenseLog, expenses, unseenOperations } = merge;
+    const balances = calculateChannelBalances(
+      channel.participants.map(p => p.address),
+      expenses,
+    );
+    const nonce = Math.max(channel.nonce, remoteNonce);
+    const expensesRoot = getExpensesRoot(expenses);
+    // Every participant derives the same hash from the merged expenses
+    const stateHash = hashChannelState({
+      channelId: channel.channelId as Hex,
+      nonce: BigInt(nonce),
+      balances,
+      expensesRoot,
+    });
+    const recurringExpenses = Array.isArray(update.recurringExpenses)
+      ? update.recurringExpenses.filter(template => {
+          const errors = validateRecurringExpense(template, validationOptions);
+          if (errors.length > 0) {
+            console.error(`❌ Ignoring invalid recurring expense ${template.id}:`, errors);
+          }
+          return errors.length === 0;
+        })
+      : channel.recurringExpenses;
+
+    // Nothing above changes the channel, so a rejected update leaves it as it was
+    entry.expenseLog = expenseLog;
+    channel.nonce = nonce;
+    channel.expensesRoot = expensesRoot;
+    channel.stateHash = stateHash;
+    channel.signatures = undefined;
+    channel.participants = channel.participants.map((p, i) => ({
       ...p,
-      balance: BigInt(balances[i] || 0),
+      balance: balances[i] ?? p.balance,
     }));
+    channel.expenses = expenses;
+    channel.recurringExpenses = recurringExpenses;
 
-    // Store expenses in channel state for synchronization
-    if (expenses) {
-      (this.currentChannel as any).expenses = expenses;
+    console.log("Channel state updated:", channel);
+    this.emit("stateUpdated", channelId, { channel, source: "remote" });
+
+    if (unseenOperations.length > 0) {
+      this.rebasePendingOperations(channelId).catch(error =>
+        console.error("Failed to resend expense changes on top of the competing state:", error),
+      );
     }
+  }
+
+  /**
+   * Send our operations again on top of a competing state that did not include them
+   */
+  private async rebasePendingOperations(channelId: string): Promise<void> {
+    const entry = this.channels.get(channelId.toLowerCase());
+    if (!entry || !this.messageSigner || !this.clearNode.getStatus().isAuthenticated) return;
 
-    console.log("Channel state updated:", this.currentChannel);
+    const expenseLog = this.getExpenseLog(entry);
+    const balances = calculateChannelBalances(
+      entry.channel.participants.map(p => p.address),
+      getLogExpenses(expenseLog),
+    );
+    await this.submitState(entry, balances, expenseLog, entry.channel.recurringExpenses);
+    this.notify(channelId);
+    this.emit("stateUpdated", channelId, { channel: entry.channel, source: "local" });
+
+    console.log(`🔀 Rebased local expense changes onto state #${entry.channel.nonce - 1} of channel ${channelId}`);
   }
 
   /**
    * Update local state after payment
    */
-  private updateLocalState(payment: PaymentRequest): void {
-    if (!this.currentChannel) return;
-
+  private updateLocalState(channel: ChannelState, payment: PaymentRequest): void {
     // Find sender (current user) and recipient
-    const senderIndex = this.currentChannel.participants.findIndex(
+    const senderIndex = channel.participants.findIndex(
       p => p.address === payment.recipient, // This should be the current user's address
     );
-    const recipientIndex = this.currentChannel.participants.findIndex(p => p.address === payment.recipient);
+    const recipientIndex = channel.participants.findIndex(p => p.address === payment.recipient);
 
     if (senderIndex !== -1 && recipientIndex !== -1) {
-      this.currentChannel.participants[senderIndex].balance -= payment.amount;
-      this.currentChannel.participants[recipientIndex].balance += payment.amount;
+      channel.participants[senderIndex].balance -= payment.amount;
+      channel.participants[recipientIndex].balance += payment.amount;
     }
   }
 
@@ -371,11 +1119,8 @@ export class StateChannelClient {
     const timestamp = Date.now();
     const participantsStr = participants.sort().join("");
     const data = participantsStr + timestamp;
-    // Convert string to hex using web-safe approach
-    const hex = Array.from(data)
-      .map(c => c.charCodeAt(0).toString(16).padStart(2, "0"))
-      .join("");
-    return `0x${hex}`;
+    // Channel IDs are bytes32 on-chain
+    return keccak256(toBytes(data));
   }
 
   /**
@@ -387,32 +1132,12 @@ export class StateChannelClient {
     return `session_${timestamp}_${random}`;
   }
 
-  /**
-   * Generate state hash
-   */
-  private generateStateHash(balances: bigint[]): string {
-    const balancesStr = balances.map(b => b.toString()).join(",");
-    const data = balancesStr + Date.now();
-    // Convert string to hex using web-safe approach
-    const hex = Array.from(data)
-      .map(c => c.charCodeAt(0).toString(16).padStart(2, "0"))
-      .join("");
-    return `0x${hex}`;
-  }
-
-  /**
-   * Get current session
-   */
-  getCurrentSession(): StateChannelSession | null {
-    return this.currentSession;
-  }
-
   /**
    * Disconnect from state channel
    */
-  disconnect(): void {
-    this.currentChannel = null;
-    this.clearNode.disconnect();
+  async disconnect(): Promise<void> {
+    this.channels.clear();
+    await this.clearNode.disconnect();
   }
 }
 
@@ -0,0 +1,47 @@
+/**
+ * Test fixtures
+ * Participants and expenses shared by the tests
+ */
+import type { Address } from "viem";
+import { appendRevision } from "~~/utils/expenseRevisions";
+import { type Expense, sanitizeExpense } from "~~/utils/expenseValidation";
+
+export const ALICE: Address = "0x00000000000000000000000000000000000000a1";
+export const BOB: Address = "0x00000000000000000000000000000000000000b2";
+export const CAROL: Address = "0x00000000000000000000000000000000000000c3";
+
+// Fixed, so the same expense created twice is equal
+export const EXPENSE_TIMESTAMP = 1_700_000_000_000;
+
+/**
+ * A valid expense of 10 USD paid by Alice, split equally between Alice and Bob
+ */
+export const createExpense = (id: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  description: `Expense ${id}`,
+  amount: "10",
+  currency: "USD",
+  fxRate: "1",
+  paidBy: ALICE,
+  participants: [ALICE, BOB],
+  splitMode: "equal",
+  timestamp: EXPENSE_TIMESTAMP,
+  ...overrides,
+});
+
+/**
+ * An expense the way the app adds it: sanitized, with a "created" revision by its payer
+ * @param nonce channel nonce of the state update that carried the expense
+ */
+export const createAddedExpense = (id: string, overrides: Partial<Expense> = {}, nonce = 1): Expense => {
+  const expense = createExpense(id, overrides);
+  return sanitizeExpense(
+    appendRevision(expense, {
+      action: "created",
+      author: expense.paidBy.toLowerCase(),
+      nonce,
+      timestamp: expense.timestamp,
+      changes: [],
+    }),
+  );
+};
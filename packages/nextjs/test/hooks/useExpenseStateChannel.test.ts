@@ -0,0 +1,117 @@
+// @vitest-environment happy-dom
+import { act, renderHook, waitFor } from "@testing-library/react";
+import "fake-indexeddb/auto";
+import { generatePrivateKey } from "viem/accounts";
+import { type MockInstance, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useExpenseStateChannel } from "~~/hooks/scaffold-eth/useExpenseStateChannel";
+import { clearNodeService } from "~~/services/clearnode";
+import { stateChannelClient } from "~~/services/stateChannelClient";
+import { ALICE, BOB } from "~~/test/fixtures";
+import type { Expense } from "~~/utils/expenseValidation";
+
+// Every channel is a two-person channel between Alice and Bob, and Alice is signed in
+const { readContract, connection } = vi.hoisted(() => ({
+  readContract: vi.fn(),
+  connection: { isConnected: true, isAuthenticated: true, hasSession: true },
+}));
+vi.mock("wagmi/actions", () => ({ readContract }));
+// Wallet connectors reach out to WalletConnect as soon as there is a window
+vi.mock("~~/services/web3/wagmiConfig", () => ({ wagmiConfig: {} }));
+vi.mock("wagmi", async importOriginal => ({
+  ...(await importOriginal<typeof import("wagmi")>()),
+  useAccount: () => ({ address: ALICE }),
+}));
+vi.mock("~~/hooks/scaffold-eth/useStateChannel", () => ({
+  useStateChannel: () => ({ ...connection, connect: async () => undefined }),
+}));
+
+type SentState = { nonce: number; balances: string[]; expenses: Expense[] };
+
+const newExpense = (description: string) => ({
+  description,
+  amount: "10",
+  currency: "USD",
+  fxRate: "1",
+  paidBy: ALICE,
+  participants: [ALICE, BOB],
+  splitMode: "equal" as const,
+});
+
+// Render the hook for a new channel and wait until the channel is loaded
+const renderChannel = async () => {
+  const channelId = generatePrivateKey();
+  const hook = renderHook(() => useExpenseStateChannel(channelId));
+  await waitFor(() => expect(stateChannelClient.getChannel(channelId)).not.toBeNull());
+  return hook;
+};
+
+let sendStateUpdate: MockInstance<typeof clearNodeService.sendStateUpdate>;
+const lastSentState = () => sendStateUpdate.mock.calls.at(-1)![0] as SentState;
+
+beforeEach(() => {
+  Object.assign(connection, { isConnected: true, isAuthenticated: true, hasSession: true });
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  readContract.mockResolvedValue([[ALICE, BOB], 0n, 0n, 0n, true, false, 31337n, `0x${"00".repeat(32)}`]);
+  sendStateUpdate = vi.spyOn(clearNodeService, "sendStateUpdate").mockResolvedValue("sent");
+  stateChannelClient.setMessageSigner(async () => "0x");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("useExpenseStateChannel.clearExpenses", () => {
+  it("keeps every expense as a tombstone with its history", async () => {
+    const { result } = await renderChannel();
+    await act(() => result.current.addExpense(newExpense("Dinner")));
+    await act(() => result.current.addExpense(newExpense("Taxi")));
+
+    await act(() => result.current.clearExpenses());
+
+    expect(result.current.expenses).toEqual([]);
+    expect(result.current.deletedExpenses.map(expense => expense.description)).toEqual(["Dinner", "Taxi"]);
+    expect(lastSentState()).toMatchObject({ nonce: 3, balances: ["0", "0"] });
+    expect(lastSentState().expenses.map(expense => expense.revisions?.map(revision => revision.action))).toEqual([
+      ["created", "deleted"],
+      ["created", "deleted"],
+    ]);
+  });
+
+  it("keeps the expenses when the update fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { result } = await renderChannel();
+    await act(() => result.current.addExpense(newExpense("Dinner")));
+
+    sendStateUpdate.mockRejectedValueOnce(new Error("Rejected"));
+    await act(() => result.current.clearExpenses());
+    await act(() => result.current.addExpense(newExpense("Taxi")));
+
+    expect(result.current.expenses.map(expense => expense.description)).toEqual(["Dinner", "Taxi"]);
+    expect(lastSentState().expenses.filter(expense => !expense.deleted)).toHaveLength(2);
+  });
+});
+
+describe("useExpenseStateChannel offline", () => {
+  it("adds an expense while ClearNode is unreachable, leaving it to the outbox", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    Object.assign(connection, { isConnected: false, isAuthenticated: false });
+    const { result } = await renderChannel();
+    sendStateUpdate.mockResolvedValue("queued");
+
+    await act(() => result.current.addExpense(newExpense("Train tickets")));
+
+    expect(result.current.expenses.map(expense => expense.description)).toEqual(["Train tickets"]);
+    expect(lastSentState()).toMatchObject({ nonce: 1, balances: ["5000000", "-5000000"] });
+  });
+
+  it("refuses to add an expense before signing in to ClearNode", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    Object.assign(connection, { isConnected: false, isAuthenticated: false, hasSession: false });
+    const { result } = await renderChannel();
+
+    await act(() => result.current.addExpense(newExpense("Train tickets")));
+
+    expect(result.current.expenses).toEqual([]);
+    expect(sendStateUpdate).not.toHaveBeenCalled();
+  });
+});
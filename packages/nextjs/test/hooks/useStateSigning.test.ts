@@ -0,0 +1,100 @@
+// @vitest-environment happy-dom
+import { act, renderHook } from "@testing-library/react";
+import "fake-indexeddb/auto";
+import { generatePrivateKey } from "viem/accounts";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useStateSigning } from "~~/hooks/scaffold-eth/useStateSigning";
+import { clearNodeService } from "~~/services/clearnode";
+import { stateChannelClient } from "~~/services/stateChannelClient";
+import { ALICE, BOB } from "~~/test/fixtures";
+import type { ChannelEventHandler } from "~~/types/nitrolite";
+import {
+  type SignableChannelState,
+  getSignableState,
+  serializeChannelState,
+  toSignableState,
+} from "~~/utils/stateSignatures";
+
+// Alice is signed in and reviews the states Bob proposes on their two-person channel
+const { readContract, signMessageAsync } = vi.hoisted(() => ({
+  readContract: vi.fn(),
+  signMessageAsync: vi.fn(),
+}));
+vi.mock("wagmi/actions", () => ({ readContract }));
+// Wallet connectors reach out to WalletConnect as soon as there is a window
+vi.mock("~~/services/web3/wagmiConfig", () => ({ wagmiConfig: {} }));
+vi.mock("wagmi", async importOriginal => ({
+  ...(await importOriginal<typeof import("wagmi")>()),
+  useAccount: () => ({ address: ALICE }),
+  useSignMessage: () => ({ signMessageAsync }),
+}));
+
+const PARTICIPANTS = [ALICE, BOB];
+
+let requestSignature: ChannelEventHandler<"signatureRequested">;
+
+// Load a new channel and render the hook for it, keeping the handler it registers for proposals
+const renderSigning = async () => {
+  const channelId = generatePrivateKey();
+  await stateChannelClient.loadChannel(channelId);
+  const hook = renderHook(() => useStateSigning(channelId, PARTICIPANTS));
+  return { ...hook, channelId, state: getSignableState(stateChannelClient.getChannel(channelId)!, PARTICIPANTS) };
+};
+
+const proposeFromBob = (channelId: string, state: SignableChannelState) =>
+  act(() =>
+    requestSignature({
+      type: "signatureRequested",
+      channelId,
+      timestamp: Date.now(),
+      data: {
+        roundId: "round-1",
+        proposer: BOB,
+        state: serializeChannelState(state),
+        deadline: Date.now() + 60_000,
+      },
+    }),
+  );
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  readContract.mockResolvedValue([PARTICIPANTS, 0n, 0n, 0n, true, false, 31337n, `0x${"00".repeat(32)}`]);
+  signMessageAsync.mockReset().mockResolvedValue(`0x${"ab".repeat(65)}`);
+  vi.spyOn(clearNodeService, "sendPeerMessage").mockResolvedValue();
+  vi.spyOn(stateChannelClient, "on").mockImplementation((_type, handler) => {
+    requestSignature = handler as ChannelEventHandler<"signatureRequested">;
+    return () => undefined;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("useStateSigning.approveProposal", () => {
+  it("signs a proposed state that matches our expenses", async () => {
+    const { result, channelId, state } = await renderSigning();
+    await proposeFromBob(channelId, state);
+
+    await act(() => result.current.approveProposal("round-1"));
+
+    expect(signMessageAsync).toHaveBeenCalledWith({ message: { raw: state.stateHash } });
+    expect(clearNodeService.sendPeerMessage).toHaveBeenCalledWith("state_signature", channelId, {
+      roundId: "round-1",
+      signature: `0x${"ab".repeat(65)}`,
+    });
+    expect(result.current.proposals).toEqual([]);
+  });
+
+  it("refuses to sign a proposed state with other balances", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { result, channelId, state } = await renderSigning();
+    await proposeFromBob(channelId, toSignableState({ ...state, balances: [5n, -5n] }));
+
+    await act(() => result.current.approveProposal("round-1"));
+
+    expect(signMessageAsync).not.toHaveBeenCalled();
+    expect(clearNodeService.sendPeerMessage).not.toHaveBeenCalled();
+    expect(result.current.proposals).toHaveLength(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type FxRateProvider, FxRateService, StaticRateProvider } from "~~/services/fxRates";
+
+/**
+ * A provider with fixed answers that counts how often it is asked
+ */
+class FixedRateProvider implements FxRateProvider {
+  calls = 0;
+
+  constructor(
+    public name: string,
+    private rates: Record<string, number | null | Error>,
+  ) {}
+
+  supports(currency: string): boolean {
+    return currency in this.rates;
+  }
+
+  async getRate(currency: string): Promise<number | null> {
+    this.calls++;
+    const rate = this.rates[currency];
+    if (rate instanceof Error) throw rate;
+    return rate;
+  }
+}
+
+describe("FxRateService", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("quotes the settlement currency at 1 without asking a provider", async () => {
+    const provider = new FixedRateProvider("Live", { USD: 2 });
+    const service = new FxRateService([provider]);
+
+    expect(await service.getRate("usd")).toMatchObject({ currency: "USD", rate: "1", source: "identity" });
+    expect(provider.calls).toBe(0);
+  });
+
+  it("takes the first provider with a rate and falls back past failures", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const failing = new FixedRateProvider("Live", { EUR: new Error("offline"), JPY: null });
+    const service = new FxRateService([failing, new StaticRateProvider()]);
+
+    expect(await service.getRate("eur")).toMatchObject({ currency: "EUR", rate: "1.08", source: "Static table" });
+    expect(await service.getRate("JPY")).toMatchObject({ rate: "0.0067", source: "Static table" });
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("snapshots rates as plain decimals with at most 12 places", async () => {
+    const service = new FxRateService([new FixedRateProvider("Live", { XYZ: 1e-7, ABC: 1 / 3 })]);
+
+    expect((await service.getRate("XYZ")).rate).toBe("0.0000001");
+    expect((await service.getRate("ABC")).rate).toBe("0.333333333333");
+  });
+
+  it("caches quotes for the configured time", async () => {
+    vi.useFakeTimers();
+    const provider = new FixedRateProvider("Live", { EUR: 1.1 });
+    const service = new FxRateService([provider], 1000);
+
+    await service.getRate("EUR");
+    await service.getRate("EUR");
+    expect(provider.calls).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    await service.getRate("EUR");
+    expect(provider.calls).toBe(2);
+  });
+
+  it("tries an added provider first", async () => {
+    const service = new FxRateService([new StaticRateProvider()]);
+    expect((await service.getRate("EUR")).source).toBe("Static table");
+
+    service.addProvider(new FixedRateProvider("Live", { EUR: 1.1 }));
+
+    expect(await service.getRate("EUR")).toMatchObject({ rate: "1.1", source: "Live" });
+  });
+
+  it("throws when no provider has a rate", async () => {
+    const service = new FxRateService([new StaticRateProvider({})]);
+
+    await expect(service.getRate("EUR")).rejects.toThrow("No exchange rate available for EUR");
+  });
+});
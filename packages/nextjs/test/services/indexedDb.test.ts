@@ -0,0 +1,159 @@
+import { IDBFactory } from "fake-indexeddb";
+import "fake-indexeddb/auto";
+import { toHex } from "viem";
+import { generatePrivateKey, privateKeyToAddress } from "viem/accounts";
+import { beforeEach, describe, expect, it } from "vitest";
+import { IndexedDbDatabase } from "~~/services/indexedDb";
+import { OutboxStore } from "~~/services/outboxStore";
+import { ReceiptStore } from "~~/services/receiptStore";
+import { SessionKeyStore } from "~~/services/sessionKeyStore";
+import { SignedStateStore } from "~~/services/signedStateStore";
+import { ALICE, BOB } from "~~/test/fixtures";
+import { hashReceipt } from "~~/utils/receipts";
+import { toSignableState } from "~~/utils/stateSignatures";
+
+const CHANNEL_ID = `0x${"11".repeat(32)}` as const;
+const EMPTY_ROOT = `0x${"00".repeat(32)}` as const;
+
+// Every test starts from empty databases
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe("IndexedDbDatabase", () => {
+  const schema = {
+    name: "test-db",
+    version: 1,
+    stores: [{ name: "items", options: { keyPath: "id" } }, { name: "settings" }],
+  };
+
+  it("creates the declared object stores on first open", async () => {
+    const db = await new IndexedDbDatabase(schema).open();
+    expect([...db.objectStoreNames].sort()).toEqual(["items", "settings"]);
+  });
+
+  it("reads back what a committed write stored", async () => {
+    const database = new IndexedDbDatabase(schema);
+
+    await database.write("items", store => store.put({ id: "a", value: 1 }));
+    await database.write("settings", store => store.put("dark", "theme"));
+
+    expect(await database.read("items", store => store.get("a"))).toEqual({ id: "a", value: 1 });
+    expect(await database.read("settings", store => store.get("theme"))).toBe("dark");
+  });
+
+  it("rejects a failed write", async () => {
+    const database = new IndexedDbDatabase(schema);
+    await database.write("items", store => store.add({ id: "a" }));
+
+    await expect(database.write("items", store => store.add({ id: "a" }))).rejects.toThrow();
+  });
+
+  it("adds object stores declared by a newer version", async () => {
+    await new IndexedDbDatabase(schema).open().then(db => db.close());
+
+    const upgraded = await new IndexedDbDatabase({
+      ...schema,
+      version: 2,
+      stores: [...schema.stores, { name: "extra" }],
+    }).open();
+
+    expect([...upgraded.objectStoreNames].sort()).toEqual(["extra", "items", "settings"]);
+  });
+});
+
+describe("OutboxStore", () => {
+  it("returns a participant's entries in the order they were queued", async () => {
+    const outbox = new OutboxStore();
+    const payment = { amount: "1", recipient: BOB, token: "0x" };
+
+    const first = await outbox.add({ kind: "payment", participant: ALICE, payload: payment });
+    await outbox.add({ kind: "payment", participant: BOB, payload: payment });
+    const third = await outbox.add({ kind: "payment", participant: ALICE, payload: { ...payment, amount: "2" } });
+
+    const entries = await outbox.getAll(ALICE.toUpperCase());
+    expect(entries.map(entry => entry.id)).toEqual([first, third]);
+
+    await outbox.remove(first);
+    expect((await outbox.getAll(ALICE)).map(entry => entry.id)).toEqual([third]);
+  });
+});
+
+describe("SignedStateStore", () => {
+  const signedState = (nonce: number) => ({
+    state: toSignableState({
+      channelId: CHANNEL_ID,
+      nonce: BigInt(nonce),
+      balances: [5n, -5n],
+      expensesRoot: EMPTY_ROOT,
+    }),
+    participants: [ALICE, BOB],
+    signatures: ["0x01", "0x02"] as `0x${string}`[],
+    expenses: null,
+    signedAt: nonce,
+  });
+
+  it("returns the state with the highest nonce of a channel", async () => {
+    const store = new SignedStateStore();
+    await store.put(signedState(2));
+    await store.put(signedState(10));
+    await store.put(signedState(3));
+
+    const latest = await store.getLatest(CHANNEL_ID.toUpperCase().replace("0X", "0x"));
+    expect(latest?.state).toEqual(signedState(10).state);
+    expect((await store.getAll(CHANNEL_ID)).map(signed => signed.state.nonce)).toEqual([2n, 3n, 10n]);
+  });
+
+  it("rejects a state without one signature per participant", async () => {
+    await expect(new SignedStateStore().put({ ...signedState(1), signatures: ["0x01"] })).rejects.toThrow(
+      "A signed state needs one signature per participant",
+    );
+  });
+});
+
+describe("ReceiptStore", () => {
+  it("stores a file under its content hash", async () => {
+    const store = new ReceiptStore();
+    const data = new TextEncoder().encode("receipt");
+
+    const receipt = await store.addFile(new File([data], "receipt.png", { type: "image/png" }));
+
+    expect(receipt.hash).toBe(hashReceipt(data));
+    expect((await store.get(receipt.hash))?.name).toBe("receipt.png");
+    expect(await store.getAvailable([receipt.hash, toHex(1, { size: 32 })])).toEqual(new Set([receipt.hash]));
+  });
+
+  it("rejects a peer's receipt whose content does not match its hash", async () => {
+    const data = new TextEncoder().encode("receipt").buffer as ArrayBuffer;
+
+    await expect(
+      new ReceiptStore().importReceipt({ hash: toHex(1, { size: 32 }), name: "x.png", mimeType: "image/png", data }),
+    ).rejects.toThrow("Receipt content does not match hash");
+  });
+});
+
+describe("SessionKeyStore", () => {
+  it("keeps a wallet's session key encrypted and decrypts it on read", async () => {
+    const store = new SessionKeyStore();
+    const privateKey = generatePrivateKey();
+    const sessionKey = {
+      wallet: ALICE,
+      address: privateKeyToAddress(privateKey),
+      privateKey,
+      expiresAt: 1_700_000_000,
+      jwtToken: "jwt",
+    };
+
+    await store.put(sessionKey);
+
+    expect(await store.get(ALICE.toUpperCase().replace("0X", "0x"))).toEqual(sessionKey);
+    const stored = await new IndexedDbDatabase({ name: "batchpay-session-keys", version: 1, stores: [] }).read(
+      "keys",
+      keys => keys.get(ALICE),
+    );
+    expect(Object.keys(stored).sort()).toEqual(["address", "ciphertext", "expiresAt", "iv", "wallet"]);
+
+    await store.remove(ALICE);
+    expect(await store.get(ALICE)).toBeNull();
+  });
+});
@@ -0,0 +1,412 @@
+import "fake-indexeddb/auto";
+import { type Address, type Hex } from "viem";
+import { generatePrivateKey } from "viem/accounts";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type RelayedMessage, type RemoteStateUpdate, clearNodeService } from "~~/services/clearnode";
+import { signedStateStore } from "~~/services/signedStateStore";
+import { StateChannelClient } from "~~/services/stateChannelClient";
+import { ALICE, BOB, CAROL, createAddedExpense } from "~~/test/fixtures";
+import { ClearNodeError } from "~~/types/nitrolite";
+import { calculateChannelBalances } from "~~/utils/expenseSplit";
+import type { Expense } from "~~/utils/expenseValidation";
+import { getExpensesRoot } from "~~/utils/stateEncoding";
+import { getSignableState, toSignableState } from "~~/utils/stateSignatures";
+
+// BatchPayChannel.getChannel, answered from the channels a test puts on chain
+const { readContract } = vi.hoisted(() => ({ readContract: vi.fn() }));
+vi.mock("wagmi/actions", () => ({ readContract }));
+
+interface OnChainChannel {
+  participants: Address[];
+  nonce: bigint;
+  stateHash: Hex;
+  isOpen: boolean;
+  inDispute: boolean;
+}
+
+const onChain = new Map<string, OnChainChannel>();
+
+// Every test uses channels of its own, signed states outlive a test
+const newChannelId = () => generatePrivateKey();
+
+const putOnChain = (channelId: Hex, channel: Partial<OnChainChannel> = {}) => {
+  onChain.set(channelId.toLowerCase(), {
+    participants: [ALICE, BOB],
+    nonce: 0n,
+    stateHash: `0x${"00".repeat(32)}`,
+    isOpen: true,
+    inDispute: false,
+    ...channel,
+  });
+};
+
+const signedState = (channelId: Hex, nonce: bigint, balances = [5_000_000n, -5_000_000n]) =>
+  toSignableState({ channelId, nonce, balances, expensesRoot: getExpensesRoot([]) });
+
+const storeSignedState = (state: ReturnType<typeof signedState>, participants: Address[] = [ALICE, BOB]) =>
+  signedStateStore.put({
+    state,
+    participants: participants.map(participant => participant.toLowerCase()),
+    signatures: participants.map(() => "0x01"),
+    expenses: null,
+    signedAt: Date.now(),
+  });
+
+// Relayed ClearNode messages reach a client through the listener it registers when created
+const createClient = () => {
+  const onRelayedMessage = vi.spyOn(clearNodeService, "onRelayedMessage");
+  const client = new StateChannelClient();
+  const [relay] = onRelayedMessage.mock.calls[0];
+  onRelayedMessage.mockRestore();
+  return { client, relay: (message: RelayedMessage) => relay(message) };
+};
+
+// Another participant's state update, as ClearNode relays it, allocating the balances its expenses lead to
+const stateUpdate = (
+  channelId: string,
+  nonce: number,
+  expenses: Expense[],
+  balances = calculateChannelBalances([ALICE, BOB], expenses),
+): RelayedMessage => ({
+  method: "state_update",
+  channelId,
+  data: { nonce, expenses, participants: [ALICE, BOB], balances: balances.map(balance => balance.toString()) },
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  readContract.mockReset();
+  readContract.mockImplementation(async (_config, { args: [channelId] }: { args: [string] }) => {
+    const channel = onChain.get(channelId.toLowerCase());
+    if (!channel) return [[], 0n, 0n, 0n, false, false, 0n, `0x${"00".repeat(32)}`];
+    const { participants, nonce, isOpen, inDispute, stateHash } = channel;
+    return [participants, 0n, nonce, 0n, isOpen, inDispute, 31337n, stateHash];
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("StateChannelClient.loadChannel", () => {
+  it("loads participants and state from BatchPayChannel", async () => {
+    const client = new StateChannelClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+
+    expect(await client.loadChannel(channelId)).toEqual([]);
+
+    expect(client.getChannel(channelId)).toMatchObject({
+      channelId,
+      nonce: 0,
+      isOpen: true,
+      chainId: 31337,
+      participants: [
+        { address: ALICE, balance: 0n },
+        { address: BOB, balance: 0n },
+      ],
+    });
+  });
+
+  it("restores the latest signed state stored on this device", async () => {
+    const client = new StateChannelClient();
+    const channelId = newChannelId();
+    const state = signedState(channelId, 3n);
+    putOnChain(channelId, { nonce: 2n });
+    await storeSignedState(signedState(channelId, 2n));
+    await storeSignedState(state);
+
+    expect(await client.loadChannel(channelId)).toEqual([]);
+
+    expect(client.getChannel(channelId)).toMatchObject({
+      nonce: 3,
+      stateHash: state.stateHash,
+      signatures: ["0x01", "0x01"],
+      participants: [{ balance: 5_000_000n }, { balance: -5_000_000n }],
+    });
+  });
+
+  it("warns when the on-chain state is ahead of, or differs from, the signed one", async () => {
+    const client = new StateChannelClient();
+    const ahead = newChannelId();
+    const differs = newChannelId();
+    putOnChain(ahead, { nonce: 4n, inDispute: true });
+    await storeSignedState(signedState(ahead, 3n));
+    putOnChain(differs, { nonce: 3n, stateHash: signedState(differs, 3n, [0n, 0n]).stateHash });
+    await storeSignedState(signedState(differs, 3n));
+
+    const aheadWarnings = await client.loadChannel(ahead);
+    const differsWarnings = await client.loadChannel(differs);
+
+    expect(aheadWarnings.map(warning => warning.code)).toEqual(["in_dispute", "nonce_ahead"]);
+    expect(client.getChannel(ahead)?.nonce).toBe(4);
+    expect(differsWarnings.map(warning => warning.code)).toEqual(["state_mismatch"]);
+    expect(client.getSyncWarnings(differs)).toEqual(differsWarnings);
+  });
+
+  it("does not restore a signed state with other participants", async () => {
+    const client = new StateChannelClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await storeSignedState(signedState(channelId, 1n), [ALICE, CAROL]);
+
+    const warnings = await client.loadChannel(channelId);
+
+    expect(warnings.map(warning => warning.code)).toEqual(["participants_mismatch"]);
+    expect(client.getChannel(channelId)?.nonce).toBe(0);
+  });
+
+  it("shares one read between concurrent loads of a channel", async () => {
+    const client = new StateChannelClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+
+    await Promise.all([client.loadChannel(channelId), client.ensureChannel(channelId.toUpperCase())]);
+    await client.ensureChannel(channelId);
+
+    expect(readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails for a channel that does not exist on chain", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const client = new StateChannelClient();
+    const channelId = newChannelId();
+
+    await expect(client.loadChannel(channelId)).rejects.toThrow(`Channel ${channelId} does not exist on chain 31337`);
+    expect(client.getChannel(channelId)).toBeNull();
+  });
+});
+
+describe("StateChannelClient.recordSignedState", () => {
+  it("stores the current state with its expenses and attaches the signatures", async () => {
+    const { client, relay } = createClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await client.loadChannel(channelId);
+    relay(stateUpdate(channelId, 1, [createAddedExpense("dinner")]));
+    const listener = vi.fn();
+    client.subscribe(channelId, listener);
+    const state = getSignableState(client.getChannel(channelId)!, [ALICE, BOB]);
+
+    await client.recordSignedState(state, [ALICE, BOB], ["0x01", "0x02"]);
+
+    expect(client.getChannel(channelId)?.signatures).toEqual(["0x01", "0x02"]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await client.getLatestSignedState(channelId)).toMatchObject({
+      state: { nonce: 1n, stateHash: state.stateHash },
+      participants: [ALICE, BOB],
+      signatures: ["0x01", "0x02"],
+      expenses: [{ id: "dinner" }],
+    });
+  });
+
+  it("stores a state other than the current one without its expenses", async () => {
+    const client = new StateChannelClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await client.loadChannel(channelId);
+
+    await client.recordSignedState(signedState(channelId, 5n), [ALICE, BOB], ["0x01", "0x02"]);
+
+    expect(client.getChannel(channelId)?.nonce).toBe(0);
+    expect(client.getChannel(channelId)?.signatures).not.toEqual(["0x01", "0x02"]);
+    expect(await client.getLatestSignedState(channelId)).toMatchObject({ state: { nonce: 5n }, expenses: null });
+  });
+});
+
+describe("StateChannelClient channel registry", () => {
+  it("tracks every loaded channel by its ID", async () => {
+    const { client } = createClient();
+    const first = newChannelId();
+    const second = newChannelId();
+    putOnChain(first);
+    putOnChain(second, { participants: [ALICE, CAROL] });
+
+    await client.loadChannel(first);
+    await client.loadChannel(second);
+
+    expect(client.getChannels().map(channel => channel.channelId)).toEqual([first, second]);
+    expect(client.getChannel(second.toUpperCase())?.participants.map(p => p.address)).toEqual([ALICE, CAROL]);
+    expect(client.isChannelActive(first)).toBe(true);
+  });
+
+  it("routes a relayed update to its own channel and notifies only that channel's listeners", async () => {
+    const { client, relay } = createClient();
+    const first = newChannelId();
+    const second = newChannelId();
+    putOnChain(first);
+    putOnChain(second);
+    await client.loadChannel(first);
+    await client.loadChannel(second);
+    const firstListener = vi.fn();
+    const secondListener = vi.fn();
+    client.subscribe(first, firstListener);
+    client.subscribe(second, secondListener);
+
+    relay(stateUpdate(first, 1, [createAddedExpense("dinner")]));
+
+    expect(firstListener).toHaveBeenCalledTimes(1);
+    expect(secondListener).not.toHaveBeenCalled();
+    expect(client.getChannel(first)).toMatchObject({
+      nonce: 1,
+      expenses: [{ id: "dinner" }],
+      participants: [{ balance: 5_000_000n }, { balance: -5_000_000n }],
+    });
+    expect(client.getChannel(second)).toMatchObject({ nonce: 0, expenses: [] });
+  });
+
+  it("stops notifying a listener once it unsubscribes", async () => {
+    const { client, relay } = createClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await client.loadChannel(channelId);
+    const listener = vi.fn();
+
+    const unsubscribe = client.subscribe(channelId, listener);
+    relay(stateUpdate(channelId, 1, [createAddedExpense("a")]));
+    unsubscribe();
+    relay(stateUpdate(channelId, 2, [createAddedExpense("a"), createAddedExpense("b")]));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(client.getChannel(channelId)?.nonce).toBe(2);
+  });
+
+  it("ignores updates for channels it does not track", () => {
+    const { client, relay } = createClient();
+    const channelId = newChannelId();
+
+    relay(stateUpdate(channelId, 1, [createAddedExpense("a")]));
+
+    expect(client.getChannel(channelId)).toBeNull();
+    expect(client.getChannels()).toEqual([]);
+  });
+});
+
+describe("StateChannelClient remote state updates", () => {
+  it("rejects an update whose balances are not the ones its expenses lead to", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { client, relay } = createClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await client.loadChannel(channelId);
+
+    relay(stateUpdate(channelId, 1, [createAddedExpense("dinner")], [-5_000_000n, 5_000_000n]));
+    // Sent by a client that allocates nothing
+    const data = { nonce: 1, expenses: [createAddedExpense("taxi")] } as unknown as RemoteStateUpdate;
+    relay({ method: "state_update", channelId, data });
+
+    expect(client.getChannel(channelId)).toMatchObject({
+      nonce: 0,
+      expenses: [],
+      participants: [{ balance: 0n }, { balance: 0n }],
+    });
+  });
+});
+
+describe("StateChannelClient.updateChannelState", () => {
+  const rejectedForNonce = (nonce: number) =>
+    new ClearNodeError(`submit_app_state failed: State nonce ${nonce} is not newer than ${nonce}`, "rpc_error");
+
+  const loadClient = async () => {
+    const { client } = createClient();
+    client.setMessageSigner(async () => "0x");
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await client.loadChannel(channelId);
+    return { client, channelId };
+  };
+
+  it("rebases onto the state ClearNode holds when it rejects ours for it, and sends it again", async () => {
+    const { client, channelId } = await loadClient();
+    const dinner = createAddedExpense("dinner");
+    const taxi = createAddedExpense("taxi", { paidBy: BOB });
+    const sendStateUpdate = vi
+      .spyOn(clearNodeService, "sendStateUpdate")
+      .mockRejectedValueOnce(rejectedForNonce(1))
+      .mockResolvedValue("sent");
+    const remote = stateUpdate(channelId, 1, [dinner]).data as RemoteStateUpdate;
+    vi.spyOn(clearNodeService, "getLatestState").mockResolvedValue(remote);
+
+    await client.updateChannelState(channelId, calculateChannelBalances([ALICE, BOB], [taxi]), [taxi]);
+
+    expect(sendStateUpdate).toHaveBeenCalledTimes(2);
+    expect(sendStateUpdate.mock.calls[1][0]).toMatchObject({
+      nonce: 2,
+      expenses: [{ id: "dinner" }, { id: "taxi" }],
+      balances: ["0", "0"],
+    });
+    expect(client.getChannel(channelId)).toMatchObject({ nonce: 2, expenses: [{ id: "dinner" }, { id: "taxi" }] });
+  });
+
+  it("fails when ClearNode rejects the state without holding a newer one", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { client, channelId } = await loadClient();
+    const taxi = createAddedExpense("taxi");
+    const sendStateUpdate = vi.spyOn(clearNodeService, "sendStateUpdate").mockRejectedValue(rejectedForNonce(1));
+    vi.spyOn(clearNodeService, "getLatestState").mockResolvedValue(null);
+
+    await expect(
+      client.updateChannelState(channelId, calculateChannelBalances([ALICE, BOB], [taxi]), [taxi]),
+    ).rejects.toThrow("State nonce 1 is not newer than 1");
+    expect(sendStateUpdate).toHaveBeenCalledTimes(1);
+    expect(client.getChannel(channelId)).toMatchObject({ nonce: 0, expenses: [] });
+  });
+});
+
+describe("StateChannelClient events", () => {
+  it("tells handlers where a state update came from", async () => {
+    const { client, relay } = createClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    const sources: string[] = [];
+    const unsubscribe = client.on("stateUpdated", event => {
+      expect(event.channelId).toBe(channelId);
+      sources.push(event.data.source);
+    });
+
+    await client.loadChannel(channelId);
+    relay(stateUpdate(channelId, 1, [createAddedExpense("a")]));
+    unsubscribe();
+    relay(stateUpdate(channelId, 2, [createAddedExpense("a"), createAddedExpense("b")]));
+
+    expect(sources).toEqual(["loaded", "remote"]);
+  });
+
+  it("asks for a signature when a participant proposes a state", async () => {
+    const { client, relay } = createClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    await client.loadChannel(channelId);
+    const requested = vi.fn();
+    client.on("signatureRequested", requested);
+
+    const state = { nonce: "1" };
+    relay({ method: "state_proposal", channelId, data: { roundId: "round-1", sender: BOB, state, deadline: 1000 } });
+    relay({ method: "state_proposal", channelId, data: { sender: BOB, state } });
+
+    expect(requested).toHaveBeenCalledTimes(1);
+    expect(requested.mock.calls[0][0]).toMatchObject({
+      type: "signatureRequested",
+      channelId,
+      data: { roundId: "round-1", proposer: BOB.toLowerCase(), state, deadline: 1000 },
+    });
+  });
+
+  it("keeps calling handlers when one of them throws", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { client } = createClient();
+    const channelId = newChannelId();
+    putOnChain(channelId);
+    const handler = vi.fn();
+    client.on("stateUpdated", () => {
+      throw new Error("Broken handler");
+    });
+    client.on("stateUpdated", handler);
+
+    await client.loadChannel(channelId);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith("Error in stateUpdated handler:", expect.any(Error));
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { type ParticipantBalance, type Settlement, simplifyDebts } from "~~/utils/debtSimplification";
+
+const OPTIONS = { token: "0x6c3ea9036406852006290770BEdFcAbA0e23A0e8", chainId: 1 };
+
+const address = (index: number) => `0x${(index + 1).toString(16).padStart(40, "0")}`;
+
+/**
+ * Apply the settlements to the balances: every participant should end at zero
+ */
+const applySettlements = (balances: ParticipantBalance[], settlements: Settlement[]) => {
+  const remaining = new Map(balances.map(({ address, balance }) => [address, balance]));
+  settlements.forEach(({ from, to, amount }) => {
+    remaining.set(from, remaining.get(from)! + BigInt(amount));
+    remaining.set(to, remaining.get(to)! - BigInt(amount));
+  });
+  return [...remaining.values()];
+};
+
+describe("simplifyDebts", () => {
+  it("returns no transfers when every balance is zero", () => {
+    const balances = [0, 1, 2].map(index => ({ address: address(index), balance: 0n }));
+    expect(simplifyDebts(balances, OPTIONS)).toEqual([]);
+  });
+
+  it("returns no transfers for an empty channel", () => {
+    expect(simplifyDebts([], OPTIONS)).toEqual([]);
+  });
+
+  it("pays a single creditor from every debtor", () => {
+    const balances = [
+      { address: address(0), balance: 600n },
+      { address: address(1), balance: -100n },
+      { address: address(2), balance: -200n },
+      { address: address(3), balance: -300n },
+    ];
+
+    const settlements = simplifyDebts(balances, OPTIONS);
+
+    expect(settlements).toHaveLength(3);
+    settlements.forEach(settlement => expect(settlement.to).toBe(address(0)));
+    expect(applySettlements(balances, settlements)).toEqual([0n, 0n, 0n, 0n]);
+  });
+
+  it("settles matching debts and credits with one transfer each", () => {
+    const balances = [
+      { address: address(0), balance: 250n },
+      { address: address(1), balance: 70n },
+      { address: address(2), balance: -70n },
+      { address: address(3), balance: -250n },
+    ];
+
+    expect(simplifyDebts(balances, OPTIONS)).toEqual([
+      { from: address(3), to: address(0), amount: "250", ...OPTIONS },
+      { from: address(2), to: address(1), amount: "70", ...OPTIONS },
+    ]);
+  });
+
+  it("settles 50 participants with at most 49 transfers", () => {
+    const balances: ParticipantBalance[] = Array.from({ length: 49 }, (_, index) => ({
+      address: address(index),
+      balance: BigInt(((index * 7919) % 1000) - 500) * 1_000_000n,
+    }));
+    const total = balances.reduce((sum, { balance }) => sum + balance, 0n);
+    balances.push({ address: address(49), balance: -total });
+
+    const settlements = simplifyDebts(balances, OPTIONS);
+
+    expect(settlements.length).toBeLessThanOrEqual(49);
+    settlements.forEach(settlement => expect(BigInt(settlement.amount)).toBeGreaterThan(0n));
+    expect(applySettlements(balances, settlements).every(balance => balance === 0n)).toBe(true);
+  });
+
+  it("gives the same transfers whatever order the balances come in", () => {
+    const balances = [
+      { address: address(0), balance: 500n },
+      { address: address(1), balance: 300n },
+      { address: address(2), balance: -400n },
+      { address: address(3), balance: -400n },
+    ];
+
+    expect(simplifyDebts([...balances].reverse(), OPTIONS)).toEqual(simplifyDebts(balances, OPTIONS));
+  });
+
+  it("rejects balances that do not sum to zero", () => {
+    const balances = [
+      { address: address(0), balance: 100n },
+      { address: address(1), balance: -99n },
+    ];
+
+    expect(() => simplifyDebts(balances, OPTIONS)).toThrow("Balances must sum to zero (got 1)");
+  });
+});
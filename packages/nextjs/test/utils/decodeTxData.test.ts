@@ -0,0 +1,32 @@
+import { encodeAbiParameters, encodeEventTopics, getAbiItem, getAddress } from "viem";
+import { describe, expect, it } from "vitest";
+import deployedContracts from "~~/contracts/deployedContracts";
+import { ALICE } from "~~/test/fixtures";
+import { decodeLog } from "~~/utils/scaffold-eth/decodeTxData";
+
+const { abi } = deployedContracts[31337].BatchPayChannel;
+
+const CHANNEL_ID = `0x${"11".repeat(32)}` as const;
+const STATE_HASH = `0x${"22".repeat(32)}` as const;
+
+describe("decodeLog", () => {
+  it("decodes the balances of a BatchPayChannel state update", () => {
+    const event = getAbiItem({ abi, name: "ChannelStateUpdated" });
+    const balances = [40_000_000n, -40_000_000n];
+
+    const decoded = decodeLog({
+      topics: encodeEventTopics({ abi: [event], args: { channelId: CHANNEL_ID } }) as [`0x${string}`],
+      data: encodeAbiParameters(event.inputs.slice(1), [1n, STATE_HASH, ALICE, balances]),
+    });
+
+    expect(decoded).toEqual({
+      contractName: "BatchPayChannel",
+      eventName: "ChannelStateUpdated",
+      args: { channelId: CHANNEL_ID, nonce: 1n, stateHash: STATE_HASH, updatedBy: getAddress(ALICE), balances },
+    });
+  });
+
+  it("returns null for logs no deployed contract emits", () => {
+    expect(decodeLog({ topics: [`0x${"33".repeat(32)}`], data: "0x" })).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TAGS,
+  getCategoryLabel,
+  normalizeCategory,
+  parseTagInput,
+  validateCategoryAndTags,
+} from "~~/utils/expenseCategories";
+
+describe("normalizeCategory", () => {
+  it("trims, collapses whitespace and lowercases", () => {
+    expect(normalizeCategory("  Car   Rental ")).toBe("car rental");
+  });
+});
+
+describe("parseTagInput", () => {
+  it("splits on commas and drops empty and duplicate tags", () => {
+    expect(parseTagInput("trip, Paris,, paris ,TRIP")).toEqual(["trip", "paris"]);
+  });
+});
+
+describe("getCategoryLabel", () => {
+  it("labels built-in, custom and missing categories", () => {
+    expect(getCategoryLabel("lodging")).toBe("Lodging");
+    expect(getCategoryLabel("car rental")).toBe("Car rental");
+    expect(getCategoryLabel(undefined)).toBe("Uncategorized");
+  });
+});
+
+describe("validateCategoryAndTags", () => {
+  it("accepts any category when the channel has no closed list", () => {
+    expect(validateCategoryAndTags("car rental", ["trip"])).toEqual([]);
+    expect(validateCategoryAndTags(undefined, undefined)).toEqual([]);
+  });
+
+  it("restricts categories to the channel's closed list", () => {
+    expect(validateCategoryAndTags("Food", undefined, ["food", "lodging"])).toEqual([]);
+    expect(validateCategoryAndTags("car rental", undefined, ["food", "lodging"])).toEqual([
+      "Unknown category: car rental",
+    ]);
+  });
+
+  it("rejects malformed categories and tags", () => {
+    expect(validateCategoryAndTags(" ", undefined)).toEqual(["Category must be a non-empty string"]);
+    expect(validateCategoryAndTags("x".repeat(51), undefined)).toEqual([
+      "Category cannot be longer than 50 characters",
+    ]);
+    expect(validateCategoryAndTags(undefined, "trip")).toEqual(["Tags must be an array of strings"]);
+    expect(validateCategoryAndTags(undefined, ["x".repeat(31)])).toEqual(["Tags cannot be longer than 30 characters"]);
+    expect(
+      validateCategoryAndTags(
+        undefined,
+        Array.from({ length: MAX_TAGS + 1 }, (_, index) => `tag-${index}`),
+      ),
+    ).toEqual(["An expense can have at most 10 tags"]);
+  });
+});
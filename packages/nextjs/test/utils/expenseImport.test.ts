@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { ALICE, BOB } from "~~/test/fixtures";
+import {
+  buildImportedExpenses,
+  guessColumnMapping,
+  parseCsv,
+  parseImportFile,
+  parseImportedAmount,
+} from "~~/utils/expenseImport";
+
+const IMPORT_OPTIONS = {
+  channelId: "0xchannel",
+  participants: [ALICE, BOB],
+  payerMapping: { Alice: ALICE, Bob: BOB },
+  now: 1_700_000_000_000,
+};
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes, CRLF and blank lines", () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n1,2')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"'],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("parseImportedAmount", () => {
+  it.each([
+    ["12", "12"],
+    ["12.50", "12.50"],
+    ["$1,234.50", "1234.50"],
+    ["1,234,567.89", "1234567.89"],
+    ["1.234,50", "1234.50"],
+    ["1.234.567,89", "1234567.89"],
+    ["12,50 €", "12.50"],
+    ["0,123", "0.123"],
+    ["1,234", "1234"],
+    ["1.234.567", "1234567"],
+    ["1 234,50", "1234.50"],
+    ["(12.00)", "-12.00"],
+    ["-1.234,50", "-1234.50"],
+    ["12.00-", "-12.00"],
+    ["", ""],
+  ])("reads %j as %j", (value, expected) => {
+    expect(parseImportedAmount(value)).toBe(expected);
+  });
+});
+
+describe("buildImportedExpenses", () => {
+  const table = parseImportFile(
+    [
+      "Date,Description,Amount,Paid by",
+      '2024-03-01,Groceries,"1.234,50",Alice',
+      "2024-03-02,Refund,-20.00,Bob",
+      "2024-03-03,Taxi,(15.00),Bob",
+    ].join("\n"),
+    "csv",
+  );
+
+  it("maps the columns and builds one expense per valid row", () => {
+    const [groceries] = buildImportedExpenses(table, guessColumnMapping(table.headers), IMPORT_OPTIONS);
+
+    expect(groceries.errors).toEqual([]);
+    expect(groceries.expense).toMatchObject({
+      description: "Groceries",
+      amount: "1234.5",
+      paidBy: ALICE,
+      participants: [ALICE, BOB],
+    });
+  });
+
+  it("rejects negative amounts instead of flipping their sign", () => {
+    const [, refund, taxi] = buildImportedExpenses(table, guessColumnMapping(table.headers), IMPORT_OPTIONS);
+
+    expect(refund.expense).toBeNull();
+    expect(refund.errors).toEqual(["Negative amount -20.00: enter spending as a positive amount or remove the row"]);
+    expect(taxi.expense).toBeNull();
+    expect(taxi.errors).toHaveLength(1);
+  });
+
+  it("reports payers that are not mapped to a participant", () => {
+    const unmapped = parseImportFile("Description,Amount,Paid by\nDinner,30,Carol", "csv");
+
+    const [result] = buildImportedExpenses(unmapped, guessColumnMapping(unmapped.headers), IMPORT_OPTIONS);
+
+    expect(result.expense).toBeNull();
+    expect(result.errors).toEqual(['No participant mapped for payer "Carol"']);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, expect, it } from "vitest";
+import { ALICE, BOB, EXPENSE_TIMESTAMP, createAddedExpense } from "~~/test/fixtures";
+import {
+  type ExpenseLog,
+  type RemoteExpenseUpdate,
+  appendOperations,
+  checkpointLog,
+  createExpenseLog,
+  diffToOperations,
+  getLogExpenses,
+  mergeRemoteUpdate,
+} from "~~/utils/expenseOperations";
+import { appendRevision, deleteExpense } from "~~/utils/expenseRevisions";
+import type { Expense } from "~~/utils/expenseValidation";
+
+/**
+ * One participant's side of the channel, exchanging updates the way the state channel client does
+ */
+class Participant {
+  log: ExpenseLog = createExpenseLog([]);
+  nonce = 0;
+  private clock = 0;
+
+  constructor(readonly address: string) {}
+
+  get expenses() {
+    return getLogExpenses(this.log);
+  }
+
+  // Make a local change and return the update broadcast for it
+  change(next: (expenses: Expense[]) => Expense[]): RemoteExpenseUpdate {
+    const operations = diffToOperations(this.expenses, next(this.expenses), {
+      author: this.address,
+      baseNonce: this.nonce,
+      timestamp: ++this.clock,
+    });
+    this.log = appendOperations(this.log, operations);
+    this.nonce++;
+    return { nonce: this.nonce, expenses: this.expenses, operations: this.log.operations };
+  }
+
+  add(id: string, amount = "10") {
+    return this.change(expenses => [
+      ...expenses,
+      createAddedExpense(
+        id,
+        { amount, paidBy: this.address, timestamp: EXPENSE_TIMESTAMP + this.nonce },
+        this.nonce + 1,
+      ),
+    ]);
+  }
+
+  receive(update: RemoteExpenseUpdate) {
+    const result = mergeRemoteUpdate(this.log, this.nonce, this.address, update);
+    if (!result.isValid) throw new Error(result.errors.join(", "));
+    this.log = result.expenseLog;
+    this.nonce = Math.max(this.nonce, update.nonce);
+    return result;
+  }
+}
+
+const ids = (expenses: Expense[]) => expenses.map(expense => expense.id);
+
+describe("mergeRemoteUpdate", () => {
+  it("converges when both participants update the same nonce concurrently", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+
+    const fromAlice = alice.add("a");
+    const fromBob = bob.add("b");
+    const atBob = bob.receive(fromAlice);
+    const atAlice = alice.receive(fromBob);
+
+    expect(atAlice.expenses).toEqual(atBob.expenses);
+    expect(ids(atAlice.expenses).sort()).toEqual(["a", "b"]);
+    // Each of them sees that the other's update did not include their own change
+    expect(atAlice.unseenOperations.map(operation => operation.author)).toEqual([ALICE]);
+    expect(atBob.unseenOperations.map(operation => operation.author)).toEqual([BOB]);
+  });
+
+  it("merges concurrent edits of the same expense in the same order everywhere", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+    bob.receive(alice.add("a"));
+
+    const editAmount = alice.change(expenses => expenses.map(expense => ({ ...expense, amount: "12" })));
+    const editDescription = bob.change(expenses =>
+      expenses.map(expense =>
+        appendRevision(
+          { ...expense, description: "Team dinner" },
+          {
+            action: "edited",
+            author: BOB,
+            nonce: 2,
+            timestamp: 2,
+            changes: [{ field: "description", from: expense.description, to: "Team dinner" }],
+          },
+        ),
+      ),
+    );
+    alice.receive(editDescription);
+    bob.receive(editAmount);
+
+    expect(alice.expenses).toEqual(bob.expenses);
+    expect(alice.expenses[0]).toMatchObject({ amount: "12", description: "Team dinner" });
+  });
+
+  it("converges on long interleaved histories, whatever the delivery order", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+    const toAlice: RemoteExpenseUpdate[] = [];
+    const toBob: RemoteExpenseUpdate[] = [];
+
+    // 110 changes each, past the point where logs used to fold on their own, delivered in bursts
+    for (let round = 0; round < 110; round++) {
+      toBob.push(alice.add(`alice-${round}`));
+      toAlice.push(bob.add(`bob-${round}`));
+      if (round % 7 === 3) toBob.splice(0).forEach(update => bob.receive(update));
+      if (round % 11 === 5) toAlice.splice(0).forEach(update => alice.receive(update));
+    }
+    toBob.splice(0).forEach(update => bob.receive(update));
+    toAlice.splice(0).forEach(update => alice.receive(update));
+
+    expect(alice.expenses).toHaveLength(220);
+    expect(alice.expenses).toEqual(bob.expenses);
+  });
+
+  it("keeps the participants in step across a checkpoint at a co-signed state", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+    bob.receive(alice.add("a"));
+    alice.receive(bob.add("b"));
+
+    // Both signed the same state: each folds its log there
+    expect(alice.expenses).toEqual(bob.expenses);
+    alice.log = checkpointLog(alice.log);
+    bob.log = checkpointLog(bob.log);
+
+    const fromAlice = alice.add("c");
+    const fromBob = bob.add("d");
+    alice.receive(fromBob);
+    bob.receive(fromAlice);
+
+    expect(alice.log.operations).toHaveLength(2);
+    expect(alice.expenses).toEqual(bob.expenses);
+    expect(ids(alice.expenses).sort()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("carries a deleted expense's tombstone to the other participant", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+    bob.receive(alice.add("a"));
+
+    bob.receive(
+      alice.change(expenses =>
+        expenses.map(expense => deleteExpense(expense, { author: ALICE, nonce: 2, timestamp: 2 })),
+      ),
+    );
+
+    expect(bob.expenses[0].deleted).toBe(true);
+    expect(bob.expenses[0].revisions?.map(revision => revision.action)).toEqual(["created", "deleted"]);
+  });
+
+  it("keeps a deletion over a concurrent edit ordered after it", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+    bob.receive(alice.add("a"));
+    alice.receive(bob.add("b"));
+
+    // Same base nonce and time: Alice's deletion is ordered first, Bob's edit comes after it
+    const deletion = alice.change(expenses =>
+      expenses.map(expense =>
+        expense.id === "a" ? deleteExpense(expense, { author: ALICE, nonce: 3, timestamp: 2 }) : expense,
+      ),
+    );
+    const edit = bob.change(expenses =>
+      expenses.map(expense =>
+        expense.id === "a"
+          ? appendRevision(
+              { ...expense, description: "Team dinner" },
+              {
+                action: "edited",
+                author: BOB,
+                nonce: 3,
+                timestamp: 2,
+                changes: [{ field: "description", from: expense.description, to: "Team dinner" }],
+              },
+            )
+          : expense,
+      ),
+    );
+    alice.receive(edit);
+    bob.receive(deletion);
+
+    expect(alice.expenses).toEqual(bob.expenses);
+    expect(alice.expenses[0]).toMatchObject({ id: "a", deleted: true, description: "Expense a" });
+    expect(alice.expenses[0].revisions?.map(revision => revision.action)).toEqual(["created", "deleted"]);
+  });
+
+  it("turns the removal of an expense into a tombstone", () => {
+    const alice = new Participant(ALICE);
+    const bob = new Participant(BOB);
+    bob.receive(alice.add("a"));
+
+    bob.receive(alice.change(expenses => expenses.filter(expense => expense.id !== "a")));
+
+    expect(bob.expenses).toEqual(alice.expenses);
+    expect(bob.expenses[0].deleted).toBe(true);
+    expect(bob.expenses[0].revisions?.at(-1)).toMatchObject({ action: "deleted", author: ALICE, nonce: 2 });
+  });
+
+  it("rejects operations that produce an invalid expense, leaving the log unchanged", () => {
+    const bob = new Participant(BOB);
+    bob.add("b");
+    const before = bob.log;
+    const alice = new Participant(ALICE);
+    const invalid = alice.change(() => [{ ...createAddedExpense("a"), amount: "-5" }]);
+
+    const result = mergeRemoteUpdate(bob.log, bob.nonce, BOB, {
+      ...invalid,
+      expenses: [createAddedExpense("a")], // The validated list no longer hides the operations
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(!result.isValid && result.errors.join()).toContain("Amount must be a positive number");
+    expect(bob.log).toBe(before);
+    expect(ids(getLogExpenses(bob.log))).toEqual(["b"]);
+  });
+
+  it("rejects malformed operations", () => {
+    const result = mergeRemoteUpdate(createExpenseLog([]), 0, ALICE, {
+      nonce: 1,
+      expenses: [],
+      operations: [{ kind: "add", id: "op-1" }],
+    });
+
+    expect(result).toEqual({ isValid: false, errors: ["Malformed expense operations"] });
+  });
+
+  it("rejects a replacement list that rewrites known revision history", () => {
+    const expense = createAddedExpense("a");
+    const log = createExpenseLog([
+      appendRevision(expense, {
+        action: "edited",
+        author: BOB,
+        nonce: 2,
+        timestamp: 2,
+        changes: [{ field: "amount", from: "8", to: "10" }],
+      }),
+    ]);
+
+    const result = mergeRemoteUpdate(log, 2, ALICE, { nonce: 3, expenses: [expense] });
+
+    expect(result).toEqual({ isValid: false, errors: ['Revision history of "Expense a" was altered'] });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { ALICE, BOB, createExpense } from "~~/test/fixtures";
+import { buildExpenseReport, isInDateRange } from "~~/utils/expenseReports";
+
+const DAY = 86_400_000;
+
+const EXPENSES = [
+  createExpense("hotel", {
+    category: "lodging",
+    amount: "300",
+    splitMode: "shares",
+    splitWeights: ["2", "1"],
+    timestamp: 10 * DAY,
+  }),
+  createExpense("dinner", { category: "food", amount: "60", paidBy: BOB, timestamp: 11 * DAY }),
+  createExpense("lunch", { category: "food", amount: "30", currency: "EUR", fxRate: "1.1", timestamp: 12 * DAY }),
+  createExpense("tip", { amount: "5", timestamp: 13 * DAY }),
+];
+
+describe("buildExpenseReport", () => {
+  it("totals spending per category in settlement units, largest first", () => {
+    const report = buildExpenseReport(EXPENSES);
+
+    expect(report.total).toBe(398_000_000n);
+    expect(report.count).toBe(4);
+    expect(report.byCategory).toEqual([
+      { category: "lodging", total: 300_000_000n, count: 1 },
+      { category: "food", total: 93_000_000n, count: 2 },
+      { category: undefined, total: 5_000_000n, count: 1 },
+    ]);
+  });
+
+  it("totals what each participant paid and their own share", () => {
+    const report = buildExpenseReport(EXPENSES);
+
+    expect(report.byParticipant).toEqual([
+      { address: ALICE, paid: 338_000_000n, spent: 249_000_000n },
+      { address: BOB, paid: 60_000_000n, spent: 149_000_000n },
+    ]);
+  });
+
+  it("only counts expenses within the date range", () => {
+    const report = buildExpenseReport(EXPENSES, { from: 11 * DAY, to: 12 * DAY });
+
+    expect(report.count).toBe(2);
+    expect(report.byCategory).toEqual([{ category: "food", total: 93_000_000n, count: 2 }]);
+  });
+});
+
+describe("isInDateRange", () => {
+  it("includes both ends and treats missing ends as open", () => {
+    const expense = { timestamp: 5 };
+
+    expect(isInDateRange(expense, { from: 5, to: 5 })).toBe(true);
+    expect(isInDateRange(expense, { from: 6 })).toBe(false);
+    expect(isInDateRange(expense, { to: 4 })).toBe(false);
+    expect(isInDateRange(expense, {})).toBe(true);
+  });
+});
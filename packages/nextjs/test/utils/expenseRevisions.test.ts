@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { ALICE, BOB, createAddedExpense } from "~~/test/fixtures";
+import { applyOperations, diffToOperations } from "~~/utils/expenseOperations";
+import {
+  appendRevision,
+  deleteExpense,
+  diffExpenses,
+  getActiveExpenses,
+  validateRevisionLog,
+} from "~~/utils/expenseRevisions";
+import { calculateChannelBalances } from "~~/utils/expenseSplit";
+import { validateExpenses } from "~~/utils/expenseValidation";
+
+describe("diffExpenses", () => {
+  it("lists only the fields that changed", () => {
+    const before = createAddedExpense("a");
+    const after = { ...before, amount: "12.5", tags: ["trip"] };
+
+    expect(diffExpenses(before, after)).toEqual([
+      { field: "tags", from: "", to: "trip" },
+      { field: "amount", from: "10", to: "12.5" },
+    ]);
+  });
+});
+
+describe("deleteExpense", () => {
+  it("keeps the expense and its history, appending a deleted revision", () => {
+    const expense = appendRevision(createAddedExpense("a"), {
+      action: "edited",
+      author: BOB,
+      nonce: 2,
+      timestamp: 1_700_000_001_000,
+      changes: [{ field: "amount", from: "8", to: "10" }],
+    });
+
+    const deleted = deleteExpense(expense, { author: BOB, nonce: 3, timestamp: 1_700_000_002_000 });
+
+    expect(deleted.deleted).toBe(true);
+    expect(deleted.amount).toBe("10");
+    expect(deleted.revisions?.slice(0, 2)).toEqual(expense.revisions);
+    expect(deleted.revisions?.[2]).toEqual({
+      revision: 2,
+      action: "deleted",
+      author: BOB,
+      nonce: 3,
+      timestamp: 1_700_000_002_000,
+      changes: [{ field: "deleted", from: "", to: "true" }],
+    });
+    expect(validateExpenses([deleted]).isValid).toBe(true);
+  });
+
+  it("leaves tombstones out of the active expenses and the balances", () => {
+    const kept = createAddedExpense("a");
+    const deleted = deleteExpense(createAddedExpense("b", { amount: "30" }), { author: ALICE, nonce: 2, timestamp: 0 });
+
+    expect(getActiveExpenses([kept, deleted])).toEqual([kept]);
+    expect(calculateChannelBalances([ALICE, BOB], [kept, deleted])).toEqual(
+      calculateChannelBalances([ALICE, BOB], [kept]),
+    );
+  });
+
+  it("reaches other participants as an edit that carries the history", () => {
+    const expense = createAddedExpense("a");
+    const deleted = deleteExpense(expense, { author: BOB, nonce: 2, timestamp: 1 });
+
+    const operations = diffToOperations([expense], [deleted], { author: BOB, baseNonce: 1, timestamp: 1 });
+
+    expect(operations.map(operation => operation.kind)).toEqual(["edit"]);
+    expect(applyOperations([expense], operations)).toEqual([deleted]);
+  });
+});
+
+describe("validateRevisionLog", () => {
+  it("accepts a deleted revision at the end of the log", () => {
+    const deleted = deleteExpense(createAddedExpense("a"), { author: ALICE, nonce: 2, timestamp: 0 });
+    expect(validateRevisionLog(deleted.revisions)).toEqual([]);
+  });
+
+  it("rejects revisions after the expense was deleted", () => {
+    const deleted = deleteExpense(createAddedExpense("a"), { author: ALICE, nonce: 2, timestamp: 0 });
+    const revised = appendRevision(deleted, { action: "edited", author: BOB, nonce: 3, timestamp: 0, changes: [] });
+
+    expect(validateRevisionLog(revised.revisions)).toEqual(["A deleted expense cannot be revised again"]);
+  });
+
+  it("rejects a creation that is not the first revision", () => {
+    const expense = appendRevision(createAddedExpense("a"), {
+      action: "created",
+      author: BOB,
+      nonce: 2,
+      timestamp: 0,
+      changes: [],
+    });
+
+    expect(validateRevisionLog(expense.revisions)).toEqual([
+      "Only the first revision can record the creation of an expense",
+    ]);
+  });
+});
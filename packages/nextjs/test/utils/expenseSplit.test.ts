@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import { ALICE, BOB, CAROL, createExpense } from "~~/test/fixtures";
+import {
+  type ExpenseSplit,
+  calculateChannelBalances,
+  getExpenseShares,
+  validateExpenseSplit,
+} from "~~/utils/expenseSplit";
+import { validateExpense } from "~~/utils/expenseValidation";
+
+const split = (overrides: Partial<ExpenseSplit>): ExpenseSplit => ({
+  amount: "90",
+  fxRate: "1",
+  participants: [ALICE, BOB, CAROL],
+  splitMode: "equal",
+  ...overrides,
+});
+
+describe("validateExpenseSplit", () => {
+  it("needs no weights for an equal split", () => {
+    expect(validateExpenseSplit(split({}))).toEqual([]);
+  });
+
+  it("requires exact amounts to add up to the total", () => {
+    expect(validateExpenseSplit(split({ splitMode: "exact", splitWeights: ["40", "30", "20"] }))).toEqual([]);
+    expect(validateExpenseSplit(split({ splitMode: "exact", splitWeights: ["40", "30", "10"] }))).toEqual([
+      "Exact amounts add up to 80 but the expense total is 90",
+    ]);
+  });
+
+  it("requires percentages to add up to 100", () => {
+    expect(validateExpenseSplit(split({ splitMode: "percent", splitWeights: ["50", "25.5", "24.5"] }))).toEqual([]);
+    expect(validateExpenseSplit(split({ splitMode: "percent", splitWeights: ["50", "25", "20"] }))).toEqual([
+      "Percentages add up to 95% instead of 100%",
+    ]);
+  });
+
+  it("requires at least one non-zero share", () => {
+    expect(validateExpenseSplit(split({ splitMode: "shares", splitWeights: ["0", "0", "0"] }))).toEqual([
+      "At least one participant must have a share greater than zero",
+    ]);
+  });
+
+  it("rejects missing, negative and unknown weights", () => {
+    expect(validateExpenseSplit(split({ splitMode: "shares", splitWeights: ["1", "2"] }))).toEqual([
+      "Split weights must be provided for every participant",
+    ]);
+    expect(validateExpenseSplit(split({ splitMode: "shares", splitWeights: ["1", "-2", "x"] }))).toEqual([
+      "Split weight for participant 2 must be a non-negative number with at most 6 decimals",
+      "Split weight for participant 3 must be a non-negative number with at most 6 decimals",
+    ]);
+    expect(validateExpenseSplit(split({ splitMode: "halves" as ExpenseSplit["splitMode"] }))).toEqual([
+      "Unknown split mode: halves",
+    ]);
+  });
+
+  it("is part of validateExpense", () => {
+    const result = validateExpense(
+      createExpense("a", { participants: [ALICE, BOB, CAROL], splitMode: "percent", splitWeights: ["50", "50", "50"] }),
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(["Percentages add up to 150% instead of 100%"]);
+  });
+});
+
+describe("getExpenseShares", () => {
+  it("splits equally", () => {
+    expect(getExpenseShares(split({}))).toEqual([30_000_000n, 30_000_000n, 30_000_000n]);
+  });
+
+  it("uses exact amounts as entered", () => {
+    expect(getExpenseShares(split({ splitMode: "exact", splitWeights: ["40", "30.25", "19.75"] }))).toEqual([
+      40_000_000n,
+      30_250_000n,
+      19_750_000n,
+    ]);
+  });
+
+  it("splits by percentage", () => {
+    expect(getExpenseShares(split({ splitMode: "percent", splitWeights: ["50", "30", "20"] }))).toEqual([
+      45_000_000n,
+      27_000_000n,
+      18_000_000n,
+    ]);
+  });
+
+  it("splits by shares, e.g. by room size", () => {
+    expect(getExpenseShares(split({ amount: "1200", splitMode: "shares", splitWeights: ["3", "2", "1"] }))).toEqual([
+      600_000_000n,
+      400_000_000n,
+      200_000_000n,
+    ]);
+  });
+
+  it("converts foreign currency expenses with their fxRate snapshot", () => {
+    // 1,000 JPY is 6.7 USD; the leftover unit goes to the lowest address
+    expect(getExpenseShares(split({ amount: "1000", fxRate: "0.0067" }))).toEqual([2_233_334n, 2_233_333n, 2_233_333n]);
+    // Exact amounts are entered in EUR and converted with the expense
+    expect(
+      getExpenseShares(split({ amount: "100", fxRate: "1.08", splitMode: "exact", splitWeights: ["50", "30", "20"] })),
+    ).toEqual([54_000_000n, 32_400_000n, 21_600_000n]);
+  });
+
+  it("leaves a participant with a zero share out of the expense", () => {
+    expect(getExpenseShares(split({ splitMode: "shares", splitWeights: ["1", "0", "1"] }))).toEqual([
+      45_000_000n,
+      0n,
+      45_000_000n,
+    ]);
+  });
+});
+
+describe("calculateChannelBalances", () => {
+  it("credits the payer and charges each participant their weighted share", () => {
+    const balances = calculateChannelBalances(
+      [ALICE, BOB, CAROL],
+      [
+        createExpense("rent", {
+          amount: "1200",
+          participants: [ALICE, BOB, CAROL],
+          splitMode: "shares",
+          splitWeights: ["3", "2", "1"],
+        }),
+        createExpense("dinner", {
+          amount: "60",
+          paidBy: BOB,
+          participants: [ALICE, BOB],
+          splitMode: "exact",
+          splitWeights: ["45", "15"],
+        }),
+      ],
+    );
+
+    expect(balances).toEqual([555_000_000n, -355_000_000n, -200_000_000n]);
+    expect(balances.reduce((sum, balance) => sum + balance, 0n)).toBe(0n);
+  });
+
+  it("skips deleted expenses and expenses outside the channel", () => {
+    const outsider = "0x00000000000000000000000000000000000000d4";
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const balances = calculateChannelBalances(
+      [ALICE, BOB],
+      [
+        createExpense("deleted", { participants: [ALICE, BOB], deleted: true }),
+        createExpense("outside", { participants: [ALICE, outsider] }),
+      ],
+    );
+
+    expect(balances).toEqual([0n, 0n]);
+    expect(warn).toHaveBeenCalledWith("Skipping expense outside: references an address outside the channel");
+    warn.mockRestore();
+  });
+});
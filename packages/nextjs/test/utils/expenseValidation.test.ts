@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createExpense } from "~~/test/fixtures";
+import { validateExpense } from "~~/utils/expenseValidation";
+
+describe("validateExpense", () => {
+  it("accepts a well-formed expense", () => {
+    expect(validateExpense(createExpense("dinner", { timestamp: Date.now() }))).toEqual({
+      isValid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  describe("currency", () => {
+    it("accepts supported currencies with their rate snapshot", () => {
+      expect(
+        validateExpense(createExpense("dinner", { currency: "JPY", amount: "1500", fxRate: "0.0067" })).errors,
+      ).toEqual([]);
+    });
+
+    it("rejects unsupported currencies", () => {
+      expect(validateExpense(createExpense("dinner", { currency: "XYZ", fxRate: "2" })).errors).toEqual([
+        "Unsupported currency: XYZ",
+      ]);
+    });
+
+    it("requires a positive rate, and a rate of 1 for the settlement currency", () => {
+      expect(validateExpense(createExpense("dinner", { currency: "EUR", fxRate: "0" })).errors).toEqual([
+        "FX rate must be a positive number",
+      ]);
+      expect(validateExpense(createExpense("dinner", { currency: "EUR", fxRate: "abc" })).errors).toEqual([
+        "FX rate must be a positive number",
+      ]);
+      expect(validateExpense(createExpense("dinner", { fxRate: "1.08" })).errors).toEqual([
+        "FX rate must be 1 for USD expenses",
+      ]);
+    });
+  });
+
+  describe("category and tags", () => {
+    it("accepts a custom category unless the channel restricts them", () => {
+      const expense = createExpense("dinner", { category: "car rental", tags: ["trip"] });
+
+      expect(validateExpense(expense).errors).toEqual([]);
+      expect(validateExpense(expense, { allowedCategories: ["food", "lodging"] }).errors).toEqual([
+        "Unknown category: car rental",
+      ]);
+    });
+  });
+});
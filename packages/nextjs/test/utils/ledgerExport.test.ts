@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ALICE, BOB, CAROL, createExpense } from "~~/test/fixtures";
+import { buildParticipantStatement, exportExpensesCsv, exportLedgerBundle, toCsv } from "~~/utils/ledgerExport";
+
+const CHANNEL_ID = `0x${"11".repeat(32)}`;
+
+describe("toCsv", () => {
+  it("quotes cells with separators, quotes and newlines", () => {
+    expect(toCsv([["plain", "a,b", 'say "hi"', "two\nlines"]])).toBe('plain,"a,b","say ""hi""","two\nlines"');
+  });
+});
+
+describe("exportExpensesCsv", () => {
+  it("writes split details and one USD share column per participant", () => {
+    const csv = exportExpensesCsv(
+      [
+        createExpense("hotel", {
+          description: "Hotel, 2 nights",
+          category: "lodging",
+          tags: ["trip", "paris"],
+          amount: "200",
+          currency: "EUR",
+          fxRate: "1.1",
+          splitMode: "shares",
+          splitWeights: ["3", "1"],
+          timestamp: Date.UTC(2024, 0, 1),
+        }),
+      ],
+      [ALICE, BOB, CAROL],
+    );
+
+    const [header, row] = csv.split("\r\n");
+    expect(header.split(",").slice(-3)).toEqual([`Share ${ALICE}`, `Share ${BOB}`, `Share ${CAROL}`]);
+    expect(row).toBe(
+      [
+        "2024-01-01T00:00:00.000Z",
+        '"Hotel, 2 nights"',
+        "Lodging",
+        "trip;paris",
+        "200",
+        "EUR",
+        "1.1",
+        "220",
+        ALICE,
+        "shares",
+        "3;1",
+        "",
+        "165",
+        "55",
+        "0",
+      ].join(","),
+    );
+  });
+});
+
+describe("exportLedgerBundle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("bundles the latest signed state and settlements with bigints as strings", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2024, 5, 1));
+
+    const bundle = JSON.parse(
+      exportLedgerBundle({
+        channelId: CHANNEL_ID,
+        participants: [ALICE, BOB],
+        expenses: [createExpense("a")],
+        latestState: {
+          channelId: CHANNEL_ID,
+          nonce: 3,
+          stateHash: `0x${"22".repeat(32)}`,
+          balances: [
+            { address: ALICE, balance: 5_000_000n },
+            { address: BOB, balance: -5_000_000n },
+          ],
+          signatures: ["0xaa", "0xbb"],
+        },
+        settlements: [{ amount: 5_000_000n }],
+      }),
+    );
+
+    expect(bundle).toMatchObject({
+      version: 1,
+      exportedAt: "2024-06-01T00:00:00.000Z",
+      channelId: CHANNEL_ID,
+      latestState: {
+        nonce: 3,
+        balances: [
+          { address: ALICE, balance: "5000000" },
+          { address: BOB, balance: "-5000000" },
+        ],
+        signatures: ["0xaa", "0xbb"],
+      },
+      settlements: [{ amount: "5000000" }],
+    });
+    expect(bundle.expenses[0].id).toBe("a");
+  });
+});
+
+describe("buildParticipantStatement", () => {
+  it("lists a participant's expenses in order with a running balance", () => {
+    const expenses = [
+      createExpense("later", { amount: "30", paidBy: BOB, timestamp: 2 }),
+      createExpense("earlier", { amount: "10", timestamp: 1 }),
+      createExpense("unrelated", { paidBy: BOB, participants: [BOB, CAROL], timestamp: 3 }),
+    ];
+
+    const statement = buildParticipantStatement(ALICE, expenses);
+
+    expect(
+      statement.lines.map(({ expense, paid, share, balance }) => ({ id: expense.id, paid, share, balance })),
+    ).toEqual([
+      { id: "earlier", paid: 10_000_000n, share: 5_000_000n, balance: 5_000_000n },
+      { id: "later", paid: 0n, share: 15_000_000n, balance: -10_000_000n },
+    ]);
+    expect(statement).toMatchObject({ totalPaid: 10_000_000n, totalShare: 20_000_000n, balance: -10_000_000n });
+  });
+});
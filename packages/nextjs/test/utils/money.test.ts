@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { ALICE, BOB, CAROL } from "~~/test/fixtures";
+import {
+  FX_RATE_DECIMALS,
+  allocateByWeights,
+  convertToSettlementUnits,
+  formatMoney,
+  parseMoney,
+  splitEvenly,
+  tryParseMoney,
+} from "~~/utils/money";
+
+const sum = (amounts: bigint[]) => amounts.reduce((total, amount) => total + amount, 0n);
+
+describe("parseMoney", () => {
+  it("parses decimal strings straight into base units", () => {
+    expect(parseMoney("12.34")).toBe(12_340_000n);
+    expect(parseMoney("0.1")).toBe(100_000n);
+    expect(parseMoney(".5")).toBe(500_000n);
+    expect(parseMoney("-3")).toBe(-3_000_000n);
+    expect(parseMoney("1.000000")).toBe(1_000_000n);
+  });
+
+  it("does not lose units to float rounding", () => {
+    // parseFloat("0.29") * 100 floors to 28
+    expect(parseMoney("0.29")).toBe(290_000n);
+    expect(parseMoney("1234567.891011")).toBe(1_234_567_891_011n);
+  });
+
+  it("rejects malformed amounts and excess precision", () => {
+    expect(() => parseMoney("1e3")).toThrow('Invalid amount: "1e3"');
+    expect(() => parseMoney("1.2345678")).toThrow('Amount "1.2345678" has more than 6 decimal places');
+    expect(tryParseMoney("abc")).toBeNull();
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats base units without trailing zeros", () => {
+    expect(formatMoney(12_340_000n)).toBe("12.34");
+    expect(formatMoney(5_000_000n)).toBe("5");
+    expect(formatMoney(-1n)).toBe("-0.000001");
+  });
+
+  it("round-trips through parseMoney", () => {
+    ["0", "0.01", "99.999999", "-42.5"].forEach(amount => expect(formatMoney(parseMoney(amount))).toBe(amount));
+  });
+});
+
+describe("convertToSettlementUnits", () => {
+  it("converts with rates more precise than amounts", () => {
+    // 1,500 JPY at 0.0067 USD per yen
+    expect(convertToSettlementUnits(parseMoney("1500"), "0.0067")).toBe(10_050_000n);
+    expect(convertToSettlementUnits(parseMoney("12.5"), "1.08")).toBe(13_500_000n);
+    expect(parseMoney("0.000000000001", FX_RATE_DECIMALS)).toBe(1n);
+  });
+
+  it("rounds half away from zero", () => {
+    expect(convertToSettlementUnits(1n, "0.5")).toBe(1n);
+    expect(convertToSettlementUnits(1n, "0.499999999999")).toBe(0n);
+    expect(convertToSettlementUnits(-1n, "0.5")).toBe(-1n);
+  });
+});
+
+describe("allocateByWeights", () => {
+  it("always sums exactly to the total", () => {
+    const amounts = allocateByWeights(100n, [1n, 1n, 1n], [ALICE, BOB, CAROL]);
+
+    expect(amounts).toEqual([34n, 33n, 33n]);
+    expect(sum(amounts)).toBe(100n);
+  });
+
+  it("hands leftover units to the largest remainders first", () => {
+    // Exact shares are 1.67, 4.17 and 4.17: the single leftover unit goes to the first
+    expect(allocateByWeights(10n, [2n, 5n, 5n], [CAROL, ALICE, BOB])).toEqual([2n, 4n, 4n]);
+  });
+
+  it("breaks ties by address, whatever the input order", () => {
+    expect(splitEvenly(2n, [CAROL, ALICE, BOB])).toEqual([0n, 1n, 1n]);
+    expect(splitEvenly(2n, [BOB, CAROL, ALICE])).toEqual([1n, 0n, 1n]);
+  });
+
+  it("compares addresses case-insensitively", () => {
+    expect(splitEvenly(1n, [BOB, ALICE.toUpperCase().replace("0X", "0x")])).toEqual([0n, 1n]);
+  });
+
+  it("never gives units to a zero weight", () => {
+    expect(allocateByWeights(3n, [0n, 1n, 1n], [ALICE, BOB, CAROL])).toEqual([0n, 2n, 1n]);
+  });
+
+  it("splits negative totals symmetrically", () => {
+    expect(splitEvenly(-100n, [ALICE, BOB, CAROL])).toEqual([-34n, -33n, -33n]);
+  });
+
+  it("rejects weights it cannot allocate by", () => {
+    expect(() => allocateByWeights(1n, [0n, 0n], [ALICE, BOB])).toThrow(
+      "At least one weight must be greater than zero",
+    );
+    expect(() => allocateByWeights(1n, [1n, -1n], [ALICE, BOB])).toThrow("Weights must be non-negative");
+    expect(() => allocateByWeights(1n, [1n], [ALICE, BOB])).toThrow(
+      "Weights and tie-break keys must have the same length",
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { keccak256, toBytes } from "viem";
+import { describe, expect, it } from "vitest";
+import {
+  decodeReceiptData,
+  encodeReceiptData,
+  formatFileSize,
+  hashReceipt,
+  isReceiptMimeType,
+  validateReceipts,
+} from "~~/utils/receipts";
+import { hashExpense } from "~~/utils/stateEncoding";
+
+const receipt = (text: string) => toBytes(text);
+
+describe("hashReceipt", () => {
+  it("is the keccak256 of the file contents, whatever the buffer type", () => {
+    const data = receipt("Dinner for two: 84.00");
+
+    expect(hashReceipt(data)).toBe(keccak256(data));
+    expect(hashReceipt(data.slice().buffer)).toBe(keccak256(data));
+  });
+
+  it("binds the receipt into the expense hash that channel states commit to", () => {
+    const expense = {
+      id: "dinner",
+      amount: "84",
+      receipts: [hashReceipt(receipt("Dinner for two: 84.00"))],
+    };
+
+    expect(hashExpense({ ...expense, receipts: [hashReceipt(receipt("Dinner for two: 48.00"))] })).not.toBe(
+      hashExpense(expense),
+    );
+  });
+});
+
+describe("validateReceipts", () => {
+  const hashes = ["a", "b", "c", "d", "e", "f"].map(text => hashReceipt(receipt(text)));
+
+  it("accepts up to five distinct content hashes", () => {
+    expect(validateReceipts(undefined)).toEqual([]);
+    expect(validateReceipts(hashes.slice(0, 5))).toEqual([]);
+  });
+
+  it("rejects too many, malformed and duplicate receipts", () => {
+    expect(validateReceipts(hashes)).toEqual(["At most 5 receipts can be attached to an expense"]);
+    expect(validateReceipts([hashes[0].toUpperCase().replace("0X", "0x")])).toEqual([
+      "Receipts must be keccak256 content hashes",
+    ]);
+    expect(validateReceipts([hashes[0], hashes[0]])).toEqual(["The same receipt is attached more than once"]);
+    expect(validateReceipts(hashes[0])).toEqual(["Receipts must be an array"]);
+  });
+});
+
+describe("receipt transport", () => {
+  it("round-trips file contents through base64", () => {
+    const data = new Uint8Array(70_000).map((_, index) => index % 256);
+
+    const decoded = new Uint8Array(decodeReceiptData(encodeReceiptData(data.buffer)));
+
+    expect(decoded).toEqual(data);
+    expect(hashReceipt(decoded)).toBe(hashReceipt(data));
+  });
+});
+
+describe("receipt files", () => {
+  it("accepts images and PDFs only", () => {
+    expect(isReceiptMimeType("image/png")).toBe(true);
+    expect(isReceiptMimeType("application/pdf")).toBe(true);
+    expect(isReceiptMimeType("text/html")).toBe(false);
+  });
+
+  it("formats file sizes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+    expect(formatFileSize(2 * 1024 * 1024)).toBe("2.0 MB");
+  });
+});
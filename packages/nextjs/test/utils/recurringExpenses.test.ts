@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { ALICE, BOB } from "~~/test/fixtures";
+import {
+  MAX_INSTANCES_PER_RUN,
+  type RecurringExpenseTemplate,
+  getDueOccurrences,
+  getMissingInstances,
+  getNextOccurrence,
+  getOccurrenceDate,
+  getRecurringInstanceId,
+  parseCalendarDate,
+  validateRecurringExpense,
+} from "~~/utils/recurringExpenses";
+
+const createTemplate = (overrides: Partial<RecurringExpenseTemplate> = {}): RecurringExpenseTemplate => ({
+  id: "recurring-rent",
+  description: "Rent",
+  amount: "1200",
+  currency: "USD",
+  fxRate: "1",
+  paidBy: ALICE,
+  participants: [ALICE, BOB],
+  splitMode: "equal",
+  interval: "daily",
+  startDate: "2024-01-01",
+  createdBy: ALICE,
+  createdAt: 0,
+  ...overrides,
+});
+
+const at = (date: string) => parseCalendarDate(date) as number;
+
+/**
+ * Materialize batches the way the expense hook does, until nothing is missing
+ */
+const catchUp = (templates: RecurringExpenseTemplate[], now: number) => {
+  const existingIds = new Set<string>();
+  let batches = 0;
+  for (let batch = getMissingInstances(templates, existingIds, now); batch.length > 0; ) {
+    batch.forEach(instance => existingIds.add(instance.id));
+    batches++;
+    batch = getMissingInstances(templates, existingIds, now);
+  }
+  return { existingIds, batches };
+};
+
+describe("getOccurrenceDate", () => {
+  it("clamps monthly schedules to the end of shorter months", () => {
+    expect(getOccurrenceDate("2024-01-31", "monthly", 1)).toBe("2024-02-29");
+    expect(getOccurrenceDate("2023-01-31", "monthly", 1)).toBe("2023-02-28");
+    expect(getOccurrenceDate("2024-01-31", "monthly", 2)).toBe("2024-03-31");
+  });
+
+  it("clamps yearly schedules that start on a leap day", () => {
+    expect(getOccurrenceDate("2024-02-29", "yearly", 1)).toBe("2025-02-28");
+    expect(getOccurrenceDate("2024-02-29", "yearly", 4)).toBe("2028-02-29");
+  });
+});
+
+describe("getDueOccurrences", () => {
+  it("lists every occurrence up to now, bounded by the end date", () => {
+    const template = createTemplate({ interval: "weekly", endDate: "2024-01-20" });
+
+    expect(getDueOccurrences(template, at("2024-02-01"))).toEqual(["2024-01-01", "2024-01-08", "2024-01-15"]);
+    expect(getNextOccurrence(template, at("2024-02-01"))).toBeNull();
+    expect(getNextOccurrence(template, at("2024-01-09"))).toBe("2024-01-15");
+  });
+});
+
+describe("getMissingInstances", () => {
+  it("returns at most one batch of the oldest missing instances", () => {
+    const templates = [createTemplate(), createTemplate({ id: "recurring-internet", startDate: "2024-01-02" })];
+
+    const batch = getMissingInstances(templates, new Set(), at("2024-12-31"));
+
+    expect(batch).toHaveLength(MAX_INSTANCES_PER_RUN);
+    expect(batch[0].id).toBe(getRecurringInstanceId("recurring-rent", "2024-01-01"));
+    expect(batch.every((instance, index) => index === 0 || batch[index - 1].timestamp <= instance.timestamp)).toBe(
+      true,
+    );
+  });
+
+  it("skips instances already in the channel, deleted ones included", () => {
+    const template = createTemplate();
+    const existingIds = new Set([getRecurringInstanceId(template.id, "2024-01-01")]);
+
+    const batch = getMissingInstances([template], existingIds, at("2024-01-03"));
+
+    expect(batch.map(instance => instance.id)).toEqual([
+      getRecurringInstanceId(template.id, "2024-01-02"),
+      getRecurringInstanceId(template.id, "2024-01-03"),
+    ]);
+  });
+
+  it("catches up on a backlog larger than one batch", () => {
+    const template = createTemplate();
+    const now = at("2024-12-31");
+
+    const { existingIds, batches } = catchUp([template], now);
+
+    expect(existingIds.size).toBe(getDueOccurrences(template, now).length);
+    expect(batches).toBe(Math.ceil(366 / MAX_INSTANCES_PER_RUN));
+  });
+});
+
+describe("validateRecurringExpense", () => {
+  it("rejects an end date before the start date", () => {
+    expect(validateRecurringExpense(createTemplate({ endDate: "2023-12-31" }))).toEqual([
+      "End date cannot be before the start date",
+    ]);
+  });
+
+  it("validates the expense the template produces", () => {
+    expect(validateRecurringExpense(createTemplate())).toEqual([]);
+    expect(validateRecurringExpense(createTemplate({ participants: [] })).length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import type { ChannelState } from "~~/types/nitrolite";
+import { getExpensesRoot } from "~~/utils/stateEncoding";
+import {
+  deserializeChannelState,
+  getSignableState,
+  getStateDifferences,
+  orderSignatures,
+  recoverStateSigner,
+  serializeChannelState,
+  toSignableState,
+} from "~~/utils/stateSignatures";
+
+const CHANNEL_ID = `0x${"11".repeat(32)}` as const;
+
+const alice = privateKeyToAccount(generatePrivateKey());
+const bob = privateKeyToAccount(generatePrivateKey());
+
+const STATE = toSignableState({
+  channelId: CHANNEL_ID,
+  nonce: 4n,
+  balances: [7_500_000n, -7_500_000n],
+  expensesRoot: getExpensesRoot([]),
+});
+
+describe("getSignableState", () => {
+  it("orders balances like the on-chain participant list", () => {
+    const channel = {
+      channelId: CHANNEL_ID,
+      nonce: 4,
+      participants: [
+        { address: bob.address, balance: -7_500_000n, weight: 50 },
+        { address: alice.address, balance: 7_500_000n, weight: 50 },
+      ],
+    } as ChannelState;
+
+    expect(getSignableState(channel, [alice.address.toLowerCase(), bob.address])).toEqual(STATE);
+  });
+});
+
+describe("serialized states", () => {
+  it("round-trip through the JSON form sent to peers", () => {
+    const serialized = serializeChannelState(STATE);
+
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+    expect(deserializeChannelState(serialized)).toEqual(STATE);
+  });
+
+  it("are rejected when the hash does not match the contents", () => {
+    const serialized = serializeChannelState(STATE);
+
+    expect(() => deserializeChannelState({ ...serialized, balances: ["10000000", "-10000000"] })).toThrow(
+      "State hash does not match the state contents",
+    );
+    expect(() => deserializeChannelState({ ...serialized, channelId: "0x1234" })).toThrow(
+      "State channel ID, hash and expenses root must be 32-byte hex strings",
+    );
+  });
+});
+
+describe("state signatures", () => {
+  it("recovers the participant that signed the state hash", async () => {
+    const signature = await alice.signMessage({ message: { raw: STATE.stateHash } });
+
+    expect(await recoverStateSigner(STATE, signature)).toBe(alice.address);
+    expect(await recoverStateSigner({ ...STATE, nonce: 5n }, signature)).not.toBe(alice.address);
+  });
+
+  it("are ordered by participant for updateState and closeChannel", async () => {
+    const signatures = {
+      [bob.address.toLowerCase()]: await bob.signMessage({ message: { raw: STATE.stateHash } }),
+      [alice.address.toLowerCase()]: await alice.signMessage({ message: { raw: STATE.stateHash } }),
+    };
+
+    const ordered = orderSignatures([alice.address, bob.address], signatures);
+
+    expect(await Promise.all(ordered.map(signature => recoverStateSigner(STATE, signature)))).toEqual([
+      alice.address,
+      bob.address,
+    ]);
+    expect(() => orderSignatures([alice.address, bob.address], { [alice.address.toLowerCase()]: ordered[0] })).toThrow(
+      `Missing signature from ${bob.address}`,
+    );
+  });
+});
+
+describe("getStateDifferences", () => {
+  it("is empty for the same state and names what differs otherwise", () => {
+    expect(getStateDifferences(STATE, toSignableState({ ...STATE }))).toEqual([]);
+    expect(getStateDifferences(toSignableState({ ...STATE, balances: [5n, -5n] }), STATE)).toEqual(["balances"]);
+    expect(getStateDifferences(toSignableState({ ...STATE, nonce: 5n }), STATE)).toEqual(["nonce 5 instead of 4"]);
+  });
+});
@@ -1,5 +1,28 @@
+import type {
+  AuthChallengeResponseParams,
+  AuthRequestParams,
+  AuthVerifyRequestParams,
+  AuthVerifyResponseParams,
+  CloseAppSessionRequestParams,
+  CloseAppSessionResponseParams,
+  CreateAppSessionRequestParams,
+  CreateAppSessionResponseParams,
+  GetAppSessionsRequestParams,
+  GetAppSessionsResponseParams,
+  GetChannelsRequestParams,
+  GetChannelsResponseParams,
+  GetLedgerBalancesRequestParams,
+  GetLedgerBalancesResponseParams,
+  PingRequestParams,
+  PongResponseParams,
+  SubmitAppStateRequestParamsV02,
+  SubmitAppStateResponseParams,
+} from "@erc7824/nitrolite";
 // Import Viem types for compatibility
 import type { Address, Hex } from "viem";
+import type { Expense } from "~~/utils/expenseValidation";
+import type { RecurringExpenseTemplate } from "~~/utils/recurringExpenses";
+import type { SerializedChannelState } from "~~/utils/stateSignatures";
 
 /**
  * Nitrolite SDK Type Definitions
@@ -27,8 +50,8 @@ export interface ClearNodeConfig {
   endpoint: string;
   apiKey?: string;
   timeout: number;
-  retryAttempts: number;
-  reconnectDelay: number;
+  reconnectDelay: number; // First reconnect delay, doubled on every failed attempt
+  sessionKeyTtl: number; // Seconds a session key is authorized for before it is rotated
 }
 
 export interface ClearNodeMessage {
@@ -51,6 +74,41 @@ export interface ClearNodeConnection {
   lastPing?: number;
 }
 
+// Params and results of the ClearNode RPC methods we call, by method name
+export interface ClearNodeRPCMethods {
+  auth_request: { params: AuthRequestParams; result: AuthChallengeResponseParams };
+  auth_verify: { params: AuthVerifyRequestParams; result: AuthVerifyResponseParams };
+  create_app_session: { params: CreateAppSessionRequestParams; result: CreateAppSessionResponseParams };
+  submit_app_state: { params: SubmitAppStateRequestParamsV02; result: SubmitAppStateResponseParams };
+  close_app_session: { params: CloseAppSessionRequestParams; result: CloseAppSessionResponseParams };
+  get_app_sessions: {
+    params: GetAppSessionsRequestParams;
+    // Raw snake_case sessions when the SDK parser rejects them, e.g. for a protocol it does not know
+    result: GetAppSessionsResponseParams | { app_sessions: RawAppSession[] };
+  };
+  get_channels: { params: GetChannelsRequestParams; result: GetChannelsResponseParams };
+  get_ledger_balances: { params: GetLedgerBalancesRequestParams; result: GetLedgerBalancesResponseParams };
+  ping: { params: PingRequestParams; result: PongResponseParams };
+}
+
+export type ClearNodeRPCMethod = keyof ClearNodeRPCMethods;
+
+// An app session as ClearNode sends it, before the SDK parser renames its fields
+export interface RawAppSession {
+  app_session_id: string;
+  status?: string;
+  participants?: string[];
+  session_data?: string;
+}
+
+// An app session as returned by ClearNodeService.getAppSessions, whichever form ClearNode sent
+export interface ClearNodeAppSession {
+  appSessionId: string;
+  status?: string;
+  participants: string[];
+  sessionData?: string; // JSON written by the app that submitted the last state
+}
+
 // ============ Yellow Network API Types ============
 
 export interface YellowNetworkConfig {
@@ -158,9 +216,13 @@ export interface ChannelState {
   participants: ChannelParticipant[];
   nonce: number;
   stateHash: string;
+  expensesRoot?: string; // Commitment to the expense list, part of the state hash
+  expenses: Expense[]; // The expenses behind expensesRoot, tombstones included
+  recurringExpenses: RecurringExpenseTemplate[]; // Sent along with every state update
   isOpen: boolean;
   totalDeposit: bigint;
   chainId: number;
+  signatures?: string[]; // Participant signatures over the latest state, once collected
 }
 
 export interface PaymentRequest {
@@ -211,6 +273,28 @@ export interface ClearNodeServiceStatus extends ServiceStatus {
   sessionKey?: string;
 }
 
+// A ClearNode message as kept in the diagnostics log; only its shape is kept, never the values
+export interface ClearNodeRPCLogEntry {
+  direction: "sent" | "received";
+  method: string;
+  requestId?: number;
+  paramKeys: string[];
+  size: number; // Characters
+  timestamp: number;
+}
+
+// What the diagnostics panel shows about the ClearNode connection; leaves out the JWT
+export interface ClearNodeDiagnostics extends Omit<ClearNodeServiceStatus, "jwtToken"> {
+  connectionState: string;
+  endpoint: string;
+  participantAddress?: Address;
+  authExpiresAt?: number; // Unix seconds the session key is authorized until
+  heartbeatLatency?: number; // Milliseconds the last ping took to be answered
+  reconnectAttempts: number;
+  pendingRequests: { requestId: number; method: ClearNodeRPCMethod; sentAt: number }[];
+  rpcLog: ClearNodeRPCLogEntry[]; // Oldest first
+}
+
 export interface YellowNetworkServiceStatus extends ServiceStatus {
   activeIntents: number;
   supportedTokens: Address[];
@@ -275,10 +359,20 @@ export interface UsePYUSDContractReturn {
 
 // ============ Error Types ============
 
+// Why a ClearNode call failed
+export type ClearNodeErrorCode =
+  | "not_connected" // No open WebSocket
+  | "not_authenticated"
+  | "auth_failed"
+  | "timeout" // No response within ClearNodeConfig.timeout
+  | "connection_closed" // The socket closed before the response arrived
+  | "request_failed" // The request could not be created, signed or sent
+  | "rpc_error"; // ClearNode answered with an error, its params are in data
+
 export class ClearNodeError extends Error {
   constructor(
     message: string,
-    public code?: number,
+    public code?: ClearNodeErrorCode,
     public data?: any,
   ) {
     super(message);
@@ -334,13 +428,39 @@ export interface SettlementRoute {
 
 // ============ Event Types ============
 
-export interface ChannelEvent {
-  type: "opened" | "closed" | "state_updated" | "dispute_initiated" | "dispute_resolved";
+// Payload of each event emitted by the state channel client
+export interface ChannelEventData {
+  stateUpdated: {
+    channel: ChannelState;
+    source: "local" | "remote" | "loaded"; // Our own update, another participant's, or a channel (re)load
+  };
+  paymentReceived: {
+    amount: bigint;
+    sender: string;
+    recipient: string;
+  };
+  signatureRequested: {
+    roundId: string;
+    proposer: string; // Lowercase
+    state: SerializedChannelState; // As received, checked by the signing hook
+    deadline?: number;
+  };
+  channelClosed: {
+    channel: ChannelState;
+  };
+}
+
+export type ChannelEventType = keyof ChannelEventData;
+
+export interface ChannelEvent<T extends ChannelEventType = ChannelEventType> {
+  type: T;
   channelId: string;
   timestamp: number;
-  data: any;
+  data: ChannelEventData[T];
 }
 
+export type ChannelEventHandler<T extends ChannelEventType> = (event: ChannelEvent<T>) => void;
+
 export interface SettlementEvent {
   type: "initiated" | "confirmed" | "settled" | "failed";
   settlementId: string;
@@ -0,0 +1,48 @@
+/**
+ * Expense currencies
+ * Currencies an expense can be entered in before conversion to the channel's settlement unit
+ */
+
+export interface Currency {
+  code: string;
+  symbol: string;
+  name: string;
+}
+
+// Channel balances are always kept in USD (settled in PYUSD 1:1)
+export const SETTLEMENT_CURRENCY = "USD";
+
+export const SUPPORTED_CURRENCIES: Currency[] = [
+  { code: "USD", symbol: "$", name: "US Dollar" },
+  { code: "EUR", symbol: "€", name: "Euro" },
+  { code: "GBP", symbol: "£", name: "British Pound" },
+  { code: "JPY", symbol: "¥", name: "Japanese Yen" },
+  { code: "CHF", symbol: "CHF ", name: "Swiss Franc" },
+  { code: "CAD", symbol: "CA$", name: "Canadian Dollar" },
+  { code: "AUD", symbol: "A$", name: "Australian Dollar" },
+  { code: "INR", symbol: "₹", name: "Indian Rupee" },
+  { code: "MXN", symbol: "MX$", name: "Mexican Peso" },
+  { code: "ETH", symbol: "Ξ", name: "Ether" },
+];
+
+/**
+ * Get currency metadata by ISO code
+ */
+export const getCurrency = (code: string): Currency | null => {
+  return SUPPORTED_CURRENCIES.find(currency => currency.code === code.toUpperCase()) || null;
+};
+
+/**
+ * Check if a currency code is supported
+ */
+export const isSupportedCurrency = (code: string): boolean => {
+  return getCurrency(code) !== null;
+};
+
+/**
+ * Format an amount in its currency, e.g. "€12.50"
+ */
+export const formatCurrencyAmount = (amount: string, code: string = SETTLEMENT_CURRENCY): string => {
+  const currency = getCurrency(code);
+  return currency ? `${currency.symbol}${amount}` : `${amount} ${code}`;
+};
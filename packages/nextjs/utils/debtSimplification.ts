@@ -0,0 +1,101 @@
+/**
+ * Debt Simplification
+ * Turns net channel balances into a short list of "who pays whom" transfers
+ *
+ * Balances follow the channel convention: positive means the participant is owed
+ * money (creditor), negative means they owe money (debtor), and all balances sum to zero.
+ */
+
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: string; // Token base units
+  token: string;
+  chainId: number;
+}
+
+export interface ParticipantBalance {
+  address: string;
+  balance: bigint;
+}
+
+export interface SimplifyDebtsOptions {
+  token: string;
+  chainId: number;
+}
+
+interface Position {
+  address: string;
+  amount: bigint; // Always positive: owed to a creditor or owed by a debtor
+}
+
+/**
+ * Orders positions by amount (largest first), then by address so the output is deterministic
+ */
+const comparePositions = (a: Position, b: Position): number => {
+  if (a.amount !== b.amount) {
+    return a.amount > b.amount ? -1 : 1;
+  }
+  return a.address.toLowerCase() < b.address.toLowerCase() ? -1 : 1;
+};
+
+/**
+ * Compute a minimal list of transfers that settles every balance
+ *
+ * Debtors and creditors whose amounts match exactly are paired first, since each such
+ * pair settles with a single transfer. The rest are settled greedily by repeatedly
+ * matching the largest debtor with the largest creditor, which needs at most
+ * (participants - 1) transfers in total.
+ */
+export function simplifyDebts(balances: ParticipantBalance[], options: SimplifyDebtsOptions): Settlement[] {
+  const total = balances.reduce((sum, { balance }) => sum + balance, 0n);
+  if (total !== 0n) {
+    throw new Error(`Balances must sum to zero (got ${total})`);
+  }
+
+  let creditors: Position[] = balances
+    .filter(({ balance }) => balance > 0n)
+    .map(({ address, balance }) => ({ address, amount: balance }))
+    .sort(comparePositions);
+  let debtors: Position[] = balances
+    .filter(({ balance }) => balance < 0n)
+    .map(({ address, balance }) => ({ address, amount: -balance }))
+    .sort(comparePositions);
+
+  const settlements: Settlement[] = [];
+  const addSettlement = (debtor: Position, creditor: Position, amount: bigint) => {
+    settlements.push({
+      from: debtor.address,
+      to: creditor.address,
+      amount: amount.toString(),
+      token: options.token,
+      chainId: options.chainId,
+    });
+  };
+
+  // Pass 1: settle exact matches directly
+  debtors = debtors.filter(debtor => {
+    const creditorIndex = creditors.findIndex(creditor => creditor.amount === debtor.amount);
+    if (creditorIndex === -1) return true;
+
+    addSettlement(debtor, creditors[creditorIndex], debtor.amount);
+    creditors.splice(creditorIndex, 1);
+    return false;
+  });
+
+  // Pass 2: greedily match the largest debtor with the largest creditor
+  while (debtors.length > 0 && creditors.length > 0) {
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const amount = debtor.amount < creditor.amount ? debtor.amount : creditor.amount;
+
+    addSettlement(debtor, creditor, amount);
+
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+    debtors = debtors.filter(position => position.amount > 0n).sort(comparePositions);
+    creditors = creditors.filter(position => position.amount > 0n).sort(comparePositions);
+  }
+
+  return settlements;
+}
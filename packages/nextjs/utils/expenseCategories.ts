@@ -0,0 +1,86 @@
+/**
+ * Expense Categories and Tags
+ * Built-in categories, custom category and tag normalization
+ */
+
+export interface ExpenseCategory {
+  value: string;
+  label: string;
+}
+
+export const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  { value: "food", label: "Food" },
+  { value: "lodging", label: "Lodging" },
+  { value: "transport", label: "Transport" },
+];
+
+export const UNCATEGORIZED_LABEL = "Uncategorized";
+
+export const MAX_CATEGORY_LENGTH = 50;
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS = 10;
+
+/**
+ * Normalize a category name, e.g. "  Car Rental " -> "car rental"
+ */
+export function normalizeCategory(category: string): string {
+  return category.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Normalize a list of tags: trimmed, lowercased, without empties or duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeCategory).filter(tag => tag.length > 0)));
+}
+
+/**
+ * Parse a comma separated tag input, e.g. "trip, Paris" -> ["trip", "paris"]
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(","));
+}
+
+/**
+ * Display label for a category, falling back to the capitalized custom name
+ */
+export function getCategoryLabel(category?: string): string {
+  if (!category) return UNCATEGORIZED_LABEL;
+
+  const builtIn = DEFAULT_EXPENSE_CATEGORIES.find(({ value }) => value === category);
+  return builtIn ? builtIn.label : category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+/**
+ * Validates the category and tags of an expense
+ * `allowedCategories` is the channel's closed category list; when omitted any category is accepted.
+ * Returns a list of human readable errors (empty when valid)
+ */
+export function validateCategoryAndTags(category: unknown, tags: unknown, allowedCategories?: string[]): string[] {
+  const errors: string[] = [];
+
+  if (category !== undefined) {
+    if (typeof category !== "string" || category.trim().length === 0) {
+      errors.push("Category must be a non-empty string");
+    } else if (category.length > MAX_CATEGORY_LENGTH) {
+      errors.push(`Category cannot be longer than ${MAX_CATEGORY_LENGTH} characters`);
+    } else if (allowedCategories && !allowedCategories.map(normalizeCategory).includes(normalizeCategory(category))) {
+      errors.push(`Unknown category: ${category}`);
+    }
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== "string")) {
+      errors.push("Tags must be an array of strings");
+    } else {
+      if (tags.length > MAX_TAGS) {
+        errors.push(`An expense can have at most ${MAX_TAGS} tags`);
+      }
+      if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+        errors.push(`Tags cannot be longer than ${MAX_TAG_LENGTH} characters`);
+      }
+    }
+  }
+
+  return errors;
+}
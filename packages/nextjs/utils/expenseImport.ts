@@ -0,0 +1,349 @@
+/**
+ * Expense Import
+ * Parses CSV / JSON exports from other split apps and bank statements into expenses
+ *
+ * Import is done in three steps: parse the file into a table, map its columns to
+ * expense fields (and payer names to participant addresses), then build and
+ * validate one expense per row so the caller can preview errors before importing.
+ */
+import { SETTLEMENT_CURRENCY } from "./currencies";
+import { parseTagInput } from "./expenseCategories";
+import { type Expense, type ExpenseValidationOptions, sanitizeExpense, validateExpenses } from "./expenseValidation";
+
+export type ImportFormat = "csv" | "json";
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportField =
+  | "date"
+  | "description"
+  | "amount"
+  | "currency"
+  | "fxRate"
+  | "paidBy"
+  | "participants"
+  | "category"
+  | "tags";
+
+export const IMPORT_FIELDS: Array<{ value: ImportField; label: string; required: boolean }> = [
+  { value: "date", label: "Date", required: false },
+  { value: "description", label: "Description", required: true },
+  { value: "amount", label: "Amount", required: true },
+  { value: "currency", label: "Currency", required: false },
+  { value: "fxRate", label: "Exchange rate (USD)", required: false },
+  { value: "paidBy", label: "Paid by", required: false },
+  { value: "participants", label: "Split between", required: false },
+  { value: "category", label: "Category", required: false },
+  { value: "tags", label: "Tags", required: false },
+];
+
+// Column index per field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Name (or address) used in the file -> participant address
+export type PayerMapping = Record<string, string>;
+
+export interface ImportOptions {
+  channelId: string;
+  participants: string[]; // Channel participants; rows without a split column are split equally between all of them
+  payerMapping: PayerMapping;
+  defaultPayer?: string; // Used when the file has no payer column
+  fxRates?: Record<string, string>; // Fallback rates for rows without an exchange rate column
+  validation?: ExpenseValidationOptions;
+  now?: number;
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based data row number, for display
+  expense: Expense | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Header names (lowercased) recognized for each field, e.g. in Splitwise and bank exports
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "transaction date", "posted date", "booking date"],
+  description: ["description", "memo", "details", "name", "title", "payee"],
+  amount: ["amount", "cost", "total", "value", "debit"],
+  currency: ["currency", "ccy"],
+  fxRate: ["fx rate", "fxrate", "exchange rate", "rate"],
+  paidBy: ["paid by", "paidby", "payer", "paid"],
+  participants: ["participants", "split between", "split with", "for"],
+  category: ["category", "type"],
+  tags: ["tags", "labels"],
+};
+
+// Separators accepted between names in the "split between" column
+const LIST_SEPARATOR = /[;|]/;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF) into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+/**
+ * Parse an export file into a header row and data rows
+ * JSON files must contain an array of flat objects (or an object with an `expenses` array).
+ */
+export function parseImportFile(text: string, format: ImportFormat): ImportTable {
+  if (format === "csv") {
+    const [headers = [], ...rows] = parseCsv(text);
+    return { headers: headers.map(header => header.trim()), rows };
+  }
+
+  const data = JSON.parse(text);
+  const records: Record<string, unknown>[] = Array.isArray(data) ? data : data?.expenses;
+  if (!Array.isArray(records)) {
+    throw new Error("JSON import must be an array of expenses");
+  }
+
+  const headers = Array.from(new Set(records.flatMap(record => Object.keys(record ?? {}))));
+  const rows = records.map(record =>
+    headers.map(header => {
+      const value = record?.[header];
+      if (value === undefined || value === null) return "";
+      return Array.isArray(value) ? value.join(";") : String(value);
+    }),
+  );
+
+  return { headers, rows };
+}
+
+/**
+ * Detect the file format from its name, falling back to sniffing the content
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  if (fileName.toLowerCase().endsWith(".json")) return "json";
+  if (fileName.toLowerCase().endsWith(".csv")) return "csv";
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping: ColumnMapping = {};
+
+  (Object.keys(HEADER_ALIASES) as ImportField[]).forEach(field => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+const getCell = (row: string[], mapping: ColumnMapping, field: ImportField): string => {
+  const index = mapping[field];
+  return index === undefined ? "" : (row[index] ?? "").trim();
+};
+
+/**
+ * Distinct names used in the payer and split columns, to be mapped to addresses
+ */
+export function getImportedNames(table: ImportTable, mapping: ColumnMapping): string[] {
+  const names = new Set<string>();
+
+  table.rows.forEach(row => {
+    const payer = getCell(row, mapping, "paidBy");
+    if (payer) names.add(payer);
+
+    getCell(row, mapping, "participants")
+      .split(LIST_SEPARATOR)
+      .map(name => name.trim())
+      .filter(Boolean)
+      .forEach(name => names.add(name));
+  });
+
+  return Array.from(names).sort();
+}
+
+/**
+ * Suggest payer mappings for names that already are, or case-insensitively match, participant addresses
+ */
+export function guessPayerMapping(names: string[], participants: string[]): PayerMapping {
+  const mapping: PayerMapping = {};
+  names.forEach(name => {
+    const participant = participants.find(address => address.toLowerCase() === name.toLowerCase());
+    if (participant) mapping[name] = participant;
+  });
+  return mapping;
+}
+
+/**
+ * Normalize an amount cell, e.g. "$1,234.50" -> "1234.50", "1.234,50 €" -> "1234.50", "(12.00)" -> "-12.00"
+ * The last of "." and "," is the decimal separator when both appear. A lone separator is a
+ * thousands separator when it repeats, or when it is a comma followed by exactly three digits.
+ */
+export function parseImportedAmount(value: string): string {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || /^[^\d]*[-−]/.test(trimmed) || /[-−]$/.test(trimmed);
+  const digits = trimmed.replace(/[^\d.,]/g, "");
+
+  let decimalSeparator: string | null = null;
+  if (digits.includes(".") && digits.includes(",")) {
+    decimalSeparator = digits.lastIndexOf(".") > digits.lastIndexOf(",") ? "." : ",";
+  } else {
+    const separator = digits.includes(",") ? "," : digits.includes(".") ? "." : null;
+    const isThousands =
+      separator !== null &&
+      (digits.split(separator).length > 2 || (separator === "," && /^[1-9]\d{0,2},\d{3}$/.test(digits)));
+    decimalSeparator = isThousands ? null : separator;
+  }
+
+  const [integerPart, fractionPart] =
+    decimalSeparator === null
+      ? [digits, undefined]
+      : [digits.slice(0, digits.lastIndexOf(decimalSeparator)), digits.slice(digits.lastIndexOf(decimalSeparator) + 1)];
+  const normalized = integerPart.replace(/[.,]/g, "") + (fractionPart !== undefined ? `.${fractionPart}` : "");
+
+  return negative && normalized ? `-${normalized}` : normalized;
+}
+
+/**
+ * Parse a date cell into a timestamp; yyyy-mm-dd dates are read as local midnight
+ */
+export function parseImportedDate(value: string): number | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const timestamp = new Date(`${value}T00:00:00`).getTime();
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * Build, sanitize and validate one expense per data row
+ */
+export function buildImportedExpenses(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+): ImportRowResult[] {
+  const now = options.now ?? Date.now();
+  const resolve = (name: string): string | undefined => options.payerMapping[name];
+
+  return table.rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Amount; bank statements list spending as negative amounts, and refunds are not expenses
+    const amount = parseImportedAmount(getCell(row, mapping, "amount"));
+    if (amount.startsWith("-")) {
+      errors.push(`Negative amount ${amount}: enter spending as a positive amount or remove the row`);
+    }
+
+    // Date
+    const dateCell = getCell(row, mapping, "date");
+    let timestamp = now;
+    if (dateCell) {
+      const parsed = parseImportedDate(dateCell);
+      if (parsed === null) {
+        errors.push(`Unrecognized date: ${dateCell}`);
+      } else {
+        timestamp = parsed;
+      }
+    }
+
+    // Payer
+    const payerName = getCell(row, mapping, "paidBy");
+    const paidBy = payerName ? resolve(payerName) : options.defaultPayer;
+    if (!paidBy) {
+      errors.push(payerName ? `No participant mapped for payer "${payerName}"` : "No payer for this row");
+    }
+
+    // Participants; everyone in the channel when the file doesn't say
+    const participantNames = getCell(row, mapping, "participants")
+      .split(LIST_SEPARATOR)
+      .map(name => name.trim())
+      .filter(Boolean);
+    const participants =
+      participantNames.length > 0
+        ? participantNames.map(name => resolve(name)).filter((address): address is string => Boolean(address))
+        : options.participants;
+    participantNames.filter(name => !resolve(name)).forEach(name => errors.push(`No participant mapped for "${name}"`));
+
+    // Currency and exchange rate snapshot
+    const currency = (getCell(row, mapping, "currency") || SETTLEMENT_CURRENCY).toUpperCase();
+    const fxRate =
+      currency === SETTLEMENT_CURRENCY ? "1" : getCell(row, mapping, "fxRate") || options.fxRates?.[currency] || "";
+    if (!fxRate) {
+      errors.push(`No exchange rate for ${currency}`);
+    }
+
+    const category = getCell(row, mapping, "category");
+    const tags = parseTagInput(getCell(row, mapping, "tags"));
+
+    if (errors.length > 0) {
+      return { row: index + 1, expense: null, errors, warnings };
+    }
+
+    const expense = sanitizeExpense({
+      id: `${options.channelId}-import-${now}-${index}`,
+      description: getCell(row, mapping, "description"),
+      category: category || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      amount,
+      currency,
+      fxRate,
+      paidBy: paidBy as string,
+      participants,
+      splitMode: "equal",
+      timestamp,
+    });
+
+    const validation = validateExpenses([expense], options.validation);
+    return {
+      row: index + 1,
+      expense: validation.isValid ? expense : null,
+      errors: validation.errors.map(error => error.replace(/^Expense at index 0 is invalid: /, "")),
+      warnings: [...warnings, ...validation.warnings.map(warning => warning.replace(/^Expense at index 0: /, ""))],
+    };
+  });
+}
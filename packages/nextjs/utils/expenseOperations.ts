@@ -0,0 +1,318 @@
+/**
+ * Expense Operations
+ * Operation-based expense deltas, so concurrent updates at the same nonce merge instead of overwriting
+ *
+ * Each state update carries the operations behind it (add, edit or remove one expense).
+ * Every participant applies the union of the operations it has seen, in one deterministic
+ * order, to the same base expense list, so all of them end up with the same expenses
+ * whichever update arrived first. Operations are only folded into the base at a state every
+ * participant signed (see checkpointLog), the one point all of them agree on.
+ */
+import {
+  EDITABLE_EXPENSE_FIELDS,
+  type EditableExpenseField,
+  type ExpenseRevision,
+  appendRevision,
+  deleteExpense,
+  isRevisionLogExtension,
+} from "./expenseRevisions";
+import { type Expense, type ExpenseValidationOptions, sanitizeExpense, validateExpenses } from "./expenseValidation";
+import { canonicalJson } from "./stateEncoding";
+
+interface OperationMeta {
+  id: string;
+  author: string; // Lowercase address of the participant that made the change
+  baseNonce: number; // Channel nonce the change was made on top of
+  timestamp: number;
+}
+
+export type ExpenseOperation =
+  | (OperationMeta & { kind: "add"; expense: Expense })
+  | (OperationMeta & {
+      kind: "edit";
+      expenseId: string;
+      updates: Partial<Pick<Expense, EditableExpenseField>>;
+      cleared: EditableExpenseField[]; // Optional fields the edit removed
+      revisions: Omit<ExpenseRevision, "revision">[]; // Renumbered when applied
+    })
+  | (OperationMeta & { kind: "remove"; expenseId: string }); // Leaves a tombstone, like deleteExpense
+
+// Expenses as a base list plus the operations applied on top of it
+export interface ExpenseLog {
+  base: Expense[];
+  operations: ExpenseOperation[]; // Sorted with compareOperations
+  folded: string[]; // IDs of operations already part of the base
+}
+
+// The expense part of a state update received from another participant
+export interface RemoteExpenseUpdate {
+  nonce: number;
+  expenses: Expense[]; // As received, not yet validated
+  operations?: unknown[]; // Missing from updates that replace the expense list
+}
+
+export type MergeResult =
+  | {
+      isValid: true;
+      expenseLog: ExpenseLog;
+      expenses: Expense[]; // Sanitized expenses of the merged log
+      unseenOperations: ExpenseOperation[]; // Our operations the update did not include
+    }
+  | { isValid: false; errors: string[] };
+
+export function createOperationId(author: string, timestamp: number): string {
+  return `op-${author.toLowerCase()}-${timestamp}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Total order of operations: by base nonce, then time, author and ID as tie-breakers
+ */
+export function compareOperations(a: ExpenseOperation, b: ExpenseOperation): number {
+  if (a.baseNonce !== b.baseNonce) return a.baseNonce - b.baseNonce;
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+  if (a.author !== b.author) return a.author < b.author ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Apply operations in order to a base expense list
+ * Adds of an existing expense and edits or removals of a missing one are no-ops, so
+ * replaying an operation never changes the result. A deletion wins over concurrent edits:
+ * edits ordered after it leave the tombstone as it is, since its revision log is closed.
+ */
+export function applyOperations(base: Expense[], operations: ExpenseOperation[]): Expense[] {
+  return [...operations].sort(compareOperations).reduce<Expense[]>((expenses, operation) => {
+    switch (operation.kind) {
+      case "add":
+        return expenses.some(expense => expense.id === operation.expense.id)
+          ? expenses
+          : [...expenses, operation.expense];
+      case "edit":
+        return expenses.map(expense => {
+          if (expense.id !== operation.expenseId || expense.deleted) return expense;
+
+          const edited: Expense = { ...expense, ...operation.updates };
+          operation.cleared.forEach(field => delete edited[field]);
+          return operation.revisions.reduce(appendRevision, edited);
+        });
+      case "remove":
+        return expenses.map(expense =>
+          expense.id !== operation.expenseId || expense.deleted
+            ? expense
+            : deleteExpense(expense, {
+                author: operation.author,
+                nonce: operation.baseNonce + 1,
+                timestamp: operation.timestamp,
+              }),
+        );
+    }
+  }, base);
+}
+
+/**
+ * The operations that turn one expense list into another
+ */
+export function diffToOperations(
+  previous: Expense[],
+  next: Expense[],
+  meta: { author: string; baseNonce: number; timestamp: number },
+): ExpenseOperation[] {
+  const author = meta.author.toLowerCase();
+  const operationMeta = () => ({ ...meta, author, id: createOperationId(author, meta.timestamp) });
+  const previousById = new Map(previous.map(expense => [expense.id, expense]));
+  const nextIds = new Set(next.map(expense => expense.id));
+  const operations: ExpenseOperation[] = [];
+
+  next.forEach(expense => {
+    const before = previousById.get(expense.id);
+    if (!before) {
+      operations.push({ ...operationMeta(), kind: "add", expense });
+      return;
+    }
+    if (canonicalJson(before) === canonicalJson(expense)) return;
+
+    const changedFields = EDITABLE_EXPENSE_FIELDS.filter(
+      field => canonicalJson(before[field]) !== canonicalJson(expense[field]),
+    );
+    const previousRevisions = before.revisions ?? [];
+    operations.push({
+      ...operationMeta(),
+      kind: "edit",
+      expenseId: expense.id,
+      updates: Object.fromEntries(
+        changedFields.filter(field => expense[field] !== undefined).map(field => [field, expense[field]]),
+      ),
+      cleared: changedFields.filter(field => expense[field] === undefined),
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      revisions: (expense.revisions ?? []).slice(previousRevisions.length).map(({ revision, ...entry }) => entry),
+    });
+  });
+
+  previous.forEach(expense => {
+    if (!nextIds.has(expense.id)) {
+      operations.push({ ...operationMeta(), kind: "remove", expenseId: expense.id });
+    }
+  });
+
+  return operations;
+}
+
+export function createExpenseLog(expenses: Expense[]): ExpenseLog {
+  return { base: expenses, operations: [], folded: [] };
+}
+
+export function getLogExpenses(log: ExpenseLog): Expense[] {
+  return applyOperations(log.base, log.operations);
+}
+
+/**
+ * Add operations to a log, skipping ones it already has
+ */
+export function appendOperations(log: ExpenseLog, operations: ExpenseOperation[]): ExpenseLog {
+  const known = new Set([...log.folded, ...log.operations.map(operation => operation.id)]);
+  const added = operations.filter(operation => {
+    if (known.has(operation.id)) return false;
+    known.add(operation.id);
+    return true;
+  });
+  return { ...log, operations: [...log.operations, ...added].sort(compareOperations) };
+}
+
+/**
+ * Fold every operation into the base
+ * Only called for a state all participants signed: they hold the same expenses there, so
+ * operations arriving later are replayed on the same base by everyone.
+ */
+export function checkpointLog(log: ExpenseLog): ExpenseLog {
+  return {
+    base: getLogExpenses(log),
+    operations: [],
+    folded: [...log.folded, ...log.operations.map(operation => operation.id)],
+  };
+}
+
+/**
+ * Start again from another participant's expenses, replaying our operations they have not seen
+ * Used when their operations do not reach back to our state, so they cannot be merged.
+ */
+export function rebaseLog(
+  expenses: Expense[],
+  operations: ExpenseOperation[],
+  pending: ExpenseOperation[],
+): ExpenseLog {
+  const seen = new Set(operations.map(operation => operation.id));
+  return appendOperations(
+    {
+      base: expenses,
+      operations: [],
+      folded: [...seen],
+    },
+    pending.filter(operation => !seen.has(operation.id)),
+  );
+}
+
+/**
+ * Checks the shape of operations received from another participant
+ */
+export function isExpenseOperation(value: unknown): value is ExpenseOperation {
+  const operation = value as ExpenseOperation;
+  if (
+    !operation ||
+    typeof operation.id !== "string" ||
+    typeof operation.author !== "string" ||
+    typeof operation.baseNonce !== "number" ||
+    typeof operation.timestamp !== "number"
+  ) {
+    return false;
+  }
+
+  switch (operation.kind) {
+    case "add":
+      return typeof operation.expense?.id === "string";
+    case "edit":
+      return (
+        typeof operation.expenseId === "string" &&
+        typeof operation.updates === "object" &&
+        Array.isArray(operation.cleared) &&
+        operation.cleared.every(field => (EDITABLE_EXPENSE_FIELDS as readonly string[]).includes(field)) &&
+        Object.keys(operation.updates ?? {}).every(field =>
+          (EDITABLE_EXPENSE_FIELDS as readonly string[]).includes(field),
+        ) &&
+        Array.isArray(operation.revisions)
+      );
+    case "remove":
+      return typeof operation.expenseId === "string";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Merge another participant's state update into our log, without changing the log
+ * Operations in the update are merged with ours; updates without operations replace the
+ * expenses. The merged expense list is validated as a whole, so an operation that would
+ * produce an invalid expense rejects the update.
+ * @param localNonce nonce of our current state
+ * @param self lowercase address of this participant, whose unseen operations are reported
+ */
+export function mergeRemoteUpdate(
+  log: ExpenseLog,
+  localNonce: number,
+  self: string | undefined,
+  update: RemoteExpenseUpdate,
+  validationOptions: ExpenseValidationOptions = {},
+): MergeResult {
+  let merged: ExpenseLog;
+  let unseenOperations: ExpenseOperation[] = [];
+
+  if (!Array.isArray(update.operations)) {
+    const validation = validateExpenses(update.expenses, validationOptions);
+    if (!validation.isValid) {
+      return { isValid: false, errors: validation.errors };
+    }
+    const remoteExpenses = update.expenses.map(sanitizeExpense);
+
+    // Revision logs are append-only: reject updates that rewrite history we already have
+    const knownExpenses = new Map(getLogExpenses(log).map(expense => [expense.id, expense]));
+    const rewritten = remoteExpenses.find(expense => {
+      const known = knownExpenses.get(expense.id);
+      return known && !isRevisionLogExtension(known.revisions, expense.revisions);
+    });
+    if (rewritten) {
+      return { isValid: false, errors: [`Revision history of "${rewritten.description}" was altered`] };
+    }
+    merged = createExpenseLog(remoteExpenses);
+  } else {
+    if (!update.operations.every(isExpenseOperation)) {
+      return { isValid: false, errors: ["Malformed expense operations"] };
+    }
+
+    const operations = update.operations as ExpenseOperation[];
+    const remoteIds = new Set(operations.map(operation => operation.id));
+    const ownPending = log.operations.filter(operation => operation.author === self && !remoteIds.has(operation.id));
+    // Their operations start at the oldest nonce they still carry
+    const floor = operations.length > 0 ? Math.min(...operations.map(op => op.baseNonce)) : update.nonce - 1;
+
+    if (floor <= localNonce) {
+      unseenOperations = ownPending.filter(operation => operation.baseNonce >= floor);
+      merged = appendOperations(log, operations);
+    } else {
+      // We missed updates their operations no longer cover: take their expenses and replay ours
+      const validation = validateExpenses(update.expenses, validationOptions);
+      if (!validation.isValid) {
+        return { isValid: false, errors: validation.errors };
+      }
+      unseenOperations = ownPending;
+      merged = rebaseLog(update.expenses.map(sanitizeExpense), operations, unseenOperations);
+    }
+  }
+
+  // Operations carry expenses that were never validated on their own: check the result
+  const mergedExpenses = getLogExpenses(merged);
+  const validation = validateExpenses(mergedExpenses, validationOptions);
+  if (!validation.isValid) {
+    return { isValid: false, errors: validation.errors };
+  }
+
+  return { isValid: true, expenseLog: merged, expenses: mergedExpenses.map(sanitizeExpense), unseenOperations };
+}
@@ -0,0 +1,86 @@
+/**
+ * Expense Reports
+ * Spending totals per category and per participant, in settlement base units
+ */
+import { getExpenseSettlementAmount, getExpenseShares } from "./expenseSplit";
+import type { Expense } from "./expenseValidation";
+
+export interface DateRange {
+  from?: number; // Inclusive timestamp (ms)
+  to?: number; // Inclusive timestamp (ms)
+}
+
+export interface CategoryTotal {
+  category?: string; // Undefined for uncategorized expenses
+  total: bigint;
+  count: number;
+}
+
+export interface ParticipantTotal {
+  address: string;
+  paid: bigint; // What the participant paid for others and themselves
+  spent: bigint; // The participant's own share of the expenses
+}
+
+export interface ExpenseReport {
+  total: bigint;
+  count: number;
+  byCategory: CategoryTotal[];
+  byParticipant: ParticipantTotal[];
+}
+
+/**
+ * Checks whether an expense falls within the date range
+ */
+export function isInDateRange(expense: Pick<Expense, "timestamp">, { from, to }: DateRange): boolean {
+  return (from === undefined || expense.timestamp >= from) && (to === undefined || expense.timestamp <= to);
+}
+
+/**
+ * Totals the expenses within `range` per category and per participant
+ * Categories and participants are sorted by total, largest first.
+ */
+export function buildExpenseReport(expenses: Expense[], range: DateRange = {}): ExpenseReport {
+  const categories = new Map<string, CategoryTotal>();
+  const participants = new Map<string, ParticipantTotal>();
+  let total = 0n;
+  let count = 0;
+
+  const getParticipant = (address: string): ParticipantTotal => {
+    const key = address.toLowerCase();
+    if (!participants.has(key)) {
+      participants.set(key, { address: key, paid: 0n, spent: 0n });
+    }
+    return participants.get(key)!;
+  };
+
+  expenses
+    .filter(expense => isInDateRange(expense, range))
+    .forEach(expense => {
+      const amount = getExpenseSettlementAmount(expense);
+      total += amount;
+      count++;
+
+      const categoryKey = expense.category ?? "";
+      const category = categories.get(categoryKey) ?? { category: expense.category, total: 0n, count: 0 };
+      category.total += amount;
+      category.count++;
+      categories.set(categoryKey, category);
+
+      getParticipant(expense.paidBy).paid += amount;
+
+      const shares = getExpenseShares(expense);
+      expense.participants.forEach((address, index) => {
+        getParticipant(address).spent += shares[index];
+      });
+    });
+
+  return {
+    total,
+    count,
+    byCategory: Array.from(categories.values()).sort((a, b) => (a.total === b.total ? 0 : a.total > b.total ? -1 : 1)),
+    byParticipant: Array.from(participants.values()).sort((a, b) =>
+      a.spent === b.spent ? 0 : a.spent > b.spent ? -1 : 1,
+    ),
+  };
+}
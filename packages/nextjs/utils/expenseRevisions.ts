@@ -0,0 +1,165 @@
+/**
+ * Expense Revision History
+ * Append-only log of who created or changed an expense, and at which channel nonce
+ *
+ * The log travels with the expense in every state-channel update, so each participant
+ * can verify that an update only appends to the history they already have.
+ */
+import type { Expense } from "./expenseValidation";
+
+export type RevisionAction = "created" | "edited" | "deleted";
+
+// Fields that can change between revisions; id, timestamp and the log itself never do
+export const EDITABLE_EXPENSE_FIELDS = [
+  "description",
+  "category",
+  "tags",
+  "amount",
+  "currency",
+  "fxRate",
+  "paidBy",
+  "participants",
+  "splitMode",
+  "splitWeights",
+  "receipts",
+  "deleted",
+] as const;
+
+export type EditableExpenseField = (typeof EDITABLE_EXPENSE_FIELDS)[number];
+
+export type ExpenseUpdate = Partial<Pick<Expense, EditableExpenseField>>;
+
+export interface ExpenseFieldChange {
+  field: EditableExpenseField;
+  from: string;
+  to: string;
+}
+
+export interface ExpenseRevision {
+  revision: number; // Position in the log, starting at 0
+  action: RevisionAction;
+  author: string;
+  nonce: number; // Channel nonce of the state update that carried this revision
+  timestamp: number;
+  changes: ExpenseFieldChange[];
+}
+
+const FIELD_LABELS: Record<EditableExpenseField, string> = {
+  description: "Description",
+  category: "Category",
+  tags: "Tags",
+  amount: "Amount",
+  currency: "Currency",
+  fxRate: "FX rate",
+  paidBy: "Paid by",
+  participants: "Participants",
+  splitMode: "Split mode",
+  splitWeights: "Split weights",
+  receipts: "Receipts",
+  deleted: "Deleted",
+};
+
+/**
+ * Render a field value as a string for the revision log
+ */
+const formatFieldValue = (value: Expense[EditableExpenseField]): string => {
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+};
+
+/**
+ * Human readable name of an editable field
+ */
+export function getFieldLabel(field: EditableExpenseField): string {
+  return FIELD_LABELS[field];
+}
+
+/**
+ * Lists the fields that differ between two versions of an expense
+ */
+export function diffExpenses(before: Expense, after: Expense): ExpenseFieldChange[] {
+  return EDITABLE_EXPENSE_FIELDS.flatMap(field => {
+    const from = formatFieldValue(before[field]);
+    const to = formatFieldValue(after[field]);
+    return from === to ? [] : [{ field, from, to }];
+  });
+}
+
+/**
+ * Returns a copy of the expense with `revision` appended to its log
+ * The revision number is assigned from the current log length.
+ */
+export function appendRevision(expense: Expense, revision: Omit<ExpenseRevision, "revision">): Expense {
+  const revisions = expense.revisions ?? [];
+  return {
+    ...expense,
+    revisions: [...revisions, { ...revision, revision: revisions.length }],
+  };
+}
+
+/**
+ * Returns a tombstone of the expense: marked deleted, with a "deleted" revision appended
+ * The record keeps its history in the channel state but no longer counts towards balances.
+ */
+export function deleteExpense(
+  expense: Expense,
+  revision: Omit<ExpenseRevision, "revision" | "action" | "changes">,
+): Expense {
+  const deleted: Expense = { ...expense, deleted: true };
+  return appendRevision(deleted, { ...revision, action: "deleted", changes: diffExpenses(expense, deleted) });
+}
+
+/**
+ * Expenses that have not been deleted
+ */
+export function getActiveExpenses<T extends Pick<Expense, "deleted">>(expenses: T[]): T[] {
+  return expenses.filter(expense => !expense.deleted);
+}
+
+/**
+ * Checks that `next` keeps every entry of `previous` unchanged and only appends to it
+ */
+export function isRevisionLogExtension(previous: ExpenseRevision[] = [], next: ExpenseRevision[] = []): boolean {
+  if (next.length < previous.length) {
+    return false;
+  }
+  return previous.every((revision, index) => JSON.stringify(revision) === JSON.stringify(next[index]));
+}
+
+/**
+ * Validates the structure of a revision log
+ * Returns a list of human readable errors (empty when the log is valid)
+ */
+export function validateRevisionLog(revisions: unknown): string[] {
+  if (revisions === undefined) {
+    return [];
+  }
+  if (!Array.isArray(revisions)) {
+    return ["Revisions must be an array"];
+  }
+
+  const errors: string[] = [];
+  revisions.forEach((revision: ExpenseRevision, index) => {
+    if (revision.revision !== index) {
+      errors.push(`Revision ${index} is out of sequence`);
+    }
+    if (revision.action !== "created" && revision.action !== "edited" && revision.action !== "deleted") {
+      errors.push(`Revision ${index} has an unknown action`);
+    } else if (revision.action === "created" && index !== 0) {
+      errors.push(`Only the first revision can record the creation of an expense`);
+    } else if (revision.action === "deleted" && index !== revisions.length - 1) {
+      errors.push(`A deleted expense cannot be revised again`);
+    }
+    if (!revision.author || typeof revision.author !== "string") {
+      errors.push(`Revision ${index} must have an author`);
+    }
+    if (typeof revision.nonce !== "number" || (index > 0 && revision.nonce < revisions[index - 1].nonce)) {
+      errors.push(`Revision ${index} has an invalid channel nonce`);
+    }
+    if (!Array.isArray(revision.changes)) {
+      errors.push(`Revision ${index} changes must be an array`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,185 @@
+/**
+ * Expense Split Utilities
+ * Computes how an expense amount is divided between its participants
+ */
+import type { Expense } from "./expenseValidation";
+import {
+  allocateByWeights,
+  convertToSettlementUnits,
+  formatMoney,
+  parseMoney,
+  splitEvenly,
+  tryParseMoney,
+} from "./money";
+
+export type SplitMode = "equal" | "exact" | "percent" | "shares";
+
+export const SPLIT_MODES: Array<{ value: SplitMode; label: string; description: string }> = [
+  { value: "equal", label: "Equally", description: "Everyone pays the same amount" },
+  { value: "exact", label: "Exact amounts", description: "Enter how much each person owes" },
+  { value: "percent", label: "Percentages", description: "Enter each person's percentage of the total" },
+  { value: "shares", label: "Shares", description: "Split proportionally, e.g. by room size" },
+];
+
+export type ExpenseSplit = Pick<Expense, "amount" | "fxRate" | "participants" | "splitMode" | "splitWeights">;
+
+type ExpenseSplitWithPayer = ExpenseSplit & Pick<Expense, "id" | "paidBy" | "deleted">;
+
+// Percentages are parsed with money precision, so 100% is 100 * 10^6
+const ONE_HUNDRED_PERCENT = parseMoney("100");
+
+/**
+ * Checks whether a value is a known split mode
+ */
+export function isSplitMode(value: unknown): value is SplitMode {
+  return SPLIT_MODES.some(mode => mode.value === value);
+}
+
+/**
+ * Validates the split definition of an expense
+ * Returns a list of human readable errors (empty when the split is valid)
+ */
+export function validateExpenseSplit(split: ExpenseSplit): string[] {
+  const errors: string[] = [];
+  const mode = split.splitMode || "equal";
+
+  if (!isSplitMode(mode)) {
+    errors.push(`Unknown split mode: ${mode}`);
+    return errors;
+  }
+
+  if (mode === "equal") {
+    return errors;
+  }
+
+  const participants = Array.isArray(split.participants) ? split.participants : [];
+  const weights = split.splitWeights;
+
+  if (!Array.isArray(weights) || weights.length !== participants.length) {
+    errors.push("Split weights must be provided for every participant");
+    return errors;
+  }
+
+  const values = weights.map(weight => tryParseMoney(String(weight)));
+  values.forEach((value, index) => {
+    if (value === null || value < 0n) {
+      errors.push(`Split weight for participant ${index + 1} must be a non-negative number with at most 6 decimals`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const total = (values as bigint[]).reduce((sum, value) => sum + value, 0n);
+
+  switch (mode) {
+    case "exact": {
+      const amount = tryParseMoney(split.amount);
+      if (amount !== null && total !== amount) {
+        errors.push(`Exact amounts add up to ${formatMoney(total)} but the expense total is ${formatMoney(amount)}`);
+      }
+      break;
+    }
+    case "percent":
+      if (total !== ONE_HUNDRED_PERCENT) {
+        errors.push(`Percentages add up to ${formatMoney(total)}% instead of 100%`);
+      }
+      break;
+    case "shares":
+      if (total === 0n) {
+        errors.push("At least one participant must have a share greater than zero");
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Returns the amount owed by each participant in settlement base units, parallel to `participants`
+ * The shares always sum exactly to the converted expense amount; leftover units from division are
+ * assigned by the largest-remainder rule with participant addresses as tie-breaker.
+ * Assumes the split has already been validated.
+ */
+export function getExpenseShares(split: ExpenseSplit): bigint[] {
+  const total = getExpenseSettlementAmount(split);
+  const participants = split.participants;
+  const mode = split.splitMode || "equal";
+
+  if (participants.length === 0) {
+    return [];
+  }
+
+  if (mode === "equal" || !split.splitWeights) {
+    return splitEvenly(total, participants);
+  }
+
+  const weights = split.splitWeights.map(weight => parseMoney(String(weight)));
+
+  // Exact amounts are entered in the expense currency, so they are converted proportionally
+  // like percentages and shares; with an fxRate of 1 this returns the exact amounts unchanged
+  return allocateByWeights(total, weights, participants);
+}
+
+/**
+ * Returns the expense amount converted to settlement base units using its fxRate snapshot
+ */
+export function getExpenseSettlementAmount(split: Pick<Expense, "amount" | "fxRate">): bigint {
+  return convertToSettlementUnits(parseMoney(split.amount), split.fxRate || "1");
+}
+
+/**
+ * Computes net channel balances in settlement base units, parallel to `participants`
+ * Positive balances are owed to the participant, negative balances are owed by them.
+ * Expenses referencing addresses outside the channel are skipped entirely so the
+ * result always sums to zero, as required by BatchPayChannel.updateState. Deleted expenses
+ * do not count.
+ */
+export function calculateChannelBalances(participants: string[], expenses: ExpenseSplitWithPayer[]): bigint[] {
+  const balances = new Array<bigint>(participants.length).fill(0n);
+  const indexByAddress = new Map(participants.map((address, index) => [address.toLowerCase(), index]));
+
+  expenses.forEach(expense => {
+    if (expense.deleted) return;
+
+    const paidByIndex = indexByAddress.get(expense.paidBy.toLowerCase());
+    const participantIndexes = expense.participants.map(participant => indexByAddress.get(participant.toLowerCase()));
+
+    if (paidByIndex === undefined || participantIndexes.some(index => index === undefined)) {
+      console.warn(`Skipping expense ${expense.id}: references an address outside the channel`);
+      return;
+    }
+
+    const shares = getExpenseShares(expense);
+
+    // Add to payer's balance (they paid)
+    balances[paidByIndex] += getExpenseSettlementAmount(expense);
+
+    // Subtract each participant's share (they owe)
+    participantIndexes.forEach((participantIndex, index) => {
+      balances[participantIndex as number] -= shares[index];
+    });
+  });
+
+  return balances;
+}
+
+/**
+ * Short label describing how an expense was split, for expense lists
+ */
+export function describeSplit(split: ExpenseSplit): string {
+  const count = split.participants.length;
+  const base = `Split between ${count} participant${count !== 1 ? "s" : ""}`;
+
+  switch (split.splitMode) {
+    case "exact":
+      return `${base} by exact amounts`;
+    case "percent":
+      return `${base} by percentage`;
+    case "shares":
+      return `${base} by shares`;
+    default:
+      return base;
+  }
+}
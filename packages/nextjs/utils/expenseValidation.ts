@@ -2,14 +2,29 @@
  * Expense Validation Utilities
  * Ensures expense data integrity and consistency across participants
  */
+import { SETTLEMENT_CURRENCY, isSupportedCurrency } from "./currencies";
+import { normalizeCategory, normalizeTags, validateCategoryAndTags } from "./expenseCategories";
+import { type ExpenseRevision, validateRevisionLog } from "./expenseRevisions";
+import { type SplitMode, validateExpenseSplit } from "./expenseSplit";
+import { FX_RATE_DECIMALS, SETTLEMENT_DECIMALS, normalizeMoneyString, parseMoney, tryParseMoney } from "./money";
+import { validateReceipts } from "./receipts";
 
 export interface Expense {
   id: string;
   description: string;
-  amount: string;
+  category?: string; // Built-in (food, lodging, transport) or custom category name
+  tags?: string[];
+  amount: string; // Decimal string in `currency`
+  currency: string; // ISO code the expense was entered in
+  fxRate: string; // Snapshot of settlement currency (USD) per unit of `currency` at entry time
   paidBy: string;
   participants: string[];
+  splitMode: SplitMode;
+  splitWeights?: string[]; // Parallel to participants: amounts, percentages or shares depending on splitMode
+  receipts?: string[]; // keccak256 content hashes of receipt files, the files themselves stay off-chain
   timestamp: number;
+  revisions?: ExpenseRevision[]; // Append-only edit history, oldest first
+  deleted?: boolean; // Tombstone: kept for its history, excluded from balances and lists
 }
 
 export interface ExpenseValidationResult {
@@ -18,12 +33,17 @@ export interface ExpenseValidationResult {
   warnings: string[];
 }
 
+export interface ExpenseValidationOptions {
+  allowedCategories?: string[]; // Closed category list defined by the channel
+}
+
 /**
  * Validates a single expense
  */
-export function validateExpense(expense: Expense): ExpenseValidationResult {
+export function validateExpense(expense: Expense, options: ExpenseValidationOptions = {}): ExpenseValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  let hasValidAmount = false;
 
   // Required fields validation
   if (!expense.id || typeof expense.id !== "string") {
@@ -34,18 +54,41 @@ export function validateExpense(expense: Expense): ExpenseValidationResult {
     errors.push("Description is required and cannot be empty");
   }
 
+  errors.push(...validateCategoryAndTags(expense.category, expense.tags, options.allowedCategories));
+
   if (!expense.amount || typeof expense.amount !== "string") {
     errors.push("Amount is required and must be a string");
   } else {
-    const amount = parseFloat(expense.amount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = tryParseMoney(expense.amount);
+    if (amount === null) {
+      errors.push(`Amount must be a decimal number with at most ${SETTLEMENT_DECIMALS} decimal places`);
+    } else if (amount <= 0n) {
       errors.push("Amount must be a positive number");
+    } else {
+      hasValidAmount = true;
     }
-    if (amount > 1000000) {
+    if (amount !== null && amount > parseMoney("1000000")) {
       warnings.push("Amount is very large, please verify");
     }
   }
 
+  if (!expense.currency || typeof expense.currency !== "string") {
+    errors.push("Currency is required and must be a string");
+  } else if (!isSupportedCurrency(expense.currency)) {
+    errors.push(`Unsupported currency: ${expense.currency}`);
+  }
+
+  if (!expense.fxRate || typeof expense.fxRate !== "string") {
+    errors.push("FX rate is required and must be a string");
+  } else {
+    const fxRate = tryParseMoney(expense.fxRate, FX_RATE_DECIMALS);
+    if (fxRate === null || fxRate <= 0n) {
+      errors.push("FX rate must be a positive number");
+    } else if (expense.currency === SETTLEMENT_CURRENCY && fxRate !== parseMoney("1", FX_RATE_DECIMALS)) {
+      errors.push(`FX rate must be 1 for ${SETTLEMENT_CURRENCY} expenses`);
+    }
+  }
+
   if (!expense.paidBy || typeof expense.paidBy !== "string") {
     errors.push("PaidBy is required and must be a string");
   }
@@ -54,6 +97,9 @@ export function validateExpense(expense: Expense): ExpenseValidationResult {
     errors.push("Participants must be an array");
   } else if (expense.participants.length === 0) {
     errors.push("At least one participant is required");
+  } else if (hasValidAmount) {
+    // Split weights are checked against the total, so only once the amount is valid
+    errors.push(...validateExpenseSplit(expense));
   }
 
   if (!expense.timestamp || typeof expense.timestamp !== "number") {
@@ -71,6 +117,10 @@ export function validateExpense(expense: Expense): ExpenseValidationResult {
     }
   }
 
+  errors.push(...validateReceipts(expense.receipts));
+
+  errors.push(...validateRevisionLog(expense.revisions));
+
   // Address validation
   const addressRegex = /^0x[a-fA-F0-9]{40}$/;
   if (expense.paidBy && !addressRegex.test(expense.paidBy)) {
@@ -93,7 +143,7 @@ export function validateExpense(expense: Expense): ExpenseValidationResult {
 /**
  * Validates an array of expenses
  */
-export function validateExpenses(expenses: Expense[]): ExpenseValidationResult {
+export function validateExpenses(expenses: Expense[], options: ExpenseValidationOptions = {}): ExpenseValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -111,7 +161,7 @@ export function validateExpenses(expenses: Expense[]): ExpenseValidationResult {
     ids.add(expense.id);
 
     // Validate individual expense
-    const validation = validateExpense(expense);
+    const validation = validateExpense(expense, options);
     if (!validation.isValid) {
       errors.push(`Expense at index ${index} is invalid: ${validation.errors.join(", ")}`);
     }
@@ -176,8 +226,19 @@ export function sanitizeExpense(expense: Expense): Expense {
   return {
     ...expense,
     description: expense.description.trim().slice(0, 500), // Limit length and trim
-    amount: parseFloat(expense.amount).toString(), // Ensure numeric format
+    category: expense.category?.trim() ? normalizeCategory(expense.category) : undefined,
+    tags: expense.tags?.length ? normalizeTags(expense.tags) : undefined,
+    amount: normalizeMoneyString(expense.amount), // Ensure canonical numeric format
+    currency: (expense.currency || SETTLEMENT_CURRENCY).toUpperCase(),
+    fxRate: normalizeMoneyString(expense.fxRate || "1", FX_RATE_DECIMALS),
     paidBy: expense.paidBy.toLowerCase(), // Normalize address
     participants: expense.participants.map(p => p.toLowerCase()), // Normalize addresses
+    splitMode: expense.splitMode || "equal",
+    splitWeights:
+      expense.splitMode && expense.splitMode !== "equal"
+        ? expense.splitWeights?.map(w => normalizeMoneyString(String(w))) // Ensure canonical numeric format
+        : undefined,
+    receipts: expense.receipts?.length ? expense.receipts.map(hash => hash.toLowerCase()) : undefined,
+    deleted: expense.deleted === true || undefined,
   };
 }
@@ -0,0 +1,155 @@
+/**
+ * Ledger Export
+ * Gets a channel's expenses, balances and settlements out for accounting and off-chain members
+ */
+import { getCategoryLabel } from "./expenseCategories";
+import { getExpenseSettlementAmount, getExpenseShares } from "./expenseSplit";
+import type { Expense } from "./expenseValidation";
+import { formatMoney } from "./money";
+
+export const LEDGER_BUNDLE_VERSION = 1;
+
+export interface SignedStateSnapshot {
+  channelId: string;
+  nonce: number;
+  stateHash: string;
+  balances: Array<{ address: string; balance: bigint }>;
+  signatures: string[];
+}
+
+export interface LedgerBundle {
+  version: number;
+  exportedAt: string;
+  channelId: string;
+  participants: string[];
+  expenses: Expense[];
+  latestState: SignedStateSnapshot | null;
+  settlements: unknown[]; // As returned by BatchPayChannel.getChannelSettlements
+}
+
+export interface StatementLine {
+  expense: Expense;
+  paid: bigint; // Amount this participant paid for the expense
+  share: bigint; // This participant's share of the expense
+  balance: bigint; // Running net balance after this expense
+}
+
+export interface ParticipantStatement {
+  participant: string;
+  lines: StatementLine[];
+  totalPaid: bigint;
+  totalShare: bigint;
+  balance: bigint; // Positive: owed to the participant, negative: owed by them
+}
+
+/**
+ * Escape a CSV cell, quoting it when it contains separators, quotes or newlines
+ */
+const escapeCsvCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serialize rows of cells to CSV text
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+/**
+ * CSV of expenses with one share column (in USD) per channel participant
+ */
+export function exportExpensesCsv(expenses: Expense[], participants: string[]): string {
+  const header = [
+    "Date",
+    "Description",
+    "Category",
+    "Tags",
+    "Amount",
+    "Currency",
+    "FX Rate",
+    "Amount (USD)",
+    "Paid By",
+    "Split Mode",
+    "Split Weights",
+    "Receipts",
+    ...participants.map(participant => `Share ${participant}`),
+  ];
+
+  const rows = expenses.map(expense => {
+    const shares = getExpenseShares(expense);
+    const shareByAddress = new Map(
+      expense.participants.map((participant, index) => [participant.toLowerCase(), shares[index]]),
+    );
+
+    return [
+      new Date(expense.timestamp).toISOString(),
+      expense.description,
+      expense.category ? getCategoryLabel(expense.category) : "",
+      (expense.tags ?? []).join(";"),
+      expense.amount,
+      expense.currency,
+      expense.fxRate,
+      formatMoney(getExpenseSettlementAmount(expense)),
+      expense.paidBy,
+      expense.splitMode,
+      (expense.splitWeights ?? []).join(";"),
+      (expense.receipts ?? []).join(";"),
+      ...participants.map(participant => formatMoney(shareByAddress.get(participant.toLowerCase()) ?? 0n)),
+    ];
+  });
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * JSON bundle with everything needed to audit the channel off-chain
+ * bigint values are written as decimal strings.
+ */
+export function exportLedgerBundle(bundle: Omit<LedgerBundle, "version" | "exportedAt">): string {
+  const data: LedgerBundle = {
+    version: LEDGER_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...bundle,
+  };
+  return JSON.stringify(data, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+/**
+ * Chronological statement of one participant's paid amounts, shares and running balance
+ */
+export function buildParticipantStatement(participant: string, expenses: Expense[]): ParticipantStatement {
+  const address = participant.toLowerCase();
+  let totalPaid = 0n;
+  let totalShare = 0n;
+
+  const lines = [...expenses]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap(expense => {
+      const participantIndex = expense.participants.findIndex(p => p.toLowerCase() === address);
+      const paid = expense.paidBy.toLowerCase() === address ? getExpenseSettlementAmount(expense) : 0n;
+      const share = participantIndex === -1 ? 0n : getExpenseShares(expense)[participantIndex];
+
+      if (paid === 0n && share === 0n) {
+        return [];
+      }
+
+      totalPaid += paid;
+      totalShare += share;
+      return [{ expense, paid, share, balance: totalPaid - totalShare }];
+    });
+
+  return { participant, lines, totalPaid, totalShare, balance: totalPaid - totalShare };
+}
+
+/**
+ * Trigger a browser download of `content`
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
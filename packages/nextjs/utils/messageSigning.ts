@@ -10,6 +10,7 @@ import { secp256k1 } from "@noble/curves/secp256k1";
 import { Address, Hex, keccak256, recoverMessageAddress, toBytes } from "viem";
 import { useAccount, useChainId, useSignMessage, useSignTypedData, useSwitchChain } from "wagmi";
 import type { EIP712Domain, EIP712Types, ViemMessageSigner } from "~~/types/nitrolite";
+import { type EncodableChannelState, hashChannelState } from "~~/utils/stateEncoding";
 
 /**
  * Create message signer for ERC-7824 compliance using Viem
@@ -335,23 +336,13 @@ export const createStateChannelDomain = (chainId: number, contractAddress: Addre
 
 /**
  * Sign state update message
+ * EIP-191 signature over the canonical state hash, as recovered by BatchPayChannel._verifySignatures
  */
 export const signStateUpdate = async (
-  messageSigner: ViemMessageSigner,
-  channelId: string,
-  stateHash: string,
-  nonce: number,
-  balances: bigint[],
+  signMessage: (args: { message: { raw: Hex } }) => Promise<Hex>,
+  state: EncodableChannelState,
 ): Promise<Hex> => {
-  const stateUpdate = {
-    channelId,
-    stateHash,
-    nonce,
-    balances: balances.map(b => b.toString()),
-    timestamp: Date.now(),
-  };
-
-  return await messageSigner(stateUpdate);
+  return await signMessage({ message: { raw: hashChannelState(state) } });
 };
 
 /**
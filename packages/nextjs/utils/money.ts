@@ -0,0 +1,149 @@
+/**
+ * Money Utilities
+ * Integer minor-unit arithmetic for expense amounts and channel balances
+ *
+ * All amounts are handled as bigint token base units (6 decimals for PYUSD),
+ * never as floats, so that every participant derives identical balances.
+ */
+import { PYUSD_CONSTANTS } from "./tokens";
+
+// Channel balances are denominated in the settlement token's base units
+export const SETTLEMENT_DECIMALS = PYUSD_CONSTANTS.DECIMALS;
+
+// Exchange rates need more precision than amounts (e.g. JPY -> USD is ~0.0067)
+export const FX_RATE_DECIMALS = 12;
+
+const DECIMAL_REGEX = /^(-)?(\d+)(?:\.(\d*))?$|^(-)?\.(\d+)$/;
+
+/**
+ * Parse a decimal string (e.g. "12.34") into base units
+ * Throws if the string is not a plain decimal number or has more precision than `decimals`
+ */
+export function parseMoney(amount: string, decimals: number = SETTLEMENT_DECIMALS): bigint {
+  const match = DECIMAL_REGEX.exec(amount.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: "${amount}"`);
+  }
+
+  const negative = Boolean(match[1] || match[4]);
+  const wholePart = match[2] ?? "0";
+  const fractionalPart = (match[3] ?? match[5] ?? "").replace(/0+$/, "");
+
+  if (fractionalPart.length > decimals) {
+    throw new Error(`Amount "${amount}" has more than ${decimals} decimal places`);
+  }
+
+  const units = BigInt(wholePart) * 10n ** BigInt(decimals) + BigInt(fractionalPart.padEnd(decimals, "0") || "0");
+  return negative ? -units : units;
+}
+
+/**
+ * Parse a decimal string into base units, returning null instead of throwing
+ */
+export function tryParseMoney(amount: string, decimals: number = SETTLEMENT_DECIMALS): bigint | null {
+  try {
+    return parseMoney(amount, decimals);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format base units as a decimal string without trailing zeros
+ */
+export function formatMoney(units: bigint, decimals: number = SETTLEMENT_DECIMALS): string {
+  const negative = units < 0n;
+  const absolute = negative ? -units : units;
+  const divisor = 10n ** BigInt(decimals);
+  const wholePart = absolute / divisor;
+  const fractionalPart = (absolute % divisor).toString().padStart(decimals, "0").replace(/0+$/, "");
+
+  const formatted = fractionalPart ? `${wholePart}.${fractionalPart}` : wholePart.toString();
+  return negative ? `-${formatted}` : formatted;
+}
+
+/**
+ * Normalize a decimal string to its canonical form, leaving unparseable input untouched
+ */
+export function normalizeMoneyString(amount: string, decimals: number = SETTLEMENT_DECIMALS): string {
+  const units = tryParseMoney(amount, decimals);
+  return units === null ? amount : formatMoney(units, decimals);
+}
+
+/**
+ * Convert base units of an expense currency into settlement base units
+ * `fxRate` is a decimal string of settlement currency per unit of expense currency.
+ * The result is rounded half away from zero.
+ */
+export function convertToSettlementUnits(units: bigint, fxRate: string): bigint {
+  const rate = parseMoney(fxRate, FX_RATE_DECIMALS);
+  const scale = 10n ** BigInt(FX_RATE_DECIMALS);
+  const negative = units < 0n;
+  const product = (negative ? -units : units) * rate;
+  const converted = (product + scale / 2n) / scale;
+  return negative ? -converted : converted;
+}
+
+/**
+ * Split `total` proportionally to `weights` using the largest-remainder method
+ *
+ * Each entry first receives floor(total * weight / sum(weights)). The units lost to
+ * flooring are then handed out one at a time to the entries with the largest
+ * remainders. Ties are broken by `tieBreakKeys` (e.g. participant addresses) in
+ * ascending order, so the result never depends on input order or on who computes it.
+ * The returned amounts always sum exactly to `total`.
+ */
+export function allocateByWeights(total: bigint, weights: bigint[], tieBreakKeys: string[]): bigint[] {
+  if (weights.length !== tieBreakKeys.length) {
+    throw new Error("Weights and tie-break keys must have the same length");
+  }
+  if (weights.some(weight => weight < 0n)) {
+    throw new Error("Weights must be non-negative");
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (totalWeight === 0n) {
+    throw new Error("At least one weight must be greater than zero");
+  }
+
+  const negative = total < 0n;
+  const absolute = negative ? -total : total;
+
+  const allocations = weights.map(weight => (absolute * weight) / totalWeight);
+  const remainders = weights.map(weight => (absolute * weight) % totalWeight);
+  let leftover = absolute - allocations.reduce((sum, amount) => sum + amount, 0n);
+
+  const order = weights
+    .map((_, index) => index)
+    .filter(index => weights[index] > 0n)
+    .sort((a, b) => {
+      if (remainders[a] !== remainders[b]) {
+        return remainders[a] > remainders[b] ? -1 : 1;
+      }
+      const keyA = tieBreakKeys[a].toLowerCase();
+      const keyB = tieBreakKeys[b].toLowerCase();
+      if (keyA !== keyB) {
+        return keyA < keyB ? -1 : 1;
+      }
+      return a - b;
+    });
+
+  for (const index of order) {
+    if (leftover === 0n) break;
+    allocations[index] += 1n;
+    leftover -= 1n;
+  }
+
+  return negative ? allocations.map(amount => -amount) : allocations;
+}
+
+/**
+ * Split `total` evenly between `keys`, distributing leftover units deterministically
+ */
+export function splitEvenly(total: bigint, keys: string[]): bigint[] {
+  return allocateByWeights(
+    total,
+    keys.map(() => 1n),
+    keys,
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Expense Receipts
+ * Receipt files are kept off-chain; expenses only carry their keccak256 content hash
+ *
+ * Because the hash is part of the expense, it is covered by every signed channel state,
+ * and anyone holding the file can prove it is the receipt the group agreed on.
+ */
+import { type Hex, keccak256 } from "viem";
+
+export const MAX_RECEIPT_SIZE = 2 * 1024 * 1024; // 2 MB, files are relayed through ClearNode
+export const MAX_RECEIPTS_PER_EXPENSE = 5;
+export const RECEIPT_ACCEPT = "image/*,application/pdf";
+
+const RECEIPT_HASH_REGEX = /^0x[0-9a-f]{64}$/;
+
+/**
+ * Content hash of a receipt file
+ */
+export function hashReceipt(data: ArrayBuffer | Uint8Array): Hex {
+  return keccak256(data instanceof Uint8Array ? data : new Uint8Array(data));
+}
+
+/**
+ * Checks whether a value is a (lowercase) keccak256 receipt hash
+ */
+export function isReceiptHash(value: unknown): value is Hex {
+  return typeof value === "string" && RECEIPT_HASH_REGEX.test(value);
+}
+
+/**
+ * Checks whether a file type can be attached as a receipt
+ */
+export function isReceiptMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType === "application/pdf";
+}
+
+/**
+ * Validates the receipt hashes of an expense
+ * Returns a list of human readable errors (empty when valid)
+ */
+export function validateReceipts(receipts: unknown): string[] {
+  if (receipts === undefined) return [];
+  if (!Array.isArray(receipts)) return ["Receipts must be an array"];
+
+  const errors: string[] = [];
+  if (receipts.length > MAX_RECEIPTS_PER_EXPENSE) {
+    errors.push(`At most ${MAX_RECEIPTS_PER_EXPENSE} receipts can be attached to an expense`);
+  }
+  if (receipts.some(receipt => !isReceiptHash(receipt))) {
+    errors.push("Receipts must be keccak256 content hashes");
+  }
+  if (new Set(receipts).size !== receipts.length) {
+    errors.push("The same receipt is attached more than once");
+  }
+  return errors;
+}
+
+/**
+ * Base64 encode file contents for transport in a JSON message
+ */
+export function encodeReceiptData(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 file contents received in a JSON message
+ */
+export function decodeReceiptData(encoded: string): ArrayBuffer {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Human readable file size, e.g. "1.2 MB"
+ */
+export function formatFileSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,201 @@
+/**
+ * Recurring Expenses
+ * Templates for expenses that repeat on a schedule (rent, internet, utilities)
+ *
+ * Occurrence dates are calendar dates computed in UTC, and every occurrence has a
+ * deterministic instance ID, so participants materializing the same template at the
+ * same time produce the same expense instead of posting it twice.
+ */
+import { type Expense, type ExpenseValidationOptions, validateExpense } from "./expenseValidation";
+
+export type RecurrenceInterval = "daily" | "weekly" | "monthly" | "yearly";
+
+export const RECURRENCE_INTERVALS: Array<{ value: RecurrenceInterval; label: string }> = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+export type RecurringExpenseTemplate = Omit<Expense, "id" | "timestamp" | "revisions" | "receipts"> & {
+  id: string;
+  interval: RecurrenceInterval;
+  startDate: string; // yyyy-mm-dd, first occurrence
+  endDate?: string; // yyyy-mm-dd, inclusive
+  createdBy: string;
+  createdAt: number;
+};
+
+// Instances materialized per batch, each one is a state update
+export const MAX_INSTANCES_PER_RUN = 50;
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Checks whether a value is a known recurrence interval
+ */
+export function isRecurrenceInterval(value: unknown): value is RecurrenceInterval {
+  return RECURRENCE_INTERVALS.some(interval => interval.value === value);
+}
+
+/**
+ * Parse a yyyy-mm-dd date into its UTC midnight timestamp, or null if invalid
+ */
+export function parseCalendarDate(date: string): number | null {
+  const match = DATE_REGEX.exec(date);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const timestamp = Date.UTC(year, month - 1, day);
+  return new Date(timestamp).getUTCDate() === day ? timestamp : null;
+}
+
+/**
+ * Format a timestamp as a yyyy-mm-dd UTC calendar date
+ */
+export function formatCalendarDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Date of the `index`-th occurrence (0 = start date)
+ * Monthly and yearly schedules clamp to the last day of shorter months, e.g. Jan 31 -> Feb 28.
+ */
+export function getOccurrenceDate(startDate: string, interval: RecurrenceInterval, index: number): string {
+  const start = parseCalendarDate(startDate);
+  if (start === null) {
+    throw new Error(`Invalid start date: ${startDate}`);
+  }
+
+  const date = new Date(start);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (interval) {
+    case "daily":
+      return formatCalendarDate(Date.UTC(year, month, day + index));
+    case "weekly":
+      return formatCalendarDate(Date.UTC(year, month, day + 7 * index));
+    case "monthly": {
+      const target = new Date(Date.UTC(year, month + index, 1));
+      const targetDay = Math.min(day, daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+      return formatCalendarDate(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), targetDay));
+    }
+    case "yearly":
+      return formatCalendarDate(Date.UTC(year + index, month, Math.min(day, daysInMonth(year + index, month))));
+  }
+}
+
+/**
+ * Deterministic ID of the expense materialized for one occurrence
+ */
+export function getRecurringInstanceId(templateId: string, date: string): string {
+  return `${templateId}-${date}`;
+}
+
+/**
+ * Dates of all occurrences due at `now`, oldest first
+ */
+export function getDueOccurrences(template: RecurringExpenseTemplate, now: number = Date.now()): string[] {
+  const end = template.endDate ? parseCalendarDate(template.endDate) : null;
+  const dates: string[] = [];
+
+  for (let index = 0; ; index++) {
+    const date = getOccurrenceDate(template.startDate, template.interval, index);
+    const timestamp = parseCalendarDate(date) as number;
+    if (timestamp > now || (end !== null && timestamp > end)) break;
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Next occurrence after `now`, or null when the schedule has ended
+ */
+export function getNextOccurrence(template: RecurringExpenseTemplate, now: number = Date.now()): string | null {
+  const end = template.endDate ? parseCalendarDate(template.endDate) : null;
+
+  for (let index = 0; ; index++) {
+    const date = getOccurrenceDate(template.startDate, template.interval, index);
+    const timestamp = parseCalendarDate(date) as number;
+    if (end !== null && timestamp > end) return null;
+    if (timestamp > now) return date;
+  }
+}
+
+/**
+ * Build the expense for one occurrence of a template
+ */
+export function materializeOccurrence(template: RecurringExpenseTemplate, date: string): Expense {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id, interval, startDate, endDate, createdBy, createdAt, ...expenseData } = template;
+
+  return {
+    ...expenseData,
+    id: getRecurringInstanceId(template.id, date),
+    timestamp: parseCalendarDate(date) as number,
+  };
+}
+
+/**
+ * The oldest due instances of the templates that are not among `existingIds` yet, at most `limit`
+ */
+export function getMissingInstances(
+  templates: RecurringExpenseTemplate[],
+  existingIds: Set<string>,
+  now: number = Date.now(),
+  limit: number = MAX_INSTANCES_PER_RUN,
+): Expense[] {
+  return templates
+    .flatMap(template =>
+      getDueOccurrences(template, now)
+        .filter(date => !existingIds.has(getRecurringInstanceId(template.id, date)))
+        .map(date => materializeOccurrence(template, date)),
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, limit);
+}
+
+/**
+ * Validates a recurring expense template, including the expense it produces
+ * Returns a list of human readable errors (empty when the template is valid)
+ */
+export function validateRecurringExpense(
+  template: RecurringExpenseTemplate,
+  options: ExpenseValidationOptions = {},
+): string[] {
+  const errors: string[] = [];
+
+  if (!template.id || typeof template.id !== "string") {
+    errors.push("Recurring expense ID is required and must be a string");
+  }
+
+  if (!isRecurrenceInterval(template.interval)) {
+    errors.push(`Unknown recurrence interval: ${template.interval}`);
+  }
+
+  const start = parseCalendarDate(template.startDate);
+  if (start === null) {
+    errors.push("Start date must be a valid yyyy-mm-dd date");
+  }
+
+  if (template.endDate !== undefined) {
+    const end = parseCalendarDate(template.endDate);
+    if (end === null) {
+      errors.push("End date must be a valid yyyy-mm-dd date");
+    } else if (start !== null && end < start) {
+      errors.push("End date cannot be before the start date");
+    }
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const validation = validateExpense(materializeOccurrence(template, template.startDate), options);
+  return validation.errors;
+}
@@ -1,6 +1,6 @@
 import { TransactionWithFunction } from "./block";
 import { GenericContractsDeclaration } from "./contract";
-import { Abi, AbiFunction, decodeFunctionData, getAbiItem } from "viem";
+import { Abi, AbiFunction, Log, decodeEventLog, decodeFunctionData, getAbiItem } from "viem";
 import { hardhat } from "viem/chains";
 import contractData from "~~/contracts/deployedContracts";
 
@@ -63,3 +63,25 @@ export const getFunctionDetails = (transaction: TransactionType) => {
   }
   return "";
 };
+
+export type DecodedLog = {
+  contractName: string;
+  eventName: string;
+  args: Record<string, unknown>;
+};
+
+/**
+ * Decode a log with the ABIs of the deployed contracts, null when none of them emits it
+ */
+export const decodeLog = (log: Pick<Log, "data" | "topics">): DecodedLog | null => {
+  for (const [contractName, contractAbi] of Object.entries(interfaces)) {
+    try {
+      const { eventName, args } = decodeEventLog({ abi: contractAbi, data: log.data, topics: log.topics });
+      if (!eventName) continue;
+      return { contractName, eventName, args: (args ?? {}) as Record<string, unknown> };
+    } catch {
+      // do nothing
+    }
+  }
+  return null;
+};
@@ -0,0 +1,72 @@
+/**
+ * Canonical Channel State Encoding
+ * The one state hash used by the state channel client, state signatures and BatchPayChannel
+ *
+ * stateHash = keccak256(abi.encode(bytes32 channelId, uint256 nonce, int256[] balances, bytes32 expensesRoot))
+ *
+ * This must stay in sync with `BatchPayChannel.hashState`, which `_verifySignatures`
+ * checks every submitted state against before recovering the signers.
+ */
+import { type Hex, encodeAbiParameters, keccak256, toBytes, zeroHash } from "viem";
+
+export interface EncodableChannelState {
+  channelId: Hex;
+  nonce: bigint;
+  balances: bigint[]; // Parallel to the participant list
+  expensesRoot: Hex;
+}
+
+const STATE_PARAMETERS = [
+  { name: "channelId", type: "bytes32" },
+  { name: "nonce", type: "uint256" },
+  { name: "balances", type: "int256[]" },
+  { name: "expensesRoot", type: "bytes32" },
+] as const;
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so equal data always serializes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? "null" : canonicalJson(item))).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of a single expense (including its receipts and revision log)
+ */
+export function hashExpense(expense: object): Hex {
+  return keccak256(toBytes(canonicalJson(expense)));
+}
+
+/**
+ * Commitment to the ordered expense list: keccak256(abi.encode(bytes32[] expenseHashes))
+ * An empty list commits to the zero hash.
+ */
+export function getExpensesRoot(expenses: object[]): Hex {
+  if (expenses.length === 0) {
+    return zeroHash;
+  }
+  return keccak256(encodeAbiParameters([{ type: "bytes32[]" }], [expenses.map(hashExpense)]));
+}
+
+/**
+ * ABI-encode a channel state the way BatchPayChannel.hashState does
+ */
+export function encodeChannelState(state: EncodableChannelState): Hex {
+  return encodeAbiParameters(STATE_PARAMETERS, [state.channelId, state.nonce, state.balances, state.expensesRoot]);
+}
+
+/**
+ * Canonical state hash, the value every participant signs (with the EIP-191 prefix)
+ */
+export function hashChannelState(state: EncodableChannelState): Hex {
+  return keccak256(encodeChannelState(state));
+}
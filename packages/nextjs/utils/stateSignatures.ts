@@ -0,0 +1,129 @@
+/**
+ * Channel State Signatures
+ * Signing and verification of channel states in the format BatchPayChannel checks
+ *
+ * `_verifySignatures` requires an EIP-191 signature from every participant over the
+ * canonical state hash (see stateEncoding.ts).
+ */
+import { type EncodableChannelState, getExpensesRoot, hashChannelState } from "./stateEncoding";
+import { type Address, type Hex, recoverMessageAddress } from "viem";
+import type { ChannelState } from "~~/types/nitrolite";
+
+// How long a signing round waits for all participants
+export const SIGNING_ROUND_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+// Matches BatchPayChannel.ChannelStateData
+export interface SignableChannelState extends EncodableChannelState {
+  stateHash: Hex;
+}
+
+// JSON-safe form for ClearNode messages
+export interface SerializedChannelState {
+  channelId: string;
+  stateHash: string;
+  nonce: string;
+  balances: string[];
+  expensesRoot: string;
+}
+
+/**
+ * Complete a state with its canonical hash
+ */
+export function toSignableState(state: EncodableChannelState): SignableChannelState {
+  return { ...state, stateHash: hashChannelState(state) };
+}
+
+/**
+ * The client's current state, with balances in the given (on-chain) participant order
+ */
+export function getSignableState(channel: ChannelState, participants: readonly string[]): SignableChannelState {
+  const balances = new Map(channel.participants.map(p => [p.address.toLowerCase(), p.balance]));
+  return toSignableState({
+    channelId: channel.channelId as Hex,
+    nonce: BigInt(channel.nonce),
+    balances: participants.map(participant => balances.get(participant.toLowerCase()) ?? 0n),
+    expensesRoot: (channel.expensesRoot as Hex | undefined) ?? getExpensesRoot([]),
+  });
+}
+
+/**
+ * What differs between a proposed state and our own, empty when they are the same state
+ */
+export function getStateDifferences(proposed: SignableChannelState, own: SignableChannelState): string[] {
+  if (proposed.stateHash.toLowerCase() === own.stateHash.toLowerCase()) {
+    return [];
+  }
+
+  const differences: string[] = [];
+  if (proposed.channelId.toLowerCase() !== own.channelId.toLowerCase()) {
+    differences.push("channel");
+  }
+  if (proposed.nonce !== own.nonce) {
+    differences.push(`nonce ${proposed.nonce} instead of ${own.nonce}`);
+  }
+  if (
+    proposed.balances.length !== own.balances.length ||
+    proposed.balances.some((balance, index) => balance !== own.balances[index])
+  ) {
+    differences.push("balances");
+  }
+  if (proposed.expensesRoot.toLowerCase() !== own.expensesRoot.toLowerCase()) {
+    differences.push("expenses");
+  }
+  return differences;
+}
+
+export function serializeChannelState(state: SignableChannelState): SerializedChannelState {
+  return {
+    channelId: state.channelId,
+    stateHash: state.stateHash,
+    nonce: state.nonce.toString(),
+    balances: state.balances.map(balance => balance.toString()),
+    expensesRoot: state.expensesRoot,
+  };
+}
+
+/**
+ * Parse a state received from a peer, throwing when it is malformed
+ */
+export function deserializeChannelState(state: SerializedChannelState): SignableChannelState {
+  const bytes32Regex = /^0x[0-9a-fA-F]{64}$/;
+  if (![state?.channelId, state?.stateHash, state?.expensesRoot].every(value => bytes32Regex.test(value))) {
+    throw new Error("State channel ID, hash and expenses root must be 32-byte hex strings");
+  }
+  if (!Array.isArray(state.balances)) {
+    throw new Error("State balances must be an array");
+  }
+
+  const parsed = toSignableState({
+    channelId: state.channelId as Hex,
+    nonce: BigInt(state.nonce),
+    balances: state.balances.map(balance => BigInt(balance)),
+    expensesRoot: state.expensesRoot as Hex,
+  });
+  if (parsed.stateHash.toLowerCase() !== state.stateHash.toLowerCase()) {
+    throw new Error("State hash does not match the state contents");
+  }
+  return parsed;
+}
+
+/**
+ * Recover the participant that signed a state
+ */
+export async function recoverStateSigner(state: SignableChannelState, signature: Hex): Promise<Address> {
+  return recoverMessageAddress({ message: { raw: hashChannelState(state) }, signature });
+}
+
+/**
+ * Signatures in participant order, as passed to updateState / closeChannel
+ * Throws when a participant has not signed.
+ */
+export function orderSignatures(participants: readonly string[], signatures: Record<string, Hex>): Hex[] {
+  return participants.map(participant => {
+    const signature = signatures[participant.toLowerCase()];
+    if (!signature) {
+      throw new Error(`Missing signature from ${participant}`);
+    }
+    return signature;
+  });
+}